@@ -4,13 +4,26 @@ import express, {
 	NextFunction,
 	ErrorRequestHandler,
 } from "express";
-import { config } from "./utils/config";
+import { config, validateChainConfigs } from "./utils/config";
 import logger from "./utils/logger";
 import { connectDB, disconnectDB } from "./utils/db";
 import eventsRouter from "./controllers/eventsController";
+import withdrawalsRouter from "./controllers/withdrawalsController";
+import integratorsRouter from "./controllers/integratorsController";
+import adminRouter from "./controllers/adminController";
+import revenueRouter from "./controllers/revenueController";
 import { ScannerService } from "./services/scannerService";
+import { BackfillService } from "./services/backfillService";
+import { ReconciliationService } from "./services/reconciliationService";
+import { ChainRegistryService } from "./services/chainRegistryService";
+import { ConfigWatcherService } from "./services/configWatcherService";
+import { DeploymentBlockService } from "./services/deploymentBlockService";
+import { EventService } from "./services/eventService";
+import { FailedChunkService } from "./services/failedChunkService";
+import { PriceService } from "./services/priceService";
 import { ZodError } from "zod";
 import { requestLogger } from "./middleware/requestLogger";
+import { requireAdminToken } from "./middleware/adminAuth";
 
 const app = express();
 
@@ -23,6 +36,18 @@ app.use(requestLogger);
 // Mount the events router at /events
 app.use("/events", eventsRouter);
 
+// Mount the withdrawals router at /withdrawals
+app.use("/withdrawals", withdrawalsRouter);
+
+// Mount the integrators router at /integrators
+app.use("/integrators", integratorsRouter);
+
+// Mount the revenue router at /revenue
+app.use("/revenue", revenueRouter);
+
+// Mount the operational/admin router at /admin, behind the admin token
+app.use("/admin", requireAdminToken, adminRouter);
+
 // Basic health check endpoint
 app.get("/health", (req: Request, res: Response) => {
 	res.json({ status: "ok" });
@@ -43,10 +68,20 @@ app.use(errorHandler);
 
 const startScanner = async () => {
 	try {
-		// Initialize and run the scanner service to process blockchain events
 		const scannerService = ScannerService.getInstance();
-		await scannerService.scanAllChains();
-		logger.info("Scanner finished running");
+
+		// Pick up backfill jobs interrupted by the previous shutdown, created on an API
+		// replica, or left behind by a replica that stopped
+		BackfillService.getInstance().startResuming();
+
+		if (config.scanMode === "once") {
+			// Run a single catch-up scan and exit the scanner afterwards
+			await scannerService.scanAllChains();
+			logger.info("Scanner finished running");
+			return;
+		}
+		// Keep following every enabled chain until shutdown
+		scannerService.startFollowing();
 	} catch (error) {
 		logger.error({ error }, "Error in scanner process");
 	}
@@ -57,29 +92,53 @@ const startServer = async () => {
 		// Connect to MongoDB using the URI from config
 		await connectDB(config.mongoUri);
 
-		// Start the scanner in the background
-		startScanner();
+		// Chains stored in the database complete the registry before anything reads it
+		await ChainRegistryService.getInstance().loadFromDatabase();
+		validateChainConfigs();
+		await DeploymentBlockService.getInstance().loadFromDatabase();
+		PriceService.getInstance().loadSource();
 
-		// Start the Express server
-		app.listen(config.port, () => {
-			logger.info(`Server listening on port ${config.port}`);
-		});
+		// Checkpoints and failed chunks used to be tracked per chain only
+		await EventService.getInstance().adoptLegacyCheckpoints();
+		await FailedChunkService.getInstance().adoptLegacyChunks();
+
+		// Event indexes replaced since the collection was created are dropped
+		await EventService.getInstance().syncEventIndexes();
+
+		// Reports left running by the previous shutdown can never finish
+		await ReconciliationService.getInstance().failInterruptedReports();
+
+		// Apply changes of the config file without a restart
+		ConfigWatcherService.getInstance().start();
+
+		// Start the scanner in the background, unless this replica only serves the API
+		if (config.serviceRole !== "api") {
+			startScanner();
+		}
+
+		// Start the Express server, unless this replica only scans
+		if (config.serviceRole !== "scanner") {
+			app.listen(config.port, () => {
+				logger.info(`Server listening on port ${config.port}`);
+			});
+		}
 	} catch (error) {
 		logger.error({ error }, "Failed to start server");
 		process.exit(1);
 	}
 };
 
-process.on("SIGINT", async () => {
-	logger.info("Received SIGINT. Shutting down gracefully...");
+const shutdown = async (signal: NodeJS.Signals) => {
+	logger.info(`Received ${signal}. Shutting down gracefully...`);
+	ConfigWatcherService.getInstance().stop();
+	await ScannerService.getInstance().stopFollowing();
+	await BackfillService.getInstance().stopAll();
+	await ReconciliationService.getInstance().stopAll();
 	await disconnectDB();
 	process.exit(0);
-});
+};
 
-process.on("SIGTERM", async () => {
-	logger.info("Received SIGTERM. Shutting down gracefully...");
-	await disconnectDB();
-	process.exit(0);
-});
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
 
 startServer();
@@ -0,0 +1,612 @@
+import {
+	Request,
+	Response,
+	NextFunction,
+	Router,
+	RequestHandler,
+} from "express";
+import { ScannerService } from "../services/scannerService";
+import { BlockchainService } from "../services/blockchainService";
+import { FailedChunkService } from "../services/failedChunkService";
+import { CoverageService } from "../services/coverageService";
+import { LeaseService } from "../services/leaseService";
+import {
+	BackfillJobDocument,
+	BackfillService,
+} from "../services/backfillService";
+import {
+	ReconciliationReportDocument,
+	ReconciliationService,
+} from "../services/reconciliationService";
+import {
+	BackfillRequestSchema,
+	ChainIdParamSchema,
+	IdParamSchema,
+	ReconciliationRequestSchema,
+} from "../types/schemas";
+import { NotFoundError, ValidationError } from "../errors/AppError";
+import {
+	config,
+	getContractDeployments,
+	getSupportedChainIds,
+	isSupportedChain,
+} from "../utils/config";
+import logger from "../utils/logger";
+
+/**
+ * Controller to report the scanner state for each enabled chain.
+ * GET /admin/scanner
+ */
+export const getScannerStatus: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const scannerService = ScannerService.getInstance();
+		const blockchainService = BlockchainService.getInstance();
+		const leaseService = LeaseService.getInstance();
+		const leases = await leaseService.listLeases();
+		const now = Date.now();
+		const chains = config.enabledChains.map((chainId) => {
+			const lease = leases.find((l) => l.chainId === chainId);
+			return {
+				chainId,
+				lease:
+					lease && lease.expiresAt.getTime() > now
+						? {
+								ownerId: lease.ownerId,
+								ownedByThisInstance:
+									lease.ownerId === leaseService.getOwnerId(),
+								acquiredAt: lease.acquiredAt,
+								expiresAt: lease.expiresAt,
+							}
+						: null,
+				chunkSize: scannerService.getChunkSize(chainId),
+				scanConcurrency: config.chains[chainId].scanConcurrency,
+				throughput: scannerService.getThroughput(chainId),
+				circuitBreaker: blockchainService.getCircuitState(chainId),
+				rpcEndpoints: blockchainService.getRpcHealth(chainId),
+			};
+		});
+		res.json({
+			success: true,
+			data: {
+				instanceId: leaseService.getOwnerId(),
+				serviceRole: config.serviceRole,
+				following: scannerService.isFollowing(),
+				chains,
+			},
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch scanner status");
+		next(error);
+	}
+};
+
+/**
+ * Controller to list the chain registry.
+ * RPC endpoints are left out since their URLs often hold API keys.
+ * GET /admin/chains
+ */
+export const getChains: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const chains = getSupportedChainIds().map((chainId) => {
+			const chain = config.chains[chainId];
+			return {
+				chainId,
+				name: chain.name,
+				enabled: config.enabledChains.includes(chainId),
+				explorerUrl: chain.explorerUrl,
+				startBlock: chain.startBlock,
+				confirmations: chain.confirmations,
+				contracts: chain.contracts,
+				rpcEndpointCount: chain.rpcUrls.length,
+			};
+		});
+		res.json({
+			success: true,
+			data: { chains },
+			meta: {
+				count: chains.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch chains");
+		next(error);
+	}
+};
+
+/**
+ * Parses the optional chainId query parameter shared by the failed-chunk routes.
+ * @returns The chain ID, undefined when absent, or null when it is not a supported chain
+ */
+const parseChainIdQuery = (req: Request): number | undefined | null => {
+	if (req.query.chainId === undefined) return undefined;
+	const query = ChainIdParamSchema.safeParse(req.query);
+	return query.success && isSupportedChain(query.data.chainId)
+		? query.data.chainId
+		: null;
+};
+
+const invalidChainIdResponse = (res: Response) =>
+	res.status(400).json({
+		success: false,
+		error: `Invalid chain ID. Supported chains: ${getSupportedChainIds().join(", ")}`,
+	});
+
+/**
+ * Controller to list the block ranges the scanner failed to process.
+ * GET /admin/failed-chunks?chainId=
+ */
+export const getFailedChunks: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const chainId = parseChainIdQuery(req);
+		if (chainId === null) {
+			invalidChainIdResponse(res);
+			return;
+		}
+
+		const chunks =
+			await FailedChunkService.getInstance().listFailedChunks(chainId);
+		res.json({
+			success: true,
+			data: { chunks },
+			meta: {
+				count: chunks.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch failed chunks");
+		next(error);
+	}
+};
+
+/**
+ * Controller to clear failed block ranges without retrying them.
+ * DELETE /admin/failed-chunks?chainId=
+ */
+export const clearFailedChunks: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const chainId = parseChainIdQuery(req);
+		if (chainId === null) {
+			invalidChainIdResponse(res);
+			return;
+		}
+
+		const deletedCount =
+			await FailedChunkService.getInstance().clearFailedChunks(chainId);
+		logger.info({ chainId, deletedCount }, "Cleared failed chunks via admin");
+		res.json({
+			success: true,
+			data: { deletedCount },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to clear failed chunks");
+		next(error);
+	}
+};
+
+/**
+ * Controller to report the scanned block ranges of each contract on a chain and the gaps between them.
+ * GET /admin/coverage/:chainId
+ */
+export const getCoverage: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const params = ChainIdParamSchema.safeParse(req.params);
+		if (!params.success || !isSupportedChain(params.data.chainId)) {
+			invalidChainIdResponse(res);
+			return;
+		}
+		const { chainId } = params.data;
+
+		const coverageService = CoverageService.getInstance();
+		const contracts = await Promise.all(
+			getContractDeployments(chainId).map(async (deployment) => {
+				const [ranges, gaps] = await Promise.all([
+					coverageService.getCoverage(chainId, deployment.address),
+					coverageService.findGaps(chainId, deployment.address),
+				]);
+				return {
+					contractAddress: deployment.address,
+					startBlock: deployment.startBlock,
+					endBlock: deployment.endBlock,
+					ranges,
+					gaps,
+				};
+			})
+		);
+		const gaps = contracts.flatMap((contract) => contract.gaps);
+		res.json({
+			success: true,
+			data: {
+				chainId,
+				contracts,
+			},
+			meta: {
+				gapCount: gaps.length,
+				missingBlocks: gaps.reduce(
+					(sum, gap) => sum + gap.toBlock - gap.fromBlock + 1,
+					0
+				),
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch coverage");
+		next(error);
+	}
+};
+
+/**
+ * Shapes a backfill job for API responses, including its progress.
+ */
+const toBackfillJobResponse = (job: BackfillJobDocument) => {
+	const totalBlocks = job.toBlock - job.fromBlock + 1;
+	const scannedBlocks = Math.min(job.nextBlock - job.fromBlock, totalBlocks);
+	return {
+		id: job._id.toString(),
+		chainId: job.chainId,
+		fromBlock: job.fromBlock,
+		toBlock: job.toBlock,
+		status: job.status,
+		progress: {
+			nextBlock: job.nextBlock,
+			scannedBlocks,
+			totalBlocks,
+			percent: Math.floor((scannedBlocks / totalBlocks) * 100),
+		},
+		eventsFound: job.eventsFound,
+		chunkErrors: job.chunkErrors,
+		error: job.error,
+		ownerId: job.ownerId,
+		createdAt: job.createdAt,
+		startedAt: job.startedAt,
+		finishedAt: job.finishedAt,
+	};
+};
+
+/**
+ * Maps the backfill service's validation and lookup errors to client responses.
+ * @returns Whether a response was sent
+ */
+const sendBackfillClientError = (error: unknown, res: Response): boolean => {
+	if (error instanceof NotFoundError) {
+		res.status(404).json({ success: false, error: error.message });
+		return true;
+	}
+	if (error instanceof ValidationError) {
+		res.status(400).json({ success: false, error: error.message });
+		return true;
+	}
+	return false;
+};
+
+/**
+ * Controller to create a backfill job for a historic block range.
+ * POST /admin/backfill
+ */
+export const createBackfillJob: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const result = BackfillRequestSchema.safeParse(req.body);
+		if (!result.success) {
+			res.status(400).json({
+				success: false,
+				error: result.error.errors[0].message,
+			});
+			return;
+		}
+		const { chainId, fromBlock, toBlock } = result.data;
+		if (!isSupportedChain(chainId)) {
+			invalidChainIdResponse(res);
+			return;
+		}
+
+		const job = await BackfillService.getInstance().createJob(
+			chainId,
+			fromBlock,
+			toBlock
+		);
+		res.status(202).json({
+			success: true,
+			data: { job: toBackfillJobResponse(job) },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		if (sendBackfillClientError(error, res)) return;
+		logger.error({ error }, "Failed to create backfill job");
+		next(error);
+	}
+};
+
+/**
+ * Controller to list the most recent backfill jobs.
+ * GET /admin/backfill
+ */
+export const getBackfillJobs: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const jobs = await BackfillService.getInstance().listJobs();
+		res.json({
+			success: true,
+			data: { jobs: jobs.map(toBackfillJobResponse) },
+			meta: {
+				count: jobs.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch backfill jobs");
+		next(error);
+	}
+};
+
+/**
+ * Controller to report the progress of a backfill job.
+ * GET /admin/backfill/:id
+ */
+export const getBackfillJob: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const params = IdParamSchema.safeParse(req.params);
+		if (!params.success) {
+			res.status(400).json({
+				success: false,
+				error: params.error.errors[0].message,
+			});
+			return;
+		}
+		const job = await BackfillService.getInstance().getJob(params.data.id);
+		res.json({
+			success: true,
+			data: { job: toBackfillJobResponse(job) },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		if (sendBackfillClientError(error, res)) return;
+		logger.error({ error }, "Failed to fetch backfill job");
+		next(error);
+	}
+};
+
+/**
+ * Controller to cancel a pending or running backfill job.
+ * POST /admin/backfill/:id/cancel
+ */
+export const cancelBackfillJob: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const params = IdParamSchema.safeParse(req.params);
+		if (!params.success) {
+			res.status(400).json({
+				success: false,
+				error: params.error.errors[0].message,
+			});
+			return;
+		}
+		const job = await BackfillService.getInstance().cancelJob(params.data.id);
+		res.json({
+			success: true,
+			data: { job: toBackfillJobResponse(job) },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		if (sendBackfillClientError(error, res)) return;
+		logger.error({ error }, "Failed to cancel backfill job");
+		next(error);
+	}
+};
+
+/**
+ * Shapes a reconciliation report for API responses.
+ */
+const toReconciliationReportResponse = (
+	report: ReconciliationReportDocument
+) => ({
+	id: report._id.toString(),
+	chainId: report.chainId,
+	contractAddress: report.contractAddress,
+	blockNumber: report.blockNumber,
+	status: report.status,
+	ownerId: report.ownerId,
+	checked: report.checked,
+	mismatchCount: report.mismatchCount,
+	mismatches: report.mismatches,
+	error: report.error,
+	createdAt: report.createdAt,
+	finishedAt: report.finishedAt,
+});
+
+/**
+ * Controller to start reconciling a contract's derived balances with its on-chain balances.
+ * POST /admin/reconciliation
+ */
+export const createReconciliation: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const result = ReconciliationRequestSchema.safeParse(req.body);
+		if (!result.success) {
+			res.status(400).json({
+				success: false,
+				error: result.error.errors[0].message,
+			});
+			return;
+		}
+		const { chainId, contractAddress } = result.data;
+		if (!isSupportedChain(chainId)) {
+			invalidChainIdResponse(res);
+			return;
+		}
+
+		const report =
+			await ReconciliationService.getInstance().startReconciliation(
+				chainId,
+				contractAddress
+			);
+		res.status(202).json({
+			success: true,
+			data: { report: toReconciliationReportResponse(report) },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		if (sendBackfillClientError(error, res)) return;
+		logger.error({ error }, "Failed to start reconciliation");
+		next(error);
+	}
+};
+
+/**
+ * Controller to list the most recent reconciliation reports, without their mismatches.
+ * GET /admin/reconciliation?chainId=
+ */
+export const getReconciliationReports: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const chainId = parseChainIdQuery(req);
+		if (chainId === null) {
+			invalidChainIdResponse(res);
+			return;
+		}
+
+		const reports =
+			await ReconciliationService.getInstance().listReports(chainId);
+		res.json({
+			success: true,
+			data: { reports: reports.map(toReconciliationReportResponse) },
+			meta: {
+				count: reports.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch reconciliation reports");
+		next(error);
+	}
+};
+
+/**
+ * Controller to report a reconciliation run and its mismatches.
+ * GET /admin/reconciliation/:id
+ */
+export const getReconciliationReport: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const params = IdParamSchema.safeParse(req.params);
+		if (!params.success) {
+			res.status(400).json({
+				success: false,
+				error: params.error.errors[0].message,
+			});
+			return;
+		}
+		const report = await ReconciliationService.getInstance().getReport(
+			params.data.id
+		);
+		res.json({
+			success: true,
+			data: { report: toReconciliationReportResponse(report) },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		if (sendBackfillClientError(error, res)) return;
+		logger.error({ error }, "Failed to fetch reconciliation report");
+		next(error);
+	}
+};
+
+// Express router setup
+const router = Router();
+
+// GET /scanner
+router.get("/scanner", getScannerStatus);
+
+// GET /chains
+router.get("/chains", getChains);
+
+// GET /failed-chunks
+router.get("/failed-chunks", getFailedChunks);
+
+// DELETE /failed-chunks
+router.delete("/failed-chunks", clearFailedChunks);
+
+// GET /coverage/:chainId
+router.get("/coverage/:chainId", getCoverage);
+
+// POST /backfill
+router.post("/backfill", createBackfillJob);
+
+// GET /backfill
+router.get("/backfill", getBackfillJobs);
+
+// GET /backfill/:id
+router.get("/backfill/:id", getBackfillJob);
+
+// POST /backfill/:id/cancel
+router.post("/backfill/:id/cancel", cancelBackfillJob);
+
+// POST /reconciliation
+router.post("/reconciliation", createReconciliation);
+
+// GET /reconciliation
+router.get("/reconciliation", getReconciliationReports);
+
+// GET /reconciliation/:id
+router.get("/reconciliation/:id", getReconciliationReport);
+
+export default router;
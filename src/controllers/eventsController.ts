@@ -6,14 +6,25 @@ import {
 	RequestHandler,
 } from "express";
 import { EventService } from "../services/eventService";
+import { TokenService } from "../services/tokenService";
+import { PriceService } from "../services/priceService";
 import logger from "../utils/logger";
-import { FeeCollectedEvent } from "../types/events";
-import { IntegratorParamSchema } from "../types/schemas";
-import { ChainIds } from "../types/chains";
+import { FeeCollectedEventResponse } from "../types/events";
+import {
+	ChainIdParamSchema,
+	EventPageQuerySchema,
+	IntegratorParamSchema,
+} from "../types/schemas";
+import {
+	getCurrentContract,
+	getSupportedChainIds,
+	isSupportedChain,
+} from "../utils/config";
+import { encodeEventCursor } from "../utils/eventCursor";
 
 /**
- * Controller to handle retrieving all collected events for a given integrator.
- * GET /events/integrator/:chainId/:integrator
+ * Controller to handle retrieving the collected events of a given integrator, one page at a time.
+ * GET /events/integrator/:chainId/:integrator?limit=&cursor=&order=
  */
 export const getEventsByIntegrator: RequestHandler = async (
 	req: Request,
@@ -31,23 +42,51 @@ export const getEventsByIntegrator: RequestHandler = async (
 			return;
 		}
 		const { integrator } = result.data;
-		const chainId = parseInt(req.params.chainId, 10);
 
 		// Validate chainId
-		if (!Object.values(ChainIds).includes(chainId)) {
+		const params = ChainIdParamSchema.safeParse(req.params);
+		if (!params.success || !isSupportedChain(params.data.chainId)) {
 			res.status(400).json({
 				success: false,
-				error: `Invalid chain ID. Supported chains: ${Object.values(ChainIds)
-					.filter((id) => typeof id === "number")
-					.join(", ")}`,
+				error: `Invalid chain ID. Supported chains: ${getSupportedChainIds().join(", ")}`,
 			});
 			return;
 		}
+		const { chainId } = params.data;
 
-		// Query the database for events with the given integrator and chain
+		// Validate the page size, cursor and sort direction
+		const page = EventPageQuerySchema.safeParse(req.query);
+		if (!page.success) {
+			res.status(400).json({
+				success: false,
+				error: page.error.errors[0].message,
+			});
+			return;
+		}
+
+		// Query the database for a page of events with the given integrator and chain
 		const eventService = EventService.getInstance();
-		const events: FeeCollectedEvent[] =
-			await eventService.getEventsByIntegrator(chainId, integrator);
+		const { events: storedEvents, hasMore } =
+			await eventService.getEventsByIntegrator(chainId, integrator, page.data);
+
+		// Events above their contract's checkpoint belong to the unconfirmed pending tier
+		const checkpoints = await eventService.getCheckpoints(chainId);
+		const finalizedBlock = checkpoints.get(
+			getCurrentContract(chainId).address.toLowerCase()
+		)!;
+		const events: FeeCollectedEventResponse[] =
+			await PriceService.getInstance().valueEvents(
+				await TokenService.getInstance().withFormattedAmounts(
+					storedEvents.map((event) => ({
+						...event,
+						finalized:
+							event.blockNumber <=
+							(checkpoints.get(event.contractAddress.toLowerCase()) ??
+								finalizedBlock),
+					})),
+					["integratorFee", "lifiFee"]
+				)
+			);
 		logger.info(
 			{ chainId, integrator, count: events.length },
 			"Fetched events for integrator"
@@ -57,6 +96,12 @@ export const getEventsByIntegrator: RequestHandler = async (
 			data: { events },
 			meta: {
 				count: events.length,
+				finalizedBlock,
+				// Continues after the last event of this page, in the same order
+				nextCursor: hasMore
+					? encodeEventCursor(storedEvents[storedEvents.length - 1])
+					: null,
+				hasMore,
 				timestamp: Date.now(),
 			},
 		});
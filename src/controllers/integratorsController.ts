@@ -0,0 +1,80 @@
+import {
+	Request,
+	Response,
+	NextFunction,
+	Router,
+	RequestHandler,
+} from "express";
+import { BalanceService } from "../services/balanceService";
+import { TokenService } from "../services/tokenService";
+import logger from "../utils/logger";
+import { ChainIdParamSchema, IntegratorParamSchema } from "../types/schemas";
+import { getSupportedChainIds, isSupportedChain } from "../utils/config";
+
+/**
+ * Controller to handle retrieving the claimable fee balances of an integrator.
+ * GET /integrators/:integrator/balances?chainId=
+ */
+export const getIntegratorBalances: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Validate the integrator address from params
+		const result = IntegratorParamSchema.safeParse(req.params);
+		if (!result.success) {
+			res.status(400).json({
+				success: false,
+				error: result.error.errors[0].message,
+			});
+			return;
+		}
+		const { integrator } = result.data;
+
+		// Validate the optional chainId filter
+		let chainId: number | undefined;
+		if (req.query.chainId !== undefined) {
+			const query = ChainIdParamSchema.safeParse(req.query);
+			if (!query.success || !isSupportedChain(query.data.chainId)) {
+				res.status(400).json({
+					success: false,
+					error: `Invalid chain ID. Supported chains: ${getSupportedChainIds().join(", ")}`,
+				});
+				return;
+			}
+			chainId = query.data.chainId;
+		}
+
+		const balances = await TokenService.getInstance().withFormattedAmounts(
+			await BalanceService.getInstance().getIntegratorBalances(
+				integrator,
+				chainId
+			),
+			["collected", "withdrawn", "claimable"]
+		);
+		logger.info(
+			{ integrator, chainId, count: balances.length },
+			"Fetched balances for integrator"
+		);
+		res.json({
+			success: true,
+			data: { balances },
+			meta: {
+				count: balances.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch balances for integrator");
+		next(error);
+	}
+};
+
+// Express router setup
+const router = Router();
+
+// GET /:integrator/balances
+router.get("/:integrator/balances", getIntegratorBalances);
+
+export default router;
@@ -0,0 +1,70 @@
+import {
+	Request,
+	Response,
+	NextFunction,
+	Router,
+	RequestHandler,
+} from "express";
+import { PriceService } from "../services/priceService";
+import logger from "../utils/logger";
+import { RevenueQuerySchema } from "../types/schemas";
+import { getSupportedChainIds, isSupportedChain } from "../utils/config";
+
+/**
+ * Controller to handle retrieving the fee revenue in USD.
+ * GET /revenue?chainId=&integrator=&from=&to=
+ */
+export const getRevenue: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Validate the optional filters
+		const result = RevenueQuerySchema.safeParse(req.query);
+		if (!result.success) {
+			res.status(400).json({
+				success: false,
+				error: result.error.errors[0].message,
+			});
+			return;
+		}
+		const filter = result.data;
+
+		if (filter.chainId !== undefined && !isSupportedChain(filter.chainId)) {
+			res.status(400).json({
+				success: false,
+				error: `Invalid chain ID. Supported chains: ${getSupportedChainIds().join(", ")}`,
+			});
+			return;
+		}
+
+		const revenue = await PriceService.getInstance().getRevenue(filter);
+		logger.info(
+			{
+				...filter,
+				pricedEvents: revenue.pricedEvents,
+				unpricedEvents: revenue.unpricedEvents,
+			},
+			"Computed revenue"
+		);
+		res.json({
+			success: true,
+			data: { revenue },
+			meta: {
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to compute revenue");
+		next(error);
+	}
+};
+
+// Express router setup
+const router = Router();
+
+// GET /
+router.get("/", getRevenue);
+
+export default router;
@@ -0,0 +1,125 @@
+import {
+	Request,
+	Response,
+	NextFunction,
+	Router,
+	RequestHandler,
+} from "express";
+import { EventService } from "../services/eventService";
+import { TokenService } from "../services/tokenService";
+import logger from "../utils/logger";
+import { WithdrawalEventResponse } from "../types/events";
+import { ChainIdParamSchema, IntegratorParamSchema } from "../types/schemas";
+import { getSupportedChainIds, isSupportedChain } from "../utils/config";
+
+/**
+ * Parses the chainId route param, answering with 400 if it is not a supported chain.
+ * @returns The chain ID, or null if the response was already sent
+ */
+const parseChainId = (req: Request, res: Response): number | null => {
+	const params = ChainIdParamSchema.safeParse(req.params);
+	if (!params.success || !isSupportedChain(params.data.chainId)) {
+		res.status(400).json({
+			success: false,
+			error: `Invalid chain ID. Supported chains: ${getSupportedChainIds().join(", ")}`,
+		});
+		return null;
+	}
+	return params.data.chainId;
+};
+
+/**
+ * Controller to handle retrieving the fee withdrawals of a given integrator.
+ * GET /withdrawals/integrator/:chainId/:integrator
+ */
+export const getWithdrawalsByIntegrator: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		// Validate the integrator address and chainId from params
+		const result = IntegratorParamSchema.safeParse(req.params);
+		if (!result.success) {
+			res.status(400).json({
+				success: false,
+				error: result.error.errors[0].message,
+			});
+			return;
+		}
+		const { integrator } = result.data;
+		const chainId = parseChainId(req, res);
+		if (chainId === null) return;
+
+		const withdrawals: WithdrawalEventResponse[] =
+			await TokenService.getInstance().withFormattedAmounts(
+				await EventService.getInstance().getWithdrawalsByIntegrator(
+					chainId,
+					integrator
+				),
+				["amount"]
+			);
+		logger.info(
+			{ chainId, integrator, count: withdrawals.length },
+			"Fetched withdrawals for integrator"
+		);
+		res.json({
+			success: true,
+			data: { withdrawals },
+			meta: {
+				count: withdrawals.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch withdrawals for integrator");
+		next(error);
+	}
+};
+
+/**
+ * Controller to handle retrieving the withdrawals of LiFi's own fees on a chain.
+ * GET /withdrawals/lifi/:chainId
+ */
+export const getLiFiWithdrawals: RequestHandler = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const chainId = parseChainId(req, res);
+		if (chainId === null) return;
+
+		const withdrawals: WithdrawalEventResponse[] =
+			await TokenService.getInstance().withFormattedAmounts(
+				await EventService.getInstance().getLiFiWithdrawals(chainId),
+				["amount"]
+			);
+		logger.info(
+			{ chainId, count: withdrawals.length },
+			"Fetched LiFi withdrawals"
+		);
+		res.json({
+			success: true,
+			data: { withdrawals },
+			meta: {
+				count: withdrawals.length,
+				timestamp: Date.now(),
+			},
+		});
+	} catch (error) {
+		logger.error({ error }, "Failed to fetch LiFi withdrawals");
+		next(error);
+	}
+};
+
+// Express router setup
+const router = Router();
+
+// GET /integrator/:chainId/:integrator
+router.get("/integrator/:chainId/:integrator", getWithdrawalsByIntegrator);
+
+// GET /lifi/:chainId
+router.get("/lifi/:chainId", getLiFiWithdrawals);
+
+export default router;
@@ -5,6 +5,8 @@
  * Used for consistent error handling and propagation throughout the app.
  */
 
+import { EventConflict } from "../types/events";
+
 /**
  * Base error class for application-specific errors.
  * Provides consistent error handling and classification throughout the application.
@@ -24,14 +26,41 @@ export class AppError extends Error {
  * Used for RPC errors, network issues, and contract interaction failures.
  *
  * @extends {AppError}
+ * @property {boolean} retryable - Whether the failure is transient, e.g. a timeout, and may succeed later
  */
 export class BlockchainError extends AppError {
-	constructor(message: string) {
+	constructor(message: string, public retryable = false) {
 		super(message);
 		Object.setPrototypeOf(this, BlockchainError.prototype);
 	}
 }
 
+/**
+ * Represents an RPC rejecting a log query because the block range or result set is too large.
+ * The scanner retries such queries with a smaller block range.
+ *
+ * @extends {BlockchainError}
+ */
+export class RangeLimitError extends BlockchainError {
+	constructor(message: string) {
+		super(message);
+		Object.setPrototypeOf(this, RangeLimitError.prototype);
+	}
+}
+
+/**
+ * Represents a call rejected because the chain's circuit breaker is open after repeated RPC failures.
+ *
+ * @extends {BlockchainError}
+ * @property {number} retryAfterMs - Time until the breaker lets a probe call through
+ */
+export class CircuitOpenError extends BlockchainError {
+	constructor(message: string, public retryAfterMs: number) {
+		super(message);
+		Object.setPrototypeOf(this, CircuitOpenError.prototype);
+	}
+}
+
 /**
  * Represents errors that occur during database operations.
  * Used for connection issues, query failures, and data validation errors.
@@ -45,6 +74,20 @@ export class DatabaseError extends AppError {
 	}
 }
 
+/**
+ * Represents stored data that contradicts newly indexed data,
+ * e.g. the same event key stored with different fee values.
+ *
+ * @extends {AppError}
+ * @property {EventConflict[]} conflicts - The conflicting events
+ */
+export class DataIntegrityError extends AppError {
+	constructor(message: string, public conflicts: EventConflict[]) {
+		super(message);
+		Object.setPrototypeOf(this, DataIntegrityError.prototype);
+	}
+}
+
 /**
  * Represents errors that occur during data validation.
  * Used for schema validation failures and invalid input data.
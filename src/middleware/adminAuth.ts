@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from "express";
+import crypto from "crypto";
+import { config } from "../utils/config";
+import logger from "../utils/logger";
+
+/**
+ * Compares two tokens in constant time, so the response time does not leak how much of a guess matched
+ */
+const tokensMatch = (received: string, expected: string): boolean => {
+	const receivedHash = crypto.createHash("sha256").update(received).digest();
+	const expectedHash = crypto.createHash("sha256").update(expected).digest();
+	return crypto.timingSafeEqual(receivedHash, expectedHash);
+};
+
+/**
+ * Guards the admin routes with the bearer token of ADMIN_API_TOKEN.
+ * Without a configured token the admin API is disabled and answers 404.
+ */
+export const requireAdminToken = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	const token = config.adminApiToken;
+	if (!token) {
+		res.status(404).json({
+			success: false,
+			error: "The admin API is disabled, set ADMIN_API_TOKEN to enable it",
+		});
+		return;
+	}
+
+	const [scheme, received] = (req.get("authorization") ?? "").split(" ");
+	if (scheme !== "Bearer" || !received || !tokensMatch(received, token)) {
+		logger.warn(
+			{
+				type: "admin_auth_failed",
+				method: req.method,
+				url: req.url,
+				ip: req.ip,
+			},
+			"Rejected admin request without a valid token"
+		);
+		res.status(401).json({
+			success: false,
+			error: "A valid admin token is required",
+		});
+		return;
+	}
+
+	next();
+};
@@ -0,0 +1,89 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+import { BackfillJobStatus } from "../types/backfill";
+
+/**
+ * BackfillJob.ts
+ *
+ * Mongoose model for backfill jobs created through the admin API.
+ * A job scans a historic block range next to the live scanner without moving
+ * the chain's checkpoint, and persists its progress so it can be resumed.
+ * The scanner replica running a job holds a lease on it, so no two replicas run the same job.
+ */
+
+/**
+ * A chunk that failed during the job
+ */
+export class BackfillJobError {
+	@prop({ required: true })
+	public fromBlock!: number; // First block of the failed chunk (inclusive)
+
+	@prop({ required: true })
+	public toBlock!: number; // Last block of the failed chunk (inclusive)
+
+	@prop({ required: true })
+	public error!: string; // Message of the error the chunk failed with
+}
+
+/**
+ * Model for a backfill job
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the job was created and last updated
+		collection: "backfillJobs", // Explicitly name the MongoDB collection
+	},
+})
+@index({ status: 1, createdAt: 1 })
+export class BackfillJob {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true })
+	public fromBlock!: number; // First block to backfill (inclusive)
+
+	@prop({ required: true })
+	public toBlock!: number; // Last block to backfill (inclusive)
+
+	@prop({ required: true })
+	public nextBlock!: number; // Next block to scan; the job resumes from here
+
+	@prop({
+		required: true,
+		type: String,
+		enum: ["pending", "running", "completed", "failed", "cancelled"],
+		default: "pending",
+	})
+	public status!: BackfillJobStatus;
+
+	@prop({ required: true, default: 0 })
+	public eventsFound!: number; // Events found so far
+
+	@prop({ type: () => [BackfillJobError], _id: false, default: [] })
+	public chunkErrors!: BackfillJobError[]; // Chunks that failed and went to the failed-chunk ledger
+
+	@prop()
+	public error?: string; // Reason the job failed
+
+	@prop()
+	public ownerId?: string; // Instance ID of the replica running the job
+
+	@prop()
+	public leaseExpiresAt?: Date; // Another replica may take the job over after this time
+
+	@prop()
+	public startedAt?: Date;
+
+	@prop()
+	public finishedAt?: Date;
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const BackfillJobModel = getModelForClass(BackfillJob);
@@ -0,0 +1,102 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	Severity,
+	index,
+} from "@typegoose/typegoose";
+import mongoose from "mongoose";
+import { Confirmations } from "../types/chains";
+
+/**
+ * Chain.ts
+ *
+ * Mongoose model for chains added to the chain registry at runtime.
+ * Stored chains are registered at startup next to the built-in or file-based
+ * chains, and replace a configured chain with the same chain ID.
+ */
+
+/**
+ * A FeeCollector deployment of a stored chain
+ */
+export class ChainContract {
+	@prop({ required: true })
+	public address!: string; // The contract address
+
+	@prop({ required: true })
+	public startBlock!: number; // First block the deployment can have events in
+
+	@prop()
+	public endBlock?: number; // Last block of a retired deployment, unset while it is current
+}
+
+/**
+ * The native asset of a stored chain
+ */
+export class ChainNativeCurrency {
+	@prop({ required: true })
+	public name!: string; // The asset name
+
+	@prop({ required: true })
+	public symbol!: string; // The asset symbol
+
+	@prop({ required: true })
+	public decimals!: number; // Number of decimals of the asset's amounts
+}
+
+/**
+ * Model for a chain of the chain registry
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the chain was added and last changed
+		collection: "chains", // Explicitly name the MongoDB collection
+	},
+	options: {
+		allowMixed: Severity.ALLOW, // Confirmations are a block count or a finality tag
+	},
+})
+@index({ chainId: 1 }, { unique: true })
+export class Chain {
+	@prop({ required: true })
+	public name!: string; // Chain name, also the prefix of its environment overrides
+
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ type: () => [String], default: [] })
+	public rpcUrls!: string[]; // RPC endpoints, the first one is preferred
+
+	@prop({ type: () => [ChainContract], _id: false, default: [] })
+	public contracts!: ChainContract[]; // FeeCollector deployments, oldest first
+
+	@prop({ required: true })
+	public startBlock!: number; // First block the scanner indexes
+
+	@prop({ required: true, type: mongoose.Schema.Types.Mixed })
+	public confirmations!: Confirmations; // How far behind the head the scanner stays
+
+	@prop({ required: true })
+	public explorerUrl!: string; // Base URL of the block explorer
+
+	@prop()
+	public pollIntervalMs?: number; // Delay between polls in follow mode
+
+	@prop()
+	public indexPending?: boolean; // Whether the unconfirmed blocks above the boundary are indexed
+
+	@prop()
+	public scanConcurrency?: number; // Number of chunks scanned in parallel
+
+	@prop()
+	public enrichTransactions?: boolean; // Whether the transaction of each event is fetched and stored
+
+	@prop({ type: () => ChainNativeCurrency, _id: false })
+	public nativeCurrency?: ChainNativeCurrency; // Native asset, Ether when unset
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const ChainModel = getModelForClass(Chain);
@@ -0,0 +1,41 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * DeploymentBlock.ts
+ *
+ * Mongoose model for the creation blocks found for FeeCollector deployments
+ * that have no configured start block. Discovered once per chain and contract
+ * and reused after restarts.
+ */
+
+/**
+ * Model for the discovered creation block of a deployment
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the block was discovered
+		collection: "deploymentBlocks", // Explicitly name the MongoDB collection
+	},
+})
+@index({ chainId: 1, contractAddress: 1 }, { unique: true }) // One creation block per chain and contract
+export class DeploymentBlock {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true, lowercase: true })
+	public contractAddress!: string; // Address of the FeeCollector contract
+
+	@prop({ required: true })
+	public blockNumber!: number; // First block at which the address holds code
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const DeploymentBlockModel = getModelForClass(DeploymentBlock);
@@ -0,0 +1,60 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * FailedChunk.ts
+ *
+ * Mongoose model for block ranges the scanner could not process.
+ * The checkpoint moves past a failed chunk, so every failure is recorded here
+ * and retried in the background until the range is indexed or cleared.
+ */
+
+/**
+ * Model for a failed block range
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the chunk first failed and was last updated
+		collection: "failedChunks", // Explicitly name the MongoDB collection
+	},
+})
+@index(
+	{ chainId: 1, contractAddress: 1, fromBlock: 1, toBlock: 1 },
+	{ unique: true }
+)
+@index({ chainId: 1, nextRetryAt: 1 })
+export class FailedChunk {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true, lowercase: true })
+	public contractAddress!: string; // Address of the FeeCollector contract the range was scanned for
+
+	@prop({ required: true })
+	public fromBlock!: number; // First block of the failed range (inclusive)
+
+	@prop({ required: true })
+	public toBlock!: number; // Last block of the failed range (inclusive)
+
+	@prop({ required: true })
+	public error!: string; // Message of the most recent failure
+
+	@prop({ required: true, default: 1 })
+	public attempts!: number; // Number of failed attempts, including the original scan
+
+	@prop({ required: true })
+	public lastAttemptAt!: Date; // When the range was last attempted
+
+	@prop({ required: true })
+	public nextRetryAt!: Date; // Earliest time the background retrier picks the range up again
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const FailedChunkModel = getModelForClass(FailedChunk);
@@ -26,7 +26,11 @@ import {
 	},
 })
 @index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true })
-@index({ integrator: 1, chainId: 1 }, { name: "integrator_chain_index" })
+@index(
+	{ integrator: 1, chainId: 1, blockNumber: 1, logIndex: 1 },
+	{ name: "integrator_chain_position_index" }
+) // Pages of an integrator's events in chain order, in both directions
+@index({ chainId: 1, blockTimestamp: 1 }) // Time-range queries, e.g. the fees of a month
 export class FeeCollectedEvent {
 	@prop({ required: true })
 	public chainId!: number; // ChainId of the given network
@@ -57,6 +61,24 @@ export class FeeCollectedEvent {
 	@prop({ required: true })
 	public logIndex!: number; // The index of the log within the transaction
 
+	@prop()
+	public blockTimestamp?: Date; // When the block was produced; unset on events stored before it was tracked
+
+	@prop()
+	public from?: string; // Sender of the emitting transaction; only set on chains with transaction enrichment
+
+	@prop()
+	public to?: string; // Contract the emitting transaction called, e.g. the LiFi router
+
+	@prop()
+	public gasUsed?: string; // Gas used by the emitting transaction
+
+	@prop()
+	public effectiveGasPrice?: string; // Price paid per gas unit (in wei)
+
+	@prop()
+	public selector?: string; // 4-byte function selector of the emitting transaction
+
 	// Timestamp fields added by Mongoose
 	public createdAt!: Date;
 	public updatedAt!: Date;
@@ -1,9 +1,14 @@
-import { prop, getModelForClass, modelOptions } from "@typegoose/typegoose";
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
 
 /**
  * LastScannedBlock.ts
  *
- * Mongoose model for tracking the last scanned block for each chain.
+ * Mongoose model for tracking the last scanned block for each chain and contract.
  * Used to resume scanning from the correct block after restarts.
  */
 
@@ -16,13 +21,20 @@ import { prop, getModelForClass, modelOptions } from "@typegoose/typegoose";
 		collection: "lastScannedBlocks", // Explicitly name the MongoDB collection
 	},
 })
+@index({ chainId: 1, contractAddress: 1 }, { unique: true }) // One checkpoint per chain and contract
 export class LastScannedBlock {
-	@prop({ required: true, unique: true }) // Unique per chainId
-	public chainId!: number;
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
 
-	@prop({ required: true }) // The last block number successfully scanned for this chain
+	@prop({ required: true, lowercase: true })
+	public contractAddress!: string; // Address of the scanned FeeCollector contract
+
+	@prop({ required: true }) // The last block number successfully scanned for this contract
 	public blockNumber!: number;
 
+	@prop() // Hash of the checkpoint block, used to detect chain reorganizations
+	public blockHash?: string;
+
 	// Timestamp fields added by Mongoose
 	public createdAt!: Date;
 	public updatedAt!: Date;
@@ -0,0 +1,59 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * LiFiFeesWithdrawnEvent.ts
+ *
+ * Mongoose model for storing LiFiFeesWithdrawn events, emitted when the contract owner
+ * withdraws LiFi's share of the collected fees.
+ * Uses a compound unique index on chainId, transactionHash and logIndex for event uniqueness.
+ */
+
+/**
+ * Model for the LiFiFeesWithdrawnEvent
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Adds createdAt and updatedAt fields
+		collection: "lifiFeesWithdrawnEvents", // Name the MongoDB collection
+	},
+})
+@index({ chainId: 1, transactionHash: 1, logIndex: 1 }, { unique: true })
+export class LiFiFeesWithdrawnEvent {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true })
+	public contractAddress!: string; // Address of the FeeCollector contract
+
+	@prop({ required: true })
+	public token!: string; // the address of the token that was withdrawn
+
+	@prop({ required: true })
+	public to!: string; // the address that received LiFi's fees
+
+	// Store as string to prevent precision issues
+	@prop({ required: true, type: String })
+	public amount!: string; // the withdrawn amount
+
+	@prop({ required: true })
+	public blockNumber!: number; // The block number where the event occurred
+
+	@prop({ required: true })
+	public transactionHash!: string; // Hash of the transaction that emitted the event
+
+	@prop({ required: true })
+	public logIndex!: number; // The index of the log within the transaction
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const LiFiFeesWithdrawnEventModel = getModelForClass(
+	LiFiFeesWithdrawnEvent
+);
@@ -0,0 +1,92 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+import { ReconciliationStatus } from "../types/reconciliation";
+
+/**
+ * ReconciliationReport.ts
+ *
+ * Mongoose model for the reports of reconciliation runs.
+ * A run compares the balances derived from a contract's indexed events at its
+ * checkpoint block with the FeeCollector's balance views at the same block.
+ */
+
+/**
+ * A balance that differs between the indexed events and the contract
+ */
+export class ReconciliationMismatch {
+	@prop({ required: true, type: String, enum: ["integrator", "lifi"] })
+	public kind!: "integrator" | "lifi"; // Which balance view was compared
+
+	@prop()
+	public integrator?: string; // The integrator address, unset for LiFi's own balance
+
+	@prop({ required: true })
+	public token!: string; // The token address
+
+	@prop({ required: true, type: String })
+	public expected!: string; // Claimable amount derived from the indexed events
+
+	@prop({ required: true, type: String })
+	public actual!: string; // Balance returned by the contract
+
+	@prop({ required: true, type: String })
+	public difference!: string; // Actual minus expected
+}
+
+/**
+ * Model for a reconciliation report
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the report was created and last updated
+		collection: "reconciliationReports", // Explicitly name the MongoDB collection
+	},
+})
+@index({ chainId: 1, createdAt: -1 })
+@index({ status: 1, ownerId: 1 })
+export class ReconciliationReport {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true, lowercase: true })
+	public contractAddress!: string; // Address of the reconciled FeeCollector contract
+
+	@prop({ required: true })
+	public blockNumber!: number; // Checkpoint block both sides were read at
+
+	@prop({
+		required: true,
+		type: String,
+		enum: ["running", "matched", "mismatched", "failed"],
+		default: "running",
+	})
+	public status!: ReconciliationStatus;
+
+	@prop({ required: true })
+	public ownerId!: string; // Instance ID of the replica running the reconciliation
+
+	@prop({ required: true, default: 0 })
+	public checked!: number; // Balances compared so far
+
+	@prop({ required: true, default: 0 })
+	public mismatchCount!: number; // Balances that differ from the contract
+
+	@prop({ type: () => [ReconciliationMismatch], _id: false, default: [] })
+	public mismatches!: ReconciliationMismatch[]; // The first mismatches found, capped in size
+
+	@prop()
+	public error?: string; // Reason the run failed
+
+	@prop()
+	public finishedAt?: Date;
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const ReconciliationReportModel = getModelForClass(ReconciliationReport);
@@ -0,0 +1,41 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * ScannedBlock.ts
+ *
+ * Mongoose model for the recent window of scanned blocks per chain.
+ * Stores the block hash seen at scan time so chain reorganizations can be
+ * detected and the scanner can find the last block both views agree on.
+ */
+
+/**
+ * Model for a scanned block hash
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the block was recorded
+		collection: "scannedBlocks", // Explicitly name the MongoDB collection
+	},
+})
+@index({ chainId: 1, blockNumber: 1 }, { unique: true })
+export class ScannedBlock {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true })
+	public blockNumber!: number; // The scanned block number
+
+	@prop({ required: true })
+	public blockHash!: string; // The block hash observed when the block was scanned
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const ScannedBlockModel = getModelForClass(ScannedBlock);
@@ -0,0 +1,44 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * ScannedRange.ts
+ *
+ * Mongoose model for the block ranges that have been scanned per chain and contract.
+ * Overlapping and adjacent ranges are merged, so the collection holds the scanned
+ * coverage as a small set of disjoint intervals and holes between them show up as gaps.
+ */
+
+/**
+ * Model for a merged interval of scanned blocks
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the interval was created and last extended
+		collection: "scannedRanges", // Explicitly name the MongoDB collection
+	},
+})
+@index({ chainId: 1, contractAddress: 1, fromBlock: 1 })
+export class ScannedRange {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true, lowercase: true })
+	public contractAddress!: string; // Address of the scanned FeeCollector contract
+
+	@prop({ required: true })
+	public fromBlock!: number; // First scanned block of the interval (inclusive)
+
+	@prop({ required: true })
+	public toBlock!: number; // Last scanned block of the interval (inclusive)
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const ScannedRangeModel = getModelForClass(ScannedRange);
@@ -0,0 +1,44 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * ScannerLease.ts
+ *
+ * Mongoose model for the per-chain scanner lease.
+ * Only the replica holding a chain's lease scans it; the holder renews the lease
+ * while it is alive, and any other replica may take it over once it expires.
+ */
+
+/**
+ * Model for the lease on scanning a chain
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the lease was first taken and last renewed
+		collection: "scannerLeases", // Explicitly name the MongoDB collection
+	},
+})
+@index({ chainId: 1 }, { unique: true })
+export class ScannerLease {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true })
+	public ownerId!: string; // Instance ID of the replica holding the lease
+
+	@prop({ required: true })
+	public acquiredAt!: Date; // When the current owner took the lease
+
+	@prop({ required: true })
+	public expiresAt!: Date; // The lease is free for other replicas after this time
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const ScannerLeaseModel = getModelForClass(ScannerLease);
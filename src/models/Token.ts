@@ -0,0 +1,46 @@
+import {
+	prop,
+	getModelForClass,
+	modelOptions,
+	index,
+} from "@typegoose/typegoose";
+
+/**
+ * Token.ts
+ *
+ * Mongoose model for the ERC-20 metadata of the tokens fees are collected in.
+ * Looked up once per chain and token through `symbol()`, `name()` and `decimals()`.
+ */
+
+/**
+ * Model for the metadata of a token
+ */
+@modelOptions({
+	schemaOptions: {
+		timestamps: true, // Tracks when the token was looked up
+		collection: "tokens", // Explicitly name the MongoDB collection
+	},
+})
+@index({ chainId: 1, address: 1 }, { unique: true }) // One entry per chain and token
+export class Token {
+	@prop({ required: true })
+	public chainId!: number; // ChainId of the given network
+
+	@prop({ required: true, lowercase: true })
+	public address!: string; // Address of the token contract
+
+	@prop()
+	public symbol?: string; // Token symbol; unset if the token does not implement symbol()
+
+	@prop()
+	public name?: string; // Token name; unset if the token does not implement name()
+
+	@prop()
+	public decimals?: number; // Decimals of the token's amounts; unset if the token does not implement decimals()
+
+	// Timestamp fields added by Mongoose
+	public createdAt!: Date;
+	public updatedAt!: Date;
+}
+
+export const TokenModel = getModelForClass(Token);
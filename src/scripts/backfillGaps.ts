@@ -0,0 +1,88 @@
+import {
+	config,
+	getContractDeployments,
+	isSupportedChain,
+	validateChainConfigs,
+} from "../utils/config";
+import logger from "../utils/logger";
+import { connectDB, disconnectDB } from "../utils/db";
+import { CoverageService } from "../services/coverageService";
+import { ScannerService } from "../services/scannerService";
+import { ChainRegistryService } from "../services/chainRegistryService";
+import { DeploymentBlockService } from "../services/deploymentBlockService";
+
+/**
+ * backfillGaps.ts
+ *
+ * Scans exactly the block ranges between each contract's start block and its
+ * checkpoint that were never scanned. The checkpoints themselves are not moved.
+ *
+ * Usage: npm run backfill:gaps -- [--dry-run] [chainId ...]
+ * Without chain IDs every enabled chain is checked; --dry-run only reports the gaps.
+ */
+const main = async () => {
+	const args = process.argv.slice(2);
+	const dryRun = args.includes("--dry-run");
+	const chainIds = args
+		.filter((arg) => arg !== "--dry-run")
+		.map((arg) => parseInt(arg, 10));
+	const chains = chainIds.length ? chainIds : config.enabledChains;
+
+	await connectDB(config.mongoUri);
+	// Chains stored in the database are only known after loading them
+	await ChainRegistryService.getInstance().loadFromDatabase();
+	validateChainConfigs();
+	// Gaps start at the discovered creation block of deployments without a start block
+	await DeploymentBlockService.getInstance().loadFromDatabase();
+
+	const invalid = chains.filter((id) => !isSupportedChain(id));
+	if (invalid.length > 0) {
+		throw new Error(`Invalid chain IDs: ${invalid.join(", ")}`);
+	}
+	const coverageService = CoverageService.getInstance();
+	const scannerService = ScannerService.getInstance();
+
+	for (const chainId of chains) {
+		for (const { address: contractAddress } of getContractDeployments(
+			chainId
+		)) {
+			const gaps = await coverageService.findGaps(chainId, contractAddress);
+			const missingBlocks = gaps.reduce(
+				(sum, gap) => sum + gap.toBlock - gap.fromBlock + 1,
+				0
+			);
+			logger.info(
+				{
+					chainId,
+					contractAddress,
+					gaps,
+					gapCount: gaps.length,
+					missingBlocks,
+				},
+				`Found ${gaps.length} coverage gaps on chain ${chainId}`
+			);
+			if (dryRun) continue;
+
+			for (const gap of gaps) {
+				await scannerService.backfillRange(
+					chainId,
+					gap.fromBlock,
+					gap.toBlock,
+					undefined,
+					contractAddress
+				);
+			}
+		}
+	}
+};
+
+main()
+	.then(async () => {
+		await disconnectDB();
+		process.exit(0);
+	})
+	.catch(async (error) => {
+		logger.error({ error }, "Gap backfill failed");
+		await disconnectDB();
+		process.exit(1);
+	});
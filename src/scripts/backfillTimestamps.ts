@@ -0,0 +1,80 @@
+import {
+	config,
+	getSupportedChainIds,
+	isSupportedChain,
+	validateChainConfigs,
+} from "../utils/config";
+import logger from "../utils/logger";
+import { connectDB, disconnectDB } from "../utils/db";
+import { EventService } from "../services/eventService";
+import { BlockchainService } from "../services/blockchainService";
+import { ChainRegistryService } from "../services/chainRegistryService";
+
+// Blocks resolved and written per round
+const BLOCKS_PER_ROUND = 200;
+
+/**
+ * backfillTimestamps.ts
+ *
+ * Migration that sets `blockTimestamp` on the fee events stored before block
+ * timestamps were tracked. Only events without a timestamp are touched, so the
+ * migration can be stopped and run again.
+ *
+ * Usage: npm run migrate:timestamps -- [chainId ...]
+ * Without chain IDs every chain in the registry is migrated.
+ */
+const main = async () => {
+	const chainIds = process.argv.slice(2).map((arg) => parseInt(arg, 10));
+
+	await connectDB(config.mongoUri);
+	// Chains stored in the database are only known after loading them
+	await ChainRegistryService.getInstance().loadFromDatabase();
+	validateChainConfigs();
+
+	const chains = chainIds.length ? chainIds : getSupportedChainIds();
+	const invalid = chains.filter((id) => !isSupportedChain(id));
+	if (invalid.length > 0) {
+		throw new Error(`Invalid chain IDs: ${invalid.join(", ")}`);
+	}
+	const eventService = EventService.getInstance();
+	const blockchainService = BlockchainService.getInstance();
+
+	for (const chainId of chains) {
+		let updatedEvents = 0;
+		while (true) {
+			const blocks = await eventService.getBlocksWithoutTimestamp(
+				chainId,
+				BLOCKS_PER_ROUND
+			);
+			if (blocks.length === 0) break;
+
+			const timestamps = await blockchainService.getBlockTimestamps(
+				chainId,
+				blocks
+			);
+			updatedEvents += await eventService.setBlockTimestamps(
+				chainId,
+				timestamps
+			);
+			logger.info(
+				{ chainId, lastBlock: blocks[blocks.length - 1], updatedEvents },
+				"Backfilled block timestamps"
+			);
+		}
+		logger.info(
+			{ chainId, updatedEvents },
+			`Backfilled the block timestamps of ${updatedEvents} events on chain ${chainId}`
+		);
+	}
+};
+
+main()
+	.then(async () => {
+		await disconnectDB();
+		process.exit(0);
+	})
+	.catch(async (error) => {
+		logger.error({ error }, "Timestamp migration failed");
+		await disconnectDB();
+		process.exit(1);
+	});
@@ -0,0 +1,67 @@
+import {
+	config,
+	getSupportedChainIds,
+	isSupportedChain,
+	validateChainConfigs,
+} from "../utils/config";
+import logger from "../utils/logger";
+import { connectDB, disconnectDB } from "../utils/db";
+import { EventService } from "../services/eventService";
+import { TokenService } from "../services/tokenService";
+import { ChainRegistryService } from "../services/chainRegistryService";
+
+/**
+ * backfillTokens.ts
+ *
+ * Migration that looks up the metadata of the tokens of the fee events stored
+ * before token metadata was tracked. Tokens that are already stored are skipped,
+ * so the migration can be stopped and run again.
+ *
+ * Usage: npm run migrate:tokens -- [chainId ...]
+ * Without chain IDs every chain in the registry is migrated.
+ */
+const main = async () => {
+	const chainIds = process.argv.slice(2).map((arg) => parseInt(arg, 10));
+
+	await connectDB(config.mongoUri);
+	// Chains stored in the database are only known after loading them
+	await ChainRegistryService.getInstance().loadFromDatabase();
+	validateChainConfigs();
+
+	const chains = chainIds.length ? chainIds : getSupportedChainIds();
+	const invalid = chains.filter((id) => !isSupportedChain(id));
+	if (invalid.length > 0) {
+		throw new Error(`Invalid chain IDs: ${invalid.join(", ")}`);
+	}
+	const eventService = EventService.getInstance();
+	const tokenService = TokenService.getInstance();
+
+	for (const chainId of chains) {
+		const addresses = await eventService.getTokenAddresses(chainId);
+		const tokens = await tokenService.resolveTokens(chainId, addresses);
+		const unresolved = addresses.filter(
+			(address) => !tokens.has(address.toLowerCase())
+		);
+		if (unresolved.length > 0) {
+			logger.warn(
+				{ chainId, tokens: unresolved },
+				"Could not look up some tokens, run the migration again later"
+			);
+		}
+		logger.info(
+			{ chainId, tokenCount: tokens.size },
+			`Stored the metadata of ${tokens.size} tokens on chain ${chainId}`
+		);
+	}
+};
+
+main()
+	.then(async () => {
+		await disconnectDB();
+		process.exit(0);
+	})
+	.catch(async (error) => {
+		logger.error({ error }, "Token migration failed");
+		await disconnectDB();
+		process.exit(1);
+	});
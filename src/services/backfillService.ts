@@ -0,0 +1,504 @@
+import { BackfillJob, BackfillJobModel } from "../models/BackfillJob";
+import { ScannerService } from "./scannerService";
+import { BlockchainService } from "./blockchainService";
+import { config } from "../utils/config";
+import logger from "../utils/logger";
+import {
+	CircuitOpenError,
+	DatabaseError,
+	NotFoundError,
+	ValidationError,
+} from "../errors/AppError";
+import { sleep } from "../utils/sleep";
+import { BackfillRangeResult } from "../types/backfill";
+import mongoose from "mongoose";
+
+// Chunk errors kept on a job document; the failed-chunk ledger holds all of them
+const MAX_STORED_CHUNK_ERRORS = 100;
+
+export type BackfillJobDocument = BackfillJob & {
+	_id: mongoose.Types.ObjectId;
+};
+
+/**
+ * BackfillService
+ *
+ * Runs backfill jobs that scan historic block ranges next to the live scanner.
+ * Jobs are persisted with their progress, never move the chain's checkpoint,
+ * can be cancelled, and are resumed after a restart.
+ * A scanner replica claims a job through a lease on the job document and renews it while
+ * the job runs, so each job runs on one replica; other replicas take over a job whose
+ * lease expired. API-only replicas create jobs but never run them.
+ */
+export class BackfillService {
+	private static instance: BackfillService;
+	private scannerService: ScannerService;
+	private blockchainService: BlockchainService;
+	private readonly ownerId: string;
+	private runningJobs: Map<
+		string,
+		{ controller: AbortController; done: Promise<void> }
+	>;
+	private resumeTimer: NodeJS.Timeout | null = null;
+
+	private constructor() {
+		this.scannerService = ScannerService.getInstance();
+		this.blockchainService = BlockchainService.getInstance();
+		this.ownerId = config.instanceId;
+		this.runningJobs = new Map();
+	}
+
+	public static getInstance(): BackfillService {
+		if (!BackfillService.instance) {
+			BackfillService.instance = new BackfillService();
+		}
+		return BackfillService.instance;
+	}
+
+	/**
+	 * Creates a backfill job and starts it in the background.
+	 * On an API-only replica the job stays pending until a scanner replica picks it up.
+	 *
+	 * @param chainId - The chain ID to backfill
+	 * @param fromBlock - First block to scan (inclusive)
+	 * @param toBlock - Last block to scan (inclusive), at most the chain's confirmed block
+	 * @returns The created job
+	 * @throws {ValidationError} When the chain is not enabled or the range reaches past the confirmed block
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async createJob(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number
+	): Promise<BackfillJobDocument> {
+		if (!config.enabledChains.includes(chainId)) {
+			throw new ValidationError(`Chain ${chainId} is not enabled`);
+		}
+		const confirmedBlock =
+			await this.blockchainService.getConfirmedBlock(chainId);
+		if (toBlock > confirmedBlock) {
+			throw new ValidationError(
+				`toBlock ${toBlock} is above the confirmed block ${confirmedBlock}`
+			);
+		}
+
+		let job: BackfillJobDocument;
+		try {
+			job = (
+				await BackfillJobModel.create({
+					chainId,
+					fromBlock,
+					toBlock,
+					nextBlock: fromBlock,
+				})
+			).toObject();
+		} catch (error) {
+			logger.error(
+				{ chainId, fromBlock, toBlock, error },
+				"Error creating backfill job"
+			);
+			throw new DatabaseError("Failed to create backfill job");
+		}
+
+		logger.info(
+			{ jobId: job._id, chainId, fromBlock, toBlock },
+			"Created backfill job"
+		);
+		if (config.serviceRole !== "api") {
+			this.startJob(job);
+		}
+		return job;
+	}
+
+	/**
+	 * Retrieves a backfill job.
+	 *
+	 * @param id - The job ID
+	 * @returns The job
+	 * @throws {NotFoundError} When no job with this ID exists
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getJob(id: string): Promise<BackfillJobDocument> {
+		let job: BackfillJobDocument | null;
+		try {
+			job = mongoose.isValidObjectId(id)
+				? await BackfillJobModel.findById(id).lean()
+				: null;
+		} catch (error) {
+			logger.error({ jobId: id, error }, "Error getting backfill job");
+			throw new DatabaseError("Failed to get backfill job");
+		}
+		if (!job) {
+			throw new NotFoundError(`Backfill job ${id} not found`);
+		}
+		return job;
+	}
+
+	/**
+	 * Lists the most recent backfill jobs.
+	 *
+	 * @param limit - Maximum number of jobs to return
+	 * @returns Jobs, newest first
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async listJobs(limit = 50): Promise<BackfillJobDocument[]> {
+		try {
+			return await BackfillJobModel.find()
+				.sort({ createdAt: -1 })
+				.limit(limit)
+				.lean();
+		} catch (error) {
+			logger.error({ error }, "Error listing backfill jobs");
+			throw new DatabaseError("Failed to list backfill jobs");
+		}
+	}
+
+	/**
+	 * Cancels a pending or running job. The running chunk finishes first.
+	 *
+	 * @param id - The job ID
+	 * @returns The cancelled job
+	 * @throws {NotFoundError} When no job with this ID exists
+	 * @throws {ValidationError} When the job has already finished
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async cancelJob(id: string): Promise<BackfillJobDocument> {
+		const job = await this.getJob(id);
+
+		let cancelled: BackfillJobDocument | null;
+		try {
+			cancelled = await BackfillJobModel.findOneAndUpdate(
+				{ _id: job._id, status: { $in: ["pending", "running"] } },
+				{ $set: { status: "cancelled", finishedAt: new Date() } },
+				{ new: true }
+			).lean();
+		} catch (error) {
+			logger.error({ jobId: id, error }, "Error cancelling backfill job");
+			throw new DatabaseError("Failed to cancel backfill job");
+		}
+		if (!cancelled) {
+			throw new ValidationError(
+				`Backfill job ${id} has already finished with status ${job.status}`
+			);
+		}
+
+		const running = this.runningJobs.get(id);
+		if (running) {
+			running.controller.abort();
+			await running.done;
+		}
+		logger.info({ jobId: id }, "Cancelled backfill job");
+		return cancelled;
+	}
+
+	/**
+	 * Resumes unfinished jobs now and then keeps looking for jobs that are new or whose
+	 * replica stopped renewing their lease. Only called on scanner replicas.
+	 */
+	startResuming(): void {
+		if (this.resumeTimer) return;
+		const resume = () =>
+			this.resumeJobs().catch((error) => {
+				logger.error({ error }, "Error resuming backfill jobs");
+			});
+		resume();
+		this.resumeTimer = setInterval(resume, config.scannerLease.ttlMs);
+		// Looking for jobs never keeps the process alive on its own
+		this.resumeTimer.unref();
+	}
+
+	/**
+	 * Starts the unfinished jobs that no other replica holds a lease on,
+	 * e.g. jobs left by a previous process or created on an API replica.
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async resumeJobs(): Promise<void> {
+		let jobs: BackfillJobDocument[];
+		try {
+			jobs = await BackfillJobModel.find({
+				status: { $in: ["pending", "running"] },
+				...this.claimableFilter(),
+			}).lean();
+		} catch (error) {
+			logger.error({ error }, "Error loading unfinished backfill jobs");
+			throw new DatabaseError("Failed to load backfill jobs");
+		}
+
+		for (const job of jobs) {
+			if (this.runningJobs.has(job._id.toString())) continue;
+			logger.info(
+				{ jobId: job._id, chainId: job.chainId, nextBlock: job.nextBlock },
+				"Resuming backfill job"
+			);
+			this.startJob(job);
+		}
+	}
+
+	/**
+	 * Stops every running job without changing its status and releases its lease,
+	 * so another replica or the next start resumes it.
+	 */
+	async stopAll(): Promise<void> {
+		if (this.resumeTimer) {
+			clearInterval(this.resumeTimer);
+			this.resumeTimer = null;
+		}
+		const running = [...this.runningJobs.values()];
+		running.forEach(({ controller }) => controller.abort());
+		await Promise.all(running.map(({ done }) => done));
+	}
+
+	/**
+	 * Starts running a job in the background, unless it is already running in this process.
+	 * The job only runs once this replica claimed its lease.
+	 * @param job - The job to run
+	 */
+	private startJob(job: BackfillJobDocument): void {
+		const id = job._id.toString();
+		if (this.runningJobs.has(id)) return;
+
+		const controller = new AbortController();
+		const done = this.runClaimedJob(job, controller)
+			.catch((error) => {
+				logger.error({ jobId: id, error }, "Backfill job crashed");
+			})
+			.finally(() => {
+				this.runningJobs.delete(id);
+			});
+		this.runningJobs.set(id, { controller, done });
+	}
+
+	/**
+	 * Claims the job's lease and runs the job while renewing the lease in the background.
+	 * Losing the lease, e.g. to a cancellation or another replica, aborts the job.
+	 * @param job - The job to run
+	 * @param controller - Aborts the job
+	 * @throws {DatabaseError} When the job cannot be claimed
+	 */
+	private async runClaimedJob(
+		job: BackfillJobDocument,
+		controller: AbortController
+	): Promise<void> {
+		const claimed = await this.claimJob(job);
+		if (!claimed) return;
+
+		let expiresAt = Date.now() + config.scannerLease.ttlMs;
+		const heartbeat = setInterval(async () => {
+			try {
+				const renewedAt = Date.now();
+				if (await this.claimJob(claimed)) {
+					expiresAt = renewedAt + config.scannerLease.ttlMs;
+					return;
+				}
+				logger.warn(
+					{ jobId: job._id, ownerId: this.ownerId },
+					"Backfill job lease was lost, stopping the job"
+				);
+			} catch (error) {
+				// Keep running on a transient failure as long as the lease has not run out
+				if (Date.now() < expiresAt) return;
+				logger.warn(
+					{ jobId: job._id, ownerId: this.ownerId, error },
+					"Backfill job lease expired while it could not be renewed"
+				);
+			}
+			clearInterval(heartbeat);
+			controller.abort();
+		}, config.scannerLease.renewIntervalMs);
+
+		try {
+			// The claimed document holds the progress the previous owner persisted
+			await this.runJob(claimed, controller.signal);
+		} finally {
+			clearInterval(heartbeat);
+			await this.releaseJob(job);
+		}
+	}
+
+	/**
+	 * Takes the lease of an unfinished job if it is free or expired, or renews it if this replica holds it.
+	 * @returns The claimed job, or null if it finished or another replica holds it
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	private async claimJob(
+		job: BackfillJobDocument
+	): Promise<BackfillJobDocument | null> {
+		try {
+			return await BackfillJobModel.findOneAndUpdate(
+				{
+					_id: job._id,
+					status: { $in: ["pending", "running"] },
+					...this.claimableFilter(),
+				},
+				{
+					$set: {
+						ownerId: this.ownerId,
+						leaseExpiresAt: new Date(Date.now() + config.scannerLease.ttlMs),
+					},
+				},
+				{ new: true }
+			).lean();
+		} catch (error) {
+			logger.error({ jobId: job._id, error }, "Error claiming backfill job");
+			throw new DatabaseError("Failed to claim backfill job");
+		}
+	}
+
+	/**
+	 * Expires the lease of a job this replica holds, so another replica can resume it at once.
+	 * Failures are logged; the lease then simply expires after its TTL.
+	 */
+	private async releaseJob(job: BackfillJobDocument): Promise<void> {
+		try {
+			await BackfillJobModel.updateOne(
+				{ _id: job._id, ownerId: this.ownerId },
+				{ $set: { leaseExpiresAt: new Date() } }
+			);
+		} catch (error) {
+			logger.warn(
+				{ jobId: job._id, error },
+				"Could not release backfill job, its lease will expire on its own"
+			);
+		}
+	}
+
+	/**
+	 * Matches jobs this replica holds, and jobs whose lease is free or expired
+	 */
+	private claimableFilter(): mongoose.FilterQuery<BackfillJob> {
+		return {
+			$or: [
+				{ ownerId: this.ownerId },
+				{ leaseExpiresAt: { $exists: false } },
+				{ leaseExpiresAt: { $lte: new Date() } },
+			],
+		};
+	}
+
+	/**
+	 * Runs a job and stops it when its progress cannot be written. The lease is then
+	 * released, so the job resumes from its last persisted window instead of being
+	 * left running without a runner.
+	 * @param job - The job to run
+	 * @param signal - AbortSignal that stops the job between chunks
+	 */
+	private async runJob(
+		job: BackfillJobDocument,
+		signal: AbortSignal
+	): Promise<void> {
+		try {
+			await this.scanJob(job, signal);
+		} catch (error) {
+			logger.error(
+				{ jobId: job._id, chainId: job.chainId, error },
+				"Could not update backfill job, releasing it to be resumed"
+			);
+		}
+	}
+
+	/**
+	 * Scans the job's range window by window, persisting progress after each window.
+	 * Stops when the signal aborts or the job was cancelled in the database.
+	 * @param job - The job to run
+	 * @param signal - AbortSignal that stops the job between chunks
+	 * @throws {DatabaseError} When the job cannot be updated
+	 */
+	private async scanJob(
+		job: BackfillJobDocument,
+		signal: AbortSignal
+	): Promise<void> {
+		const chainId = job.chainId;
+		const { toBlock } = job;
+		let nextBlock = job.nextBlock;
+
+		const started = await this.updateRunningJob(job, {
+			status: "running",
+			startedAt: new Date(),
+		});
+		if (!started) return;
+
+		while (nextBlock <= toBlock && !signal.aborted) {
+			const windowEnd = Math.min(nextBlock + config.maxChunkSize - 1, toBlock);
+			let result: BackfillRangeResult;
+			try {
+				result = await this.scannerService.backfillRange(
+					chainId,
+					nextBlock,
+					windowEnd,
+					signal
+				);
+			} catch (error) {
+				if (error instanceof CircuitOpenError) {
+					// The chain is paused, wait for the breaker before retrying the window
+					await sleep(error.retryAfterMs, signal);
+					continue;
+				}
+				const message = error instanceof Error ? error.message : String(error);
+				logger.error(
+					{ jobId: job._id, chainId, nextBlock, error },
+					"Backfill job failed"
+				);
+				await this.updateRunningJob(job, {
+					status: "failed",
+					error: message,
+					finishedAt: new Date(),
+				});
+				return;
+			}
+			if (signal.aborted) break;
+
+			nextBlock = windowEnd + 1;
+			const stillRunning = await this.updateRunningJob(
+				job,
+				{ nextBlock },
+				{
+					$inc: { eventsFound: result.eventCount },
+					$push: {
+						chunkErrors: {
+							$each: result.failedChunks,
+							$slice: -MAX_STORED_CHUNK_ERRORS,
+						},
+					},
+				}
+			);
+			if (!stillRunning) return;
+		}
+
+		if (nextBlock > toBlock) {
+			await this.updateRunningJob(job, {
+				status: "completed",
+				finishedAt: new Date(),
+			});
+			logger.info(
+				{ jobId: job._id, chainId, fromBlock: job.fromBlock, toBlock },
+				"Backfill job completed"
+			);
+		}
+	}
+
+	/**
+	 * Updates a job only while it is pending or running and this replica holds its lease.
+	 * @returns Whether the job was updated; false once it was cancelled or taken over
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	private async updateRunningJob(
+		job: BackfillJobDocument,
+		set: Partial<BackfillJob>,
+		update: mongoose.UpdateQuery<BackfillJob> = {}
+	): Promise<boolean> {
+		try {
+			const result = await BackfillJobModel.updateOne(
+				{
+					_id: job._id,
+					status: { $in: ["pending", "running"] },
+					ownerId: this.ownerId,
+				},
+				{ ...update, $set: set }
+			);
+			return result.matchedCount > 0;
+		} catch (error) {
+			logger.error({ jobId: job._id, error }, "Error updating backfill job");
+			throw new DatabaseError("Failed to update backfill job");
+		}
+	}
+}
@@ -0,0 +1,263 @@
+import { FeeCollectedEventModel } from "../models/FeeCollectedEvent";
+import { FeesWithdrawnEventModel } from "../models/FeesWithdrawnEvent";
+import { LiFiFeesWithdrawnEventModel } from "../models/LiFiFeesWithdrawnEvent";
+import { IntegratorBalance, LifiBalance } from "../types/balances";
+import { ethers } from "ethers";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+
+/**
+ * Running totals of one ledger entry
+ */
+interface LedgerEntry {
+	chainId: number;
+	integrator: string;
+	token: string;
+	collected: bigint;
+	withdrawn: bigint;
+}
+
+/**
+ * Selects the events a ledger is built from
+ *
+ * @property {number} chainId - Only events of this chain
+ * @property {string} integrator - Only events of this integrator
+ * @property {number} toBlock - Only events up to this block (inclusive)
+ * @property {string} contractAddress - Only events of this FeeCollector contract
+ */
+interface LedgerFilter {
+	chainId?: number;
+	integrator?: string;
+	toBlock?: number;
+	contractAddress?: string;
+}
+
+/**
+ * BalanceService
+ *
+ * Derives the claimable fee balances of integrators and of LiFi from the indexed
+ * FeesCollected and withdrawal events. Fees are stored as decimal strings and summed
+ * as BigInt, so uint256 amounts never lose precision.
+ */
+export class BalanceService {
+	private static instance: BalanceService;
+
+	private constructor() {}
+
+	public static getInstance(): BalanceService {
+		if (!BalanceService.instance) {
+			BalanceService.instance = new BalanceService();
+		}
+		return BalanceService.instance;
+	}
+
+	/**
+	 * Computes the balance of an integrator per chain and token.
+	 *
+	 * @param integrator - The integrator address
+	 * @param chainId - Optional chain ID to restrict the ledger to
+	 * @returns One balance per chain and token the integrator has events for, sorted by chain and token
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getIntegratorBalances(
+		integrator: string,
+		chainId?: number
+	): Promise<IntegratorBalance[]> {
+		const balances = await this.getIntegratorLedger({ chainId, integrator });
+
+		const overdrawn = balances.filter((balance) =>
+			balance.claimable.startsWith("-")
+		);
+		if (overdrawn.length > 0) {
+			logger.warn(
+				{ integrator, overdrawn },
+				"Integrator withdrew more than the indexed fees, events may be missing"
+			);
+		}
+		return balances;
+	}
+
+	/**
+	 * Computes the balances of every integrator of a chain as of a block.
+	 *
+	 * @param chainId - The chain ID
+	 * @param toBlock - Only events up to this block (inclusive) are counted
+	 * @param contractAddress - Optional contract to restrict the ledger to
+	 * @returns One balance per integrator and token, sorted by integrator and token
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getChainBalances(
+		chainId: number,
+		toBlock: number,
+		contractAddress?: string
+	): Promise<IntegratorBalance[]> {
+		return this.getIntegratorLedger({ chainId, toBlock, contractAddress });
+	}
+
+	/**
+	 * Computes LiFi's own balance per token on a chain as of a block:
+	 * the LiFi share of all collected fees minus LiFi's withdrawals.
+	 *
+	 * @param chainId - The chain ID
+	 * @param toBlock - Only events up to this block (inclusive) are counted
+	 * @param contractAddress - Optional contract to restrict the ledger to
+	 * @returns One balance per token, sorted by token
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getLifiBalances(
+		chainId: number,
+		toBlock: number,
+		contractAddress?: string
+	): Promise<LifiBalance[]> {
+		const filter = this.toEventFilter({ chainId, toBlock, contractAddress });
+		try {
+			const [collectedEvents, withdrawals] = await Promise.all([
+				FeeCollectedEventModel.find(filter, {
+					chainId: 1,
+					token: 1,
+					lifiFee: 1,
+				}).lean(),
+				LiFiFeesWithdrawnEventModel.find(filter, {
+					chainId: 1,
+					token: 1,
+					amount: 1,
+				}).lean(),
+			]);
+
+			const ledger = new Map<string, LedgerEntry>();
+			for (const event of collectedEvents) {
+				this.entryFor(ledger, event.chainId, "", event.token).collected +=
+					BigInt(event.lifiFee);
+			}
+			for (const withdrawal of withdrawals) {
+				this.entryFor(
+					ledger,
+					withdrawal.chainId,
+					"",
+					withdrawal.token
+				).withdrawn += BigInt(withdrawal.amount);
+			}
+			// LiFi's entries share the ledger with an empty integrator
+			return this.toBalances(ledger).map(
+				({ chainId, token, collected, withdrawn, claimable }) => ({
+					chainId,
+					token,
+					collected,
+					withdrawn,
+					claimable,
+				})
+			);
+		} catch (error) {
+			logger.error(
+				{ chainId, toBlock, error },
+				"Error loading events for LiFi balances"
+			);
+			throw new DatabaseError("Failed to get LiFi balances");
+		}
+	}
+
+	/**
+	 * Builds the integrator ledger from the FeesCollected and FeesWithdrawn events matching the filter.
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	private async getIntegratorLedger(
+		ledgerFilter: LedgerFilter
+	): Promise<IntegratorBalance[]> {
+		const { integrator, ...rest } = ledgerFilter;
+		const filter = this.toEventFilter(rest);
+		try {
+			const [collectedEvents, withdrawals] = await Promise.all([
+				FeeCollectedEventModel.find(
+					integrator === undefined ? filter : { ...filter, integrator },
+					{ chainId: 1, token: 1, integrator: 1, integratorFee: 1 }
+				).lean(),
+				FeesWithdrawnEventModel.find(
+					integrator === undefined ? filter : { ...filter, to: integrator },
+					{ chainId: 1, token: 1, to: 1, amount: 1 }
+				).lean(),
+			]);
+
+			const ledger = new Map<string, LedgerEntry>();
+			for (const event of collectedEvents) {
+				this.entryFor(
+					ledger,
+					event.chainId,
+					event.integrator,
+					event.token
+				).collected += BigInt(event.integratorFee);
+			}
+			for (const withdrawal of withdrawals) {
+				this.entryFor(
+					ledger,
+					withdrawal.chainId,
+					withdrawal.to,
+					withdrawal.token
+				).withdrawn += BigInt(withdrawal.amount);
+			}
+			return this.toBalances(ledger);
+		} catch (error) {
+			logger.error(
+				{ ...ledgerFilter, error },
+				"Error loading events for integrator balances"
+			);
+			throw new DatabaseError("Failed to get integrator balances");
+		}
+	}
+
+	/**
+	 * Translates a ledger filter without integrator into an event query.
+	 */
+	private toEventFilter({
+		chainId,
+		toBlock,
+		contractAddress,
+	}: Omit<LedgerFilter, "integrator">): Record<string, unknown> {
+		return {
+			...(chainId !== undefined && { chainId }),
+			...(toBlock !== undefined && { blockNumber: { $lte: toBlock } }),
+			// Events keep the checksummed address of the log they came from
+			...(contractAddress !== undefined && {
+				contractAddress: ethers.utils.getAddress(contractAddress),
+			}),
+		};
+	}
+
+	/**
+	 * Returns the ledger entry of a chain, integrator and token, creating it on first use.
+	 */
+	private entryFor(
+		ledger: Map<string, LedgerEntry>,
+		chainId: number,
+		integrator: string,
+		token: string
+	): LedgerEntry {
+		const key = `${chainId}_${integrator}_${token}`;
+		let entry = ledger.get(key);
+		if (!entry) {
+			entry = { chainId, integrator, token, collected: 0n, withdrawn: 0n };
+			ledger.set(key, entry);
+		}
+		return entry;
+	}
+
+	/**
+	 * Converts ledger entries into balances, sorted by chain, integrator and token.
+	 */
+	private toBalances(ledger: Map<string, LedgerEntry>): IntegratorBalance[] {
+		return [...ledger.values()]
+			.sort(
+				(a, b) =>
+					a.chainId - b.chainId ||
+					a.integrator.localeCompare(b.integrator) ||
+					a.token.localeCompare(b.token)
+			)
+			.map((entry) => ({
+				chainId: entry.chainId,
+				integrator: entry.integrator,
+				token: entry.token,
+				collected: entry.collected.toString(),
+				withdrawn: entry.withdrawn.toString(),
+				claimable: (entry.collected - entry.withdrawn).toString(),
+			}));
+	}
+}
@@ -1,12 +1,44 @@
 import { ethers } from "ethers";
-import { config } from "../utils/config";
-import { ChainIds } from "../types/chains";
+import { config, getChainConfig, getCurrentContract } from "../utils/config";
 import { FeeCollector__factory } from "lifi-contract-types";
-import { FeeCollectedEventData } from "../types/events";
+import {
+	FeeCollectedEventData,
+	TransactionContext,
+	WithdrawalEventData,
+	WithdrawalEventName,
+} from "../types/events";
 import logger from "../utils/logger";
-import { BlockchainError, ValidationError } from "../errors/AppError";
-import { FeeCollectedEventSchema } from "../types/schemas";
+import {
+	BlockchainError,
+	RangeLimitError,
+	ValidationError,
+} from "../errors/AppError";
+import {
+	FeeCollectedEventSchema,
+	WithdrawalEventSchema,
+} from "../types/schemas";
 import { ZodError } from "zod";
+import { classifyRpcError } from "../utils/rpcErrors";
+import { withRetry } from "../utils/retry";
+import { CircuitBreaker, CircuitState } from "../utils/circuitBreaker";
+import { RpcPool, EndpointHealth } from "./rpcPool";
+import { TokenMetadata } from "../types/tokens";
+
+// Block timestamps cached per chain, the oldest entries are dropped first
+const BLOCK_TIMESTAMP_CACHE_SIZE = 10000;
+
+// Blocks or transactions requested in parallel when enriching events
+const ENRICHMENT_BATCH_SIZE = 10;
+
+// ERC-20 metadata functions. Some tokens, e.g. MKR, return bytes32 instead of a string
+const ERC20_METADATA_INTERFACE = new ethers.utils.Interface([
+	"function symbol() view returns (string)",
+	"function name() view returns (string)",
+	"function decimals() view returns (uint8)",
+]);
+
+// Largest decimals value a uint8 can hold
+const MAX_TOKEN_DECIMALS = 255;
 
 /**
  * BlockchainService
@@ -16,10 +48,14 @@ import { ZodError } from "zod";
  */
 export class BlockchainService {
 	private static instance: BlockchainService;
-	private providers: Map<ChainIds, ethers.providers.JsonRpcProvider>;
+	private pools: Map<number, RpcPool>;
+	private circuitBreakers: Map<number, CircuitBreaker>;
+	private blockTimestamps: Map<number, Map<number, number>>;
 
 	private constructor() {
-		this.providers = new Map();
+		this.pools = new Map();
+		this.circuitBreakers = new Map();
+		this.blockTimestamps = new Map();
 	}
 
 	public static getInstance(): BlockchainService {
@@ -29,53 +65,606 @@ export class BlockchainService {
 		return BlockchainService.instance;
 	}
 
-	public getProvider(chainId: ChainIds): ethers.providers.JsonRpcProvider {
-		if (!this.providers.has(chainId)) {
-			const rpcUrl = config.chains[chainId].rpcUrl;
-			if (!rpcUrl) {
+	/**
+	 * Get the RPC endpoint pool for a specific chain, creating it on first use
+	 * @param chainId - The chain ID to get the pool for
+	 * @returns RPC pool with all configured endpoints of the chain
+	 */
+	public getRpcPool(chainId: number): RpcPool {
+		if (!this.pools.has(chainId)) {
+			const rpcUrls = [...(getChainConfig(chainId)?.rpcUrls ?? [])];
+			if (rpcUrls.length === 0) {
 				throw new Error(`No RPC URL configured for chain ${chainId}`);
 			}
-			this.providers.set(chainId, new ethers.providers.JsonRpcProvider(rpcUrl));
+			this.pools.set(
+				chainId,
+				new RpcPool(chainId, rpcUrls, { maxHeadLag: config.rpcMaxHeadLag })
+			);
 		}
-		return this.providers.get(chainId)!;
+		return this.pools.get(chainId)!;
+	}
+
+	/**
+	 * Drop the RPC endpoint pool of a chain, so the next call builds it from the
+	 * chain's current endpoints. Used when the configured endpoints change.
+	 * @param chainId - The chain ID whose pool is dropped
+	 */
+	public resetRpcPool(chainId: number): void {
+		this.pools.delete(chainId);
+	}
+
+	/**
+	 * Get the provider of the healthiest RPC endpoint for a specific chain
+	 * @param chainId - The chain ID to get the provider for
+	 * @returns JSON-RPC provider
+	 */
+	public getProvider(chainId: number): ethers.providers.JsonRpcProvider {
+		return this.getRpcPool(chainId).getProvider();
 	}
 
 	/**
-	 * Get contract instance for a specific chain
+	 * Get the health of every RPC endpoint configured for a chain
+	 * @param chainId - The chain ID to report on
+	 * @returns Endpoint health, best-ranked first
+	 */
+	public getRpcHealth(chainId: number): EndpointHealth[] {
+		return this.getRpcPool(chainId).getHealth();
+	}
+
+	/**
+	 * Get the circuit breaker state of a chain
+	 * @param chainId - The chain ID to report on
+	 * @returns Breaker state and remaining cool-down
+	 */
+	public getCircuitState(chainId: number): {
+		state: CircuitState;
+		retryAfterMs: number;
+	} {
+		const breaker = this.getCircuitBreaker(chainId);
+		return {
+			state: breaker.getState(),
+			retryAfterMs: breaker.remainingCooldownMs(),
+		};
+	}
+
+	/**
+	 * Get the circuit breaker for a specific chain, creating it on first use
+	 * @param chainId - The chain ID to get the breaker for
+	 */
+	private getCircuitBreaker(chainId: number): CircuitBreaker {
+		if (!this.circuitBreakers.has(chainId)) {
+			this.circuitBreakers.set(
+				chainId,
+				new CircuitBreaker(`chain ${chainId}`, {
+					failureThreshold: config.circuitBreaker.failureThreshold,
+					cooldownMs: config.circuitBreaker.cooldownMs,
+					// Only infrastructure failures should pause the chain
+					isFailure: (error) => classifyRpcError(error).kind === "retryable",
+					onStateChange: (state, previous) =>
+						logger.warn(
+							{ type: "circuit_breaker", chainId, state, previous },
+							`Circuit breaker for chain ${chainId} is now ${state}`
+						),
+				})
+			);
+		}
+		return this.circuitBreakers.get(chainId)!;
+	}
+
+	/**
+	 * Runs an RPC operation with retries and the chain's circuit breaker.
+	 * Retryable errors are retried with jittered exponential backoff; once retries are
+	 * exhausted the failure counts towards the breaker, which pauses the chain when open.
+	 * @param chainId - The chain ID the call belongs to
+	 * @param operation - Name of the call, used for logging
+	 * @param fn - The call to run against the chain's RPC pool
+	 * @returns The call's result
+	 * @throws {CircuitOpenError} When the chain's circuit breaker is open
+	 */
+	private callRpc<T>(
+		chainId: number,
+		operation: string,
+		fn: (pool: RpcPool) => Promise<T>
+	): Promise<T> {
+		return this.getCircuitBreaker(chainId).execute(() =>
+			withRetry(() => fn(this.getRpcPool(chainId)), {
+				retries: config.rpcRetry.retries,
+				baseDelayMs: config.rpcRetry.baseDelayMs,
+				maxDelayMs: config.rpcRetry.maxDelayMs,
+				shouldRetry: (error) => classifyRpcError(error).kind === "retryable",
+				onRetry: (error, attempt, delayMs) =>
+					logger.warn(
+						{ chainId, operation, attempt, delayMs, error },
+						`Retrying ${operation} after transient RPC error`
+					),
+			})
+		);
+	}
+
+	/**
+	 * Converts a provider error into a BlockchainError based on its classification
+	 * @param error - The error thrown by the provider
+	 * @param message - Description of the failed operation
+	 */
+	private toBlockchainError(error: any, message: string): BlockchainError {
+		if (error instanceof BlockchainError) {
+			return error;
+		}
+		const { kind, reason } = classifyRpcError(error);
+		switch (reason) {
+			case "range_limit":
+				return new RangeLimitError(`${message}: block range too large`);
+			case "timeout":
+				return new BlockchainError("Request timeout", true);
+			case "network":
+				return new BlockchainError("Network error", true);
+			case "rate_limit":
+				return new BlockchainError("RPC rate limit exceeded", true);
+			default:
+				return new BlockchainError(
+					`RPC error: ${message}${error?.message ? ` (${error.message})` : ""}`,
+					kind === "retryable"
+				);
+		}
+	}
+
+	/**
+	 * Get a FeeCollector contract instance for a specific chain
 	 * @param chainId - The chain ID to get the contract for
+	 * @param provider - Optional provider to connect with (defaults to the healthiest endpoint)
+	 * @param contractAddress - The deployment to connect to, defaults to the chain's current contract
 	 * @returns Contract instance
 	 */
-	public getContract(chainId: ChainIds) {
-		const provider = this.getProvider(chainId);
+	public getContract(
+		chainId: number,
+		provider: ethers.providers.Provider = this.getProvider(chainId),
+		contractAddress: string = getCurrentContract(chainId).address
+	) {
 		const chainConfig = config.chains[chainId];
 		if (!chainConfig) {
 			throw new Error(`No configuration found for chain ${chainId}`);
 		}
-		return FeeCollector__factory.connect(config.contractAddress, provider);
+		return FeeCollector__factory.connect(contractAddress, provider);
 	}
 
 	/**
-	 * Get the latest block number for a specific chain
+	 * Get the latest block number for a specific chain.
+	 * Queries every endpoint so lagging ones can be demoted.
 	 * @param chainId - The chain ID to get the latest block for
 	 * @returns Latest block number
 	 */
-	public async getLatestBlock(chainId: ChainIds): Promise<number> {
+	public async getLatestBlock(chainId: number): Promise<number> {
 		try {
-			const provider = this.getProvider(chainId);
-			return await provider.getBlockNumber();
+			return await this.callRpc(chainId, "getBlockNumber", (pool) =>
+				pool.getLatestBlock()
+			);
 		} catch (error: any) {
 			logger.error({ chainId, error }, "Error getting latest block");
-			if (error?.message?.toLowerCase().includes("rpc error")) {
-				throw new BlockchainError("RPC error");
+			throw this.toBlockchainError(error, "Failed to get latest block");
+		}
+	}
+
+	/**
+	 * Get the highest block that satisfies the chain's confirmation setting.
+	 * A block count is subtracted from the latest block, while the "safe" and
+	 * "finalized" tags are resolved by the RPC.
+	 * @param chainId - The chain ID to get the confirmed block for
+	 * @returns Confirmed block number
+	 */
+	public async getConfirmedBlock(chainId: number): Promise<number> {
+		const { confirmations } = config.chains[chainId];
+		if (typeof confirmations === "number") {
+			const latestBlock = await this.getLatestBlock(chainId);
+			return Math.max(latestBlock - confirmations, 0);
+		}
+
+		try {
+			const block = await this.callRpc(chainId, "getBlock", (pool) =>
+				pool.execute("getBlock", (provider) => provider.getBlock(confirmations))
+			);
+			if (!block) {
+				throw new BlockchainError(
+					`RPC returned no block for tag "${confirmations}"`
+				);
 			}
-			if (error?.message?.toLowerCase().includes("network error")) {
-				throw new BlockchainError("Network error");
+			return block.number;
+		} catch (error: any) {
+			logger.error(
+				{ chainId, confirmations, error },
+				"Error resolving finality tag"
+			);
+			if (
+				error instanceof BlockchainError ||
+				classifyRpcError(error).kind === "retryable"
+			) {
+				throw this.toBlockchainError(error, "Failed to resolve finality tag");
 			}
-			if (error?.message?.toLowerCase().includes("timeout")) {
-				throw new BlockchainError("Request timeout");
+			throw new BlockchainError(
+				`Failed to resolve "${confirmations}" block, the RPC may not support this tag`
+			);
+		}
+	}
+
+	/**
+	 * Get the hash of a block on a specific chain
+	 * @param chainId - The chain ID to query
+	 * @param blockNumber - The block number to get the hash for
+	 * @returns Block hash
+	 */
+	public async getBlockHash(
+		chainId: number,
+		blockNumber: number
+	): Promise<string> {
+		try {
+			const block = await this.fetchBlock(chainId, blockNumber);
+			return block.hash;
+		} catch (error: any) {
+			logger.error({ chainId, blockNumber, error }, "Error getting block hash");
+			throw this.toBlockchainError(error, "Failed to get block hash");
+		}
+	}
+
+	/**
+	 * Get the timestamps of blocks on a specific chain.
+	 * Blocks are requested in small parallel batches and cached per chain, so the
+	 * blocks of a chunk's events cost one request each at most.
+	 * @param chainId - The chain ID to query
+	 * @param blockNumbers - The blocks to resolve, duplicates allowed
+	 * @returns Unix timestamp in seconds by block number
+	 */
+	public async getBlockTimestamps(
+		chainId: number,
+		blockNumbers: number[]
+	): Promise<Map<number, number>> {
+		let cache = this.blockTimestamps.get(chainId);
+		if (!cache) {
+			cache = new Map();
+			this.blockTimestamps.set(chainId, cache);
+		}
+
+		const timestamps = new Map<number, number>();
+		const missing: number[] = [];
+		for (const blockNumber of new Set(blockNumbers)) {
+			const timestamp = cache.get(blockNumber);
+			if (timestamp === undefined) {
+				missing.push(blockNumber);
+			} else {
+				timestamps.set(blockNumber, timestamp);
+			}
+		}
+
+		try {
+			for (let i = 0; i < missing.length; i += ENRICHMENT_BATCH_SIZE) {
+				const batch = missing.slice(i, i + ENRICHMENT_BATCH_SIZE);
+				const blocks = await Promise.all(
+					batch.map((blockNumber) => this.fetchBlock(chainId, blockNumber))
+				);
+				for (const block of blocks) {
+					timestamps.set(block.number, block.timestamp);
+					cache.set(block.number, block.timestamp);
+					if (cache.size > BLOCK_TIMESTAMP_CACHE_SIZE) {
+						cache.delete(cache.keys().next().value!);
+					}
+				}
+			}
+		} catch (error: any) {
+			logger.error(
+				{ chainId, blockCount: missing.length, error },
+				"Error getting block timestamps"
+			);
+			throw this.toBlockchainError(error, "Failed to get block timestamps");
+		}
+		return timestamps;
+	}
+
+	/**
+	 * Fetch a block through the chain's RPC pool.
+	 * A missing block fails over to the next endpoint, it may just be lagging.
+	 * @param chainId - The chain ID to query
+	 * @param blockNumber - The block number to fetch
+	 */
+	private fetchBlock(
+		chainId: number,
+		blockNumber: number
+	): Promise<ethers.providers.Block> {
+		return this.callRpc(chainId, "getBlock", (pool) =>
+			pool.execute("getBlock", async (provider) => {
+				const block = await provider.getBlock(blockNumber);
+				if (!block) {
+					throw new Error(`Block ${blockNumber} not found`);
+				}
+				return block;
+			})
+		);
+	}
+
+	/**
+	 * Get the context of transactions on a specific chain: sender, target, gas paid
+	 * and function selector. Each transaction and its receipt are requested once,
+	 * in small parallel batches.
+	 * @param chainId - The chain ID to query
+	 * @param transactionHashes - The transactions to resolve, duplicates allowed
+	 * @returns Transaction context by transaction hash
+	 */
+	public async getTransactionContexts(
+		chainId: number,
+		transactionHashes: string[]
+	): Promise<Map<string, TransactionContext>> {
+		const hashes = [...new Set(transactionHashes)];
+		const contexts = new Map<string, TransactionContext>();
+		try {
+			for (let i = 0; i < hashes.length; i += ENRICHMENT_BATCH_SIZE) {
+				const batch = hashes.slice(i, i + ENRICHMENT_BATCH_SIZE);
+				const results = await Promise.all(
+					batch.map((hash) => this.fetchTransactionContext(chainId, hash))
+				);
+				batch.forEach((hash, index) => contexts.set(hash, results[index]));
 			}
-			throw new BlockchainError("Failed to get latest block");
+		} catch (error: any) {
+			logger.error(
+				{ chainId, transactionCount: hashes.length, error },
+				"Error getting transactions"
+			);
+			throw this.toBlockchainError(error, "Failed to get transactions");
 		}
+		return contexts;
+	}
+
+	/**
+	 * Fetch a transaction and its receipt through the chain's RPC pool.
+	 * A missing transaction fails over to the next endpoint, it may just be lagging.
+	 * @param chainId - The chain ID to query
+	 * @param hash - The transaction hash
+	 */
+	private fetchTransactionContext(
+		chainId: number,
+		hash: string
+	): Promise<TransactionContext> {
+		return this.callRpc(chainId, "getTransaction", (pool) =>
+			pool.execute("getTransaction", async (provider) => {
+				const [transaction, receipt] = await Promise.all([
+					provider.getTransaction(hash),
+					provider.getTransactionReceipt(hash),
+				]);
+				if (!transaction || !receipt) {
+					throw new Error(`Transaction ${hash} not found`);
+				}
+				// Receipts of pre-London chains have no effective gas price
+				const gasPrice = receipt.effectiveGasPrice ?? transaction.gasPrice;
+				return {
+					from: transaction.from,
+					...(transaction.to && { to: transaction.to }),
+					gasUsed: receipt.gasUsed.toString(),
+					effectiveGasPrice: (gasPrice ?? 0).toString(),
+					...(transaction.data.length >= 10 && {
+						selector: transaction.data.slice(0, 10),
+					}),
+				};
+			})
+		);
+	}
+
+	/**
+	 * Get the bytecode at an address on a specific chain
+	 * @param chainId - The chain ID to query
+	 * @param address - The address to read
+	 * @param blockNumber - The block to read the code at
+	 * @returns The bytecode, "0x" when no contract exists at the address in that block
+	 */
+	public async getCode(
+		chainId: number,
+		address: string,
+		blockNumber: number
+	): Promise<string> {
+		try {
+			return await this.callRpc(chainId, "getCode", (pool) =>
+				pool.execute("getCode", (provider) =>
+					provider.getCode(address, blockNumber)
+				)
+			);
+		} catch (error: any) {
+			logger.error(
+				{ chainId, address, blockNumber, error },
+				"Error getting contract code"
+			);
+			throw this.toBlockchainError(error, "Failed to get contract code");
+		}
+	}
+
+	/**
+	 * Find the block a contract was created in: the first block at which its address
+	 * holds code, found by binary search. Needs an RPC that serves historic state.
+	 * @param chainId - The chain ID to query
+	 * @param address - The contract address
+	 * @returns The creation block, or null if the address holds no code at the latest block
+	 */
+	public async findDeploymentBlock(
+		chainId: number,
+		address: string
+	): Promise<number | null> {
+		const latestBlock = await this.getLatestBlock(chainId);
+		if ((await this.getCode(chainId, address, latestBlock)) === "0x") {
+			return null;
+		}
+
+		let low = 0;
+		let high = latestBlock;
+		while (low < high) {
+			const middle = Math.floor((low + high) / 2);
+			if ((await this.getCode(chainId, address, middle)) === "0x") {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
+		}
+		return low;
+	}
+
+	/**
+	 * Get the fee balance the FeeCollector holds for an integrator in a token, via `getTokenBalance`
+	 * @param chainId - The chain ID to query
+	 * @param integrator - The integrator address
+	 * @param token - The token address
+	 * @param blockNumber - The block to read the balance at
+	 * @param contractAddress - The deployment to read, defaults to the chain's current contract
+	 * @returns Balance in the token's smallest unit, as a string
+	 */
+	public async getIntegratorTokenBalance(
+		chainId: number,
+		integrator: string,
+		token: string,
+		blockNumber: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<string> {
+		try {
+			const balance = await this.callRpc(chainId, "getTokenBalance", (pool) =>
+				pool.execute<ethers.BigNumber>("call", (provider) =>
+					this.getContract(chainId, provider, contractAddress).getTokenBalance(
+						integrator,
+						token,
+						{ blockTag: blockNumber }
+					)
+				)
+			);
+			return balance.toString();
+		} catch (error: any) {
+			logger.error(
+				{ chainId, integrator, token, blockNumber, error },
+				"Error getting integrator token balance"
+			);
+			throw this.toBlockchainError(error, "Failed to get token balance");
+		}
+	}
+
+	/**
+	 * Get LiFi's own fee balance the FeeCollector holds in a token, via `getLifiTokenBalance`
+	 * @param chainId - The chain ID to query
+	 * @param token - The token address
+	 * @param blockNumber - The block to read the balance at
+	 * @param contractAddress - The deployment to read, defaults to the chain's current contract
+	 * @returns Balance in the token's smallest unit, as a string
+	 */
+	public async getLifiTokenBalance(
+		chainId: number,
+		token: string,
+		blockNumber: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<string> {
+		try {
+			const balance = await this.callRpc(
+				chainId,
+				"getLifiTokenBalance",
+				(pool) =>
+					pool.execute<ethers.BigNumber>("call", (provider) =>
+						this.getContract(
+							chainId,
+							provider,
+							contractAddress
+						).getLifiTokenBalance(token, {
+							blockTag: blockNumber,
+						})
+					)
+			);
+			return balance.toString();
+		} catch (error: any) {
+			logger.error(
+				{ chainId, token, blockNumber, error },
+				"Error getting LiFi token balance"
+			);
+			throw this.toBlockchainError(error, "Failed to get LiFi token balance");
+		}
+	}
+
+	/**
+	 * Get the ERC-20 metadata of a token via `symbol()`, `name()` and `decimals()`.
+	 * A function the token does not implement, or whose result cannot be decoded,
+	 * is left unset; bytes32 symbols and names are decoded as well.
+	 * @param chainId - The chain ID to query
+	 * @param token - The token address
+	 * @returns The metadata the token provides
+	 */
+	public async getTokenMetadata(
+		chainId: number,
+		token: string
+	): Promise<TokenMetadata> {
+		try {
+			const [symbol, name, decimals] = await Promise.all([
+				this.callTokenFunction(chainId, token, "symbol"),
+				this.callTokenFunction(chainId, token, "name"),
+				this.callTokenFunction(chainId, token, "decimals"),
+			]);
+			const metadata: TokenMetadata = {};
+			const decodedSymbol = this.decodeTokenString("symbol", symbol);
+			if (decodedSymbol !== undefined) metadata.symbol = decodedSymbol;
+			const decodedName = this.decodeTokenString("name", name);
+			if (decodedName !== undefined) metadata.name = decodedName;
+			const decodedDecimals = this.decodeTokenDecimals(decimals);
+			if (decodedDecimals !== undefined) metadata.decimals = decodedDecimals;
+			return metadata;
+		} catch (error: any) {
+			logger.error({ chainId, token, error }, "Error getting token metadata");
+			throw this.toBlockchainError(error, "Failed to get token metadata");
+		}
+	}
+
+	/**
+	 * Call an ERC-20 metadata function of a token
+	 * @param chainId - The chain ID to query
+	 * @param token - The token address
+	 * @param fn - The function to call
+	 * @returns The raw result, or null if the call reverted
+	 */
+	private callTokenFunction(
+		chainId: number,
+		token: string,
+		fn: "symbol" | "name" | "decimals"
+	): Promise<string | null> {
+		const data = ERC20_METADATA_INTERFACE.encodeFunctionData(fn);
+		return this.callRpc(chainId, fn, (pool) =>
+			pool.execute("call", async (provider) => {
+				try {
+					return await provider.call({ to: token, data });
+				} catch (error) {
+					// A revert means the token does not implement the function
+					if (classifyRpcError(error).kind === "fatal") return null;
+					throw error;
+				}
+			})
+		);
+	}
+
+	/**
+	 * Decode the result of `symbol()` or `name()`, as a string or a bytes32
+	 * @returns The decoded string, undefined if the result is neither
+	 */
+	private decodeTokenString(
+		fn: "symbol" | "name",
+		result: string | null
+	): string | undefined {
+		if (!result || result === "0x") return undefined;
+		try {
+			return ERC20_METADATA_INTERFACE.decodeFunctionResult(fn, result)[0];
+		} catch {
+			// Not an ABI-encoded string, try bytes32
+		}
+		if (ethers.utils.hexDataLength(result) !== 32) return undefined;
+		try {
+			return ethers.utils.parseBytes32String(result);
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * Decode the result of `decimals()`
+	 * @returns The decimals, undefined if the result is missing or out of range
+	 */
+	private decodeTokenDecimals(result: string | null): number | undefined {
+		if (!result || ethers.utils.hexDataLength(result) < 32) return undefined;
+		const decimals = ethers.BigNumber.from(
+			ethers.utils.hexDataSlice(result, 0, 32)
+		);
+		return decimals.lte(MAX_TOKEN_DECIMALS) ? decimals.toNumber() : undefined;
 	}
 
 	/**
@@ -83,12 +672,14 @@ export class BlockchainService {
 	 * @param chainId - The chain ID to get events for
 	 * @param fromBlock - Start block number (inclusive)
 	 * @param toBlock - End block number (inclusive)
+	 * @param contractAddress - The deployment to query, defaults to the chain's current contract
 	 * @returns Array of parsed event data
 	 */
 	async loadFeeCollectorEvents(
-		chainId: ChainIds,
+		chainId: number,
 		fromBlock: number,
-		toBlock: number
+		toBlock: number,
+		contractAddress: string = getCurrentContract(chainId).address
 	): Promise<FeeCollectedEventData[]> {
 		if (fromBlock > toBlock) {
 			throw new ValidationError(
@@ -97,14 +688,26 @@ export class BlockchainService {
 		}
 
 		try {
-			const contract = this.getContract(chainId);
+			const contract = this.getContract(chainId, undefined, contractAddress);
 			const filter = contract.filters.FeesCollected();
 
 			logger.debug(
-				{ chainId, fromBlock, toBlock },
+				{ chainId, contractAddress, fromBlock, toBlock },
 				"Querying blockchain for events"
 			);
-			const events = await contract.queryFilter(filter, fromBlock, toBlock);
+			const events = await this.callRpc(chainId, "getLogs", (pool) =>
+				pool.execute<ethers.Event[]>(
+					"getLogs",
+					(provider) =>
+						this.getContract(chainId, provider, contractAddress).queryFilter(
+							filter,
+							fromBlock,
+							toBlock
+						),
+					// A node that has not seen toBlock yet answers without its logs
+					toBlock
+				)
+			);
 
 			const parsedEvents = events.map((event) => {
 				const parsedEvent = contract.interface.parseLog(event);
@@ -135,16 +738,98 @@ export class BlockchainService {
 			return parsedEvents;
 		} catch (error: any) {
 			logger.error({ chainId, error }, "Error loading fee collector events");
-			if (error?.message?.toLowerCase().includes("rpc error")) {
-				throw new BlockchainError("RPC error");
-			}
-			if (error?.message?.toLowerCase().includes("network error")) {
-				throw new BlockchainError("Network error");
-			}
-			if (error?.message?.toLowerCase().includes("timeout")) {
-				throw new BlockchainError("Request timeout");
-			}
-			throw error;
+			throw this.toBlockchainError(
+				error,
+				`Failed to load events for blocks ${fromBlock}-${toBlock}`
+			);
+		}
+	}
+
+	/**
+	 * Load all FeesWithdrawn and LiFiFeesWithdrawn events from the blockchain in a given block range.
+	 * Both events are queried in a single getLogs call by matching either topic.
+	 * @param chainId - The chain ID to get events for
+	 * @param fromBlock - Start block number (inclusive)
+	 * @param toBlock - End block number (inclusive)
+	 * @param contractAddress - The deployment to query, defaults to the chain's current contract
+	 * @returns Array of parsed withdrawal events in log order
+	 */
+	async loadWithdrawalEvents(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<WithdrawalEventData[]> {
+		if (fromBlock > toBlock) {
+			throw new ValidationError(
+				"Invalid block range: fromBlock cannot be greater than toBlock"
+			);
+		}
+
+		try {
+			const contract = this.getContract(chainId, undefined, contractAddress);
+			const eventNames: WithdrawalEventName[] = [
+				"FeesWithdrawn",
+				"LiFiFeesWithdrawn",
+			];
+			const filter = {
+				address: contract.address,
+				topics: [
+					eventNames.map((name) => contract.interface.getEventTopic(name)),
+				],
+			};
+
+			logger.debug(
+				{ chainId, contractAddress, fromBlock, toBlock },
+				"Querying blockchain for withdrawal events"
+			);
+			const events = await this.callRpc(chainId, "getLogs", (pool) =>
+				pool.execute<ethers.Event[]>(
+					"getLogs",
+					(provider) =>
+						this.getContract(chainId, provider, contractAddress).queryFilter(
+							filter,
+							fromBlock,
+							toBlock
+						),
+					// A node that has not seen toBlock yet answers without its logs
+					toBlock
+				)
+			);
+
+			const parsedEvents = events.map((event) => {
+				const parsedEvent = contract.interface.parseLog(event);
+				const eventObj = {
+					...event,
+					event: parsedEvent.name,
+					args: {
+						token: parsedEvent.args[0],
+						to: parsedEvent.args[1],
+						amount: parsedEvent.args[2].toString(),
+					},
+				};
+				try {
+					WithdrawalEventSchema.parse(eventObj);
+				} catch (err) {
+					const errors = err instanceof ZodError ? err.errors : err;
+					throw new BlockchainError(
+						"Invalid withdrawal event data: " + JSON.stringify(errors)
+					);
+				}
+				return eventObj as WithdrawalEventData;
+			});
+
+			logger.debug(
+				{ chainId, eventCount: parsedEvents.length },
+				"Successfully parsed withdrawal events"
+			);
+			return parsedEvents;
+		} catch (error: any) {
+			logger.error({ chainId, error }, "Error loading withdrawal events");
+			throw this.toBlockchainError(
+				error,
+				`Failed to load withdrawal events for blocks ${fromBlock}-${toBlock}`
+			);
 		}
 	}
 
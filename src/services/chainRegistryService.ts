@@ -0,0 +1,63 @@
+import { Chain, ChainModel } from "../models/Chain";
+import { registerChain } from "../utils/config";
+import logger from "../utils/logger";
+import { ConfigurationError, DatabaseError } from "../errors/AppError";
+
+/**
+ * ChainRegistryService
+ *
+ * Adds the chains stored in the `chains` collection to the chain registry.
+ * Chains defined in CHAINS_FILE or built in are registered when the config is
+ * loaded; stored chains are registered at startup on top of them, so a chain
+ * can be added or changed without a code change.
+ */
+export class ChainRegistryService {
+	private static instance: ChainRegistryService;
+
+	private constructor() {}
+
+	public static getInstance(): ChainRegistryService {
+		if (!ChainRegistryService.instance) {
+			ChainRegistryService.instance = new ChainRegistryService();
+		}
+		return ChainRegistryService.instance;
+	}
+
+	/**
+	 * Registers every chain stored in the database.
+	 * A stored chain replaces a configured chain with the same chain ID.
+	 *
+	 * @returns Number of registered chains
+	 * @throws {ConfigurationError} When a stored chain is invalid
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async loadFromDatabase(): Promise<number> {
+		let chains: Chain[];
+		try {
+			chains = await ChainModel.find({}).sort({ chainId: 1 }).lean();
+		} catch (error) {
+			logger.error({ error }, "Error loading chains");
+			throw new DatabaseError("Failed to load chains");
+		}
+
+		for (const chain of chains) {
+			try {
+				registerChain(chain);
+			} catch (error) {
+				if (error instanceof ConfigurationError) {
+					throw new ConfigurationError(
+						`Stored chain ${chain.chainId}: ${error.message}`
+					);
+				}
+				throw error;
+			}
+		}
+		if (chains.length > 0) {
+			logger.info(
+				{ chainIds: chains.map((chain) => chain.chainId) },
+				"Registered chains from the database"
+			);
+		}
+		return chains.length;
+	}
+}
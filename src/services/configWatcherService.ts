@@ -0,0 +1,118 @@
+import fs from "fs";
+import { getConfigFile, reloadConfig } from "../utils/config";
+import { ConfigReload } from "../types/config";
+import { BlockchainService } from "./blockchainService";
+import { ScannerService } from "./scannerService";
+import logger from "../utils/logger";
+import { ConfigurationError } from "../errors/AppError";
+
+// How often the config file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * ConfigWatcherService
+ *
+ * Watches the config file named by CONFIG_FILE and applies the settings that are
+ * safe to change while running: the enabled chains, and each chain's RPC endpoints
+ * and poll interval. An invalid file is reported and the running configuration is kept;
+ * other changed settings are logged as needing a restart.
+ */
+export class ConfigWatcherService {
+	private static instance: ConfigWatcherService;
+	private blockchainService: BlockchainService;
+	private scannerService: ScannerService;
+	private watchedFile: string | null = null;
+	private reloading: Promise<unknown> = Promise.resolve();
+
+	private constructor() {
+		this.blockchainService = BlockchainService.getInstance();
+		this.scannerService = ScannerService.getInstance();
+	}
+
+	public static getInstance(): ConfigWatcherService {
+		if (!ConfigWatcherService.instance) {
+			ConfigWatcherService.instance = new ConfigWatcherService();
+		}
+		return ConfigWatcherService.instance;
+	}
+
+	/**
+	 * Start watching the config file. Does nothing when no config file is used.
+	 */
+	public start(): void {
+		const configFile = getConfigFile();
+		if (!configFile || this.watchedFile) return;
+
+		this.watchedFile = configFile;
+		fs.watchFile(configFile, { interval: WATCH_INTERVAL_MS }, (current) => {
+			// A deleted file keeps the running configuration
+			if (current.mtimeMs === 0) return;
+			this.reload();
+		});
+		logger.info({ configFile }, "Watching config file for changes");
+	}
+
+	/**
+	 * Stop watching the config file
+	 */
+	public stop(): void {
+		if (!this.watchedFile) return;
+		fs.unwatchFile(this.watchedFile);
+		this.watchedFile = null;
+	}
+
+	/**
+	 * Reload the configuration and apply the safe settings.
+	 * Reloads run one at a time.
+	 * @returns What changed, or null if the new configuration is invalid
+	 */
+	public reload(): Promise<ConfigReload | null> {
+		const reload = this.reloading.then(() => this.applyReload());
+		this.reloading = reload;
+		return reload;
+	}
+
+	/**
+	 * Reload the configuration, then rebuild the RPC pools and follow loops it affects
+	 */
+	private async applyReload(): Promise<ConfigReload | null> {
+		let reload: ConfigReload;
+		try {
+			reload = reloadConfig();
+		} catch (error) {
+			if (error instanceof ConfigurationError) {
+				logger.error(
+					{ error: error.message },
+					"Config file is invalid, keeping the current configuration"
+				);
+				return null;
+			}
+			throw error;
+		}
+
+		for (const chainId of reload.rpcChangedChains) {
+			this.blockchainService.resetRpcPool(chainId);
+		}
+		try {
+			await this.scannerService.syncFollowedChains();
+		} catch (error) {
+			logger.error({ error }, "Error applying the enabled chains");
+		}
+
+		logger.info(
+			{
+				enabledChains: reload.enabledChains,
+				rpcChangedChains: reload.rpcChangedChains,
+				pollIntervalChangedChains: reload.pollIntervalChangedChains,
+			},
+			"Config file reloaded"
+		);
+		if (reload.restartRequired.length > 0) {
+			logger.warn(
+				{ settings: reload.restartRequired },
+				"Changed settings only take effect after a restart"
+			);
+		}
+		return reload;
+	}
+}
@@ -0,0 +1,186 @@
+import { ScannedRangeModel } from "../models/ScannedRange";
+import { EventService } from "./eventService";
+import { findContractDeployment, getCurrentContract } from "../utils/config";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+
+/**
+ * An inclusive range of blocks
+ *
+ * @property {number} fromBlock - First block of the range
+ * @property {number} toBlock - Last block of the range
+ */
+export interface BlockRange {
+	fromBlock: number;
+	toBlock: number;
+}
+
+/**
+ * CoverageService
+ *
+ * Tracks which block ranges have been scanned per chain and contract, and finds
+ * the gaps between a contract's start block and its checkpoint that were never scanned.
+ */
+export class CoverageService {
+	private static instance: CoverageService;
+	private eventService: EventService;
+
+	private constructor() {
+		this.eventService = EventService.getInstance();
+	}
+
+	public static getInstance(): CoverageService {
+		if (!CoverageService.instance) {
+			CoverageService.instance = new CoverageService();
+		}
+		return CoverageService.instance;
+	}
+
+	/**
+	 * Records a scanned block range, merging it with overlapping and adjacent intervals.
+	 *
+	 * @param chainId - The chain ID the range belongs to
+	 * @param fromBlock - First scanned block (inclusive)
+	 * @param toBlock - Last scanned block (inclusive)
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async recordScannedRange(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<void> {
+		const address = contractAddress.toLowerCase();
+		try {
+			const touching = await ScannedRangeModel.find({
+				chainId,
+				contractAddress: address,
+				fromBlock: { $lte: toBlock + 1 },
+				toBlock: { $gte: fromBlock - 1 },
+			}).lean();
+
+			// Nothing to do when an existing interval already covers the range
+			if (
+				touching.some(
+					(range) => range.fromBlock <= fromBlock && range.toBlock >= toBlock
+				)
+			) {
+				return;
+			}
+
+			const merged = {
+				fromBlock: Math.min(fromBlock, ...touching.map((r) => r.fromBlock)),
+				toBlock: Math.max(toBlock, ...touching.map((r) => r.toBlock)),
+			};
+			await ScannedRangeModel.create({
+				chainId,
+				contractAddress: address,
+				...merged,
+			});
+			if (touching.length > 0) {
+				await ScannedRangeModel.deleteMany({
+					_id: { $in: touching.map((range) => range._id) },
+				});
+			}
+		} catch (error) {
+			logger.error(
+				{ chainId, fromBlock, toBlock, error },
+				"Error recording scanned range"
+			);
+			throw new DatabaseError("Failed to record scanned range");
+		}
+	}
+
+	/**
+	 * Returns the merged scanned intervals of a chain and contract.
+	 *
+	 * @param chainId - The chain ID to look up
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @returns Scanned intervals, lowest first
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getCoverage(
+		chainId: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<BlockRange[]> {
+		try {
+			const ranges = await ScannedRangeModel.find({
+				chainId,
+				contractAddress: contractAddress.toLowerCase(),
+			})
+				.sort({ fromBlock: 1 })
+				.lean();
+			return ranges.map(({ fromBlock, toBlock }) => ({ fromBlock, toBlock }));
+		} catch (error) {
+			logger.error({ chainId, error }, "Error getting scanned ranges");
+			throw new DatabaseError("Failed to get scanned ranges");
+		}
+	}
+
+	/**
+	 * Finds the block ranges between a contract's start block and its checkpoint that were never scanned.
+	 * A retired contract is only checked up to its end block.
+	 *
+	 * @param chainId - The chain ID to check
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @returns Unscanned ranges, lowest first
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async findGaps(
+		chainId: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<BlockRange[]> {
+		const deployment = findContractDeployment(chainId, contractAddress);
+		if (!deployment) return [];
+		const { startBlock, endBlock } = deployment;
+		const checkpoint = Math.min(
+			await this.eventService.getLastScannedBlock(chainId, contractAddress),
+			endBlock ?? Infinity
+		);
+		if (checkpoint < startBlock) return [];
+
+		const gaps: BlockRange[] = [];
+		let nextUncovered = startBlock;
+		for (const range of await this.getCoverage(chainId, contractAddress)) {
+			if (range.fromBlock > checkpoint) break;
+			if (range.fromBlock > nextUncovered) {
+				gaps.push({ fromBlock: nextUncovered, toBlock: range.fromBlock - 1 });
+			}
+			nextUncovered = Math.max(nextUncovered, range.toBlock + 1);
+		}
+		if (nextUncovered <= checkpoint) {
+			gaps.push({ fromBlock: nextUncovered, toBlock: checkpoint });
+		}
+		return gaps;
+	}
+
+	/**
+	 * Drops the coverage above a block for every contract on the chain, e.g. after a reorg rollback.
+	 *
+	 * @param chainId - The chain ID to trim
+	 * @param blockNumber - The last block that stays covered
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async removeCoverageAfter(
+		chainId: number,
+		blockNumber: number
+	): Promise<void> {
+		try {
+			await ScannedRangeModel.deleteMany({
+				chainId,
+				fromBlock: { $gt: blockNumber },
+			});
+			await ScannedRangeModel.updateMany(
+				{ chainId, toBlock: { $gt: blockNumber } },
+				{ $set: { toBlock: blockNumber } }
+			);
+		} catch (error) {
+			logger.error(
+				{ chainId, blockNumber, error },
+				"Error trimming scanned ranges"
+			);
+			throw new DatabaseError("Failed to trim scanned ranges");
+		}
+	}
+}
@@ -0,0 +1,126 @@
+import {
+	DeploymentBlock,
+	DeploymentBlockModel,
+} from "../models/DeploymentBlock";
+import { setDiscoveredStartBlock } from "../utils/config";
+import { BlockchainService } from "./blockchainService";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+
+/**
+ * DeploymentBlockService
+ *
+ * Finds the creation block of FeeCollector deployments that have no configured
+ * start block, so a chain without one is not scanned from genesis. The block is
+ * found by binary-searching `eth_getCode` and stored per chain and contract.
+ */
+export class DeploymentBlockService {
+	private static instance: DeploymentBlockService;
+	private blockchainService: BlockchainService;
+
+	private constructor() {
+		this.blockchainService = BlockchainService.getInstance();
+	}
+
+	public static getInstance(): DeploymentBlockService {
+		if (!DeploymentBlockService.instance) {
+			DeploymentBlockService.instance = new DeploymentBlockService();
+		}
+		return DeploymentBlockService.instance;
+	}
+
+	/**
+	 * Applies every stored creation block to the chain registry.
+	 *
+	 * @returns Number of applied creation blocks
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async loadFromDatabase(): Promise<number> {
+		let deploymentBlocks: DeploymentBlock[];
+		try {
+			deploymentBlocks = await DeploymentBlockModel.find({}).lean();
+		} catch (error) {
+			logger.error({ error }, "Error loading deployment blocks");
+			throw new DatabaseError("Failed to load deployment blocks");
+		}
+
+		for (const { chainId, contractAddress, blockNumber } of deploymentBlocks) {
+			setDiscoveredStartBlock(chainId, contractAddress, blockNumber);
+		}
+		return deploymentBlocks.length;
+	}
+
+	/**
+	 * Gets the creation block of a deployment: the stored one, or the one found on chain,
+	 * which is then stored. Either way it is applied to the chain registry.
+	 *
+	 * @param chainId - The chain ID of the deployment
+	 * @param contractAddress - The contract address
+	 * @returns The creation block, or null if it cannot be found, e.g. because the RPC serves no historic state
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async discover(
+		chainId: number,
+		contractAddress: string
+	): Promise<number | null> {
+		const address = contractAddress.toLowerCase();
+		let stored: DeploymentBlock | null;
+		try {
+			stored = await DeploymentBlockModel.findOne({
+				chainId,
+				contractAddress: address,
+			}).lean();
+		} catch (error) {
+			logger.error(
+				{ chainId, contractAddress, error },
+				"Error getting deployment block"
+			);
+			throw new DatabaseError("Failed to get deployment block");
+		}
+		if (stored) {
+			setDiscoveredStartBlock(chainId, address, stored.blockNumber);
+			return stored.blockNumber;
+		}
+
+		let blockNumber: number | null;
+		try {
+			blockNumber = await this.blockchainService.findDeploymentBlock(
+				chainId,
+				address
+			);
+		} catch (error) {
+			logger.warn(
+				{ chainId, contractAddress, error },
+				"Could not discover the deployment block, scanning from the configured start"
+			);
+			return null;
+		}
+		if (blockNumber === null) {
+			logger.warn(
+				{ chainId, contractAddress },
+				"No contract is deployed at the configured address"
+			);
+			return null;
+		}
+
+		try {
+			await DeploymentBlockModel.updateOne(
+				{ chainId, contractAddress: address },
+				{ $set: { blockNumber } },
+				{ upsert: true }
+			);
+		} catch (error) {
+			logger.error(
+				{ chainId, contractAddress, error },
+				"Error storing deployment block"
+			);
+			throw new DatabaseError("Failed to store deployment block");
+		}
+		setDiscoveredStartBlock(chainId, address, blockNumber);
+		logger.info(
+			{ chainId, contractAddress, blockNumber },
+			"Discovered the deployment block"
+		);
+		return blockNumber;
+	}
+}
@@ -2,19 +2,85 @@ import {
 	FeeCollectedEvent,
 	FeeCollectedEventModel,
 } from "../models/FeeCollectedEvent";
-import { FeeCollectedEventData, FeeCollectedEventDTO } from "../types/events";
+import {
+	FeesWithdrawnEvent,
+	FeesWithdrawnEventModel,
+} from "../models/FeesWithdrawnEvent";
+import { LiFiFeesWithdrawnEventModel } from "../models/LiFiFeesWithdrawnEvent";
+import {
+	EventConflict,
+	EventFeeFields,
+	EventPage,
+	EventPageOptions,
+	FeeCollectedEventData,
+	FeeCollectedEventDTO,
+	StoreEventsResult,
+	WithdrawalEvent,
+	WithdrawalEventData,
+	WithdrawalEventDTO,
+	WithdrawalEventName,
+	WithdrawalFields,
+} from "../types/events";
 import logger from "../utils/logger";
-import { DatabaseError, ValidationError } from "../errors/AppError";
-import { config } from "../utils/config";
-import mongoose from "mongoose";
+import {
+	DataIntegrityError,
+	DatabaseError,
+	ValidationError,
+} from "../errors/AppError";
+import {
+	config,
+	findContractDeployment,
+	getContractDeployments,
+	getCurrentContract,
+} from "../utils/config";
+import mongoose, { ClientSession } from "mongoose";
+import { ReturnModelType, types } from "@typegoose/typegoose";
+import { ethers } from "ethers";
 import {
 	FeeCollectedEventSchema,
 	FeeCollectedEventDTOSchema,
+	WithdrawalEventSchema,
+	WithdrawalEventDTOSchema,
 } from "../types/schemas";
 import { ZodError } from "zod";
-import { ChainIds } from "../types/chains";
 import { LastScannedBlockModel } from "../models/LastScannedBlock";
 
+// Fields that must match when the same event key is stored twice
+const FEE_FIELDS: readonly (keyof EventFeeFields)[] = [
+	"token",
+	"integrator",
+	"integratorFee",
+	"lifiFee",
+];
+const WITHDRAWAL_FIELDS: readonly (keyof WithdrawalFields)[] = [
+	"token",
+	"to",
+	"amount",
+];
+
+// Fields read from the event's block and transaction, filled in on stored events that lack them
+const FEE_ENRICHMENT_FIELDS: readonly (keyof FeeCollectedEventDTO)[] = [
+	"blockTimestamp",
+	"from",
+	"to",
+	"gasUsed",
+	"effectiveGasPrice",
+	"selector",
+];
+
+// Both withdrawal collections share the fields of FeesWithdrawnEvent
+type WithdrawalModel = ReturnModelType<typeof FeesWithdrawnEvent>;
+
+// A collection of events keyed on (chainId, transactionHash, logIndex)
+type EventModel<S extends FeeCollectedEvent | FeesWithdrawnEvent> =
+	ReturnModelType<types.AnyParamConstructor<S>>;
+
+// Collection of each withdrawal event
+const WITHDRAWAL_MODELS: Record<WithdrawalEventName, WithdrawalModel> = {
+	FeesWithdrawn: FeesWithdrawnEventModel,
+	LiFiFeesWithdrawn: LiFiFeesWithdrawnEventModel,
+};
+
 /**
  * Service responsible for handling event-related database operations.
  * Manages the storage and retrieval of fee events and tracking of scanned blocks.
@@ -22,6 +88,8 @@ import { LastScannedBlockModel } from "../models/LastScannedBlock";
  */
 export class EventService {
 	private static instance: EventService;
+	// Whether the server supports transactions, known after the first chunk commit
+	private transactionsSupported: boolean | null = null;
 
 	private constructor() {}
 
@@ -33,87 +101,411 @@ export class EventService {
 	}
 
 	/**
-	 * Retrieves the last scanned block number for a specific chain.
-	 * Falls back to the configured start block if no record exists.
+	 * Retrieves the last scanned block number of a contract on a specific chain.
+	 * Falls back to the deployment's start block if no record exists.
 	 *
 	 * @param chainId - The chain ID to get the last scanned block for
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
 	 * @returns The last scanned block number
 	 * @throws {DatabaseError} When database operations fail
 	 */
-	async getLastScannedBlock(chainId: number): Promise<number> {
+	async getLastScannedBlock(
+		chainId: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<number> {
 		try {
-			const lastBlock = await LastScannedBlockModel.findOne({ chainId });
+			const lastBlock = await LastScannedBlockModel.findOne({
+				chainId,
+				contractAddress: contractAddress.toLowerCase(),
+			});
 			if (!lastBlock) {
-				const chainConfig = config.chains[chainId as ChainIds];
+				const startBlock =
+					findContractDeployment(chainId, contractAddress)?.startBlock ??
+					(config.chains[chainId]?.startBlock || 0);
 				logger.info(
-					{ chainId },
-					`No last scanned block found, using config startBlock: ${
-						chainConfig?.startBlock || 0
-					}`
+					{ chainId, contractAddress },
+					`No last scanned block found, using deployment startBlock: ${startBlock}`
 				);
-				return chainConfig?.startBlock || 0;
+				return startBlock;
 			}
 			logger.info(
-				{ chainId, blockNumber: lastBlock.blockNumber },
+				{ chainId, contractAddress, blockNumber: lastBlock.blockNumber },
 				"Read last scanned block from DB"
 			);
 			return lastBlock.blockNumber;
 		} catch (error) {
-			logger.error({ chainId, error }, "Error getting last scanned block");
+			logger.error(
+				{ chainId, contractAddress, error },
+				"Error getting last scanned block"
+			);
 			throw new DatabaseError("Failed to get last scanned block");
 		}
 	}
 
 	/**
-	 * Updates the last scanned block number for a specific chain.
+	 * Retrieves the last scanned block of every deployment on a chain.
+	 *
+	 * @param chainId - The chain ID to get the checkpoints for
+	 * @returns The last scanned block by lowercase contract address
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getCheckpoints(chainId: number): Promise<Map<string, number>> {
+		const checkpoints = new Map<string, number>();
+		for (const deployment of getContractDeployments(chainId)) {
+			checkpoints.set(
+				deployment.address.toLowerCase(),
+				await this.getLastScannedBlock(chainId, deployment.address)
+			);
+		}
+		return checkpoints;
+	}
+
+	/**
+	 * Updates the last scanned block number of a contract on a specific chain.
 	 * Uses upsert to create or update the record.
 	 *
 	 * @param chainId - The chain ID to update
 	 * @param blockNumber - The new last scanned block number
+	 * @param blockHash - Optional hash of the checkpoint block, used for reorg detection
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
 	 * @throws {DatabaseError} When database operations fail
 	 */
 	async updateLastScannedBlock(
 		chainId: number,
-		blockNumber: number
+		blockNumber: number,
+		blockHash?: string,
+		contractAddress: string = getCurrentContract(chainId).address
 	): Promise<void> {
 		if (blockNumber < 0) {
 			throw new ValidationError("Block number cannot be negative");
 		}
 
 		try {
-			await LastScannedBlockModel.updateOne(
-				{ chainId },
-				{ $set: { blockNumber } },
-				{ upsert: true }
+			await this.upsertCheckpoint(
+				chainId,
+				contractAddress,
+				blockNumber,
+				blockHash
 			);
 			logger.info(
-				{ chainId, blockNumber },
+				{ chainId, contractAddress, blockNumber, blockHash },
 				"Upserted last scanned block in DB"
 			);
 		} catch (error) {
 			logger.error(
-				{ chainId, blockNumber, error },
+				{ chainId, contractAddress, blockNumber, error },
 				"Error upserting last scanned block"
 			);
 			throw new DatabaseError("Failed to update last scanned block");
 		}
 	}
 
+	/**
+	 * Rewinds every checkpoint of a chain above a block to that block, e.g. after a reorg.
+	 * Checkpoints at or below the block are left untouched.
+	 *
+	 * @param chainId - The chain ID to rewind
+	 * @param blockNumber - The block the checkpoints are rewound to
+	 * @param blockHash - Optional hash of that block, used for reorg detection
+	 * @returns Number of rewound checkpoints
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async rewindCheckpoints(
+		chainId: number,
+		blockNumber: number,
+		blockHash?: string
+	): Promise<number> {
+		try {
+			const result = await LastScannedBlockModel.updateMany(
+				{ chainId, blockNumber: { $gt: blockNumber } },
+				blockHash
+					? { $set: { blockNumber, blockHash } }
+					: { $set: { blockNumber }, $unset: { blockHash: 1 } }
+			);
+			logger.info(
+				{ chainId, blockNumber, rewound: result.modifiedCount },
+				"Rewound checkpoints"
+			);
+			return result.modifiedCount;
+		} catch (error) {
+			logger.error(
+				{ chainId, blockNumber, error },
+				"Error rewinding checkpoints"
+			);
+			throw new DatabaseError("Failed to rewind checkpoints");
+		}
+	}
+
+	/**
+	 * Assigns checkpoints stored before they were tracked per contract to the
+	 * first deployment of their chain, then replaces the old per-chain unique index.
+	 *
+	 * @returns Number of adopted checkpoints
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async adoptLegacyCheckpoints(): Promise<number> {
+		try {
+			let adopted = 0;
+			const chainIds: number[] = await LastScannedBlockModel.distinct(
+				"chainId",
+				{ contractAddress: { $exists: false } }
+			);
+			for (const chainId of chainIds) {
+				const [firstDeployment] = getContractDeployments(chainId);
+				if (!firstDeployment) continue;
+				const result = await LastScannedBlockModel.updateMany(
+					{ chainId, contractAddress: { $exists: false } },
+					{ $set: { contractAddress: firstDeployment.address.toLowerCase() } }
+				);
+				adopted += result.modifiedCount;
+			}
+			await LastScannedBlockModel.syncIndexes();
+			if (adopted > 0) {
+				logger.info({ adopted }, "Assigned legacy checkpoints to contracts");
+			}
+			return adopted;
+		} catch (error) {
+			logger.error({ error }, "Error adopting legacy checkpoints");
+			throw new DatabaseError("Failed to adopt legacy checkpoints");
+		}
+	}
+
+	/**
+	 * Brings the indexes of the events collection in line with the model, building
+	 * new ones and dropping those it no longer declares (e.g. `integrator_chain_index`).
+	 *
+	 * @returns Names of the dropped indexes
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async syncEventIndexes(): Promise<string[]> {
+		try {
+			const dropped = await FeeCollectedEventModel.syncIndexes();
+			if (dropped.length > 0) {
+				logger.info({ dropped }, "Dropped stale event indexes");
+			}
+			return dropped;
+		} catch (error) {
+			logger.error({ error }, "Error syncing event indexes");
+			throw new DatabaseError("Failed to sync event indexes");
+		}
+	}
+
 	/**
 	 * Stores fee events in the database with deduplication.
-	 * Validates event data before storage and handles duplicate events.
-	 * Uses transactions when available for atomic operations.
+	 * Validates event data before storage and upserts every event on its unique key,
+	 * so storing the same events again is a no-op.
 	 *
 	 * @param events - Array of events to store
 	 * @param chainId - The chain ID these events belong to
+	 * @returns Number of inserted and already present events
 	 * @throws {ValidationError} When event data is invalid
+	 * @throws {DataIntegrityError} When an event is already stored with different values
 	 * @throws {DatabaseError} When database operations fail
 	 */
 	async storeEvents(
 		events: FeeCollectedEventData[],
 		chainId: number
-	): Promise<void> {
-		if (events.length === 0) return;
+	): Promise<StoreEventsResult> {
+		if (events.length === 0) return { inserted: 0, alreadyPresent: 0 };
+
+		const documents = this.toDocuments(events, chainId);
+		try {
+			const result = await this.upsertDocuments(
+				FeeCollectedEventModel,
+				chainId,
+				documents,
+				FEE_FIELDS,
+				FEE_ENRICHMENT_FIELDS
+			);
+			logger.info(
+				{ chainId, ...result },
+				`Successfully stored ${result.inserted} events in MongoDB`
+			);
+			return result;
+		} catch (error) {
+			logger.error({ chainId, error }, "Error storing events in MongoDB");
+			if (error instanceof DataIntegrityError) {
+				throw error;
+			}
+			throw new DatabaseError("Failed to store events in database");
+		}
+	}
+
+	/**
+	 * Stores FeesWithdrawn and LiFiFeesWithdrawn events in their collections with deduplication.
+	 * Like fee events, every withdrawal is upserted on its unique key.
+	 *
+	 * @param withdrawals - Array of withdrawal events to store
+	 * @param chainId - The chain ID these events belong to
+	 * @returns Number of inserted and already present withdrawals
+	 * @throws {ValidationError} When event data is invalid
+	 * @throws {DataIntegrityError} When a withdrawal is already stored with different values
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async storeWithdrawals(
+		withdrawals: WithdrawalEventData[],
+		chainId: number
+	): Promise<StoreEventsResult> {
+		if (withdrawals.length === 0) return { inserted: 0, alreadyPresent: 0 };
+
+		const documents = this.toWithdrawalDocuments(withdrawals, chainId);
+		try {
+			const result = await this.upsertWithdrawals(chainId, documents);
+			logger.info(
+				{ chainId, ...result },
+				`Successfully stored ${result.inserted} withdrawals in MongoDB`
+			);
+			return result;
+		} catch (error) {
+			logger.error({ chainId, error }, "Error storing withdrawals in MongoDB");
+			if (error instanceof DataIntegrityError) {
+				throw error;
+			}
+			throw new DatabaseError("Failed to store withdrawals in database");
+		}
+	}
+
+	/**
+	 * Stores a chunk's events and moves the contract's checkpoint to the end of the chunk as one unit.
+	 *
+	 * On a replica set both writes are committed in a single transaction, so either
+	 * the events and the checkpoint are stored or neither is. A standalone server has
+	 * no transactions; there the events are written first and the checkpoint second.
+	 * Both writes are idempotent, so a crash in between only leaves the checkpoint
+	 * behind: the chunk is scanned again on restart and its stored events are skipped.
+	 *
+	 * @param chainId - The chain ID of the chunk
+	 * @param events - Events found in the chunk, may be empty
+	 * @param blockNumber - The last block of the chunk, the new checkpoint
+	 * @param blockHash - Optional hash of the checkpoint block, used for reorg detection
+	 * @param withdrawals - Withdrawal events found in the chunk, stored in the same unit
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @returns Number of inserted and already present events, withdrawals included
+	 * @throws {ValidationError} When event data or the block number is invalid
+	 * @throws {DataIntegrityError} When an event is already stored with different values
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async commitChunk(
+		chainId: number,
+		events: FeeCollectedEventData[],
+		blockNumber: number,
+		blockHash?: string,
+		withdrawals: WithdrawalEventData[] = [],
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<StoreEventsResult> {
+		if (blockNumber < 0) {
+			throw new ValidationError("Block number cannot be negative");
+		}
+		const documents = this.toDocuments(events, chainId);
+		const withdrawalDocuments = this.toWithdrawalDocuments(
+			withdrawals,
+			chainId
+		);
+		const storeAll = async (
+			session?: ClientSession
+		): Promise<StoreEventsResult> => {
+			const stored = await this.upsertDocuments(
+				FeeCollectedEventModel,
+				chainId,
+				documents,
+				FEE_FIELDS,
+				FEE_ENRICHMENT_FIELDS,
+				session
+			);
+			const storedWithdrawals = await this.upsertWithdrawals(
+				chainId,
+				withdrawalDocuments,
+				session
+			);
+			return {
+				inserted: stored.inserted + storedWithdrawals.inserted,
+				alreadyPresent:
+					stored.alreadyPresent + storedWithdrawals.alreadyPresent,
+			};
+		};
+
+		if (this.transactionsSupported !== false) {
+			const session = await mongoose.startSession();
+			try {
+				let result: StoreEventsResult = { inserted: 0, alreadyPresent: 0 };
+				await session.withTransaction(async () => {
+					result = await storeAll(session);
+					await this.upsertCheckpoint(
+						chainId,
+						contractAddress,
+						blockNumber,
+						blockHash,
+						session
+					);
+				});
+				this.transactionsSupported = true;
+				logger.info(
+					{ chainId, contractAddress, blockNumber, blockHash, ...result },
+					"Committed chunk events and checkpoint in a transaction"
+				);
+				return result;
+			} catch (error: any) {
+				if (!error?.message?.includes("Transaction numbers are only allowed")) {
+					logger.error(
+						{ chainId, blockNumber, error },
+						"Error committing chunk"
+					);
+					if (error instanceof DataIntegrityError) {
+						throw error;
+					}
+					throw new DatabaseError("Failed to commit chunk");
+				}
+				this.transactionsSupported = false;
+				logger.warn(
+					"MongoDB does not support transactions, committing chunks without them"
+				);
+			} finally {
+				await session.endSession();
+			}
+		}
+
+		try {
+			// Events before the checkpoint: a crash in between only causes a rescan of the chunk
+			const result = await storeAll();
+			await this.upsertCheckpoint(
+				chainId,
+				contractAddress,
+				blockNumber,
+				blockHash
+			);
+			logger.info(
+				{ chainId, contractAddress, blockNumber, blockHash, ...result },
+				"Committed chunk events and checkpoint"
+			);
+			return result;
+		} catch (error) {
+			logger.error({ chainId, blockNumber, error }, "Error committing chunk");
+			if (error instanceof DataIntegrityError) {
+				throw error;
+			}
+			throw new DatabaseError("Failed to commit chunk");
+		}
+	}
+
+	/**
+	 * Converts raw events to DTOs and validates both.
+	 * @throws {ValidationError} When event data is invalid
+	 */
+	private toDocuments(
+		events: FeeCollectedEventData[],
+		chainId: number
+	): FeeCollectedEventDTO[] {
+		// Validate event data before conversion
+		for (const event of events) {
+			try {
+				FeeCollectedEventSchema.parse(event);
+			} catch (err) {
+				const errors = err instanceof ZodError ? err.errors : err;
+				throw new ValidationError(
+					"Invalid event data: " + JSON.stringify(errors)
+				);
+			}
+		}
 
 		// Convert raw event data to DTOs for MongoDB
 		const documents: FeeCollectedEventDTO[] = events.map((event) => ({
@@ -126,143 +518,335 @@ export class EventService {
 			blockNumber: event.blockNumber,
 			transactionHash: event.transactionHash,
 			logIndex: event.logIndex,
+			...(event.blockTimestamp !== undefined && {
+				blockTimestamp: new Date(event.blockTimestamp * 1000),
+			}),
+			...event.transaction,
 		}));
 
-		try {
-			// Check for existing events to avoid duplicates
-			const existingEvents = await FeeCollectedEventModel.find({
-				$or: documents.map((doc) => ({
-					chainId,
-					transactionHash: doc.transactionHash,
-					logIndex: doc.logIndex,
-				})),
-			});
+		// Validate DTOs before insertion
+		for (const doc of documents) {
+			try {
+				FeeCollectedEventDTOSchema.parse(doc);
+			} catch (err) {
+				const errors = err instanceof ZodError ? err.errors : err;
+				throw new ValidationError(
+					"Invalid DTO data: " + JSON.stringify(errors)
+				);
+			}
+		}
+		return documents;
+	}
 
-			// Build a Set of unique keys for existing events
-			const existingKeys = new Set(
-				existingEvents.map(
-					(e) => `${e.chainId}_${e.transactionHash}_${e.logIndex}`
-				)
-			);
+	/**
+	 * Converts raw withdrawal events to DTOs grouped by event, and validates both.
+	 * @throws {ValidationError} When event data is invalid
+	 */
+	private toWithdrawalDocuments(
+		withdrawals: WithdrawalEventData[],
+		chainId: number
+	): Record<WithdrawalEventName, WithdrawalEventDTO[]> {
+		const documents: Record<WithdrawalEventName, WithdrawalEventDTO[]> = {
+			FeesWithdrawn: [],
+			LiFiFeesWithdrawn: [],
+		};
+		for (const withdrawal of withdrawals) {
+			try {
+				WithdrawalEventSchema.parse(withdrawal);
+			} catch (err) {
+				const errors = err instanceof ZodError ? err.errors : err;
+				throw new ValidationError(
+					"Invalid withdrawal event data: " + JSON.stringify(errors)
+				);
+			}
 
-			// Filter out duplicates from the insert list
-			const newDocuments = documents.filter(
-				(doc) =>
-					!existingKeys.has(
-						`${doc.chainId}_${doc.transactionHash}_${doc.logIndex}`
-					)
+			const doc: WithdrawalEventDTO = {
+				chainId,
+				contractAddress: withdrawal.address,
+				token: withdrawal.args.token,
+				to: withdrawal.args.to,
+				amount: withdrawal.args.amount.toString(),
+				blockNumber: withdrawal.blockNumber,
+				transactionHash: withdrawal.transactionHash,
+				logIndex: withdrawal.logIndex,
+			};
+			try {
+				WithdrawalEventDTOSchema.parse(doc);
+			} catch (err) {
+				const errors = err instanceof ZodError ? err.errors : err;
+				throw new ValidationError(
+					"Invalid withdrawal DTO data: " + JSON.stringify(errors)
+				);
+			}
+			documents[withdrawal.event].push(doc);
+		}
+		return documents;
+	}
+
+	/**
+	 * Upserts withdrawal documents into the collection of their event.
+	 * @param session - Optional session of the surrounding transaction
+	 * @throws {DataIntegrityError} When a withdrawal is already stored with different values
+	 */
+	private async upsertWithdrawals(
+		chainId: number,
+		documents: Record<WithdrawalEventName, WithdrawalEventDTO[]>,
+		session?: ClientSession
+	): Promise<StoreEventsResult> {
+		const result: StoreEventsResult = { inserted: 0, alreadyPresent: 0 };
+		for (const name of Object.keys(documents) as WithdrawalEventName[]) {
+			const stored = await this.upsertDocuments(
+				WITHDRAWAL_MODELS[name],
+				chainId,
+				documents[name],
+				WITHDRAWAL_FIELDS,
+				[],
+				session
 			);
+			result.inserted += stored.inserted;
+			result.alreadyPresent += stored.alreadyPresent;
+		}
+		return result;
+	}
 
-			if (existingEvents.length > 0) {
-				logger.warn(
-					{
-						chainId,
-						duplicateEvents: existingEvents.map((e) => ({
-							transactionHash: e.transactionHash,
-							logIndex: e.logIndex,
-							blockNumber: e.blockNumber,
-							integratorFee: e.integratorFee,
-							lifiFee: e.lifiFee,
-						})),
-						totalAttempted: documents.length,
-						duplicateCount: existingEvents.length,
+	/**
+	 * Upserts the documents on the unique key (chainId, transactionHash, logIndex) in one bulk write.
+	 * The filter also holds the event's values, so a stored event with the same key but different
+	 * values makes the upsert collide with the unique index instead of matching it.
+	 * Enrichment fields are set on stored events too, so a rescan fills in what they lack.
+	 *
+	 * @param model - The collection to write to
+	 * @param chainId - The chain ID of the documents
+	 * @param documents - Validated documents to store
+	 * @param valueFields - Fields that must match a stored event of the same key
+	 * @param enrichmentFields - Fields that are set when given, whether the event is new or stored
+	 * @param session - Optional session of the surrounding transaction
+	 * @returns Number of inserted and already present documents
+	 * @throws {DataIntegrityError} When an event is already stored with different values
+	 */
+	private async upsertDocuments<
+		T extends FeeCollectedEventDTO | WithdrawalEventDTO,
+		S extends FeeCollectedEvent | FeesWithdrawnEvent
+	>(
+		model: EventModel<S>,
+		chainId: number,
+		documents: T[],
+		valueFields: readonly (keyof T & string)[],
+		enrichmentFields: readonly (keyof T & string)[],
+		session?: ClientSession
+	): Promise<StoreEventsResult> {
+		if (documents.length === 0) return { inserted: 0, alreadyPresent: 0 };
+
+		const operations = documents.map((doc) => {
+			const identity: Record<string, unknown> = { ...doc };
+			const enrichment: Record<string, unknown> = {};
+			for (const field of enrichmentFields) {
+				delete identity[field];
+				// A missing field never unsets what an earlier scan stored
+				if (doc[field] !== undefined) enrichment[field] = doc[field];
+			}
+			return {
+				updateOne: {
+					filter: {
+						chainId: doc.chainId,
+						transactionHash: doc.transactionHash,
+						logIndex: doc.logIndex,
+						...this.pickFields(doc, valueFields),
 					},
-					"Duplicate events detected, will only insert non-duplicates"
-				);
+					update: {
+						$setOnInsert: identity,
+						...(Object.keys(enrichment).length > 0 && { $set: enrichment }),
+					},
+					upsert: true,
+				},
+			};
+		});
+
+		let inserted: number;
+		try {
+			const result = await model.bulkWrite(operations, {
+				ordered: false,
+				session,
+			});
+			inserted = result.upsertedCount;
+		} catch (error: any) {
+			const writeErrors: any[] = error?.writeErrors ?? [];
+			if (
+				writeErrors.length === 0 ||
+				writeErrors.some((writeError) => writeError.code !== 11000)
+			) {
+				throw error;
 			}
 
-			if (newDocuments.length === 0) {
-				logger.info(
-					{ chainId },
-					"No new events to insert after duplicate filtering"
+			// Either a conflicting event, or an identical one stored concurrently by another writer
+			const collided = writeErrors.map(
+				(writeError) => documents[writeError.index]
+			);
+			const conflicts = await this.findConflicts(
+				model,
+				chainId,
+				collided,
+				valueFields
+			);
+			if (conflicts.length > 0) {
+				logger.error(
+					{ chainId, conflicts },
+					"Events are already stored with different values"
+				);
+				throw new DataIntegrityError(
+					`${conflicts.length} events are already stored with different values`,
+					conflicts
 				);
-				return;
 			}
+			// A failed write aborts the transaction, so only standalone writes can go on
+			if (session) throw error;
+			inserted = error.result?.upsertedCount ?? 0;
+		}
 
-			// Validate event data before insertion
-			for (const event of events) {
-				try {
-					FeeCollectedEventSchema.parse(event);
-				} catch (err) {
-					const errors = err instanceof ZodError ? err.errors : err;
-					throw new ValidationError(
-						"Invalid event data: " + JSON.stringify(errors)
-					);
-				}
-			}
+		const alreadyPresent = documents.length - inserted;
+		if (alreadyPresent > 0) {
+			logger.debug(
+				{ chainId, inserted, alreadyPresent },
+				"Skipped events that were already stored"
+			);
+		}
+		return { inserted, alreadyPresent };
+	}
 
-			// Validate DTOs before insertion
-			for (const doc of newDocuments) {
-				try {
-					FeeCollectedEventDTOSchema.parse(doc);
-				} catch (err) {
-					const errors = err instanceof ZodError ? err.errors : err;
-					throw new ValidationError(
-						"Invalid DTO data: " + JSON.stringify(errors)
-					);
-				}
-			}
+	/**
+	 * Compares documents with the stored events of the same key.
+	 * Reads outside any transaction, which may already be aborted.
+	 *
+	 * @param model - The collection the documents belong to
+	 * @param chainId - The chain ID of the documents
+	 * @param documents - Documents whose key is already taken
+	 * @param valueFields - Fields that must match a stored event of the same key
+	 * @returns The documents whose stored event has different values
+	 */
+	private async findConflicts<
+		T extends FeeCollectedEventDTO | WithdrawalEventDTO,
+		S extends FeeCollectedEvent | FeesWithdrawnEvent
+	>(
+		model: EventModel<S>,
+		chainId: number,
+		documents: T[],
+		valueFields: readonly (keyof T & string)[]
+	): Promise<EventConflict[]> {
+		const stored: T[] = await model
+			.find({
+				$or: documents.map((doc) => ({
+					chainId,
+					transactionHash: doc.transactionHash,
+					logIndex: doc.logIndex,
+				})),
+			})
+			.lean<T[]>();
+		const storedByKey = new Map(
+			stored.map((event) => [
+				`${event.transactionHash}_${event.logIndex}`,
+				event,
+			])
+		);
 
-			// Try to use transactions if available (MongoDB replica set)
-			try {
-				const session = await mongoose.startSession();
-				try {
-					const result = await FeeCollectedEventModel.insertMany(newDocuments, {
-						ordered: false,
-						session,
-					});
-					logger.debug(
-						{
-							insertedDocs: result.map((doc: FeeCollectedEvent) => ({
-								integratorFee: doc.integratorFee,
-								integratorFeeType: typeof doc.integratorFee,
-								lifiFee: doc.lifiFee,
-								lifiFeeType: typeof doc.lifiFee,
-							})),
-						},
-						"Successfully inserted documents"
-					);
-				} catch (error: any) {
-					// If transaction fails due to non-replica set, try without transaction
-					if (error.message?.includes("Transaction numbers are only allowed")) {
-						const result = await FeeCollectedEventModel.insertMany(
-							newDocuments,
-							{
-								ordered: false,
-							}
-						);
-						logger.debug(
-							{
-								insertedDocs: result.map((doc: FeeCollectedEvent) => ({
-									integratorFee: doc.integratorFee,
-									integratorFeeType: typeof doc.integratorFee,
-									lifiFee: doc.lifiFee,
-									lifiFeeType: typeof doc.lifiFee,
-								})),
-							},
-							"Successfully inserted documents without transaction"
-						);
-					} else {
-						throw error;
-					}
-				} finally {
-					await session.endSession();
-				}
-			} catch (error: any) {
-				logger.error({ chainId, error }, "Error storing events in MongoDB");
-				throw new DatabaseError("Failed to store events in database");
+		const conflicts: EventConflict[] = [];
+		for (const doc of documents) {
+			const event = storedByKey.get(`${doc.transactionHash}_${doc.logIndex}`);
+			if (!event) continue;
+			const storedFields = this.pickFields(event, valueFields);
+			const receivedFields = this.pickFields(doc, valueFields);
+			if (JSON.stringify(storedFields) !== JSON.stringify(receivedFields)) {
+				conflicts.push({
+					chainId,
+					transactionHash: doc.transactionHash,
+					logIndex: doc.logIndex,
+					stored: storedFields,
+					received: receivedFields,
+				});
 			}
+		}
+		return conflicts;
+	}
+
+	/**
+	 * Copies the given value fields of an event, in the order of the fields,
+	 * so two events can be compared by their JSON.
+	 */
+	private pickFields<T extends FeeCollectedEventDTO | WithdrawalEventDTO>(
+		event: T,
+		valueFields: readonly (keyof T & string)[]
+	): EventFeeFields | WithdrawalFields {
+		const fields: Record<string, unknown> = {};
+		for (const field of valueFields) {
+			fields[field] = event[field];
+		}
+		return fields as EventFeeFields | WithdrawalFields;
+	}
+
+	/**
+	 * Upserts the checkpoint of a contract on a chain.
+	 * @param session - Optional session of the surrounding transaction
+	 */
+	private async upsertCheckpoint(
+		chainId: number,
+		contractAddress: string,
+		blockNumber: number,
+		blockHash?: string,
+		session?: ClientSession
+	): Promise<void> {
+		await LastScannedBlockModel.updateOne(
+			{ chainId, contractAddress: contractAddress.toLowerCase() },
+			blockHash
+				? { $set: { blockNumber, blockHash } }
+				: { $set: { blockNumber }, $unset: { blockHash: 1 } },
+			{ upsert: true, session }
+		);
+	}
 
+	/**
+	 * Deletes all events of a chain above the given block number, withdrawals included.
+	 * Used to drop events from orphaned blocks after a chain reorganization.
+	 *
+	 * @param chainId - The chain ID to delete events for
+	 * @param blockNumber - Events with a block number greater than this are deleted
+	 * @param contractAddress - Optional contract to restrict the deletion to; all contracts when unset
+	 * @returns Number of deleted events
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async deleteEventsAfterBlock(
+		chainId: number,
+		blockNumber: number,
+		contractAddress?: string
+	): Promise<number> {
+		try {
+			// Events keep the checksummed address of the log they came from
+			const filter = {
+				chainId,
+				blockNumber: { $gt: blockNumber },
+				...(contractAddress && {
+					contractAddress: ethers.utils.getAddress(contractAddress),
+				}),
+			};
+			const results = await Promise.all([
+				FeeCollectedEventModel.deleteMany(filter),
+				...Object.values(WITHDRAWAL_MODELS).map((model) =>
+					model.deleteMany(filter)
+				),
+			]);
+			const deletedCount = results.reduce(
+				(sum, result) => sum + result.deletedCount,
+				0
+			);
 			logger.info(
-				{ chainId, count: newDocuments.length },
-				`Successfully stored ${newDocuments.length} events in MongoDB`
+				{ chainId, contractAddress, blockNumber, deletedCount },
+				"Deleted events after block"
 			);
+			return deletedCount;
 		} catch (error) {
-			logger.error({ chainId, error }, "Error storing events in MongoDB");
-			if (error instanceof ValidationError) {
-				throw error;
-			}
-			throw new DatabaseError("Failed to store events in database");
+			logger.error(
+				{ chainId, blockNumber, error },
+				"Error deleting events after block"
+			);
+			throw new DatabaseError("Failed to delete events after block");
 		}
 	}
 
@@ -287,21 +871,117 @@ export class EventService {
 	}
 
 	/**
-	 * Get events by integrator for a specific chain
+	 * Gets the blocks of a chain that hold fee events without a block timestamp,
+	 * e.g. events stored before timestamps were tracked.
+	 *
+	 * @param chainId - The chain ID to check
+	 * @param limit - Maximum number of blocks to return
+	 * @returns Block numbers, lowest first
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getBlocksWithoutTimestamp(
+		chainId: number,
+		limit: number
+	): Promise<number[]> {
+		try {
+			const blocks = await FeeCollectedEventModel.aggregate<{ _id: number }>([
+				{ $match: { chainId, blockTimestamp: { $exists: false } } },
+				{ $group: { _id: "$blockNumber" } },
+				{ $sort: { _id: 1 } },
+				{ $limit: limit },
+			]);
+			return blocks.map((block) => block._id);
+		} catch (error) {
+			logger.error(
+				{ chainId, error },
+				"Error getting blocks without timestamp"
+			);
+			throw new DatabaseError("Failed to get blocks without timestamp");
+		}
+	}
+
+	/**
+	 * Sets the block timestamp of the stored fee events in the given blocks.
+	 *
+	 * @param chainId - The chain ID of the blocks
+	 * @param timestamps - Unix timestamp in seconds by block number
+	 * @returns Number of updated events
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async setBlockTimestamps(
+		chainId: number,
+		timestamps: Map<number, number>
+	): Promise<number> {
+		if (timestamps.size === 0) return 0;
+		try {
+			const result = await FeeCollectedEventModel.bulkWrite(
+				[...timestamps].map(([blockNumber, timestamp]) => ({
+					updateMany: {
+						filter: { chainId, blockNumber },
+						update: { $set: { blockTimestamp: new Date(timestamp * 1000) } },
+					},
+				}))
+			);
+			return result.modifiedCount;
+		} catch (error) {
+			logger.error({ chainId, error }, "Error setting block timestamps");
+			throw new DatabaseError("Failed to set block timestamps");
+		}
+	}
+
+	/**
+	 * Gets the distinct tokens fees were collected in on a chain.
+	 *
+	 * @param chainId - The chain ID to check
+	 * @returns Token addresses
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getTokenAddresses(chainId: number): Promise<string[]> {
+		try {
+			return await FeeCollectedEventModel.distinct("token", { chainId });
+		} catch (error) {
+			logger.error({ chainId, error }, "Error getting token addresses");
+			throw new DatabaseError("Failed to get token addresses");
+		}
+	}
+
+	/**
+	 * Get one page of the events of an integrator on a specific chain, in chain order
 	 * @param chainId - The chain ID to get events for
 	 * @param integrator - The integrator address
-	 * @returns Array of events
+	 * @param options - Page size, the position to continue after and the sort direction
+	 * @returns The events of the page and whether more events follow
+	 * @throws {DatabaseError} When database operations fail
 	 */
 	async getEventsByIntegrator(
 		chainId: number,
-		integrator: string
-	): Promise<FeeCollectedEvent[]> {
+		integrator: string,
+		{ limit, cursor, order }: EventPageOptions
+	): Promise<EventPage<FeeCollectedEvent>> {
+		const after = order === "asc" ? "$gt" : "$lt";
+		const direction = order === "asc" ? 1 : -1;
 		try {
+			// One event more than the page tells whether another page follows
 			const events = await FeeCollectedEventModel.find({
-				chainId,
 				integrator,
-			}).lean();
-			return events;
+				chainId,
+				...(cursor && {
+					$or: [
+						{ blockNumber: { [after]: cursor.blockNumber } },
+						{
+							blockNumber: cursor.blockNumber,
+							logIndex: { [after]: cursor.logIndex },
+						},
+					],
+				}),
+			})
+				.sort({ blockNumber: direction, logIndex: direction })
+				.limit(limit + 1)
+				.lean();
+			return {
+				events: events.slice(0, limit),
+				hasMore: events.length > limit,
+			};
 		} catch (error) {
 			logger.error(
 				{ chainId, integrator, error },
@@ -310,4 +990,49 @@ export class EventService {
 			throw new DatabaseError("Failed to get events by integrator");
 		}
 	}
+
+	/**
+	 * Get FeesWithdrawn events of an integrator for a specific chain.
+	 * Results are sorted by block number in ascending order.
+	 *
+	 * @param chainId - The chain ID to get withdrawals for
+	 * @param integrator - The integrator address that received the withdrawals
+	 * @returns Array of withdrawals
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getWithdrawalsByIntegrator(
+		chainId: number,
+		integrator: string
+	): Promise<WithdrawalEvent[]> {
+		try {
+			return await FeesWithdrawnEventModel.find({ chainId, to: integrator })
+				.sort({ blockNumber: 1, logIndex: 1 })
+				.lean();
+		} catch (error) {
+			logger.error(
+				{ chainId, integrator, error },
+				"Error getting withdrawals by integrator"
+			);
+			throw new DatabaseError("Failed to get withdrawals by integrator");
+		}
+	}
+
+	/**
+	 * Get LiFiFeesWithdrawn events for a specific chain.
+	 * Results are sorted by block number in ascending order.
+	 *
+	 * @param chainId - The chain ID to get withdrawals for
+	 * @returns Array of withdrawals
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getLiFiWithdrawals(chainId: number): Promise<WithdrawalEvent[]> {
+		try {
+			return await LiFiFeesWithdrawnEventModel.find({ chainId })
+				.sort({ blockNumber: 1, logIndex: 1 })
+				.lean();
+		} catch (error) {
+			logger.error({ chainId, error }, "Error getting LiFi withdrawals");
+			throw new DatabaseError("Failed to get LiFi withdrawals");
+		}
+	}
 }
@@ -0,0 +1,282 @@
+import { FailedChunk, FailedChunkModel } from "../models/FailedChunk";
+import {
+	config,
+	getContractDeployments,
+	getCurrentContract,
+} from "../utils/config";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+
+/**
+ * FailedChunkService
+ *
+ * Keeps the ledger of block ranges the scanner failed to process per contract, so no range
+ * is silently skipped. Schedules retries with exponential backoff and gives up
+ * on a range after the configured number of attempts.
+ */
+export class FailedChunkService {
+	private static instance: FailedChunkService;
+
+	private constructor() {}
+
+	public static getInstance(): FailedChunkService {
+		if (!FailedChunkService.instance) {
+			FailedChunkService.instance = new FailedChunkService();
+		}
+		return FailedChunkService.instance;
+	}
+
+	/**
+	 * Records a failed attempt for a block range, creating the entry on the first failure.
+	 *
+	 * @param chainId - The chain ID the range belongs to
+	 * @param fromBlock - First block of the range (inclusive)
+	 * @param toBlock - Last block of the range (inclusive)
+	 * @param error - The error that made the range fail
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @returns The number of failed attempts so far
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async recordFailure(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		error: unknown,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<number> {
+		const message = error instanceof Error ? error.message : String(error);
+		const key = {
+			chainId,
+			contractAddress: contractAddress.toLowerCase(),
+			fromBlock,
+			toBlock,
+		};
+		try {
+			const existing = await FailedChunkModel.findOne(key).lean();
+			const attempts = (existing?.attempts ?? 0) + 1;
+			const lastAttemptAt = new Date();
+			const nextRetryAt = new Date(
+				lastAttemptAt.getTime() + this.retryDelay(attempts)
+			);
+			await FailedChunkModel.updateOne(
+				key,
+				{ $set: { error: message, attempts, lastAttemptAt, nextRetryAt } },
+				{ upsert: true }
+			);
+
+			if (attempts >= config.failedChunkRetry.maxAttempts) {
+				logger.error(
+					{ ...key, attempts, error: message },
+					"Failed chunk reached the maximum number of attempts, it will no longer be retried"
+				);
+			} else {
+				logger.warn(
+					{ ...key, attempts, nextRetryAt },
+					"Recorded failed chunk for retry"
+				);
+			}
+			return attempts;
+		} catch (dbError) {
+			logger.error({ ...key, error: dbError }, "Error recording failed chunk");
+			throw new DatabaseError("Failed to record failed chunk");
+		}
+	}
+
+	/**
+	 * Returns the failed chunks of a contract that are due for a retry.
+	 * Chunks that used up their attempts, or that lie above the given block, are left out.
+	 *
+	 * @param chainId - The chain ID to look up
+	 * @param upToBlock - Only chunks ending at or below this block are returned
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @returns Due chunks, oldest range first
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getDueChunks(
+		chainId: number,
+		upToBlock: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<FailedChunk[]> {
+		try {
+			return await FailedChunkModel.find({
+				chainId,
+				contractAddress: contractAddress.toLowerCase(),
+				toBlock: { $lte: upToBlock },
+				attempts: { $lt: config.failedChunkRetry.maxAttempts },
+				nextRetryAt: { $lte: new Date() },
+			})
+				.sort({ fromBlock: 1 })
+				.lean();
+		} catch (error) {
+			logger.error({ chainId, error }, "Error getting due failed chunks");
+			throw new DatabaseError("Failed to get failed chunks");
+		}
+	}
+
+	/**
+	 * Removes a chunk from the ledger once its range has been indexed.
+	 *
+	 * @param chainId - The chain ID the range belongs to
+	 * @param fromBlock - First block of the range (inclusive)
+	 * @param toBlock - Last block of the range (inclusive)
+	 * @param contractAddress - The scanned contract, defaults to the chain's current contract
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async resolve(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		contractAddress: string = getCurrentContract(chainId).address
+	): Promise<void> {
+		const key = {
+			chainId,
+			contractAddress: contractAddress.toLowerCase(),
+			fromBlock,
+			toBlock,
+		};
+		try {
+			await FailedChunkModel.deleteOne(key);
+			logger.info(key, "Resolved failed chunk");
+		} catch (error) {
+			logger.error({ ...key, error }, "Error resolving failed chunk");
+			throw new DatabaseError("Failed to resolve failed chunk");
+		}
+	}
+
+	/**
+	 * Replaces a failed chunk with its two halves, keeping its attempt count.
+	 * Used when a stored range is too large for the provider to return in one query.
+	 *
+	 * @param chunk - The ledger entry to split; single-block chunks are left as they are
+	 * @returns Whether the chunk was split
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async split(chunk: FailedChunk): Promise<boolean> {
+		const { chainId, contractAddress, fromBlock, toBlock } = chunk;
+		if (toBlock <= fromBlock) return false;
+
+		const middle = Math.floor((fromBlock + toBlock) / 2);
+		const halves = [
+			{ fromBlock, toBlock: middle },
+			{ fromBlock: middle + 1, toBlock },
+		];
+		try {
+			await FailedChunkModel.bulkWrite(
+				halves.map((half) => ({
+					updateOne: {
+						filter: { chainId, contractAddress, ...half },
+						update: {
+							$setOnInsert: {
+								error: chunk.error,
+								attempts: chunk.attempts,
+								lastAttemptAt: chunk.lastAttemptAt,
+								nextRetryAt: new Date(),
+							},
+						},
+						upsert: true,
+					},
+				}))
+			);
+			await FailedChunkModel.deleteOne({
+				chainId,
+				contractAddress,
+				fromBlock,
+				toBlock,
+			});
+			logger.info(
+				{ chainId, contractAddress, fromBlock, toBlock, middle },
+				"Split failed chunk into smaller ranges"
+			);
+			return true;
+		} catch (error) {
+			logger.error(
+				{ chainId, fromBlock, toBlock, error },
+				"Error splitting failed chunk"
+			);
+			throw new DatabaseError("Failed to split failed chunk");
+		}
+	}
+
+	/**
+	 * Lists the failed chunks, optionally for a single chain.
+	 *
+	 * @param chainId - Optional chain ID filter
+	 * @returns Failed chunks ordered by chain, contract and range
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async listFailedChunks(chainId?: number): Promise<FailedChunk[]> {
+		try {
+			return await FailedChunkModel.find(chainId ? { chainId } : {})
+				.sort({ chainId: 1, contractAddress: 1, fromBlock: 1 })
+				.lean();
+		} catch (error) {
+			logger.error({ chainId, error }, "Error listing failed chunks");
+			throw new DatabaseError("Failed to list failed chunks");
+		}
+	}
+
+	/**
+	 * Deletes failed chunks without retrying them, optionally for a single chain.
+	 *
+	 * @param chainId - Optional chain ID filter
+	 * @returns Number of deleted chunks
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async clearFailedChunks(chainId?: number): Promise<number> {
+		try {
+			const result = await FailedChunkModel.deleteMany(
+				chainId ? { chainId } : {}
+			);
+			logger.info(
+				{ chainId, deletedCount: result.deletedCount },
+				"Cleared failed chunks"
+			);
+			return result.deletedCount;
+		} catch (error) {
+			logger.error({ chainId, error }, "Error clearing failed chunks");
+			throw new DatabaseError("Failed to clear failed chunks");
+		}
+	}
+
+	/**
+	 * Assigns failed chunks recorded before they were tracked per contract to the
+	 * first deployment of their chain, then replaces the old unique index.
+	 *
+	 * @returns Number of adopted chunks
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async adoptLegacyChunks(): Promise<number> {
+		try {
+			let adopted = 0;
+			const chainIds: number[] = await FailedChunkModel.distinct("chainId", {
+				contractAddress: { $exists: false },
+			});
+			for (const chainId of chainIds) {
+				const [firstDeployment] = getContractDeployments(chainId);
+				if (!firstDeployment) continue;
+				const result = await FailedChunkModel.updateMany(
+					{ chainId, contractAddress: { $exists: false } },
+					{ $set: { contractAddress: firstDeployment.address.toLowerCase() } }
+				);
+				adopted += result.modifiedCount;
+			}
+			await FailedChunkModel.syncIndexes();
+			if (adopted > 0) {
+				logger.info({ adopted }, "Assigned legacy failed chunks to contracts");
+			}
+			return adopted;
+		} catch (error) {
+			logger.error({ error }, "Error adopting legacy failed chunks");
+			throw new DatabaseError("Failed to adopt legacy failed chunks");
+		}
+	}
+
+	/**
+	 * Delay before the next retry: doubles with every attempt, capped at the configured maximum.
+	 * @param attempts - Failed attempts so far
+	 */
+	private retryDelay(attempts: number): number {
+		const { baseDelayMs, maxDelayMs } = config.failedChunkRetry;
+		return Math.min(baseDelayMs * 2 ** (attempts - 1), maxDelayMs);
+	}
+}
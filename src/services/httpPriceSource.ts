@@ -0,0 +1,78 @@
+import { PriceQuery, PriceSource } from "../types/prices";
+
+/**
+ * HttpPriceSource
+ *
+ * Price source backed by an HTTP price API. The URL is a template with `{chainId}`,
+ * `{token}`, `{symbol}` and `{timestamp}` (unix seconds) placeholders, and the API
+ * answers with a JSON body holding a `usd` number. A 404 or a body without `usd`
+ * means the API has no price. Times are rounded down to the hour and answers are
+ * cached, so the events of one hour share a single request, even when looked up at once.
+ */
+
+// Granularity of the requested prices
+const PRICE_RESOLUTION_MS = 3600000;
+
+// Time a price request may take
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Prices cached, the oldest entries are dropped first
+const PRICE_CACHE_SIZE = 10000;
+
+export class HttpPriceSource implements PriceSource {
+	public readonly name = "http";
+	// Requested prices by token and hour; concurrent lookups of one hour share the request
+	private cache: Map<string, Promise<number | null>>;
+
+	constructor(private readonly urlTemplate: string) {
+		this.cache = new Map();
+	}
+
+	/**
+	 * @throws Error when the API cannot be reached or answers with an error
+	 */
+	async getPrice(query: PriceQuery): Promise<number | null> {
+		const timestamp =
+			(Math.floor(query.timestamp.getTime() / PRICE_RESOLUTION_MS) *
+				PRICE_RESOLUTION_MS) /
+			1000;
+		const key = `${query.chainId}:${query.token.toLowerCase()}:${timestamp}`;
+		const cached = this.cache.get(key);
+		if (cached) return cached;
+
+		const price = this.requestPrice(query, timestamp);
+		this.cache.set(key, price);
+		// A failed request is not cached, so the next lookup asks again
+		price.catch(() => this.cache.delete(key));
+		if (this.cache.size > PRICE_CACHE_SIZE) {
+			this.cache.delete(this.cache.keys().next().value!);
+		}
+		return price;
+	}
+
+	/**
+	 * Requests the price of a token at a unix time in seconds
+	 */
+	private async requestPrice(
+		query: PriceQuery,
+		timestamp: number
+	): Promise<number | null> {
+		const url = this.urlTemplate
+			.replace("{chainId}", String(query.chainId))
+			.replace("{token}", query.token.toLowerCase())
+			.replace("{symbol}", encodeURIComponent(query.symbol ?? ""))
+			.replace("{timestamp}", String(timestamp));
+		const response = await fetch(url, {
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+
+		if (response.ok) {
+			const body = await response.json();
+			return typeof body?.usd === "number" && body.usd >= 0 ? body.usd : null;
+		}
+		if (response.status !== 404) {
+			throw new Error(`Price API answered with status ${response.status}`);
+		}
+		return null;
+	}
+}
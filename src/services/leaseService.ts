@@ -0,0 +1,216 @@
+import { ScannerLease, ScannerLeaseModel } from "../models/ScannerLease";
+import { config } from "../utils/config";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+
+/**
+ * A scanner lease held by this replica.
+ * The lease is renewed in the background until it is released or lost.
+ *
+ * @property {number} chainId - The chain the lease covers
+ * @property {AbortSignal} signal - Aborted when the lease is lost, released, or the parent signal aborts
+ * @property {Function} release - Stops renewing and hands the lease back so another replica can take it
+ */
+export interface HeldLease {
+	chainId: number;
+	signal: AbortSignal;
+	release: () => Promise<void>;
+}
+
+/**
+ * LeaseService
+ *
+ * Elects one scanning replica per chain through a lease document in MongoDB.
+ * A replica may only scan a chain while it owns the chain's lease; the owner
+ * renews the lease periodically, and another replica takes it over once it
+ * has expired, e.g. after the owner crashed.
+ */
+export class LeaseService {
+	private static instance: LeaseService;
+	private readonly ownerId: string;
+
+	private constructor() {
+		this.ownerId = config.instanceId;
+	}
+
+	public static getInstance(): LeaseService {
+		if (!LeaseService.instance) {
+			LeaseService.instance = new LeaseService();
+		}
+		return LeaseService.instance;
+	}
+
+	/**
+	 * The owner ID this replica uses for its leases
+	 */
+	public getOwnerId(): string {
+		return this.ownerId;
+	}
+
+	/**
+	 * Takes the lease of a chain if it is free or expired, or renews it if this replica already owns it.
+	 *
+	 * @param chainId - The chain ID to lease
+	 * @returns Whether this replica now owns the lease
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async acquire(chainId: number): Promise<boolean> {
+		if (await this.renew(chainId)) {
+			return true;
+		}
+
+		const now = new Date();
+		try {
+			// Matches only an expired lease; a live lease of another replica makes the upsert
+			// collide with the unique chainId index instead
+			const previous = await ScannerLeaseModel.findOneAndUpdate(
+				{ chainId, expiresAt: { $lte: now } },
+				{
+					$set: {
+						ownerId: this.ownerId,
+						acquiredAt: now,
+						expiresAt: new Date(now.getTime() + config.scannerLease.ttlMs),
+					},
+				},
+				{ upsert: true }
+			).lean();
+
+			if (previous) {
+				logger.warn(
+					{ chainId, ownerId: this.ownerId, previousOwnerId: previous.ownerId },
+					"Took over expired scanner lease"
+				);
+			} else {
+				logger.info(
+					{ chainId, ownerId: this.ownerId },
+					"Acquired scanner lease"
+				);
+			}
+			return true;
+		} catch (error: any) {
+			if (error?.code === 11000) {
+				return false;
+			}
+			logger.error({ chainId, error }, "Error acquiring scanner lease");
+			throw new DatabaseError("Failed to acquire scanner lease");
+		}
+	}
+
+	/**
+	 * Extends the lease of a chain if this replica owns it.
+	 *
+	 * @param chainId - The chain ID of the lease
+	 * @returns Whether the lease was renewed; false if another replica owns it
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async renew(chainId: number): Promise<boolean> {
+		try {
+			const result = await ScannerLeaseModel.updateOne(
+				{ chainId, ownerId: this.ownerId },
+				{
+					$set: {
+						expiresAt: new Date(Date.now() + config.scannerLease.ttlMs),
+					},
+				}
+			);
+			return result.matchedCount > 0;
+		} catch (error) {
+			logger.error({ chainId, error }, "Error renewing scanner lease");
+			throw new DatabaseError("Failed to renew scanner lease");
+		}
+	}
+
+	/**
+	 * Expires the lease of a chain if this replica owns it, so another replica can take over at once.
+	 *
+	 * @param chainId - The chain ID of the lease
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async release(chainId: number): Promise<void> {
+		try {
+			const result = await ScannerLeaseModel.updateOne(
+				{ chainId, ownerId: this.ownerId },
+				{ $set: { expiresAt: new Date() } }
+			);
+			if (result.matchedCount > 0) {
+				logger.info(
+					{ chainId, ownerId: this.ownerId },
+					"Released scanner lease"
+				);
+			}
+		} catch (error) {
+			logger.error({ chainId, error }, "Error releasing scanner lease");
+			throw new DatabaseError("Failed to release scanner lease");
+		}
+	}
+
+	/**
+	 * Acquires the lease of a chain and keeps renewing it in the background.
+	 * If a renewal finds the lease owned by another replica, or the lease runs out
+	 * while renewals keep failing, the returned signal is aborted so the holder stops scanning.
+	 *
+	 * @param chainId - The chain ID to lease
+	 * @param signal - Optional parent signal; aborting it aborts the lease signal
+	 * @returns The held lease, or null if another replica owns it
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async hold(chainId: number, signal?: AbortSignal): Promise<HeldLease | null> {
+		if (!(await this.acquire(chainId))) {
+			return null;
+		}
+
+		const controller = new AbortController();
+		const onParentAbort = () => controller.abort();
+		signal?.addEventListener("abort", onParentAbort, { once: true });
+
+		let expiresAt = Date.now() + config.scannerLease.ttlMs;
+		const heartbeat = setInterval(async () => {
+			try {
+				const renewedAt = Date.now();
+				if (await this.renew(chainId)) {
+					expiresAt = renewedAt + config.scannerLease.ttlMs;
+					return;
+				}
+				logger.warn(
+					{ chainId, ownerId: this.ownerId },
+					"Scanner lease was taken over by another replica"
+				);
+			} catch (error) {
+				// Keep scanning on a transient failure as long as the lease has not run out
+				if (Date.now() < expiresAt) return;
+				logger.warn(
+					{ chainId, ownerId: this.ownerId, error },
+					"Scanner lease expired while it could not be renewed"
+				);
+			}
+			clearInterval(heartbeat);
+			controller.abort();
+		}, config.scannerLease.renewIntervalMs);
+
+		return {
+			chainId,
+			signal: controller.signal,
+			release: async () => {
+				clearInterval(heartbeat);
+				signal?.removeEventListener("abort", onParentAbort);
+				controller.abort();
+				await this.release(chainId);
+			},
+		};
+	}
+
+	/**
+	 * Lists the scanner leases of all chains, including expired ones.
+	 *
+	 * @returns The leases sorted by chain ID
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async listLeases(): Promise<ScannerLease[]> {
+		try {
+			return await ScannerLeaseModel.find({}).sort({ chainId: 1 }).lean();
+		} catch (error) {
+			logger.error({ error }, "Error listing scanner leases");
+			throw new DatabaseError("Failed to list scanner leases");
+		}
+	}
+}
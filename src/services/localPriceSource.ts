@@ -0,0 +1,147 @@
+import fs from "fs";
+import path from "path";
+import { ZodError } from "zod";
+import {
+	PriceQuery,
+	PriceRow,
+	PriceRowSchema,
+	PriceSource,
+} from "../types/prices";
+import { ConfigurationError } from "../errors/AppError";
+
+/**
+ * LocalPriceSource
+ *
+ * Price source backed by a price table in a local CSV or JSON file, so fees can be
+ * valued offline. Each row holds the USD price of a token on a chain at a time:
+ * a CSV file has a `chainId,token,timestamp,usd` header, a JSON file is an array of
+ * objects with those keys. A query gets the latest price at or before its time,
+ * unless that price is older than the maximum age.
+ */
+
+/**
+ * Price history of one token, sorted by time
+ */
+interface PriceHistory {
+	timestamps: number[]; // Unix seconds, ascending
+	prices: number[]; // USD price at the timestamp of the same index
+}
+
+export class LocalPriceSource implements PriceSource {
+	public readonly name = "file";
+	private histories: Map<string, PriceHistory>;
+
+	constructor(
+		rows: PriceRow[],
+		private readonly maxAgeMs: number
+	) {
+		const sorted = [...rows].sort((a, b) => a.timestamp - b.timestamp);
+		this.histories = new Map();
+		for (const row of sorted) {
+			const key = this.key(row.chainId, row.token);
+			let history = this.histories.get(key);
+			if (!history) {
+				history = { timestamps: [], prices: [] };
+				this.histories.set(key, history);
+			}
+			history.timestamps.push(row.timestamp);
+			history.prices.push(row.usd);
+		}
+	}
+
+	/**
+	 * Loads a price table from a `.csv` or `.json` file
+	 * @param file - Path of the price table
+	 * @param maxAgeMs - Oldest price, relative to the queried time, that is still used
+	 * @throws ConfigurationError if the file cannot be read or a row is invalid
+	 */
+	static fromFile(file: string, maxAgeMs: number): LocalPriceSource {
+		let content: string;
+		try {
+			content = fs.readFileSync(file, "utf8");
+		} catch (error) {
+			throw new ConfigurationError(
+				`Failed to read price file ${file}: ${(error as Error).message}`
+			);
+		}
+
+		let records: unknown[];
+		if (path.extname(file).toLowerCase() === ".csv") {
+			records = LocalPriceSource.parseCsv(content);
+		} else {
+			try {
+				records = JSON.parse(content);
+			} catch (error) {
+				throw new ConfigurationError(
+					`Failed to read price file ${file}: ${(error as Error).message}`
+				);
+			}
+			if (!Array.isArray(records)) {
+				throw new ConfigurationError(
+					`Invalid price file ${file}: expected an array of prices`
+				);
+			}
+		}
+
+		const rows = records.map((record, index) => {
+			try {
+				return PriceRowSchema.parse(record);
+			} catch (error) {
+				const issue = error instanceof ZodError ? error.errors[0] : undefined;
+				throw new ConfigurationError(
+					`Invalid price file ${file}, row ${index + 1}: ${
+						issue ? `${issue.path.join(".")}: ${issue.message}` : error
+					}`
+				);
+			}
+		});
+		return new LocalPriceSource(rows, maxAgeMs);
+	}
+
+	/**
+	 * Parses a CSV price table into records keyed by its header.
+	 * Blank lines and lines starting with `#` are skipped.
+	 */
+	private static parseCsv(content: string): Record<string, string>[] {
+		const lines = content
+			.split(/\r?\n/)
+			.map((line) => line.trim())
+			.filter((line) => line.length > 0 && !line.startsWith("#"));
+		if (lines.length === 0) return [];
+
+		const header = lines[0].split(",").map((column) => column.trim());
+		return lines.slice(1).map((line) => {
+			const values = line.split(",").map((value) => value.trim());
+			return Object.fromEntries(
+				header.map((column, index) => [column, values[index]])
+			);
+		});
+	}
+
+	async getPrice(query: PriceQuery): Promise<number | null> {
+		const history = this.histories.get(this.key(query.chainId, query.token));
+		if (!history) return null;
+
+		// Binary search for the last price at or before the queried time
+		const time = Math.floor(query.timestamp.getTime() / 1000);
+		let low = 0;
+		let high = history.timestamps.length - 1;
+		let found = -1;
+		while (low <= high) {
+			const mid = Math.floor((low + high) / 2);
+			if (history.timestamps[mid] <= time) {
+				found = mid;
+				low = mid + 1;
+			} else {
+				high = mid - 1;
+			}
+		}
+		if (found === -1) return null;
+		if ((time - history.timestamps[found]) * 1000 > this.maxAgeMs) return null;
+		return history.prices[found];
+	}
+
+	private key(chainId: number, token: string): string {
+		return `${chainId}:${token.toLowerCase()}`;
+	}
+}
@@ -0,0 +1,362 @@
+import { FeeCollectedEventModel } from "../models/FeeCollectedEvent";
+import { TokenService } from "./tokenService";
+import { LocalPriceSource } from "./localPriceSource";
+import { HttpPriceSource } from "./httpPriceSource";
+import { config } from "../utils/config";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+import { AppConfig } from "../types/config";
+import {
+	EventValuation,
+	PriceQuery,
+	PriceSource,
+	RevenueFilter,
+	RevenueSummary,
+	TokenRevenue,
+} from "../types/prices";
+import { formatTokenAmount } from "../utils/tokenAmounts";
+
+/**
+ * A fee event with its amounts formatted with the token's decimals
+ */
+interface FormattedFeeEvent {
+	chainId: number;
+	token: string;
+	blockTimestamp?: Date;
+	tokenSymbol: string | null;
+	integratorFeeFormatted: string | null;
+	lifiFeeFormatted: string | null;
+}
+
+/**
+ * Running totals of the revenue in one token on one chain
+ */
+interface RevenueEntry {
+	chainId: number;
+	token: string;
+	tokenSymbol: string | null;
+	tokenDecimals: number | null;
+	events: number;
+	unpricedEvents: number;
+	integratorFee: bigint;
+	lifiFee: bigint;
+	integratorFeeUsd: number | null;
+	lifiFeeUsd: number | null;
+}
+
+/**
+ * Exact raw fee sums of the events of one token on one chain at one block time
+ */
+interface FeeGroup {
+	chainId: number;
+	token: string;
+	blockTimestamp?: Date;
+	events: number;
+	integratorFee: bigint;
+	lifiFee: bigint;
+}
+
+// Price lookups run concurrently in batches, so a price source sees at most this many requests at a time
+const PRICE_LOOKUP_BATCH_SIZE = 20;
+
+// Price source used when none is configured: every event is unpriced
+const NO_PRICE_SOURCE: PriceSource = {
+	name: "none",
+	getPrice: async () => null,
+};
+
+/**
+ * Creates the price source selected in the settings
+ * @throws ConfigurationError if the price file cannot be loaded
+ */
+export function createPriceSource(settings: AppConfig["prices"]): PriceSource {
+	switch (settings.source) {
+		case "file":
+			return LocalPriceSource.fromFile(settings.file!, settings.maxAgeMs);
+		case "http":
+			return new HttpPriceSource(settings.apiUrl!);
+		default:
+			return NO_PRICE_SOURCE;
+	}
+}
+
+/**
+ * PriceService
+ *
+ * Values fee events in USD at the time of their block, through the configured price
+ * source, and sums the fee revenue over tokens and chains. An event is only valued
+ * when its block timestamp, its token's decimals and a price are known; any other
+ * event is marked with the reason and left out of the USD sums instead of counting as zero.
+ */
+export class PriceService {
+	private static instance: PriceService;
+	private source: PriceSource | null = null;
+
+	private constructor() {}
+
+	public static getInstance(): PriceService {
+		if (!PriceService.instance) {
+			PriceService.instance = new PriceService();
+		}
+		return PriceService.instance;
+	}
+
+	/**
+	 * Loads the configured price source, so a broken price file stops the startup.
+	 * @throws ConfigurationError if the price file cannot be loaded
+	 */
+	loadSource(): void {
+		this.source = createPriceSource(config.prices);
+		logger.info({ priceSource: this.source.name }, "Loaded price source");
+	}
+
+	/**
+	 * Values fee events in USD at the time of their block.
+	 * Each distinct token and time is looked up once, in concurrent batches.
+	 *
+	 * @param events - Fee events with formatted amounts, see TokenService.withFormattedAmounts
+	 * @returns The events with their USD valuation
+	 */
+	async valueEvents<T extends FormattedFeeEvent>(
+		events: T[]
+	): Promise<(T & EventValuation)[]> {
+		const queries = new Map<string, PriceQuery>();
+		for (const event of events) {
+			const query = this.toPriceQuery(event);
+			if (query) queries.set(this.priceKey(query), query);
+		}
+
+		const prices = new Map<string, number | null>();
+		const pending = [...queries];
+		for (let i = 0; i < pending.length; i += PRICE_LOOKUP_BATCH_SIZE) {
+			const batch = pending.slice(i, i + PRICE_LOOKUP_BATCH_SIZE);
+			const found = await Promise.all(
+				batch.map(([, query]) => this.lookUpPrice(query))
+			);
+			batch.forEach(([key], index) => prices.set(key, found[index]));
+		}
+
+		return events.map((event) => ({
+			...event,
+			...this.valueEvent(event, prices),
+		}));
+	}
+
+	/**
+	 * Sums the fee revenue per chain and token and in USD.
+	 * Events are streamed from the database and summed exactly with BigInt per token and
+	 * block time, so every group of events is valued once at the price of its own block.
+	 *
+	 * @param filter - Selects the events; a time range leaves out events without a block timestamp
+	 * @returns The revenue summary, incomplete when events are unpriced
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getRevenue(filter: RevenueFilter): Promise<RevenueSummary> {
+		const { chainId, integrator, from, to } = filter;
+		const groups = new Map<string, FeeGroup>();
+		try {
+			const cursor = FeeCollectedEventModel.find(
+				{
+					...(chainId !== undefined && { chainId }),
+					...(integrator !== undefined && { integrator }),
+					...((from !== undefined || to !== undefined) && {
+						blockTimestamp: {
+							...(from !== undefined && { $gte: from }),
+							...(to !== undefined && { $lt: to }),
+						},
+					}),
+				},
+				{
+					_id: 0,
+					chainId: 1,
+					token: 1,
+					integratorFee: 1,
+					lifiFee: 1,
+					blockTimestamp: 1,
+				}
+			)
+				.lean()
+				.cursor();
+			for await (const event of cursor) {
+				const key = `${event.chainId}_${event.token}_${event.blockTimestamp?.getTime()}`;
+				let group = groups.get(key);
+				if (!group) {
+					group = {
+						chainId: event.chainId,
+						token: event.token,
+						...(event.blockTimestamp && {
+							blockTimestamp: event.blockTimestamp,
+						}),
+						events: 0,
+						integratorFee: 0n,
+						lifiFee: 0n,
+					};
+					groups.set(key, group);
+				}
+				group.events++;
+				group.integratorFee += BigInt(event.integratorFee);
+				group.lifiFee += BigInt(event.lifiFee);
+			}
+		} catch (error) {
+			logger.error({ ...filter, error }, "Error summing fees for revenue");
+			throw new DatabaseError("Failed to get revenue");
+		}
+
+		const valued = await this.valueEvents(
+			await TokenService.getInstance().withFormattedAmounts(
+				[...groups.values()].map((group) => ({
+					...group,
+					integratorFee: group.integratorFee.toString(),
+					lifiFee: group.lifiFee.toString(),
+				})),
+				["integratorFee", "lifiFee"]
+			)
+		);
+
+		const entries = new Map<string, RevenueEntry>();
+		for (const group of valued) {
+			const key = `${group.chainId}_${group.token}`;
+			let entry = entries.get(key);
+			if (!entry) {
+				entry = {
+					chainId: group.chainId,
+					token: group.token,
+					tokenSymbol: group.tokenSymbol,
+					tokenDecimals: group.tokenDecimals,
+					events: 0,
+					unpricedEvents: 0,
+					integratorFee: 0n,
+					lifiFee: 0n,
+					integratorFeeUsd: null,
+					lifiFeeUsd: null,
+				};
+				entries.set(key, entry);
+			}
+			entry.events += group.events;
+			entry.integratorFee += BigInt(group.integratorFee);
+			entry.lifiFee += BigInt(group.lifiFee);
+			if (group.priceStatus === "priced") {
+				entry.integratorFeeUsd =
+					(entry.integratorFeeUsd ?? 0) + group.integratorFeeUsd!;
+				entry.lifiFeeUsd = (entry.lifiFeeUsd ?? 0) + group.lifiFeeUsd!;
+			} else {
+				entry.unpricedEvents += group.events;
+			}
+		}
+
+		const tokens: TokenRevenue[] = [...entries.values()]
+			.sort((a, b) => a.chainId - b.chainId || a.token.localeCompare(b.token))
+			.map((entry) => ({
+				...entry,
+				integratorFee: entry.integratorFee.toString(),
+				lifiFee: entry.lifiFee.toString(),
+				integratorFeeFormatted: formatTokenAmount(
+					entry.integratorFee.toString(),
+					entry.tokenDecimals ?? undefined
+				),
+				lifiFeeFormatted: formatTokenAmount(
+					entry.lifiFee.toString(),
+					entry.tokenDecimals ?? undefined
+				),
+			}));
+		const events = tokens.reduce((sum, token) => sum + token.events, 0);
+		const unpricedEvents = tokens.reduce(
+			(sum, token) => sum + token.unpricedEvents,
+			0
+		);
+		return {
+			priceSource: this.getSource().name,
+			integratorFeeUsd: tokens.reduce(
+				(sum, token) => sum + (token.integratorFeeUsd ?? 0),
+				0
+			),
+			lifiFeeUsd: tokens.reduce(
+				(sum, token) => sum + (token.lifiFeeUsd ?? 0),
+				0
+			),
+			pricedEvents: events - unpricedEvents,
+			unpricedEvents,
+			complete: unpricedEvents === 0,
+			tokens,
+		};
+	}
+
+	/**
+	 * Values one event with the looked up prices, or explains why it has no USD value
+	 */
+	private valueEvent(
+		event: FormattedFeeEvent,
+		prices: Map<string, number | null>
+	): EventValuation {
+		const unpriced = (priceStatus: EventValuation["priceStatus"]) => ({
+			priceUsd: null,
+			integratorFeeUsd: null,
+			lifiFeeUsd: null,
+			priceStatus,
+		});
+		if (!event.blockTimestamp) return unpriced("no_timestamp");
+		const query = this.toPriceQuery(event);
+		if (!query) return unpriced("no_decimals");
+
+		const priceUsd = prices.get(this.priceKey(query)) ?? null;
+		if (priceUsd === null) return unpriced("no_price");
+
+		return {
+			priceUsd,
+			integratorFeeUsd: Number(event.integratorFeeFormatted) * priceUsd,
+			lifiFeeUsd: Number(event.lifiFeeFormatted) * priceUsd,
+			priceStatus: "priced",
+		};
+	}
+
+	/**
+	 * The price an event needs, or null when it cannot be valued anyway
+	 */
+	private toPriceQuery(event: FormattedFeeEvent): PriceQuery | null {
+		if (
+			!event.blockTimestamp ||
+			event.integratorFeeFormatted === null ||
+			event.lifiFeeFormatted === null
+		) {
+			return null;
+		}
+		return {
+			chainId: event.chainId,
+			token: event.token.toLowerCase(),
+			...(event.tokenSymbol !== null && { symbol: event.tokenSymbol }),
+			timestamp: event.blockTimestamp,
+		};
+	}
+
+	/**
+	 * Identifies a price lookup by token and time
+	 */
+	private priceKey(query: PriceQuery): string {
+		return `${query.chainId}:${query.token}:${query.timestamp.getTime()}`;
+	}
+
+	/**
+	 * Gets a price from the source; a failing source leaves the events unpriced
+	 */
+	private async lookUpPrice(query: PriceQuery): Promise<number | null> {
+		try {
+			return await this.getSource().getPrice(query);
+		} catch (error) {
+			logger.warn(
+				{ chainId: query.chainId, token: query.token, error },
+				"Could not get the token price, the event is unpriced"
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * The loaded price source, loaded on first use outside the server
+	 */
+	private getSource(): PriceSource {
+		if (!this.source) {
+			this.loadSource();
+		}
+		return this.source!;
+	}
+}
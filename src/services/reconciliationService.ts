@@ -0,0 +1,386 @@
+import {
+	ReconciliationReport,
+	ReconciliationReportModel,
+} from "../models/ReconciliationReport";
+import { BalanceService } from "./balanceService";
+import { BlockchainService } from "./blockchainService";
+import { EventService } from "./eventService";
+import { BalanceMismatch } from "../types/reconciliation";
+import {
+	config,
+	findContractDeployment,
+	getCurrentContract,
+} from "../utils/config";
+import logger from "../utils/logger";
+import {
+	DatabaseError,
+	NotFoundError,
+	ValidationError,
+} from "../errors/AppError";
+import mongoose from "mongoose";
+
+// Mismatches kept on a report document; mismatchCount holds the total
+const MAX_STORED_MISMATCHES = 1000;
+
+export type ReconciliationReportDocument = ReconciliationReport & {
+	_id: mongoose.Types.ObjectId;
+};
+
+/**
+ * ReconciliationService
+ *
+ * Proves that the indexed events add up to the FeeCollector's state. A run reads a
+ * contract's checkpoint, derives every integrator's and LiFi's claimable balance from the
+ * contract's events up to that block, reads its `getTokenBalance` and `getLifiTokenBalance`
+ * views at the same block, and persists a report of the balances that differ.
+ */
+export class ReconciliationService {
+	private static instance: ReconciliationService;
+	private balanceService: BalanceService;
+	private blockchainService: BlockchainService;
+	private eventService: EventService;
+	private runningChains: Map<
+		number,
+		{ controller: AbortController; done: Promise<void> }
+	>;
+
+	private constructor() {
+		this.balanceService = BalanceService.getInstance();
+		this.blockchainService = BlockchainService.getInstance();
+		this.eventService = EventService.getInstance();
+		this.runningChains = new Map();
+	}
+
+	public static getInstance(): ReconciliationService {
+		if (!ReconciliationService.instance) {
+			ReconciliationService.instance = new ReconciliationService();
+		}
+		return ReconciliationService.instance;
+	}
+
+	/**
+	 * Creates a report for a contract at its current checkpoint and runs the reconciliation in the background.
+	 *
+	 * @param chainId - The chain ID to reconcile
+	 * @param contractAddress - The contract to reconcile, defaults to the chain's current contract
+	 * @returns The created report
+	 * @throws {ValidationError} When the chain is not enabled, the contract is not deployed on it,
+	 *   or the chain is already being reconciled
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async startReconciliation(
+		chainId: number,
+		contractAddress?: string
+	): Promise<ReconciliationReportDocument> {
+		if (!config.enabledChains.includes(chainId)) {
+			throw new ValidationError(`Chain ${chainId} is not enabled`);
+		}
+		const deployment = contractAddress
+			? findContractDeployment(chainId, contractAddress)
+			: getCurrentContract(chainId);
+		if (!deployment) {
+			throw new ValidationError(
+				`Contract ${contractAddress} is not deployed on chain ${chainId}`
+			);
+		}
+		if (this.runningChains.has(chainId)) {
+			throw new ValidationError(`Chain ${chainId} is already being reconciled`);
+		}
+		// Claim the chain before the first await, so a concurrent request is rejected
+		const controller = new AbortController();
+		this.runningChains.set(chainId, { controller, done: Promise.resolve() });
+
+		let report: ReconciliationReportDocument;
+		try {
+			report = await this.createReport(chainId, deployment.address);
+		} catch (error) {
+			this.runningChains.delete(chainId);
+			throw error;
+		}
+
+		logger.info(
+			{
+				reportId: report._id,
+				chainId,
+				contractAddress: report.contractAddress,
+				blockNumber: report.blockNumber,
+			},
+			"Started reconciliation"
+		);
+		const done = this.reconcile(report, controller.signal)
+			.catch((error) => {
+				logger.error(
+					{ reportId: report._id, chainId, error },
+					"Reconciliation crashed"
+				);
+			})
+			.finally(() => {
+				this.runningChains.delete(chainId);
+			});
+		this.runningChains.set(chainId, { controller, done });
+		return report;
+	}
+
+	/**
+	 * Retrieves a reconciliation report.
+	 *
+	 * @param id - The report ID
+	 * @returns The report
+	 * @throws {NotFoundError} When no report with this ID exists
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getReport(id: string): Promise<ReconciliationReportDocument> {
+		let report: ReconciliationReportDocument | null;
+		try {
+			report = mongoose.isValidObjectId(id)
+				? await ReconciliationReportModel.findById(id).lean()
+				: null;
+		} catch (error) {
+			logger.error(
+				{ reportId: id, error },
+				"Error getting reconciliation report"
+			);
+			throw new DatabaseError("Failed to get reconciliation report");
+		}
+		if (!report) {
+			throw new NotFoundError(`Reconciliation report ${id} not found`);
+		}
+		return report;
+	}
+
+	/**
+	 * Lists the most recent reconciliation reports.
+	 *
+	 * @param chainId - Optional chain ID to filter by
+	 * @param limit - Maximum number of reports to return
+	 * @returns Reports, newest first, without their mismatch lists
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async listReports(
+		chainId?: number,
+		limit = 50
+	): Promise<ReconciliationReportDocument[]> {
+		try {
+			return await ReconciliationReportModel.find(
+				chainId === undefined ? {} : { chainId },
+				{ mismatches: 0 }
+			)
+				.sort({ createdAt: -1 })
+				.limit(limit)
+				.lean();
+		} catch (error) {
+			logger.error({ chainId, error }, "Error listing reconciliation reports");
+			throw new DatabaseError("Failed to list reconciliation reports");
+		}
+	}
+
+	/**
+	 * Marks the reports this replica left running before a crash or restart as failed.
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async failInterruptedReports(): Promise<void> {
+		try {
+			const result = await ReconciliationReportModel.updateMany(
+				{ status: "running", ownerId: config.instanceId },
+				{
+					$set: {
+						status: "failed",
+						error: "Interrupted by a restart",
+						finishedAt: new Date(),
+					},
+				}
+			);
+			if (result.modifiedCount > 0) {
+				logger.warn(
+					{ count: result.modifiedCount },
+					"Marked interrupted reconciliation reports as failed"
+				);
+			}
+		} catch (error) {
+			logger.error(
+				{ error },
+				"Error failing interrupted reconciliation reports"
+			);
+			throw new DatabaseError("Failed to update reconciliation reports");
+		}
+	}
+
+	/**
+	 * Stops every running reconciliation; their reports are marked as failed.
+	 */
+	async stopAll(): Promise<void> {
+		const running = [...this.runningChains.values()];
+		running.forEach(({ controller }) => controller.abort());
+		await Promise.all(running.map(({ done }) => done));
+	}
+
+	/**
+	 * Creates a running report for a contract at its current checkpoint.
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	private async createReport(
+		chainId: number,
+		contractAddress: string
+	): Promise<ReconciliationReportDocument> {
+		const blockNumber = await this.eventService.getLastScannedBlock(
+			chainId,
+			contractAddress
+		);
+		try {
+			return (
+				await ReconciliationReportModel.create({
+					chainId,
+					contractAddress,
+					blockNumber,
+					ownerId: config.instanceId,
+				})
+			).toObject();
+		} catch (error) {
+			logger.error(
+				{ chainId, contractAddress, blockNumber, error },
+				"Error creating reconciliation report"
+			);
+			throw new DatabaseError("Failed to create reconciliation report");
+		}
+	}
+
+	/**
+	 * Compares every derived balance of the report's chain with the contract and finishes the report.
+	 * @param report - The running report
+	 * @param signal - AbortSignal that stops the run between balances
+	 */
+	private async reconcile(
+		report: ReconciliationReportDocument,
+		signal: AbortSignal
+	): Promise<void> {
+		const chainId = report.chainId;
+		const { contractAddress, blockNumber } = report;
+		const mismatches: BalanceMismatch[] = [];
+		let checked = 0;
+
+		// Compares one balance and records it when it differs
+		const compare = (
+			kind: BalanceMismatch["kind"],
+			expected: string,
+			actual: string,
+			token: string,
+			integrator?: string
+		) => {
+			checked++;
+			if (BigInt(actual) === BigInt(expected)) return;
+			mismatches.push({
+				kind,
+				...(integrator !== undefined && { integrator }),
+				token,
+				expected,
+				actual,
+				difference: (BigInt(actual) - BigInt(expected)).toString(),
+			});
+		};
+
+		try {
+			const [integratorBalances, lifiBalances] = await Promise.all([
+				this.balanceService.getChainBalances(
+					chainId,
+					blockNumber,
+					contractAddress
+				),
+				this.balanceService.getLifiBalances(
+					chainId,
+					blockNumber,
+					contractAddress
+				),
+			]);
+
+			for (const balance of integratorBalances) {
+				if (signal.aborted) throw new Error("Interrupted by shutdown");
+				const actual = await this.blockchainService.getIntegratorTokenBalance(
+					chainId,
+					balance.integrator,
+					balance.token,
+					blockNumber,
+					contractAddress
+				);
+				compare(
+					"integrator",
+					balance.claimable,
+					actual,
+					balance.token,
+					balance.integrator
+				);
+			}
+			for (const balance of lifiBalances) {
+				if (signal.aborted) throw new Error("Interrupted by shutdown");
+				const actual = await this.blockchainService.getLifiTokenBalance(
+					chainId,
+					balance.token,
+					blockNumber,
+					contractAddress
+				);
+				compare("lifi", balance.claimable, actual, balance.token);
+			}
+		} catch (error) {
+			logger.error(
+				{ reportId: report._id, chainId, blockNumber, checked, error },
+				"Reconciliation failed"
+			);
+			try {
+				await this.finishReport(report, {
+					status: "failed",
+					error: error instanceof Error ? error.message : String(error),
+					checked,
+					mismatches,
+				});
+			} catch (finishError) {
+				logger.error(
+					{ reportId: report._id, chainId, error: finishError },
+					"Error marking reconciliation report as failed"
+				);
+			}
+			return;
+		}
+
+		const context = {
+			reportId: report._id,
+			chainId,
+			contractAddress,
+			blockNumber,
+			checked,
+			mismatchCount: mismatches.length,
+		};
+		if (mismatches.length > 0) {
+			logger.warn(
+				context,
+				"Reconciliation found balances that differ from the contract"
+			);
+		} else {
+			logger.info(context, "Reconciliation matched the contract");
+		}
+		const status = mismatches.length > 0 ? "mismatched" : "matched";
+		await this.finishReport(report, { status, checked, mismatches });
+	}
+
+	/**
+	 * Stores the outcome of a run on its report.
+	 */
+	private async finishReport(
+		report: ReconciliationReportDocument,
+		outcome: Pick<ReconciliationReport, "status" | "checked" | "error"> & {
+			mismatches: BalanceMismatch[];
+		}
+	): Promise<void> {
+		await ReconciliationReportModel.updateOne(
+			{ _id: report._id },
+			{
+				$set: {
+					status: outcome.status,
+					checked: outcome.checked,
+					mismatchCount: outcome.mismatches.length,
+					mismatches: outcome.mismatches.slice(0, MAX_STORED_MISMATCHES),
+					...(outcome.error !== undefined && { error: outcome.error }),
+					finishedAt: new Date(),
+				},
+			}
+		);
+	}
+}
@@ -0,0 +1,213 @@
+import { BlockchainService } from "./blockchainService";
+import { EventService } from "./eventService";
+import { CoverageService } from "./coverageService";
+import { ScannedBlockModel } from "../models/ScannedBlock";
+import {
+	LastScannedBlock,
+	LastScannedBlockModel,
+} from "../models/LastScannedBlock";
+import { config } from "../utils/config";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+
+/**
+ * ReorgService
+ *
+ * Detects chain reorganizations by comparing stored block hashes with the
+ * current chain, and rolls back events and checkpoints from orphaned blocks.
+ */
+export class ReorgService {
+	private static instance: ReorgService;
+	private blockchainService: BlockchainService;
+	private eventService: EventService;
+	private coverageService: CoverageService;
+
+	private constructor() {
+		this.blockchainService = BlockchainService.getInstance();
+		this.eventService = EventService.getInstance();
+		this.coverageService = CoverageService.getInstance();
+	}
+
+	public static getInstance(): ReorgService {
+		if (!ReorgService.instance) {
+			ReorgService.instance = new ReorgService();
+		}
+		return ReorgService.instance;
+	}
+
+	/**
+	 * Records a scanned block hash and prunes the window to the configured size.
+	 *
+	 * @param chainId - The chain ID the block belongs to
+	 * @param blockNumber - The scanned block number
+	 * @param blockHash - The block hash observed at scan time
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async recordScannedBlock(
+		chainId: number,
+		blockNumber: number,
+		blockHash: string
+	): Promise<void> {
+		try {
+			await ScannedBlockModel.updateOne(
+				{ chainId, blockNumber },
+				{ $set: { blockHash } },
+				{ upsert: true }
+			);
+
+			// Keep only the most recent blocks of the window
+			const oldestKept = await ScannedBlockModel.findOne({ chainId })
+				.sort({ blockNumber: -1 })
+				.skip(config.reorgWindowSize - 1)
+				.lean();
+			if (oldestKept) {
+				await ScannedBlockModel.deleteMany({
+					chainId,
+					blockNumber: { $lt: oldestKept.blockNumber },
+				});
+			}
+		} catch (error) {
+			logger.error(
+				{ chainId, blockNumber, error },
+				"Error recording scanned block"
+			);
+			throw new DatabaseError("Failed to record scanned block");
+		}
+	}
+
+	/**
+	 * Checks the checkpoints of every contract on the chain against the current chain,
+	 * newest first, and rolls the whole chain back on the first divergence.
+	 * Checkpoints without a recorded block hash are skipped.
+	 *
+	 * @param chainId - The chain ID to check
+	 * @returns The block number the checkpoints were rewound to, or null if no reorg was found
+	 * @throws {BlockchainError} When block hashes cannot be fetched
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async checkForReorg(chainId: number): Promise<number | null> {
+		let checkpoints: LastScannedBlock[];
+		try {
+			checkpoints = await LastScannedBlockModel.find({
+				chainId,
+				blockHash: { $exists: true },
+			})
+				.sort({ blockNumber: -1 })
+				.lean();
+		} catch (error) {
+			logger.error({ chainId, error }, "Error loading checkpoints");
+			throw new DatabaseError("Failed to load checkpoints");
+		}
+
+		// Contracts scanned up to the same block share one hash lookup
+		const checkedBlocks = new Set<number>();
+		for (const checkpoint of checkpoints) {
+			if (checkedBlocks.has(checkpoint.blockNumber)) continue;
+			checkedBlocks.add(checkpoint.blockNumber);
+
+			const currentHash = await this.blockchainService.getBlockHash(
+				chainId,
+				checkpoint.blockNumber
+			);
+			if (currentHash === checkpoint.blockHash) continue;
+
+			const ancestor = await this.findCommonAncestor(
+				chainId,
+				checkpoint.blockNumber
+			);
+			await this.rollback(chainId, checkpoint.blockNumber, ancestor);
+			return ancestor.blockNumber;
+		}
+		return null;
+	}
+
+	/**
+	 * Walks the window of scanned blocks backwards until a stored hash matches the chain.
+	 * If the reorg is deeper than the window, falls back to the block before the oldest entry.
+	 *
+	 * @param chainId - The chain ID to check
+	 * @param belowBlock - Only blocks below this number are considered
+	 * @returns The common ancestor block and its hash, if known
+	 */
+	private async findCommonAncestor(
+		chainId: number,
+		belowBlock: number
+	): Promise<{ blockNumber: number; blockHash?: string }> {
+		const window = await ScannedBlockModel.find({
+			chainId,
+			blockNumber: { $lt: belowBlock },
+		})
+			.sort({ blockNumber: -1 })
+			.lean();
+
+		for (const block of window) {
+			const currentHash = await this.blockchainService.getBlockHash(
+				chainId,
+				block.blockNumber
+			);
+			if (currentHash === block.blockHash) {
+				return { blockNumber: block.blockNumber, blockHash: block.blockHash };
+			}
+		}
+
+		const oldest = window.length
+			? window[window.length - 1].blockNumber
+			: belowBlock;
+		logger.warn(
+			{ chainId, belowBlock, windowSize: window.length },
+			"Reorg is deeper than the tracked block window"
+		);
+		return { blockNumber: Math.max(oldest - 1, 0) };
+	}
+
+	/**
+	 * Deletes events, window entries and coverage above the ancestor and rewinds the checkpoints
+	 * of every contract on the chain.
+	 *
+	 * @param chainId - The chain ID to roll back
+	 * @param checkpointBlock - The checkpoint block that no longer matches the chain
+	 * @param ancestor - The last block both views agree on
+	 */
+	private async rollback(
+		chainId: number,
+		checkpointBlock: number,
+		ancestor: { blockNumber: number; blockHash?: string }
+	): Promise<void> {
+		const deletedEvents = await this.eventService.deleteEventsAfterBlock(
+			chainId,
+			ancestor.blockNumber
+		);
+
+		try {
+			await ScannedBlockModel.deleteMany({
+				chainId,
+				blockNumber: { $gt: ancestor.blockNumber },
+			});
+		} catch (error) {
+			logger.error({ chainId, error }, "Error pruning scanned blocks");
+			throw new DatabaseError("Failed to prune scanned blocks");
+		}
+
+		await this.coverageService.removeCoverageAfter(
+			chainId,
+			ancestor.blockNumber
+		);
+		await this.eventService.rewindCheckpoints(
+			chainId,
+			ancestor.blockNumber,
+			ancestor.blockHash
+		);
+
+		logger.warn(
+			{
+				type: "chain_reorg",
+				chainId,
+				checkpointBlock,
+				rewoundTo: ancestor.blockNumber,
+				depth: checkpointBlock - ancestor.blockNumber,
+				deletedEvents,
+			},
+			`Chain reorganization detected, rewound to block ${ancestor.blockNumber}`
+		);
+	}
+}
@@ -0,0 +1,271 @@
+import { ethers } from "ethers";
+import logger from "../utils/logger";
+import { BlockchainError } from "../errors/AppError";
+import { isRangeLimitError } from "../utils/rpcErrors";
+
+/**
+ * RpcPool
+ *
+ * Holds the RPC endpoints of one chain and routes calls to the healthiest one.
+ * Tracks latency, error rate and head lag per endpoint, fails over to the next
+ * endpoint when a call errors, and demotes endpoints that fall behind the others.
+ * Calls that read up to a block, like log queries, only go to endpoints whose head
+ * has reached it: a node that has not seen a block returns no logs for it instead of an error.
+ */
+
+/**
+ * Health snapshot of a single RPC endpoint
+ *
+ * @property {string} url - Endpoint URL
+ * @property {number} latencyMs - Exponentially weighted average call latency
+ * @property {number} errorRate - Exponentially weighted share of failed calls (0-1)
+ * @property {number} successCount - Total successful calls
+ * @property {number} errorCount - Total failed calls
+ * @property {number | null} headBlock - Last head block reported by the endpoint
+ * @property {number} headLag - Blocks behind the highest head seen across the pool
+ * @property {boolean} demoted - Whether the endpoint lags too far behind and is only used as a last resort
+ * @property {string} [lastError] - Message of the most recent failure
+ */
+export interface EndpointHealth {
+	url: string;
+	latencyMs: number;
+	errorRate: number;
+	successCount: number;
+	errorCount: number;
+	headBlock: number | null;
+	headLag: number;
+	demoted: boolean;
+	lastError?: string;
+}
+
+export interface RpcPoolOptions {
+	maxHeadLag: number; // Blocks an endpoint may trail the best head before it is demoted
+}
+
+interface Endpoint {
+	url: string;
+	provider: ethers.providers.JsonRpcProvider;
+	latencyMs: number;
+	errorRate: number;
+	successCount: number;
+	errorCount: number;
+	headBlock: number | null;
+	lastError?: string;
+}
+
+// Weight of the newest sample in the latency and error rate averages
+const EWMA_ALPHA = 0.3;
+
+// Latency penalty (ms) of an endpoint whose every recent call failed
+const ERROR_PENALTY_MS = 5000;
+
+export class RpcPool {
+	private endpoints: Endpoint[];
+
+	constructor(
+		private readonly chainId: number,
+		urls: string[],
+		private readonly options: RpcPoolOptions
+	) {
+		if (urls.length === 0) {
+			throw new Error(`No RPC URL configured for chain ${chainId}`);
+		}
+		this.endpoints = urls.map((url) => ({
+			url,
+			provider: new ethers.providers.JsonRpcProvider(url),
+			latencyMs: 0,
+			errorRate: 0,
+			successCount: 0,
+			errorCount: 0,
+			headBlock: null,
+		}));
+	}
+
+	/**
+	 * Provider of the currently best-ranked endpoint
+	 */
+	public getProvider(): ethers.providers.JsonRpcProvider {
+		return this.rankedEndpoints()[0].provider;
+	}
+
+	/**
+	 * Runs an RPC call against the best endpoint, failing over to the others in rank order.
+	 * @param operation - Name of the call, used for logging
+	 * @param fn - The call to run with a provider
+	 * @param minBlock - Block the call reads up to; only endpoints whose head reached it are used
+	 * @returns The result of the first endpoint that succeeds
+	 * @throws The last endpoint's error when every endpoint fails, or a server error when no endpoint reached minBlock
+	 */
+	public async execute<T>(
+		operation: string,
+		fn: (provider: ethers.providers.JsonRpcProvider) => Promise<T>,
+		minBlock?: number
+	): Promise<T> {
+		let endpoints = this.rankedEndpoints();
+		if (minBlock !== undefined) {
+			const synced = () =>
+				this.rankedEndpoints().filter(
+					(endpoint) =>
+						endpoint.headBlock !== null && endpoint.headBlock >= minBlock
+				);
+			endpoints = synced();
+			if (endpoints.length === 0) {
+				// Heads are only known as of the last poll, the endpoints may have caught up since
+				await this.refreshHeads();
+				endpoints = synced();
+			}
+			if (endpoints.length === 0) {
+				// Retryable, the endpoints are expected to reach the block shortly
+				throw Object.assign(
+					new Error(
+						`No RPC endpoint of chain ${this.chainId} has reached block ${minBlock}`
+					),
+					{ code: ethers.utils.Logger.errors.SERVER_ERROR }
+				);
+			}
+		}
+
+		let lastError: unknown;
+		for (const endpoint of endpoints) {
+			const start = Date.now();
+			try {
+				const result = await fn(endpoint.provider);
+				this.recordSuccess(endpoint, Date.now() - start);
+				return result;
+			} catch (error) {
+				// Application errors and oversized queries are not the endpoint's fault
+				if (error instanceof BlockchainError || isRangeLimitError(error)) {
+					throw error;
+				}
+				this.recordError(endpoint, error);
+				lastError = error;
+				logger.warn(
+					{ chainId: this.chainId, url: endpoint.url, operation, error },
+					"RPC call failed, trying next endpoint"
+				);
+			}
+		}
+		throw lastError;
+	}
+
+	/**
+	 * Queries the head block of every endpoint in parallel and updates head lag.
+	 * @returns The highest head block among the endpoints that are not demoted
+	 * @throws The last error when no endpoint answers
+	 */
+	public async getLatestBlock(): Promise<number> {
+		const results = await this.refreshHeads();
+
+		const heads = results
+			.filter(
+				(result): result is PromiseFulfilledResult<number> =>
+					result.status === "fulfilled"
+			)
+			.map((result) => result.value);
+		if (heads.length === 0) {
+			const rejected = results.find(
+				(result): result is PromiseRejectedResult =>
+					result.status === "rejected"
+			);
+			throw rejected?.reason;
+		}
+
+		for (const endpoint of this.endpoints) {
+			if (this.isDemoted(endpoint)) {
+				logger.warn(
+					{
+						chainId: this.chainId,
+						url: endpoint.url,
+						headBlock: endpoint.headBlock,
+						headLag: this.headLag(endpoint),
+					},
+					"RPC endpoint is lagging behind and has been demoted"
+				);
+			}
+		}
+
+		return Math.max(...heads);
+	}
+
+	/**
+	 * Health snapshot of every endpoint, best-ranked first
+	 */
+	public getHealth(): EndpointHealth[] {
+		return this.rankedEndpoints().map((endpoint) => ({
+			url: endpoint.url,
+			latencyMs: Math.round(endpoint.latencyMs),
+			errorRate: endpoint.errorRate,
+			successCount: endpoint.successCount,
+			errorCount: endpoint.errorCount,
+			headBlock: endpoint.headBlock,
+			headLag: this.headLag(endpoint),
+			demoted: this.isDemoted(endpoint),
+			lastError: endpoint.lastError,
+		}));
+	}
+
+	/**
+	 * Endpoints ordered from healthiest to least healthy.
+	 * Demoted endpoints always come last; the rest are ordered by latency plus an error rate penalty.
+	 */
+	private rankedEndpoints(): Endpoint[] {
+		const score = (endpoint: Endpoint) =>
+			(this.isDemoted(endpoint) ? Number.MAX_SAFE_INTEGER / 2 : 0) +
+			endpoint.latencyMs +
+			endpoint.errorRate * ERROR_PENALTY_MS;
+		return [...this.endpoints].sort((a, b) => score(a) - score(b));
+	}
+
+	/**
+	 * Queries the head block of every endpoint in parallel and stores it on the endpoint
+	 * @returns The head block or the error of each endpoint
+	 */
+	private async refreshHeads(): Promise<PromiseSettledResult<number>[]> {
+		return Promise.allSettled(
+			this.endpoints.map(async (endpoint) => {
+				const start = Date.now();
+				try {
+					const blockNumber = await endpoint.provider.getBlockNumber();
+					this.recordSuccess(endpoint, Date.now() - start);
+					endpoint.headBlock = blockNumber;
+					return blockNumber;
+				} catch (error) {
+					this.recordError(endpoint, error);
+					throw error;
+				}
+			})
+		);
+	}
+
+	private bestHead(): number | null {
+		const heads = this.endpoints
+			.map((endpoint) => endpoint.headBlock)
+			.filter((head): head is number => head !== null);
+		return heads.length ? Math.max(...heads) : null;
+	}
+
+	private headLag(endpoint: Endpoint): number {
+		const bestHead = this.bestHead();
+		if (bestHead === null || endpoint.headBlock === null) return 0;
+		return bestHead - endpoint.headBlock;
+	}
+
+	private isDemoted(endpoint: Endpoint): boolean {
+		return this.headLag(endpoint) > this.options.maxHeadLag;
+	}
+
+	private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+		endpoint.successCount++;
+		endpoint.latencyMs =
+			endpoint.successCount === 1
+				? latencyMs
+				: EWMA_ALPHA * latencyMs + (1 - EWMA_ALPHA) * endpoint.latencyMs;
+		endpoint.errorRate = (1 - EWMA_ALPHA) * endpoint.errorRate;
+	}
+
+	private recordError(endpoint: Endpoint, error: any): void {
+		endpoint.errorCount++;
+		endpoint.errorRate = EWMA_ALPHA + (1 - EWMA_ALPHA) * endpoint.errorRate;
+		endpoint.lastError = error?.message ?? String(error);
+	}
+}
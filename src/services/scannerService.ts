@@ -1,30 +1,96 @@
-import { config } from "../utils/config";
-import { FeeCollectedEventData } from "../types/events";
+import {
+	config,
+	getChainConfig,
+	getContractDeployments,
+	getCurrentContract,
+} from "../utils/config";
+import { FeeCollectedEventData, WithdrawalEventData } from "../types/events";
+import { BackfillRangeResult } from "../types/backfill";
 import { BlockchainService } from "./blockchainService";
 import { EventService } from "./eventService";
+import { ReorgService } from "./reorgService";
+import { FailedChunkService } from "./failedChunkService";
+import { CoverageService } from "./coverageService";
+import { HeldLease, LeaseService } from "./leaseService";
+import { DeploymentBlockService } from "./deploymentBlockService";
+import { TokenService } from "./tokenService";
 import logger from "../utils/logger";
-import { ethers } from "ethers";
-import { BlockchainError, DatabaseError } from "../errors/AppError";
+import {
+	BlockchainError,
+	CircuitOpenError,
+	DatabaseError,
+	RangeLimitError,
+} from "../errors/AppError";
 import { FeeCollectedEventModel } from "../models/FeeCollectedEvent";
-import { ChainIds } from "../types/chains";
+import { ContractDeployment } from "../types/chains";
+import { sleep } from "../utils/sleep";
+import { AdaptiveChunkSizer } from "../utils/adaptiveChunkSizer";
+import { ThroughputStats, ThroughputTracker } from "../utils/throughputTracker";
+import { formatTokenAmount } from "../utils/tokenAmounts";
+
+/**
+ * A chunk of the block range being scanned.
+ * "queued" chunks wait to be (re)started, "done" chunks were scanned or recorded as failed.
+ * The events of a scanned chunk are kept until the chunk is committed with the checkpoint.
+ */
+interface ChunkTask {
+	fromBlock: number;
+	toBlock: number;
+	state: "queued" | "running" | "done";
+	events?: FeeCollectedEventData[];
+	withdrawals?: WithdrawalEventData[];
+}
+
+/**
+ * Fee and withdrawal events found in a block range
+ */
+interface ChunkEvents {
+	events: FeeCollectedEventData[];
+	withdrawals: WithdrawalEventData[];
+}
+
+/**
+ * The follow loop of a chain, stopped by aborting its controller
+ */
+interface FollowLoop {
+	controller: AbortController;
+	done: Promise<void>;
+}
 
 /**
  * ScannerService
  *
- * Orchestrates the scanning of blockchain blocks for LiFi fee events,
+ * Orchestrates the scanning of blockchain blocks for LiFi fee and withdrawal events,
  * chunking the scan, storing results, and updating progress in the database.
+ * Every FeeCollector deployment of a chain is scanned with its own checkpoint.
  */
 export class ScannerService {
 	private static instance: ScannerService;
 	private blockchainService: BlockchainService;
 	private eventService: EventService;
-	private chunkSize: number;
-	private isScanning: boolean = false;
+	private reorgService: ReorgService;
+	private failedChunkService: FailedChunkService;
+	private coverageService: CoverageService;
+	private leaseService: LeaseService;
+	private deploymentBlockService: DeploymentBlockService;
+	private tokenService: TokenService;
+	private chunkSizers: Map<number, AdaptiveChunkSizer>;
+	private throughputTrackers: Map<number, ThroughputTracker>;
+	private followController: AbortController | null = null;
+	private followLoops: Map<number, FollowLoop>;
 
 	private constructor() {
 		this.blockchainService = BlockchainService.getInstance();
 		this.eventService = EventService.getInstance();
-		this.chunkSize = config.chunkSize;
+		this.reorgService = ReorgService.getInstance();
+		this.failedChunkService = FailedChunkService.getInstance();
+		this.coverageService = CoverageService.getInstance();
+		this.leaseService = LeaseService.getInstance();
+		this.deploymentBlockService = DeploymentBlockService.getInstance();
+		this.tokenService = TokenService.getInstance();
+		this.chunkSizers = new Map();
+		this.throughputTrackers = new Map();
+		this.followLoops = new Map();
 	}
 
 	public static getInstance(): ScannerService {
@@ -39,18 +105,21 @@ export class ScannerService {
 	 * @param chainId - The chain ID to scan
 	 * @param fromBlock - Start block number (inclusive)
 	 * @param toBlock - End block number (inclusive)
+	 * @param contractAddress - The contract to scan, defaults to the chain's current contract
 	 * @returns Array of found events
 	 */
 	async scanBlockRange(
 		chainId: number,
 		fromBlock: number,
-		toBlock: number
+		toBlock: number,
+		contractAddress: string = getCurrentContract(chainId).address
 	): Promise<FeeCollectedEventData[]> {
 		try {
 			const events = await this.blockchainService.loadFeeCollectorEvents(
 				chainId,
 				fromBlock,
-				toBlock
+				toBlock,
+				contractAddress
 			);
 			logger.info(
 				{ chainId, fromBlock, toBlock, eventCount: events.length },
@@ -59,30 +128,108 @@ export class ScannerService {
 			return events;
 		} catch (error) {
 			logger.error({ chainId, error }, "Error scanning block range");
-			// Only convert specific blockchain-related errors to BlockchainError
-			if (error instanceof Error) {
-				const msg = error.message.toLowerCase();
-				if (msg.includes("rpc error") || 
-					msg.includes("network error") || 
-					msg.includes("timeout")) {
-					throw new BlockchainError(error.message);
-				}
-			}
-			// For other errors, just rethrow them as is
 			throw error;
 		}
 	}
 
 	/**
-	 * Scan blocks for fee events, chunking the scan to avoid provider limits.
+	 * Scan a block range for fee events and withdrawal events.
+	 * Both are loaded for the same range, so they share the chunk's checkpoint.
+	 * Fee events get the timestamp of their block and, on chains with transaction
+	 * enrichment, the context of their transaction. Tokens seen for the first time
+	 * are looked up and stored.
+	 * @param chainId - The chain ID to scan
+	 * @param fromBlock - Start block number (inclusive)
+	 * @param toBlock - End block number (inclusive)
+	 * @param contractAddress - The contract to scan
+	 * @returns The events found in the range
+	 */
+	private async scanChunk(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		contractAddress: string
+	): Promise<ChunkEvents> {
+		const [events, withdrawals] = await Promise.all([
+			this.scanBlockRange(chainId, fromBlock, toBlock, contractAddress),
+			this.blockchainService.loadWithdrawalEvents(
+				chainId,
+				fromBlock,
+				toBlock,
+				contractAddress
+			),
+		]);
+		if (withdrawals.length > 0) {
+			logger.info(
+				{ chainId, fromBlock, toBlock, withdrawalCount: withdrawals.length },
+				`Found ${withdrawals.length} withdrawals in blocks ${fromBlock} to ${toBlock}`
+			);
+		}
+		await this.addBlockTimestamps(chainId, events);
+		if (config.chains[chainId].enrichTransactions) {
+			await this.addTransactionContext(chainId, events);
+		}
+		if (events.length > 0) {
+			await this.tokenService.resolveTokens(
+				chainId,
+				events.map((event) => event.args.token)
+			);
+		}
+		return { events, withdrawals };
+	}
+
+	/**
+	 * Attach the timestamp of its block to every event
+	 * @param chainId - The chain ID of the events
+	 * @param events - The events to enrich
+	 */
+	private async addBlockTimestamps(
+		chainId: number,
+		events: FeeCollectedEventData[]
+	): Promise<void> {
+		if (events.length === 0) return;
+		const timestamps = await this.blockchainService.getBlockTimestamps(
+			chainId,
+			events.map((event) => event.blockNumber)
+		);
+		for (const event of events) {
+			event.blockTimestamp = timestamps.get(event.blockNumber);
+		}
+	}
+
+	/**
+	 * Attach the context of its transaction to every event
+	 * @param chainId - The chain ID of the events
+	 * @param events - The events to enrich
+	 */
+	private async addTransactionContext(
+		chainId: number,
+		events: FeeCollectedEventData[]
+	): Promise<void> {
+		if (events.length === 0) return;
+		const contexts = await this.blockchainService.getTransactionContexts(
+			chainId,
+			events.map((event) => event.transactionHash)
+		);
+		for (const event of events) {
+			event.transaction = contexts.get(event.transactionHash);
+		}
+	}
+
+	/**
+	 * Scan blocks of a contract for fee events, chunking the scan to avoid provider limits.
 	 * @param chainId - The chain ID to scan
 	 * @param _fromBlock - Optional start block (overrides DB value)
 	 * @param _toBlock - Optional end block (overrides latest block)
+	 * @param signal - Optional AbortSignal; the scan stops between chunks once aborted
+	 * @param contractAddress - The contract to scan, defaults to the chain's current contract
 	 */
 	async scanBlocks(
 		chainId: number,
 		_fromBlock?: number,
-		_toBlock?: number
+		_toBlock?: number,
+		signal?: AbortSignal,
+		contractAddress: string = getCurrentContract(chainId).address
 	): Promise<void> {
 		try {
 			// Get the latest block number from the blockchain
@@ -91,63 +238,28 @@ export class ScannerService {
 			// Get the last scanned block from the DB, or use override
 			const fromBlock = _fromBlock
 				? _fromBlock
-				: await this.eventService.getLastScannedBlock(chainId);
+				: await this.eventService.getLastScannedBlock(chainId, contractAddress);
 			const toBlock = _toBlock ? _toBlock : latestBlock;
 
 			logger.info(
-				{ chainId, fromBlock, toBlock, blockRange: toBlock - fromBlock },
+				{
+					chainId,
+					contractAddress,
+					fromBlock,
+					toBlock,
+					blockRange: toBlock - fromBlock,
+				},
 				`Scanning blocks from ${fromBlock} to ${toBlock}`
 			);
 
 			// Scan in chunks to avoid provider limitations
-			let allEvents: FeeCollectedEventData[] = [];
-			for (
-				let currentBlock = fromBlock;
-				currentBlock < toBlock;
-				currentBlock += this.chunkSize
-			) {
-				const chunkEndBlock = Math.min(
-					currentBlock + this.chunkSize - 1,
-					toBlock
-				);
-				logger.info(
-					{ chainId, currentBlock, chunkEndBlock },
-					`Scanning chunk: ${currentBlock} to ${chunkEndBlock}`
-				);
-
-				try {
-					const chunkEvents = await this.scanBlockRange(
-						chainId,
-						currentBlock,
-						chunkEndBlock
-					);
-					allEvents = allEvents.concat(chunkEvents);
-
-					await this.eventService.storeEvents(chunkEvents, chainId);
-
-					// Upsert last scanned block after each chunk
-					await this.eventService.updateLastScannedBlock(
-						chainId,
-						chunkEndBlock
-					);
-					logger.info(
-						{ chainId, chunkEndBlock },
-						"Updated last scanned block after chunk"
-					);
-				} catch (error) {
-					logger.error(
-						{ chainId, error, currentBlock, chunkEndBlock },
-						`Error scanning chunk ${currentBlock} to ${chunkEndBlock}`
-					);
-					if (
-						error instanceof BlockchainError ||
-						error instanceof DatabaseError
-					) {
-						throw error;
-					}
-					continue;
-				}
-			}
+			const allEvents = await this.scanChunksInOrder(
+				chainId,
+				fromBlock,
+				toBlock,
+				contractAddress,
+				signal
+			);
 
 			logger.info(
 				{ chainId, totalEvents: allEvents.length },
@@ -156,15 +268,33 @@ export class ScannerService {
 
 			const parsedEvents =
 				this.blockchainService.parseFeeCollectorEvents(allEvents);
+			const tokens =
+				parsedEvents.length > 0
+					? await this.tokenService.getTokens(
+							chainId,
+							parsedEvents.map((event) => event.args.token)
+						)
+					: new Map();
 			parsedEvents.forEach((event: FeeCollectedEventData, index: number) => {
+				// Amounts are formatted with the token's decimals once it is known
+				const token = tokens.get(event.args.token.toLowerCase());
 				logger.info(
 					{
 						chainId,
 						eventNumber: index + 1,
 						token: event.args.token,
+						tokenSymbol: token?.symbol,
 						integrator: event.args.integrator,
-						integratorFee: ethers.utils.formatEther(event.args.integratorFee),
-						lifiFee: ethers.utils.formatEther(event.args.lifiFee),
+						integratorFee: event.args.integratorFee,
+						integratorFeeFormatted: formatTokenAmount(
+							event.args.integratorFee,
+							token?.decimals
+						),
+						lifiFee: event.args.lifiFee,
+						lifiFeeFormatted: formatTokenAmount(
+							event.args.lifiFee,
+							token?.decimals
+						),
 					},
 					`Event #${index + 1}`
 				);
@@ -194,7 +324,260 @@ export class ScannerService {
 	}
 
 	/**
-	 * Scan all configured chains for events
+	 * Scan a block range with up to the chain's configured number of chunks in flight.
+	 * Chunks may finish out of order, but their events are only stored together with
+	 * the checkpoint once they belong to the contiguous prefix of finished chunks, so a
+	 * crash never skips a range.
+	 * Chunks that fail for good, e.g. on an RPC error that is not transient, are recorded
+	 * in the failed-chunk ledger and count as finished.
+	 * @param chainId - The chain ID to scan
+	 * @param fromBlock - Start block
+	 * @param toBlock - End block
+	 * @param contractAddress - The contract to scan
+	 * @param signal - Optional AbortSignal; no new chunks are started once aborted
+	 * @returns The events found in the range
+	 */
+	private async scanChunksInOrder(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		contractAddress: string,
+		signal?: AbortSignal
+	): Promise<FeeCollectedEventData[]> {
+		const chunkSizer = this.getChunkSizer(chainId);
+		const throughput = this.getThroughputTracker(chainId);
+		const concurrency = Math.max(
+			config.chains[chainId]?.scanConcurrency ?? 1,
+			1
+		);
+
+		const allEvents: FeeCollectedEventData[] = [];
+		// Chunks in block order that are not covered by the checkpoint yet
+		const pending: ChunkTask[] = [];
+		const inFlight = new Set<Promise<void>>();
+		let nextBlock = fromBlock;
+		let fatalError: unknown = null;
+
+		// Next chunk to start: a re-queued chunk first, otherwise a new one
+		const nextTask = (): ChunkTask | undefined => {
+			const requeued = pending.find((task) => task.state === "queued");
+			if (requeued) return requeued;
+			if (nextBlock >= toBlock) return undefined;
+
+			const chunkEndBlock = Math.min(
+				nextBlock + chunkSizer.current - 1,
+				toBlock
+			);
+			const task: ChunkTask = {
+				fromBlock: nextBlock,
+				toBlock: chunkEndBlock,
+				state: "queued",
+			};
+			pending.push(task);
+			nextBlock = chunkEndBlock + 1;
+			return task;
+		};
+
+		const runTask = async (task: ChunkTask): Promise<void> => {
+			const { fromBlock: start, toBlock: end } = task;
+			const chunkSize = end - start + 1;
+			logger.info(
+				{ chainId, currentBlock: start, chunkEndBlock: end, chunkSize },
+				`Scanning chunk: ${start} to ${end}`
+			);
+			const startedAt = throughput.chunkStarted();
+			try {
+				const { events: chunkEvents, withdrawals } = await this.scanChunk(
+					chainId,
+					start,
+					end,
+					contractAddress
+				);
+				allEvents.push(...chunkEvents);
+				throughput.chunkSucceeded(startedAt, chunkSize, chunkEvents.length);
+				task.events = chunkEvents;
+				task.withdrawals = withdrawals;
+				task.state = "done";
+
+				const previousChunkSize = chunkSizer.current;
+				const nextChunkSize = chunkSizer.recordSuccess();
+				if (nextChunkSize !== previousChunkSize) {
+					logger.info(
+						{ chainId, chunkSize: nextChunkSize },
+						`Increased chunk size to ${nextChunkSize} blocks`
+					);
+				}
+			} catch (error) {
+				throughput.chunkFailed();
+				// Retry the same start block with a smaller range
+				if (error instanceof RangeLimitError) {
+					// Chunks started before an earlier shrink only need to be split
+					const alreadyShrunk = chunkSize > chunkSizer.current;
+					if (alreadyShrunk || chunkSizer.canShrink()) {
+						if (!alreadyShrunk) {
+							const nextChunkSize = chunkSizer.shrink();
+							logger.warn(
+								{ chainId, currentBlock: start, chunkSize: nextChunkSize },
+								`Provider range limit hit, reduced chunk size to ${nextChunkSize} blocks`
+							);
+						}
+						this.splitTask(pending, task, chunkSizer.current);
+						return;
+					}
+				}
+				logger.error(
+					{ chainId, error, currentBlock: start, chunkEndBlock: end },
+					`Error scanning chunk ${start} to ${end}`
+				);
+				if (this.isFatalChunkError(error)) {
+					fatalError ??= error;
+					return;
+				}
+				try {
+					// The checkpoint moves past this range, so keep it in the ledger for the retrier
+					await this.failedChunkService.recordFailure(
+						chainId,
+						start,
+						end,
+						error,
+						contractAddress
+					);
+					task.state = "done";
+				} catch (recordError) {
+					fatalError ??= recordError;
+				}
+			}
+		};
+
+		while (true) {
+			while (inFlight.size < concurrency && !fatalError) {
+				if (signal?.aborted) {
+					logger.info(
+						{ chainId, currentBlock: nextBlock },
+						"Scan aborted, stopping before next chunk"
+					);
+					break;
+				}
+				const task = nextTask();
+				if (!task) break;
+
+				task.state = "running";
+				const running: Promise<void> = runTask(task).finally(() =>
+					inFlight.delete(running)
+				);
+				inFlight.add(running);
+			}
+			if (inFlight.size === 0) break;
+
+			await Promise.race(inFlight);
+			// Chunks finished before a fatal error are still checkpointed
+			try {
+				await this.advanceCheckpoint(chainId, contractAddress, pending);
+			} catch (error) {
+				fatalError ??= error;
+			}
+		}
+
+		if (fatalError) throw fatalError;
+		return allEvents;
+	}
+
+	/**
+	 * Commits the events of the contiguous prefix of finished chunks together with
+	 * a checkpoint of the contract at the end of the prefix.
+	 * @param chainId - The chain ID
+	 * @param contractAddress - The scanned contract
+	 * @param pending - Chunks in block order; the finished prefix is removed
+	 */
+	private async advanceCheckpoint(
+		chainId: number,
+		contractAddress: string,
+		pending: ChunkTask[]
+	): Promise<void> {
+		const finished: ChunkTask[] = [];
+		while (pending.length > 0 && pending[0].state === "done") {
+			finished.push(pending.shift()!);
+		}
+		if (finished.length === 0) return;
+		const checkpointBlock = finished[finished.length - 1].toBlock;
+
+		// Commit events and checkpoint, remembering the block hash for reorg detection
+		const blockHash = await this.blockchainService.getBlockHash(
+			chainId,
+			checkpointBlock
+		);
+		await this.eventService.commitChunk(
+			chainId,
+			finished.flatMap((task) => task.events ?? []),
+			checkpointBlock,
+			blockHash,
+			finished.flatMap((task) => task.withdrawals ?? []),
+			contractAddress
+		);
+		// Failed chunks have no events and stay out of the coverage until retried
+		for (const task of finished) {
+			if (task.events) {
+				await this.coverageService.recordScannedRange(
+					chainId,
+					task.fromBlock,
+					task.toBlock,
+					contractAddress
+				);
+			}
+		}
+		await this.reorgService.recordScannedBlock(
+			chainId,
+			checkpointBlock,
+			blockHash
+		);
+		logger.info(
+			{ chainId, contractAddress, chunkEndBlock: checkpointBlock, blockHash },
+			"Updated last scanned block after chunk"
+		);
+	}
+
+	/**
+	 * Whether a chunk error stops the scan instead of being recorded in the failed-chunk ledger.
+	 * Transient RPC failures that outlasted their retries, an open circuit breaker, a range
+	 * limit that cannot be shrunk below and database failures leave the range to the next pass.
+	 */
+	private isFatalChunkError(error: unknown): boolean {
+		if (
+			error instanceof CircuitOpenError ||
+			error instanceof RangeLimitError ||
+			error instanceof DatabaseError
+		) {
+			return true;
+		}
+		return error instanceof BlockchainError && error.retryable;
+	}
+
+	/**
+	 * Splits a chunk that hit the provider range limit and queues both parts again.
+	 * @param pending - Chunks in block order
+	 * @param task - The chunk to split
+	 * @param chunkSize - Size of the first part
+	 */
+	private splitTask(
+		pending: ChunkTask[],
+		task: ChunkTask,
+		chunkSize: number
+	): void {
+		task.state = "queued";
+		const splitBlock = task.fromBlock + chunkSize - 1;
+		if (splitBlock >= task.toBlock) return;
+
+		pending.splice(pending.indexOf(task) + 1, 0, {
+			fromBlock: splitBlock + 1,
+			toBlock: task.toBlock,
+			state: "queued",
+		});
+		task.toBlock = splitBlock;
+	}
+
+	/**
+	 * Scan all configured chains for events.
+	 * Chains whose scanner lease is held by another replica are skipped.
 	 */
 	public async scanAllChains(): Promise<void> {
 		try {
@@ -206,11 +589,22 @@ export class ScannerService {
 			// Scan all chains concurrently
 			await Promise.all(
 				config.enabledChains.map(async (chainId) => {
+					let lease: HeldLease | null = null;
 					try {
-						await this.scanChain(chainId);
+						lease = await this.leaseService.hold(chainId);
+						if (!lease) {
+							logger.info(
+								{ chainId },
+								"Chain is scanned by another replica, skipping"
+							);
+							return;
+						}
+						await this.scanChain(chainId, lease.signal);
 					} catch (error) {
 						logger.error({ error, chainId }, "Error scanning chain");
 						// Don't throw, just log the error
+					} finally {
+						await this.releaseLease(lease);
 					}
 				})
 			);
@@ -221,48 +615,625 @@ export class ScannerService {
 	}
 
 	/**
-	 * Scan a specific chain for events
+	 * Get the current effective chunk size for a chain
+	 * @param chainId - The chain ID
+	 * @returns Chunk size in blocks
+	 */
+	public getChunkSize(chainId: number): number {
+		return this.getChunkSizer(chainId).current;
+	}
+
+	/**
+	 * Get the scan throughput statistics of a chain
+	 * @param chainId - The chain ID
+	 */
+	public getThroughput(chainId: number): ThroughputStats {
+		return this.getThroughputTracker(chainId).getStats();
+	}
+
+	/**
+	 * Get the throughput tracker for a chain, creating it on first use
+	 * @param chainId - The chain ID
+	 */
+	private getThroughputTracker(chainId: number): ThroughputTracker {
+		let tracker = this.throughputTrackers.get(chainId);
+		if (!tracker) {
+			tracker = new ThroughputTracker();
+			this.throughputTrackers.set(chainId, tracker);
+		}
+		return tracker;
+	}
+
+	/**
+	 * Get the adaptive chunk sizer for a chain, creating it on first use
+	 * @param chainId - The chain ID
+	 */
+	private getChunkSizer(chainId: number): AdaptiveChunkSizer {
+		let chunkSizer = this.chunkSizers.get(chainId);
+		if (!chunkSizer) {
+			chunkSizer = new AdaptiveChunkSizer({
+				initialSize: config.chunkSize,
+				minSize: config.minChunkSize,
+				maxSize: config.maxChunkSize,
+				growthThreshold: config.chunkGrowthThreshold,
+			});
+			this.chunkSizers.set(chainId, chunkSizer);
+		}
+		return chunkSizer;
+	}
+
+	/**
+	 * Start following all configured chains.
+	 * Each enabled chain gets its own loop that scans new blocks and then
+	 * sleeps for the chain's poll interval, until stopFollowing() is called.
+	 */
+	public startFollowing(): void {
+		if (this.followController) {
+			logger.warn("Scanner is already following chains");
+			return;
+		}
+
+		logger.info(
+			{ chains: config.enabledChains },
+			"Starting follow mode for all chains"
+		);
+		this.followController = new AbortController();
+		for (const chainId of config.enabledChains) {
+			this.startFollowLoop(chainId, this.followController.signal);
+		}
+	}
+
+	/**
+	 * Stop all follow loops and wait for in-flight chunks to finish.
+	 */
+	public async stopFollowing(): Promise<void> {
+		if (!this.followController) return;
+
+		logger.info("Stopping follow mode");
+		this.followController.abort();
+		await Promise.all([...this.followLoops.values()].map((loop) => loop.done));
+		this.followController = null;
+		this.followLoops.clear();
+		logger.info("Follow mode stopped");
+	}
+
+	/**
+	 * Match the follow loops to the enabled chains after they changed:
+	 * newly enabled chains are followed and disabled ones are stopped.
+	 * Does nothing while the scanner is not following.
+	 */
+	public async syncFollowedChains(): Promise<void> {
+		if (!this.followController) return;
+
+		for (const chainId of config.enabledChains) {
+			if (!this.followLoops.has(chainId)) {
+				logger.info({ chainId }, "Chain was enabled, following it");
+				this.startFollowLoop(chainId, this.followController.signal);
+			}
+		}
+
+		const stopped = [...this.followLoops.entries()].filter(
+			([chainId]) => !config.enabledChains.includes(chainId)
+		);
+		for (const [chainId, loop] of stopped) {
+			logger.info({ chainId }, "Chain was disabled, stopping its follow loop");
+			loop.controller.abort();
+			this.followLoops.delete(chainId);
+		}
+		await Promise.all(stopped.map(([, loop]) => loop.done));
+	}
+
+	/**
+	 * Start the follow loop of a chain, stopped with the chain or with all follow loops
+	 * @param chainId - The chain ID to follow
+	 * @param followSignal - AbortSignal that ends all follow loops
+	 */
+	private startFollowLoop(chainId: number, followSignal: AbortSignal): void {
+		const controller = new AbortController();
+		followSignal.addEventListener("abort", () => controller.abort(), {
+			once: true,
+		});
+		this.followLoops.set(chainId, {
+			controller,
+			done: this.followChain(chainId, controller.signal),
+		});
+	}
+
+	/**
+	 * Whether the follow loops are currently running
+	 */
+	public isFollowing(): boolean {
+		return this.followController !== null;
+	}
+
+	/**
+	 * Follow loop for a single chain.
+	 * The chain is only scanned while this replica holds its scanner lease; otherwise
+	 * the loop stands by and tries to take the lease over on every poll.
+	 * Errors are logged and the loop retries after the poll interval.
+	 * @param chainId - The chain ID to follow
+	 * @param signal - AbortSignal that ends the loop
+	 */
+	private async followChain(
+		chainId: number,
+		signal: AbortSignal
+	): Promise<void> {
+		logger.info(
+			{ chainId, pollIntervalMs: config.chains[chainId].pollIntervalMs },
+			"Following chain"
+		);
+
+		let lease: HeldLease | null = null;
+		while (!signal.aborted) {
+			// Read on every poll so that a reloaded interval takes effect
+			const pollIntervalMs = config.chains[chainId].pollIntervalMs;
+			let delayMs = pollIntervalMs;
+			try {
+				if (lease?.signal.aborted) {
+					// The lease was lost to another replica
+					await this.releaseLease(lease);
+					lease = null;
+				}
+				lease ??= await this.leaseService.hold(chainId, signal);
+				if (lease) {
+					await this.scanChain(chainId, lease.signal);
+				} else {
+					logger.debug(
+						{ chainId },
+						"Chain is scanned by another replica, standing by"
+					);
+				}
+			} catch (error) {
+				if (error instanceof CircuitOpenError) {
+					// The chain is paused until the breaker lets a probe through
+					delayMs = Math.max(error.retryAfterMs, pollIntervalMs);
+					logger.warn(
+						{ chainId, retryAfterMs: delayMs },
+						"Chain paused by circuit breaker"
+					);
+				} else {
+					logger.error(
+						{ error, chainId },
+						"Error in follow loop, retrying after poll interval"
+					);
+				}
+			}
+			await sleep(delayMs, signal);
+		}
+
+		await this.releaseLease(lease);
+		logger.info({ chainId }, "Stopped following chain");
+	}
+
+	/**
+	 * Release a scanner lease, logging instead of throwing when it fails.
+	 * An unreleased lease simply expires after its TTL.
+	 * @param lease - The lease to release, if any
+	 */
+	private async releaseLease(lease: HeldLease | null): Promise<void> {
+		if (!lease) return;
+		try {
+			await lease.release();
+		} catch (error) {
+			logger.warn(
+				{ error, chainId: lease.chainId },
+				"Could not release scanner lease, it will expire on its own"
+			);
+		}
+	}
+
+	/**
+	 * Scan a specific chain for events: every contract from its last scanned block up to
+	 * the confirmed block, or up to its end block once it is retired
 	 * @param chainId - The chain ID to scan
-	 * @param fromBlock - Starting block number
-	 * @param toBlock - Ending block number
+	 * @param signal - Optional AbortSignal to stop the scan between chunks
 	 */
-	private async scanChain(chainId: ChainIds): Promise<void> {
+	private async scanChain(
+		chainId: number,
+		signal?: AbortSignal
+	): Promise<void> {
 		try {
 			logger.info({ chainId }, "Starting chain scan");
 
-			// Get the last scanned block from the database
-			const fromBlock = await this.eventService.getLastScannedBlock(chainId);
-			logger.info({ chainId, fromBlock }, "Retrieved last scanned block");
+			// Roll back orphaned data before resuming from the checkpoint
+			const rewoundTo = await this.reorgService.checkForReorg(chainId);
+			if (rewoundTo !== null) {
+				logger.info({ chainId, rewoundTo }, "Resuming scan after reorg");
+			}
 
-			// Get the latest block from the blockchain
-			const latestBlock = await this.getLatestBlock(chainId);
+			// Only index up to the chain's confirmation boundary
+			const confirmedBlock =
+				await this.blockchainService.getConfirmedBlock(chainId);
 			logger.info(
-				{
-					chainId,
-					latestBlock,
-					fromBlock,
-					blockRange: latestBlock - fromBlock,
-				},
-				"Retrieved latest block from chain"
+				{ chainId, confirmedBlock },
+				"Retrieved confirmed block from chain"
 			);
 
-			if (fromBlock >= latestBlock) {
-				logger.info(
-					{ chainId, fromBlock, latestBlock },
-					"Chain is up to date, skipping scan"
-				);
-				return;
+			for (const deployment of getContractDeployments(chainId)) {
+				await this.scanContract(chainId, deployment, confirmedBlock, signal);
 			}
 
-			// Scan blocks in chunks
-			await this.scanBlocks(chainId, fromBlock, latestBlock);
+			if (!signal?.aborted) {
+				await this.retryFailedChunks(chainId, signal);
+			}
+
+			if (config.chains[chainId].indexPending && !signal?.aborted) {
+				await this.scanPendingBlocks(chainId);
+			}
 		} catch (error) {
 			logger.error({ error, chainId }, "Error scanning chain");
 			throw error;
 		}
 	}
 
-	async getLatestBlock(chainId: ChainIds): Promise<number> {
+	/**
+	 * Scan one contract of a chain from its checkpoint up to the confirmed block,
+	 * or up to its end block once it is retired.
+	 * Without a checkpoint or a configured start block, the scan starts at the contract's
+	 * discovered creation block instead of genesis.
+	 * @param chainId - The chain ID to scan
+	 * @param deployment - The contract to scan
+	 * @param confirmedBlock - The chain's confirmation boundary
+	 * @param signal - Optional AbortSignal to stop the scan between chunks
+	 */
+	private async scanContract(
+		chainId: number,
+		deployment: ContractDeployment,
+		confirmedBlock: number,
+		signal?: AbortSignal
+	): Promise<void> {
+		const contractAddress = deployment.address;
+		let fromBlock = await this.eventService.getLastScannedBlock(
+			chainId,
+			contractAddress
+		);
+		if (fromBlock === 0 && deployment.startBlock === 0) {
+			fromBlock =
+				(await this.deploymentBlockService.discover(
+					chainId,
+					contractAddress
+				)) ?? 0;
+		}
+		const toBlock = Math.min(
+			confirmedBlock,
+			deployment.endBlock ?? confirmedBlock
+		);
+		logger.info(
+			{
+				chainId,
+				contractAddress,
+				fromBlock,
+				toBlock,
+				blockRange: toBlock - fromBlock,
+			},
+			"Retrieved last scanned block"
+		);
+
+		if (fromBlock >= toBlock) {
+			logger.info(
+				{ chainId, contractAddress, fromBlock, toBlock },
+				"Contract is up to date, skipping scan"
+			);
+			return;
+		}
+
+		// The pending tier above the checkpoint is read again as confirmed events. Dropping it
+		// first removes pending events a reorg orphaned, which the confirmed scan would keep.
+		if (config.chains[chainId].indexPending) {
+			await this.eventService.deleteEventsAfterBlock(
+				chainId,
+				fromBlock,
+				contractAddress
+			);
+		}
+
+		// Scan blocks in chunks
+		await this.scanBlocks(chainId, fromBlock, toBlock, signal, contractAddress);
+	}
+
+	/**
+	 * Scan a block range that lies behind the checkpoint, e.g. a coverage gap.
+	 * Events and coverage are stored, but the checkpoints and reorg window are left
+	 * untouched. Chunks that fail go to the failed-chunk ledger.
+	 * Every deployment of the chain, or only the given one, is scanned within its part of the range.
+	 * @param chainId - The chain ID to scan
+	 * @param fromBlock - First block of the range (inclusive)
+	 * @param toBlock - Last block of the range (inclusive)
+	 * @param signal - Optional AbortSignal to stop between chunks
+	 * @param contractAddress - Optional contract to restrict the backfill to
+	 * @returns Number of events found and the chunks that failed
+	 */
+	public async backfillRange(
+		chainId: number,
+		fromBlock: number,
+		toBlock: number,
+		signal?: AbortSignal,
+		contractAddress?: string
+	): Promise<BackfillRangeResult> {
+		// The registry's block ranges are used, so a backfill may reach below the configured start block
+		const deployments = (getChainConfig(chainId)?.contracts ?? []).filter(
+			(deployment) =>
+				!contractAddress ||
+				deployment.address.toLowerCase() === contractAddress.toLowerCase()
+		);
+
+		const result: BackfillRangeResult = { eventCount: 0, failedChunks: [] };
+		for (const deployment of deployments) {
+			const from = Math.max(fromBlock, deployment.startBlock);
+			const to = Math.min(toBlock, deployment.endBlock ?? toBlock);
+			if (from > to || signal?.aborted) continue;
+
+			const contractResult = await this.backfillContractRange(
+				chainId,
+				deployment.address,
+				from,
+				to,
+				signal
+			);
+			result.eventCount += contractResult.eventCount;
+			result.failedChunks.push(...contractResult.failedChunks);
+		}
+		return result;
+	}
+
+	/**
+	 * Backfill a block range of one contract
+	 * @param chainId - The chain ID to scan
+	 * @param contractAddress - The contract to scan
+	 * @param fromBlock - First block of the range (inclusive)
+	 * @param toBlock - Last block of the range (inclusive)
+	 * @param signal - Optional AbortSignal to stop between chunks
+	 * @returns Number of events found and the chunks that failed
+	 */
+	private async backfillContractRange(
+		chainId: number,
+		contractAddress: string,
+		fromBlock: number,
+		toBlock: number,
+		signal?: AbortSignal
+	): Promise<BackfillRangeResult> {
+		logger.info(
+			{ chainId, contractAddress, fromBlock, toBlock },
+			"Backfilling block range"
+		);
+
+		const chunkSizer = this.getChunkSizer(chainId);
+		const result: BackfillRangeResult = { eventCount: 0, failedChunks: [] };
+		let currentBlock = fromBlock;
+		while (currentBlock <= toBlock && !signal?.aborted) {
+			const chunkEndBlock = Math.min(
+				currentBlock + chunkSizer.current - 1,
+				toBlock
+			);
+			try {
+				const { events, withdrawals } = await this.scanChunk(
+					chainId,
+					currentBlock,
+					chunkEndBlock,
+					contractAddress
+				);
+				await this.eventService.storeEvents(events, chainId);
+				await this.eventService.storeWithdrawals(withdrawals, chainId);
+				await this.coverageService.recordScannedRange(
+					chainId,
+					currentBlock,
+					chunkEndBlock,
+					contractAddress
+				);
+				result.eventCount += events.length;
+				chunkSizer.recordSuccess();
+			} catch (error) {
+				if (error instanceof RangeLimitError && chunkSizer.canShrink()) {
+					chunkSizer.shrink();
+					continue;
+				}
+				if (this.isFatalChunkError(error)) {
+					throw error;
+				}
+				await this.failedChunkService.recordFailure(
+					chainId,
+					currentBlock,
+					chunkEndBlock,
+					error,
+					contractAddress
+				);
+				result.failedChunks.push({
+					fromBlock: currentBlock,
+					toBlock: chunkEndBlock,
+					error: error instanceof Error ? error.message : String(error),
+				});
+			}
+			currentBlock = chunkEndBlock + 1;
+		}
+
+		logger.info(
+			{
+				chainId,
+				contractAddress,
+				fromBlock,
+				toBlock,
+				eventCount: result.eventCount,
+				failedChunks: result.failedChunks.length,
+			},
+			"Finished backfilling block range"
+		);
+		return result;
+	}
+
+	/**
+	 * Retry the block ranges in the failed-chunk ledger that are due, for every contract of the chain.
+	 * Resolved ranges leave the ledger; ranges that fail again get their attempt
+	 * count raised and are rescheduled, oversized ranges are split in two.
+	 * Only ranges at or below their contract's checkpoint are retried.
+	 * @param chainId - The chain ID to retry
+	 * @param signal - Optional AbortSignal to stop between chunks
+	 * @returns Number of ranges that were indexed
+	 */
+	public async retryFailedChunks(
+		chainId: number,
+		signal?: AbortSignal
+	): Promise<number> {
+		let resolved = 0;
+		for (const deployment of getContractDeployments(chainId)) {
+			if (signal?.aborted) break;
+			resolved += await this.retryContractChunks(
+				chainId,
+				deployment.address,
+				signal
+			);
+		}
+		return resolved;
+	}
+
+	/**
+	 * Retry the due failed chunks of one contract
+	 * @param chainId - The chain ID to retry
+	 * @param contractAddress - The contract the chunks were scanned for
+	 * @param signal - Optional AbortSignal to stop between chunks
+	 * @returns Number of ranges that were indexed
+	 */
+	private async retryContractChunks(
+		chainId: number,
+		contractAddress: string,
+		signal?: AbortSignal
+	): Promise<number> {
+		const checkpoint = await this.eventService.getLastScannedBlock(
+			chainId,
+			contractAddress
+		);
+		const chunks = await this.failedChunkService.getDueChunks(
+			chainId,
+			checkpoint,
+			contractAddress
+		);
+
+		let resolved = 0;
+		for (const chunk of chunks) {
+			if (signal?.aborted) break;
+
+			const { fromBlock, toBlock } = chunk;
+			try {
+				const { events, withdrawals } = await this.scanChunk(
+					chainId,
+					fromBlock,
+					toBlock,
+					contractAddress
+				);
+				await this.eventService.storeEvents(events, chainId);
+				await this.eventService.storeWithdrawals(withdrawals, chainId);
+				await this.coverageService.recordScannedRange(
+					chainId,
+					fromBlock,
+					toBlock,
+					contractAddress
+				);
+				await this.failedChunkService.resolve(
+					chainId,
+					fromBlock,
+					toBlock,
+					contractAddress
+				);
+				resolved++;
+			} catch (error) {
+				// The whole chain is paused, leave the remaining chunks for the next pass
+				if (error instanceof CircuitOpenError) throw error;
+				if (error instanceof RangeLimitError) {
+					if (await this.failedChunkService.split(chunk)) continue;
+				}
+				logger.error(
+					{ chainId, contractAddress, fromBlock, toBlock, error },
+					"Retry of failed chunk failed"
+				);
+				await this.failedChunkService.recordFailure(
+					chainId,
+					fromBlock,
+					toBlock,
+					error,
+					contractAddress
+				);
+			}
+		}
+
+		if (chunks.length > 0) {
+			logger.info(
+				{ chainId, contractAddress, due: chunks.length, resolved },
+				`Retried failed chunks, ${resolved} of ${chunks.length} resolved`
+			);
+		}
+		return resolved;
+	}
+
+	/**
+	 * Index the unconfirmed "pending" tier between each contract's checkpoint and the chain head.
+	 * Pending events are replaced on every pass and never move the checkpoint, so
+	 * they are re-validated until they fall behind the confirmation boundary.
+	 * @param chainId - The chain ID to scan
+	 */
+	private async scanPendingBlocks(chainId: number): Promise<void> {
+		const latestBlock = await this.blockchainService.getLatestBlock(chainId);
+		for (const deployment of getContractDeployments(chainId)) {
+			await this.scanPendingContractBlocks(chainId, deployment, latestBlock);
+		}
+	}
+
+	/**
+	 * Index the pending tier of one contract
+	 * @param chainId - The chain ID to scan
+	 * @param deployment - The contract to scan; a retired contract is only scanned up to its end block
+	 * @param latestBlock - The chain head
+	 */
+	private async scanPendingContractBlocks(
+		chainId: number,
+		deployment: ContractDeployment,
+		latestBlock: number
+	): Promise<void> {
+		const contractAddress = deployment.address;
+		const checkpoint = await this.eventService.getLastScannedBlock(
+			chainId,
+			contractAddress
+		);
+		const toBlock = Math.min(latestBlock, deployment.endBlock ?? latestBlock);
+
+		// Drop the previous pending view before re-reading it
+		await this.eventService.deleteEventsAfterBlock(
+			chainId,
+			checkpoint,
+			contractAddress
+		);
+		if (checkpoint >= toBlock) return;
+
+		const chunkSize = this.getChunkSize(chainId);
+		let pendingCount = 0;
+		for (
+			let currentBlock = checkpoint + 1;
+			currentBlock <= toBlock;
+			currentBlock += chunkSize
+		) {
+			const chunkEndBlock = Math.min(currentBlock + chunkSize - 1, toBlock);
+			const { events, withdrawals } = await this.scanChunk(
+				chainId,
+				currentBlock,
+				chunkEndBlock,
+				contractAddress
+			);
+			await this.eventService.storeEvents(events, chainId);
+			await this.eventService.storeWithdrawals(withdrawals, chainId);
+			pendingCount += events.length;
+		}
+
+		logger.info(
+			{
+				chainId,
+				contractAddress,
+				fromBlock: checkpoint + 1,
+				toBlock,
+				pendingCount,
+			},
+			"Indexed pending events"
+		);
+	}
+
+	async getLatestBlock(chainId: number): Promise<number> {
 		try {
 			const provider = this.blockchainService.getProvider(chainId);
 			const blockNumber = await provider.getBlockNumber();
@@ -0,0 +1,229 @@
+import { ethers } from "ethers";
+import { Token, TokenModel } from "../models/Token";
+import { getChainConfig } from "../utils/config";
+import { formatTokenAmount } from "../utils/tokenAmounts";
+import { BlockchainService } from "./blockchainService";
+import logger from "../utils/logger";
+import { DatabaseError } from "../errors/AppError";
+import { DEFAULT_NATIVE_CURRENCY } from "../types/chains";
+import {
+	TokenInfo,
+	TokenMetadata,
+	WithFormattedAmounts,
+} from "../types/tokens";
+
+// The zero address stands for the chain's native asset
+const NATIVE_TOKEN_ADDRESS = ethers.constants.AddressZero;
+
+/**
+ * TokenService
+ *
+ * Keeps the `tokens` collection with the metadata of the tokens fees are collected in,
+ * so raw amounts can be formatted with the right decimals. The scanner looks up new
+ * tokens on chain; the API only reads the stored metadata and never calls an RPC.
+ * The zero address is the chain's native asset and needs no lookup.
+ */
+export class TokenService {
+	private static instance: TokenService;
+	private blockchainService: BlockchainService;
+	// Known tokens by chain ID and lowercase address; metadata never changes
+	private tokens: Map<number, Map<string, TokenInfo>>;
+
+	private constructor() {
+		this.blockchainService = BlockchainService.getInstance();
+		this.tokens = new Map();
+	}
+
+	public static getInstance(): TokenService {
+		if (!TokenService.instance) {
+			TokenService.instance = new TokenService();
+		}
+		return TokenService.instance;
+	}
+
+	/**
+	 * Gets the stored metadata of tokens on a chain.
+	 *
+	 * @param chainId - The chain ID of the tokens
+	 * @param addresses - The token addresses, duplicates allowed
+	 * @returns Token info by lowercase address; tokens that were never looked up are missing
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async getTokens(
+		chainId: number,
+		addresses: string[]
+	): Promise<Map<string, TokenInfo>> {
+		const known = new Map<string, TokenInfo>();
+		const missing: string[] = [];
+		for (const address of this.normalize(addresses)) {
+			const token =
+				address === NATIVE_TOKEN_ADDRESS
+					? this.getNativeToken(chainId)
+					: this.tokens.get(chainId)?.get(address);
+			if (token) {
+				known.set(address, token);
+			} else {
+				missing.push(address);
+			}
+		}
+		if (missing.length === 0) return known;
+
+		let stored: Token[];
+		try {
+			stored = await TokenModel.find({
+				chainId,
+				address: { $in: missing },
+			}).lean();
+		} catch (error) {
+			logger.error({ chainId, error }, "Error getting tokens");
+			throw new DatabaseError("Failed to get tokens");
+		}
+		for (const { address, symbol, name, decimals } of stored) {
+			known.set(
+				address,
+				this.remember({
+					chainId,
+					address,
+					native: false,
+					...(symbol !== undefined && { symbol }),
+					...(name !== undefined && { name }),
+					...(decimals !== undefined && { decimals }),
+				})
+			);
+		}
+		return known;
+	}
+
+	/**
+	 * Gets the metadata of tokens on a chain, looking up and storing the tokens that are not stored yet.
+	 * A token whose lookup fails on the RPC is left out and looked up again on the next call.
+	 *
+	 * @param chainId - The chain ID of the tokens
+	 * @param addresses - The token addresses, duplicates allowed
+	 * @returns Token info by lowercase address
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async resolveTokens(
+		chainId: number,
+		addresses: string[]
+	): Promise<Map<string, TokenInfo>> {
+		const tokens = await this.getTokens(chainId, addresses);
+		const unknown = this.normalize(addresses).filter(
+			(address) => !tokens.has(address)
+		);
+
+		for (const address of unknown) {
+			let metadata: TokenMetadata;
+			try {
+				metadata = await this.blockchainService.getTokenMetadata(
+					chainId,
+					address
+				);
+			} catch (error) {
+				logger.warn(
+					{ chainId, token: address, error },
+					"Could not look up the token metadata, retrying with its next events"
+				);
+				continue;
+			}
+			if (metadata.decimals === undefined) {
+				logger.warn(
+					{ chainId, token: address, metadata },
+					"Token does not implement decimals(), its amounts are not formatted"
+				);
+			}
+
+			try {
+				await TokenModel.updateOne(
+					{ chainId, address },
+					{ $setOnInsert: metadata },
+					{ upsert: true }
+				);
+			} catch (error) {
+				logger.error({ chainId, token: address, error }, "Error storing token");
+				throw new DatabaseError("Failed to store token");
+			}
+			tokens.set(
+				address,
+				this.remember({ chainId, address, native: false, ...metadata })
+			);
+			logger.info({ chainId, token: address, ...metadata }, "Stored new token");
+		}
+		return tokens;
+	}
+
+	/**
+	 * Adds the token symbol and decimals to API items, and a formatted amount next to each raw amount.
+	 *
+	 * @param items - Items with a chain ID and a token address, e.g. events or balances
+	 * @param fields - The raw amount fields to format
+	 * @returns The items with `tokenSymbol`, `tokenDecimals` and a `<field>Formatted` per field
+	 * @throws {DatabaseError} When database operations fail
+	 */
+	async withFormattedAmounts<
+		T extends { chainId: number; token: string },
+		K extends keyof T & string,
+	>(items: T[], fields: K[]): Promise<WithFormattedAmounts<T, K>[]> {
+		const addressesByChain = new Map<number, string[]>();
+		for (const item of items) {
+			const addresses = addressesByChain.get(item.chainId) ?? [];
+			addresses.push(item.token);
+			addressesByChain.set(item.chainId, addresses);
+		}
+		const tokensByChain = new Map<number, Map<string, TokenInfo>>();
+		for (const [chainId, addresses] of addressesByChain) {
+			tokensByChain.set(chainId, await this.getTokens(chainId, addresses));
+		}
+
+		return items.map((item) => {
+			const token = tokensByChain
+				.get(item.chainId)
+				?.get(item.token.toLowerCase());
+			const formatted = Object.fromEntries(
+				fields.map((field) => [
+					`${field}Formatted`,
+					formatTokenAmount(String(item[field]), token?.decimals),
+				])
+			);
+			return {
+				...item,
+				tokenSymbol: token?.symbol ?? null,
+				tokenDecimals: token?.decimals ?? null,
+				...formatted,
+			} as WithFormattedAmounts<T, K>;
+		});
+	}
+
+	/**
+	 * The chain's native asset, from the chain registry.
+	 * Events of a chain that is no longer registered fall back to Ether.
+	 */
+	private getNativeToken(chainId: number): TokenInfo {
+		return {
+			chainId,
+			address: NATIVE_TOKEN_ADDRESS,
+			native: true,
+			...(getChainConfig(chainId)?.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY),
+		};
+	}
+
+	/**
+	 * Caches a token and returns it
+	 */
+	private remember(token: TokenInfo): TokenInfo {
+		let tokens = this.tokens.get(token.chainId);
+		if (!tokens) {
+			tokens = new Map();
+			this.tokens.set(token.chainId, tokens);
+		}
+		tokens.set(token.address, token);
+		return token;
+	}
+
+	/**
+	 * Lowercases and deduplicates token addresses
+	 */
+	private normalize(addresses: string[]): string[] {
+		return [...new Set(addresses.map((address) => address.toLowerCase()))];
+	}
+}
@@ -0,0 +1,38 @@
+/**
+ * backfill.ts
+ *
+ * Types shared by the gap backfill script and the backfill jobs API.
+ */
+
+/**
+ * Lifecycle of a backfill job.
+ * Jobs start as "pending", are "running" while being scanned and end as
+ * "completed", "failed" or "cancelled".
+ */
+export type BackfillJobStatus =
+	"pending" | "running" | "completed" | "failed" | "cancelled";
+
+/**
+ * A chunk that could not be scanned during a backfill.
+ * The range is also recorded in the failed-chunk ledger and retried from there.
+ *
+ * @property {number} fromBlock - First block of the chunk (inclusive)
+ * @property {number} toBlock - Last block of the chunk (inclusive)
+ * @property {string} error - Message of the error the chunk failed with
+ */
+export interface BackfillChunkError {
+	fromBlock: number;
+	toBlock: number;
+	error: string;
+}
+
+/**
+ * Outcome of backfilling a block range
+ *
+ * @property {number} eventCount - Number of events found in the range
+ * @property {BackfillChunkError[]} failedChunks - Chunks of the range that could not be scanned
+ */
+export interface BackfillRangeResult {
+	eventCount: number;
+	failedChunks: BackfillChunkError[];
+}
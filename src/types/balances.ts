@@ -0,0 +1,31 @@
+/**
+ * balances.ts
+ *
+ * Types for the claimable fee balances derived from the indexed events.
+ */
+
+/**
+ * Fee balance of an integrator in one token on one chain.
+ * Amounts are integers in the token's smallest unit, encoded as strings.
+ *
+ * @property {number} chainId - The ID of the blockchain network
+ * @property {string} integrator - The integrator address
+ * @property {string} token - The token address the fees were collected in
+ * @property {string} collected - Sum of the integrator fees of all FeesCollected events
+ * @property {string} withdrawn - Sum of the amounts of all FeesWithdrawn events of the integrator
+ * @property {string} claimable - Collected minus withdrawn; negative if events before the start block are missing
+ */
+export interface IntegratorBalance {
+	chainId: number;
+	integrator: string;
+	token: string;
+	collected: string;
+	withdrawn: string;
+	claimable: string;
+}
+
+/**
+ * LiFi's own fee balance in one token on one chain: the LiFi share of the
+ * collected fees minus the LiFiFeesWithdrawn amounts.
+ */
+export type LifiBalance = Omit<IntegratorBalance, "integrator">;
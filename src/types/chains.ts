@@ -1,7 +1,8 @@
 import { z } from "zod";
 
 /**
- * Supported chain IDs
+ * IDs of the built-in chains.
+ * Chains are defined as data in the chain registry; this list only names the defaults.
  */
 export enum ChainIds {
 	ETHEREUM = 1,
@@ -13,55 +14,234 @@ export enum ChainIds {
 }
 
 /**
- * Public configuration for a single chain
+ * Block tags that RPCs can resolve to a finality boundary
  */
-export interface ChainConfig {
+export type FinalityTag = "safe" | "finalized";
+
+/**
+ * How far behind the head the scanner stays: a block count or a finality tag
+ */
+export type Confirmations = number | FinalityTag;
+
+/**
+ * A FeeCollector deployment on a chain
+ *
+ * @property {string} address - The contract address
+ * @property {number} startBlock - First block the deployment can have events in
+ * @property {number} endBlock - Last block of a retired deployment (inclusive); open-ended when unset
+ */
+export interface ContractDeployment {
+	address: string;
+	startBlock: number;
+	endBlock?: number;
+}
+
+/**
+ * The native asset of a chain, which the zero token address stands for
+ *
+ * @property {string} name - The asset name, e.g. Ether
+ * @property {string} symbol - The asset symbol, e.g. ETH
+ * @property {number} decimals - Number of decimals of the asset's amounts
+ */
+export interface NativeCurrency {
+	name: string;
+	symbol: string;
+	decimals: number;
+}
+
+/**
+ * Definition of a chain in the chain registry
+ *
+ * @property {string} name - Chain name; upper-cased it prefixes the chain's environment overrides, e.g. POLYGON_RPC_URL
+ * @property {number} chainId - The EVM chain ID
+ * @property {string[]} rpcUrls - RPC endpoints, the first one is preferred
+ * @property {ContractDeployment[]} contracts - FeeCollector deployments, oldest first; the last one is the current contract
+ * @property {number} startBlock - First block the scanner indexes on the chain
+ * @property {Confirmations} confirmations - How far behind the head the scanner stays
+ * @property {string} explorerUrl - Base URL of the chain's block explorer
+ * @property {number} pollIntervalMs - Optional delay between polls in follow mode
+ * @property {boolean} indexPending - Optional flag to index the unconfirmed blocks above the boundary
+ * @property {number} scanConcurrency - Optional number of chunks scanned in parallel
+ * @property {boolean} enrichTransactions - Optional flag to store the sender, target, gas and selector of each event's transaction
+ * @property {NativeCurrency} nativeCurrency - Optional native asset, defaults to Ether
+ */
+export interface ChainDefinition {
+	name: string;
 	chainId: number;
-	contractAddress: string;
-	startBlock?: number;
+	rpcUrls: string[];
+	contracts: ContractDeployment[];
+	startBlock: number;
+	confirmations: Confirmations;
+	explorerUrl: string;
+	pollIntervalMs?: number;
+	indexPending?: boolean;
+	scanConcurrency?: number;
+	enrichTransactions?: boolean;
+	nativeCurrency?: NativeCurrency;
+}
+
+/**
+ * A registered chain: its definition with the environment overrides applied
+ */
+export interface ChainSettings extends ChainDefinition {
+	pollIntervalMs: number;
+	indexPending: boolean;
+	scanConcurrency: number;
+	enrichTransactions: boolean;
+	nativeCurrency: NativeCurrency;
 }
 
 /**
- * Zod schema for validating chain configuration
+ * Zod schema for validating a contract deployment
+ */
+export const ContractDeploymentSchema = z
+	.object({
+		address: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
+		startBlock: z.number().int().nonnegative(),
+		endBlock: z.number().int().nonnegative().optional(),
+	})
+	.refine(
+		(deployment) =>
+			deployment.endBlock === undefined ||
+			deployment.endBlock >= deployment.startBlock,
+		{ message: "endBlock cannot be lower than startBlock" }
+	);
+
+/**
+ * Zod schema for validating a confirmation setting
+ */
+export const ConfirmationsSchema = z.union([
+	z.number().int().nonnegative(),
+	z.enum(["safe", "finalized"]),
+]);
+
+/**
+ * Zod schema for validating a native asset
  */
-export const ChainConfigSchema = z.object({
-	chainId: z.number(),
-	contractAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/),
-	startBlock: z.number().optional(),
+export const NativeCurrencySchema = z.object({
+	name: z.string().min(1),
+	symbol: z.string().min(1),
+	decimals: z.number().int().min(0).max(255),
 });
 
 /**
- * Public chain configurations
+ * Zod schema for validating a chain definition
  */
-export const chainConfigs: Record<ChainIds, ChainConfig> = {
-	[ChainIds.ETHEREUM]: {
+export const ChainDefinitionSchema = z.object({
+	name: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_-]*$/),
+	chainId: z.number().int().positive(),
+	rpcUrls: z.array(z.string().url()).min(1),
+	contracts: z.array(ContractDeploymentSchema).min(1),
+	startBlock: z.number().int().nonnegative(),
+	confirmations: ConfirmationsSchema,
+	explorerUrl: z.string().url(),
+	pollIntervalMs: z.number().int().positive().optional(),
+	indexPending: z.boolean().optional(),
+	scanConcurrency: z.number().int().positive().optional(),
+	enrichTransactions: z.boolean().optional(),
+	nativeCurrency: NativeCurrencySchema.optional(),
+});
+
+/**
+ * Zod schema for validating a registered chain, once its environment overrides are applied
+ */
+export const ChainSettingsSchema = ChainDefinitionSchema.extend({
+	pollIntervalMs: z.number().int().positive(),
+	indexPending: z.boolean(),
+	scanConcurrency: z.number().int().positive(),
+	enrichTransactions: z.boolean(),
+	nativeCurrency: NativeCurrencySchema,
+});
+
+/**
+ * Zod schema for validating a list of chain definitions.
+ * Chain IDs and names must be unique.
+ */
+export const ChainDefinitionsSchema = z
+	.array(ChainDefinitionSchema)
+	.refine(
+		(chains) =>
+			new Set(chains.map((chain) => chain.chainId)).size === chains.length,
+		{ message: "Chain IDs must be unique" }
+	)
+	.refine(
+		(chains) =>
+			new Set(chains.map((chain) => chain.name.toLowerCase())).size ===
+			chains.length,
+		{ message: "Chain names must be unique" }
+	);
+
+// FeeCollector address shared by the built-in chains
+const FEE_COLLECTOR_ADDRESS = "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9";
+
+/**
+ * Native asset of chains that do not set one
+ */
+export const DEFAULT_NATIVE_CURRENCY: NativeCurrency = {
+	name: "Ether",
+	symbol: "ETH",
+	decimals: 18,
+};
+
+/**
+ * Built-in chain definitions, used when no chains file is configured
+ */
+export const defaultChainDefinitions: ChainDefinition[] = [
+	{
+		name: "ethereum",
 		chainId: ChainIds.ETHEREUM,
-		contractAddress: "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
-		startBlock: 0,
+		rpcUrls: ["https://eth.llamarpc.com"],
+		contracts: [{ address: FEE_COLLECTOR_ADDRESS, startBlock: 0 }],
+		startBlock: 22500000,
+		confirmations: 0,
+		explorerUrl: "https://etherscan.io",
 	},
-	[ChainIds.POLYGON]: {
+	{
+		name: "polygon",
 		chainId: ChainIds.POLYGON,
-		contractAddress: "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
-		startBlock: 0,
-	},
-	[ChainIds.BASE]: {
-		chainId: ChainIds.BASE,
-		contractAddress: "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
-		startBlock: 0,
+		rpcUrls: ["https://polygon.llamarpc.com"],
+		contracts: [{ address: FEE_COLLECTOR_ADDRESS, startBlock: 0 }],
+		startBlock: 61500000,
+		confirmations: 0,
+		explorerUrl: "https://polygonscan.com",
+		nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
 	},
-	[ChainIds.BSC]: {
+	{
+		name: "bsc",
 		chainId: ChainIds.BSC,
-		contractAddress: "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
+		rpcUrls: ["https://bsc.llamarpc.com"],
+		contracts: [{ address: FEE_COLLECTOR_ADDRESS, startBlock: 0 }],
 		startBlock: 0,
+		confirmations: 0,
+		explorerUrl: "https://bscscan.com",
+		nativeCurrency: { name: "BNB", symbol: "BNB", decimals: 18 },
 	},
-	[ChainIds.OPTIMISM]: {
+	{
+		name: "optimism",
 		chainId: ChainIds.OPTIMISM,
-		contractAddress: "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
+		rpcUrls: ["https://optimism.llamarpc.com"],
+		contracts: [{ address: FEE_COLLECTOR_ADDRESS, startBlock: 0 }],
+		startBlock: 0,
+		confirmations: 0,
+		explorerUrl: "https://optimistic.etherscan.io",
+	},
+	{
+		name: "base",
+		chainId: ChainIds.BASE,
+		rpcUrls: ["https://base.llamarpc.com"],
+		contracts: [{ address: FEE_COLLECTOR_ADDRESS, startBlock: 0 }],
 		startBlock: 0,
+		confirmations: 0,
+		explorerUrl: "https://basescan.org",
 	},
-	[ChainIds.GNOSIS]: {
+	{
+		name: "gnosis",
 		chainId: ChainIds.GNOSIS,
-		contractAddress: "0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
+		rpcUrls: ["https://gnosis.llamarpc.com"],
+		contracts: [{ address: FEE_COLLECTOR_ADDRESS, startBlock: 0 }],
 		startBlock: 0,
+		confirmations: 0,
+		explorerUrl: "https://gnosisscan.io",
+		nativeCurrency: { name: "xDAI", symbol: "XDAI", decimals: 18 },
 	},
-};
+];
@@ -0,0 +1,161 @@
+import { z } from "zod";
+import {
+	ChainDefinitionsSchema,
+	ChainSettings,
+	ConfirmationsSchema,
+} from "./chains";
+
+/**
+ * config.ts
+ *
+ * Schema and types of the application configuration.
+ * Settings are layered: built-in defaults, then the config file, then environment variables.
+ */
+
+const positiveInt = z.number().int().positive();
+const nonNegativeInt = z.number().int().nonnegative();
+
+/**
+ * Zod schema for validating the layered settings.
+ * Objects are strict so that a misspelled key in the config file is reported instead of ignored.
+ */
+export const AppConfigSchema = z
+	.object({
+		mongoUri: z.string().min(1),
+		testMongoUri: z.string().min(1),
+		port: z.number().int().min(1).max(65535),
+		adminApiToken: z.string().min(1).optional(),
+		logLevel: z.enum([
+			"fatal",
+			"error",
+			"warn",
+			"info",
+			"debug",
+			"trace",
+			"silent",
+		]),
+		chunkSize: positiveInt,
+		minChunkSize: positiveInt,
+		maxChunkSize: positiveInt.optional(),
+		chunkGrowthThreshold: positiveInt,
+		rpcMaxHeadLag: nonNegativeInt,
+		rpcRetry: z
+			.object({
+				retries: nonNegativeInt,
+				baseDelayMs: positiveInt,
+				maxDelayMs: positiveInt,
+			})
+			.strict(),
+		circuitBreaker: z
+			.object({
+				failureThreshold: positiveInt,
+				cooldownMs: positiveInt,
+			})
+			.strict(),
+		failedChunkRetry: z
+			.object({
+				maxAttempts: positiveInt,
+				baseDelayMs: positiveInt,
+				maxDelayMs: positiveInt,
+			})
+			.strict(),
+		reorgWindowSize: positiveInt,
+		scanMode: z.enum(["follow", "once"]),
+		serviceRole: z.enum(["all", "api", "scanner"]),
+		instanceId: z.string().min(1),
+		scannerLease: z
+			.object({
+				ttlMs: positiveInt,
+				renewIntervalMs: positiveInt,
+			})
+			.strict(),
+		pollIntervalMs: positiveInt,
+		scanConcurrency: positiveInt,
+		confirmations: ConfirmationsSchema.optional(),
+		prices: z
+			.object({
+				source: z.enum(["none", "file", "http"]),
+				file: z.string().min(1).optional(),
+				apiUrl: z.string().url().optional(),
+				maxAgeMs: positiveInt,
+			})
+			.strict(),
+		enabledChains: z.array(positiveInt).min(1),
+		chains: ChainDefinitionsSchema,
+	})
+	.strict()
+	.superRefine((settings, ctx) => {
+		if (settings.minChunkSize > settings.chunkSize) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["minChunkSize"],
+				message: "minChunkSize cannot be higher than chunkSize",
+			});
+		}
+		if (
+			settings.maxChunkSize !== undefined &&
+			settings.maxChunkSize < settings.chunkSize
+		) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["maxChunkSize"],
+				message: "maxChunkSize cannot be lower than chunkSize",
+			});
+		}
+		if (settings.prices.source === "file" && !settings.prices.file) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["prices", "file"],
+				message: "A price file is required for the file price source",
+			});
+		}
+		if (settings.prices.source === "http" && !settings.prices.apiUrl) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["prices", "apiUrl"],
+				message: "A price API URL is required for the http price source",
+			});
+		}
+		if (settings.scannerLease.renewIntervalMs >= settings.scannerLease.ttlMs) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["scannerLease", "renewIntervalMs"],
+				message: "renewIntervalMs must be lower than ttlMs",
+			});
+		}
+	});
+
+/**
+ * The validated settings, before the chain definitions are resolved into the registry
+ */
+export type AppConfigSettings = z.infer<typeof AppConfigSchema>;
+
+/**
+ * The application configuration.
+ * `pollIntervalMs`, `scanConcurrency` and `confirmations` are the defaults of chains that do not set them.
+ *
+ * @property {number} maxChunkSize - Largest chunk size, defaults to chunkSize
+ * @property {Object} chains - The chain registry keyed by chain ID, with the environment overrides applied
+ */
+export interface AppConfig extends Omit<
+	AppConfigSettings,
+	"maxChunkSize" | "chains"
+> {
+	maxChunkSize: number;
+	chains: Record<number, ChainSettings>;
+}
+
+/**
+ * Outcome of reloading the config file
+ *
+ * @property {number[]} enabledChains - The enabled chains after the reload
+ * @property {number[]} rpcChangedChains - Chains whose RPC endpoints changed
+ * @property {number[]} pollIntervalChangedChains - Chains whose poll interval changed
+ * @property {string[]} restartRequired - Changed settings that only take effect after a restart
+ */
+export interface ConfigReload {
+	enabledChains: number[];
+	rpcChangedChains: number[];
+	pollIntervalChangedChains: number[];
+	restartRequired: string[];
+}
@@ -1,10 +1,12 @@
 import { Event } from "ethers";
+import { WithFormattedAmounts } from "./tokens";
+import { EventValuation } from "./prices";
 
 /**
  * events.ts
  *
- * TypeScript interfaces for representing LiFi FeeCollected event data
- * and the DTO used for MongoDB storage.
+ * TypeScript interfaces for representing LiFi FeeCollected and withdrawal event data
+ * and the DTOs used for MongoDB storage.
  */
 
 /**
@@ -23,6 +25,8 @@ import { Event } from "ethers";
  * @property {number} blockNumber - The block number where the event occurred
  * @property {string} transactionHash - The hash of the transaction that emitted the event
  * @property {number} logIndex - The index of the log within the transaction
+ * @property {number} blockTimestamp - Unix time of the block in seconds, resolved by the scanner
+ * @property {TransactionContext} transaction - Context of the emitting transaction, on chains with enrichment enabled
  */
 export interface FeeCollectedEventData extends Omit<Event, "args"> {
 	args: {
@@ -31,6 +35,25 @@ export interface FeeCollectedEventData extends Omit<Event, "args"> {
 		integratorFee: string; // BigNumber as string
 		lifiFee: string; // BigNumber as string
 	};
+	blockTimestamp?: number;
+	transaction?: TransactionContext;
+}
+
+/**
+ * Context of the transaction that emitted a fee event
+ *
+ * @property {string} from - The account that sent the transaction
+ * @property {string} to - The contract the transaction called, e.g. the LiFi router
+ * @property {string} gasUsed - Gas used by the transaction
+ * @property {string} effectiveGasPrice - Price paid per gas unit (in wei)
+ * @property {string} selector - 4-byte function selector of the call, unset for calls without data
+ */
+export interface TransactionContext {
+	from: string;
+	to?: string;
+	gasUsed: string;
+	effectiveGasPrice: string;
+	selector?: string;
 }
 
 /**
@@ -46,6 +69,12 @@ export interface FeeCollectedEventData extends Omit<Event, "args"> {
  * @property {number} blockNumber - The block number where the event occurred
  * @property {string} transactionHash - The hash of the transaction that emitted the event
  * @property {number} logIndex - The index of the log within the transaction
+ * @property {Date} blockTimestamp - When the block was produced, if resolved
+ * @property {string} from - Sender of the emitting transaction, if enriched
+ * @property {string} to - Contract the emitting transaction called, if enriched
+ * @property {string} gasUsed - Gas used by the emitting transaction, if enriched
+ * @property {string} effectiveGasPrice - Gas price paid by the emitting transaction (in wei), if enriched
+ * @property {string} selector - 4-byte function selector of the emitting transaction, if enriched
  */
 export interface FeeCollectedEventDTO {
 	chainId: number;
@@ -57,9 +86,162 @@ export interface FeeCollectedEventDTO {
 	blockNumber: number;
 	transactionHash: string;
 	logIndex: number;
+	blockTimestamp?: Date;
+	from?: string;
+	to?: string;
+	gasUsed?: string;
+	effectiveGasPrice?: string;
+	selector?: string;
+}
+
+/**
+ * Name of a FeeCollector event emitted when collected fees are withdrawn.
+ * FeesWithdrawn is emitted for integrator withdrawals, LiFiFeesWithdrawn for LiFi's own share.
+ */
+export type WithdrawalEventName = "FeesWithdrawn" | "LiFiFeesWithdrawn";
+
+/**
+ * Represents a raw FeesWithdrawn or LiFiFeesWithdrawn event from the blockchain.
+ *
+ * @property {WithdrawalEventName} event - The name of the withdrawal event
+ * @property {string} args.token - The token address that was withdrawn
+ * @property {string} args.to - The address that received the withdrawal, the integrator for FeesWithdrawn
+ * @property {string} args.amount - The withdrawn amount (in wei)
+ */
+export interface WithdrawalEventData extends Omit<Event, "args" | "event"> {
+	event: WithdrawalEventName;
+	args: {
+		token: string;
+		to: string;
+		amount: string; // BigNumber as string
+	};
+}
+
+/**
+ * Data Transfer Object for storing withdrawal events in MongoDB.
+ * Both withdrawal events share this shape and are stored in one collection each.
+ *
+ * @property {number} chainId - The ID of the blockchain network
+ * @property {string} contractAddress - The address of the FeeCollector contract
+ * @property {string} token - The token address that was withdrawn
+ * @property {string} to - The address that received the withdrawal
+ * @property {string} amount - The withdrawn amount (in wei)
+ * @property {number} blockNumber - The block number where the event occurred
+ * @property {string} transactionHash - The hash of the transaction that emitted the event
+ * @property {number} logIndex - The index of the log within the transaction
+ */
+export interface WithdrawalEventDTO {
+	chainId: number;
+	contractAddress: string;
+	token: string;
+	to: string;
+	amount: string;
+	blockNumber: number;
+	transactionHash: string;
+	logIndex: number;
+}
+
+export interface WithdrawalEvent extends WithdrawalEventDTO {
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Outcome of storing a batch of events.
+ *
+ * @property {number} inserted - Events that were not stored before
+ * @property {number} alreadyPresent - Events that were already stored with the same values
+ */
+export interface StoreEventsResult {
+	inserted: number;
+	alreadyPresent: number;
+}
+
+/**
+ * Fields of an event that must match when the same event is stored twice.
+ */
+export type EventFeeFields = Pick<
+	FeeCollectedEventDTO,
+	"token" | "integrator" | "integratorFee" | "lifiFee"
+>;
+
+/**
+ * Fields of a withdrawal event that must match when the same event is stored twice.
+ */
+export type WithdrawalFields = Pick<
+	WithdrawalEventDTO,
+	"token" | "to" | "amount"
+>;
+
+/**
+ * An event whose key (chainId, transactionHash, logIndex) is already stored with different values.
+ *
+ * @property {EventFeeFields | WithdrawalFields} stored - Values of the stored event
+ * @property {EventFeeFields | WithdrawalFields} received - Values of the event that was about to be stored
+ */
+export interface EventConflict {
+	chainId: number;
+	transactionHash: string;
+	logIndex: number;
+	stored: EventFeeFields | WithdrawalFields;
+	received: EventFeeFields | WithdrawalFields;
 }
 
 export interface FeeCollectedEvent extends FeeCollectedEventDTO {
 	createdAt: Date;
 	updatedAt: Date;
 }
+
+/**
+ * Position of an event in its chain, which orders the events of a chain
+ *
+ * @property {number} blockNumber - The block number of the event
+ * @property {number} logIndex - The index of the event's log in the block
+ */
+export interface EventCursor {
+	blockNumber: number;
+	logIndex: number;
+}
+
+/**
+ * Selects one page of events
+ *
+ * @property {number} limit - Maximum number of events in the page
+ * @property {EventCursor} cursor - Only events after this position, in the sort order
+ * @property {"asc" | "desc"} order - Oldest or newest events first
+ */
+export interface EventPageOptions {
+	limit: number;
+	cursor?: EventCursor;
+	order: "asc" | "desc";
+}
+
+/**
+ * One page of events
+ *
+ * @property {boolean} hasMore - Whether events follow the last event of the page
+ */
+export interface EventPage<T> {
+	events: T[];
+	hasMore: boolean;
+}
+
+/**
+ * FeeCollected event as returned by the API.
+ * `finalized` is false for events above the chain's confirmation boundary,
+ * which only exist when the pending tier is indexed. The fees are also
+ * formatted with the token's decimals and valued in USD at the time of the block.
+ */
+export type FeeCollectedEventResponse = WithFormattedAmounts<
+	FeeCollectedEvent & { finalized: boolean },
+	"integratorFee" | "lifiFee"
+> &
+	EventValuation;
+
+/**
+ * Withdrawal event as returned by the API, with the amount formatted with the token's decimals
+ */
+export type WithdrawalEventResponse = WithFormattedAmounts<
+	WithdrawalEvent,
+	"amount"
+>;
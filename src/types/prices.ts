@@ -0,0 +1,149 @@
+import { z } from "zod";
+
+/**
+ * prices.ts
+ *
+ * Types for valuing fees in USD through a pluggable price source.
+ */
+
+/**
+ * A request for the USD price of a token at a point in time
+ *
+ * @property {number} chainId - The ID of the blockchain network
+ * @property {string} token - The lowercase token address; the zero address is the chain's native asset
+ * @property {string} symbol - The token symbol, if known
+ * @property {Date} timestamp - The time the price is needed for
+ */
+export interface PriceQuery {
+	chainId: number;
+	token: string;
+	symbol?: string;
+	timestamp: Date;
+}
+
+/**
+ * A source of historical USD prices
+ */
+export interface PriceSource {
+	/** Name of the source in logs and API responses */
+	readonly name: string;
+
+	/**
+	 * Get the USD price of one whole token at a point in time
+	 * @returns The price, or null if the source has none for the token and time
+	 */
+	getPrice(query: PriceQuery): Promise<number | null>;
+}
+
+/**
+ * Why an event has, or has no, USD value
+ * - priced: the fees are valued in USD
+ * - no_timestamp: the event has no block timestamp yet
+ * - no_decimals: the token's decimals are unknown
+ * - no_price: the price source has no price for the token at the event's time
+ */
+export type PriceStatus =
+	"priced" | "no_timestamp" | "no_decimals" | "no_price";
+
+/**
+ * USD valuation of a fee event at the time of its block.
+ * The USD fields are null unless the status is `priced`; unknown prices are never counted as zero.
+ *
+ * @property {number} priceUsd - USD price of one whole token at the event's time
+ * @property {number} integratorFeeUsd - The integrator fee in USD
+ * @property {number} lifiFeeUsd - The LiFi fee in USD
+ * @property {PriceStatus} priceStatus - Whether the event is valued, and why not
+ */
+export interface EventValuation {
+	priceUsd: number | null;
+	integratorFeeUsd: number | null;
+	lifiFeeUsd: number | null;
+	priceStatus: PriceStatus;
+}
+
+/**
+ * Fee revenue in one token on one chain.
+ * Raw amounts are integers in the token's smallest unit, encoded as strings; USD amounts
+ * only sum the priced events and are null when none of the events is priced.
+ *
+ * @property {number} events - Number of fee events
+ * @property {number} unpricedEvents - Events without a USD value, left out of the USD amounts
+ */
+export interface TokenRevenue {
+	chainId: number;
+	token: string;
+	tokenSymbol: string | null;
+	tokenDecimals: number | null;
+	events: number;
+	unpricedEvents: number;
+	integratorFee: string;
+	lifiFee: string;
+	integratorFeeFormatted: string | null;
+	lifiFeeFormatted: string | null;
+	integratorFeeUsd: number | null;
+	lifiFeeUsd: number | null;
+}
+
+/**
+ * Fee revenue in USD over every token, valued at the time of each event
+ *
+ * @property {string} priceSource - Name of the price source the events were valued with
+ * @property {number} integratorFeeUsd - Sum of the integrator fees of the priced events
+ * @property {number} lifiFeeUsd - Sum of the LiFi fees of the priced events
+ * @property {number} pricedEvents - Events with a USD value
+ * @property {number} unpricedEvents - Events without a USD value
+ * @property {boolean} complete - False when events are unpriced, so the USD sums are a lower bound
+ * @property {TokenRevenue[]} tokens - Revenue per chain and token, sorted by chain and token
+ */
+export interface RevenueSummary {
+	priceSource: string;
+	integratorFeeUsd: number;
+	lifiFeeUsd: number;
+	pricedEvents: number;
+	unpricedEvents: number;
+	complete: boolean;
+	tokens: TokenRevenue[];
+}
+
+/**
+ * Selects the fee events revenue is computed from
+ *
+ * @property {number} chainId - Only events of this chain
+ * @property {string} integrator - Only events of this integrator
+ * @property {Date} from - Only events of blocks produced at or after this time
+ * @property {Date} to - Only events of blocks produced before this time
+ */
+export interface RevenueFilter {
+	chainId?: number;
+	integrator?: string;
+	from?: Date;
+	to?: Date;
+}
+
+// A number, or a string holding one as read from a CSV file
+const numeric = z.union([
+	z.number(),
+	z
+		.string()
+		.regex(/^\d+(\.\d+)?$/, "Expected a number")
+		.transform((value) => Number(value)),
+]);
+
+/**
+ * Zod schema for validating a row of a price table.
+ * The timestamp is unix seconds or an ISO 8601 date.
+ */
+export const PriceRowSchema = z.object({
+	chainId: numeric.pipe(z.number().int().positive()),
+	token: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address"),
+	timestamp: z.union([
+		numeric.pipe(z.number().int().nonnegative()),
+		z
+			.string()
+			.refine((value) => !isNaN(Date.parse(value)), "Invalid timestamp")
+			.transform((value) => Math.floor(Date.parse(value) / 1000)),
+	]),
+	usd: numeric.pipe(z.number().nonnegative()),
+});
+
+export type PriceRow = z.infer<typeof PriceRowSchema>;
@@ -0,0 +1,33 @@
+/**
+ * reconciliation.ts
+ *
+ * Types for reconciling the balances derived from indexed events with the FeeCollector contract.
+ */
+
+/**
+ * Lifecycle of a reconciliation report.
+ * Reports are "running" while balances are compared and end as "matched" when every
+ * balance agrees with the contract, "mismatched" when at least one differs, or "failed".
+ */
+export type ReconciliationStatus =
+	"running" | "matched" | "mismatched" | "failed";
+
+/**
+ * A balance whose derived value differs from the contract's.
+ * LiFi's own balances have no integrator.
+ *
+ * @property {string} kind - "integrator" for `getTokenBalance`, "lifi" for `getLifiTokenBalance`
+ * @property {string} integrator - The integrator address, only for integrator balances
+ * @property {string} token - The token address
+ * @property {string} expected - Claimable amount derived from the indexed events
+ * @property {string} actual - Balance returned by the contract
+ * @property {string} difference - Actual minus expected
+ */
+export interface BalanceMismatch {
+	kind: "integrator" | "lifi";
+	integrator?: string;
+	token: string;
+	expected: string;
+	actual: string;
+	difference: string;
+}
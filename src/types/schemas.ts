@@ -1,4 +1,11 @@
 import { z } from "zod";
+import { decodeEventCursor } from "../utils/eventCursor";
+
+// Events returned per page unless the request sets a limit
+const DEFAULT_EVENT_PAGE_SIZE = 100;
+
+// Largest page of events a request may ask for
+const MAX_EVENT_PAGE_SIZE = 1000;
 
 // Schema for the event args
 export const FeeCollectedArgsSchema = z.object({
@@ -36,6 +43,54 @@ export const FeeCollectedEventDTOSchema = z.object({
 	blockNumber: z.number().int().nonnegative(),
 	transactionHash: z.string().length(66, "Invalid transaction hash"),
 	logIndex: z.number().int().nonnegative(),
+	blockTimestamp: z.date().optional(),
+	from: z.string().length(42, "Invalid sender address").optional(),
+	to: z.string().length(42, "Invalid target address").optional(),
+	gasUsed: z
+		.string()
+		.regex(/^\d+$/, "gasUsed must be an integer string")
+		.optional(),
+	effectiveGasPrice: z
+		.string()
+		.regex(/^\d+$/, "effectiveGasPrice must be an integer string")
+		.optional(),
+	selector: z
+		.string()
+		.regex(/^0x[0-9a-fA-F]{8}$/, "Invalid function selector")
+		.optional(),
+});
+
+// Schema for the args of a withdrawal event
+export const WithdrawalArgsSchema = z.object({
+	token: z.string().length(42, "Invalid token address"),
+	to: z.string().length(42, "Invalid recipient address"),
+	amount: z.string().refine((val) => !isNaN(Number(val)), {
+		message: "amount must be a number string",
+	}),
+});
+
+// Schema for a full FeesWithdrawn or LiFiFeesWithdrawn event
+export const WithdrawalEventSchema = z
+	.object({
+		event: z.enum(["FeesWithdrawn", "LiFiFeesWithdrawn"]),
+		args: WithdrawalArgsSchema,
+		blockNumber: z.number().int().nonnegative(),
+		transactionHash: z.string().length(66, "Invalid transaction hash"),
+		logIndex: z.number().int().nonnegative(),
+	})
+	.passthrough();
+
+export const WithdrawalEventDTOSchema = z.object({
+	chainId: z.number().int().nonnegative(),
+	contractAddress: z.string().length(42, "Invalid contract address"),
+	token: z.string().length(42, "Invalid token address"),
+	to: z.string().length(42, "Invalid recipient address"),
+	amount: z.string().refine((val) => !isNaN(Number(val)), {
+		message: "amount must be a number string",
+	}),
+	blockNumber: z.number().int().nonnegative(),
+	transactionHash: z.string().length(66, "Invalid transaction hash"),
+	logIndex: z.number().int().nonnegative(),
 });
 
 // Zod schema for validating the integrator address
@@ -46,4 +101,76 @@ export const IntegratorParamSchema = z.object({
 		.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address format"),
 });
 
+// Zod schema for validating a chainId route or query param; whether the chain is supported is checked separately
+export const ChainIdParamSchema = z.object({
+	chainId: z.coerce.number().int().positive("Invalid chain ID"),
+});
+
+// Zod schema for validating the id route param of a stored job or report, a MongoDB ObjectId
+export const IdParamSchema = z.object({
+	id: z.string().regex(/^[a-fA-F0-9]{24}$/, "Invalid ID"),
+});
+
+// Zod schema for validating the pagination of an event list
+export const EventPageQuerySchema = z.object({
+	limit: z.coerce
+		.number()
+		.int("limit must be an integer")
+		.min(1, "limit must be at least 1")
+		.max(MAX_EVENT_PAGE_SIZE, `limit cannot exceed ${MAX_EVENT_PAGE_SIZE}`)
+		.default(DEFAULT_EVENT_PAGE_SIZE),
+	cursor: z
+		.string()
+		.transform((value, ctx) => {
+			const cursor = decodeEventCursor(value);
+			if (!cursor) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: "Invalid cursor",
+				});
+				return z.NEVER;
+			}
+			return cursor;
+		})
+		.optional(),
+	order: z
+		.enum(["asc", "desc"], { message: "order must be asc or desc" })
+		.default("asc"),
+});
+
+// Zod schema for validating a backfill job request
+export const BackfillRequestSchema = z
+	.object({
+		chainId: z.number().int().positive("Invalid chain ID"),
+		fromBlock: z.number().int().nonnegative("fromBlock must be non-negative"),
+		toBlock: z.number().int().nonnegative("toBlock must be non-negative"),
+	})
+	.refine((request) => request.fromBlock <= request.toBlock, {
+		message: "fromBlock must not be greater than toBlock",
+	});
+
+// Zod schema for validating a reconciliation request
+export const ReconciliationRequestSchema = z.object({
+	chainId: z.number().int().positive("Invalid chain ID"),
+	contractAddress: z
+		.string()
+		.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid contract address")
+		.optional(),
+});
+
+// Zod schema for validating the filters of a revenue query
+export const RevenueQuerySchema = z
+	.object({
+		chainId: z.coerce.number().int().positive("Invalid chain ID").optional(),
+		integrator: z
+			.string()
+			.regex(/^0x[a-fA-F0-9]{40}$/, "Invalid integrator address")
+			.optional(),
+		from: z.coerce.date({ message: "Invalid from date" }).optional(),
+		to: z.coerce.date({ message: "Invalid to date" }).optional(),
+	})
+	.refine((query) => !query.from || !query.to || query.from < query.to, {
+		message: "from must be before to",
+	});
+
 export type FeeCollectedEventParsed = z.infer<typeof FeeCollectedEventSchema>;
@@ -0,0 +1,42 @@
+/**
+ * tokens.ts
+ *
+ * Types for the token metadata used to format raw amounts.
+ */
+
+/**
+ * ERC-20 metadata of a token.
+ * A field is unset when the token does not implement the function or returns something undecodable.
+ *
+ * @property {string} symbol - The token symbol, e.g. USDC
+ * @property {string} name - The token name
+ * @property {number} decimals - Number of decimals of the token's amounts
+ */
+export interface TokenMetadata {
+	symbol?: string;
+	name?: string;
+	decimals?: number;
+}
+
+/**
+ * A token on a chain with its metadata
+ *
+ * @property {number} chainId - The ID of the blockchain network
+ * @property {string} address - The lowercase token address
+ * @property {boolean} native - True for the zero address, which stands for the chain's native asset
+ */
+export interface TokenInfo extends TokenMetadata {
+	chainId: number;
+	address: string;
+	native: boolean;
+}
+
+/**
+ * An API item with its token's symbol and decimals, and every raw amount field K
+ * next to a `<K>Formatted` decimal string. Formatted amounts are null while the
+ * token's decimals are unknown.
+ */
+export type WithFormattedAmounts<T, K extends keyof T & string> = T & {
+	tokenSymbol: string | null;
+	tokenDecimals: number | null;
+} & { [P in K as `${P}Formatted`]: string | null };
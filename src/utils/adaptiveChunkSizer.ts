@@ -0,0 +1,66 @@
+/**
+ * adaptiveChunkSizer.ts
+ *
+ * Tracks the effective block range used for eth_getLogs queries on one chain.
+ * The range is halved when the RPC rejects a query as too large and grows
+ * back after a run of successful chunks.
+ */
+
+export interface AdaptiveChunkSizerOptions {
+	initialSize: number; // Block range to start with
+	minSize: number; // Smallest range before giving up on shrinking
+	maxSize: number; // Upper bound when growing
+	growthThreshold: number; // Consecutive successes required before growing
+}
+
+export class AdaptiveChunkSizer {
+	private size: number;
+	private successStreak = 0;
+
+	constructor(private readonly options: AdaptiveChunkSizerOptions) {
+		this.size = Math.min(
+			Math.max(options.initialSize, options.minSize),
+			options.maxSize
+		);
+	}
+
+	/**
+	 * Current effective chunk size in blocks
+	 */
+	get current(): number {
+		return this.size;
+	}
+
+	/**
+	 * Whether the chunk size can still be reduced
+	 */
+	canShrink(): boolean {
+		return this.size > this.options.minSize;
+	}
+
+	/**
+	 * Halves the chunk size after a range/result limit error.
+	 * @returns The new chunk size
+	 */
+	shrink(): number {
+		this.successStreak = 0;
+		this.size = Math.max(Math.floor(this.size / 2), this.options.minSize);
+		return this.size;
+	}
+
+	/**
+	 * Records a successful chunk and doubles the size after enough successes in a row.
+	 * @returns The (possibly unchanged) chunk size
+	 */
+	recordSuccess(): number {
+		this.successStreak++;
+		if (
+			this.successStreak >= this.options.growthThreshold &&
+			this.size < this.options.maxSize
+		) {
+			this.successStreak = 0;
+			this.size = Math.min(this.size * 2, this.options.maxSize);
+		}
+		return this.size;
+	}
+}
@@ -0,0 +1,114 @@
+import { CircuitOpenError } from "../errors/AppError";
+
+/**
+ * circuitBreaker.ts
+ *
+ * Circuit breaker that stops calling a failing dependency for a cool-down period.
+ * After `failureThreshold` consecutive failures the circuit opens and calls are
+ * rejected immediately. Once the cool-down has passed a single probe call is let
+ * through (half-open); its success closes the circuit, its failure re-opens it.
+ */
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * @property {number} failureThreshold - Consecutive failures that open the circuit
+ * @property {number} cooldownMs - How long the circuit stays open before a probe
+ * @property {Function} [isFailure] - Decides which errors count towards the threshold
+ * @property {Function} [onStateChange] - Called whenever the state changes
+ */
+export interface CircuitBreakerOptions {
+	failureThreshold: number;
+	cooldownMs: number;
+	isFailure?: (error: unknown) => boolean;
+	onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export class CircuitBreaker {
+	private state: CircuitState = "closed";
+	private consecutiveFailures = 0;
+	private openedAt = 0;
+	private probeInFlight = false;
+
+	constructor(
+		private readonly name: string,
+		private readonly options: CircuitBreakerOptions
+	) {}
+
+	/**
+	 * Current state, moving from open to half-open once the cool-down has passed
+	 */
+	getState(): CircuitState {
+		if (this.state === "open" && this.remainingCooldownMs() === 0) {
+			this.transition("half_open");
+		}
+		return this.state;
+	}
+
+	/**
+	 * Milliseconds until an open circuit allows a probe (0 when not open)
+	 */
+	remainingCooldownMs(): number {
+		if (this.state !== "open") return 0;
+		return Math.max(this.openedAt + this.options.cooldownMs - Date.now(), 0);
+	}
+
+	/**
+	 * Runs the operation through the breaker.
+	 * @param fn - The operation to run
+	 * @throws {CircuitOpenError} When the circuit is open or a probe is already running
+	 */
+	async execute<T>(fn: () => Promise<T>): Promise<T> {
+		const state = this.getState();
+		if (state === "open" || (state === "half_open" && this.probeInFlight)) {
+			throw new CircuitOpenError(
+				`Circuit for ${this.name} is open`,
+				this.remainingCooldownMs()
+			);
+		}
+
+		const isProbe = state === "half_open";
+		if (isProbe) this.probeInFlight = true;
+		try {
+			const result = await fn();
+			this.onSuccess();
+			return result;
+		} catch (error) {
+			this.onError(error, isProbe);
+			throw error;
+		} finally {
+			if (isProbe) this.probeInFlight = false;
+		}
+	}
+
+	private onSuccess(): void {
+		this.consecutiveFailures = 0;
+		if (this.state !== "closed") {
+			this.transition("closed");
+		}
+	}
+
+	private onError(error: unknown, isProbe: boolean): void {
+		const counts = this.options.isFailure
+			? this.options.isFailure(error)
+			: true;
+		if (!counts) {
+			// A non-counting error still proves the dependency answered
+			if (isProbe) this.transition("closed");
+			return;
+		}
+		this.consecutiveFailures++;
+		if (isProbe || this.consecutiveFailures >= this.options.failureThreshold) {
+			this.openedAt = Date.now();
+			this.transition("open");
+		}
+	}
+
+	private transition(next: CircuitState): void {
+		const previous = this.state;
+		if (previous === next) return;
+		this.state = next;
+		if (next === "closed") this.consecutiveFailures = 0;
+		this.options.onStateChange?.(next, previous);
+	}
+}
@@ -1,136 +1,685 @@
 import dotenv from "dotenv";
-import { ChainIds, chainConfigs } from "../types/chains";
+import fs from "fs";
+import os from "os";
+import { ZodError } from "zod";
+import {
+	ChainDefinition,
+	ChainDefinitionSchema,
+	ChainIds,
+	ChainSettings,
+	ChainSettingsSchema,
+	ContractDeployment,
+	DEFAULT_NATIVE_CURRENCY,
+	defaultChainDefinitions,
+} from "../types/chains";
+import {
+	AppConfig,
+	AppConfigSchema,
+	AppConfigSettings,
+	ConfigReload,
+} from "../types/config";
+import { ConfigurationError } from "../errors/AppError";
 
 dotenv.config();
 
 /**
- * Parse comma-separated chain IDs from environment variable
+ * How an environment variable is parsed before validation.
+ * Unparseable values are passed on as they are so that validation reports them.
  */
-function parseEnabledChains(): ChainIds[] {
-	const enabledChains = process.env.ENABLED_CHAINS;
-	if (!enabledChains) {
-		return [ChainIds.POLYGON]; // Default to Polygon if not specified
+type EnvKind =
+	"string" | "number" | "boolean" | "list" | "numberList" | "confirmations";
+
+/**
+ * Environment variables that override the config file: setting path, variable and kind
+ */
+const envOverrides: [string, string, EnvKind][] = [
+	["mongoUri", "MONGO_URI", "string"],
+	["testMongoUri", "TEST_MONGO_URI", "string"],
+	["port", "PORT", "number"],
+	["adminApiToken", "ADMIN_API_TOKEN", "string"],
+	["logLevel", "LOG_LEVEL", "string"],
+	["chunkSize", "CHUNK_SIZE", "number"],
+	["minChunkSize", "MIN_CHUNK_SIZE", "number"],
+	["maxChunkSize", "MAX_CHUNK_SIZE", "number"],
+	["chunkGrowthThreshold", "CHUNK_GROWTH_THRESHOLD", "number"],
+	["rpcMaxHeadLag", "RPC_MAX_HEAD_LAG", "number"],
+	["rpcRetry.retries", "RPC_MAX_RETRIES", "number"],
+	["rpcRetry.baseDelayMs", "RPC_RETRY_BASE_DELAY_MS", "number"],
+	["rpcRetry.maxDelayMs", "RPC_RETRY_MAX_DELAY_MS", "number"],
+	["circuitBreaker.failureThreshold", "CIRCUIT_BREAKER_THRESHOLD", "number"],
+	["circuitBreaker.cooldownMs", "CIRCUIT_BREAKER_COOLDOWN_MS", "number"],
+	["failedChunkRetry.maxAttempts", "FAILED_CHUNK_MAX_ATTEMPTS", "number"],
+	["failedChunkRetry.baseDelayMs", "FAILED_CHUNK_RETRY_DELAY_MS", "number"],
+	["failedChunkRetry.maxDelayMs", "FAILED_CHUNK_MAX_RETRY_DELAY_MS", "number"],
+	["reorgWindowSize", "REORG_WINDOW_SIZE", "number"],
+	["scanMode", "SCAN_MODE", "string"],
+	["serviceRole", "SERVICE_ROLE", "string"],
+	["instanceId", "INSTANCE_ID", "string"],
+	["scannerLease.ttlMs", "SCANNER_LEASE_TTL_MS", "number"],
+	["scannerLease.renewIntervalMs", "SCANNER_LEASE_RENEW_INTERVAL_MS", "number"],
+	["pollIntervalMs", "POLL_INTERVAL_MS", "number"],
+	["scanConcurrency", "SCAN_CONCURRENCY", "number"],
+	["confirmations", "CONFIRMATIONS", "confirmations"],
+	["prices.source", "PRICE_SOURCE", "string"],
+	["prices.file", "PRICE_FILE", "string"],
+	["prices.apiUrl", "PRICE_API_URL", "string"],
+	["prices.maxAgeMs", "PRICE_MAX_AGE_MS", "number"],
+	["enabledChains", "ENABLED_CHAINS", "numberList"],
+];
+
+/**
+ * Per-chain environment variables, prefixed with the chain name (e.g. POLYGON_START_BLOCK).
+ * `<CHAIN>_RPC_URLS` wins over `<CHAIN>_RPC_URL`; both may hold several comma-separated URLs.
+ */
+const chainEnvOverrides: [keyof ChainSettings, string, EnvKind][] = [
+	["rpcUrls", "RPC_URL", "list"],
+	["rpcUrls", "RPC_URLS", "list"],
+	["startBlock", "START_BLOCK", "number"],
+	["confirmations", "CONFIRMATIONS", "confirmations"],
+	["pollIntervalMs", "POLL_INTERVAL_MS", "number"],
+	["indexPending", "INDEX_PENDING", "boolean"],
+	["scanConcurrency", "SCAN_CONCURRENCY", "number"],
+	["enrichTransactions", "ENRICH_TRANSACTIONS", "boolean"],
+];
+
+/**
+ * Variables of the single-chain setup that are no longer read, with what replaces them
+ */
+const retiredEnvVariables: [string, string][] = [
+	[
+		"CONTRACT_ADDRESS",
+		"list the FeeCollector deployments in the `contracts` of each chain (CHAINS_FILE)",
+	],
+	[
+		"START_BLOCK",
+		"set <CHAIN>_START_BLOCK per chain, e.g. POLYGON_START_BLOCK",
+	],
+];
+
+/**
+ * Chain settings that are applied when the config file is reloaded
+ */
+const reloadableChainSettings: (keyof ChainSettings)[] = [
+	"rpcUrls",
+	"pollIntervalMs",
+];
+
+/**
+ * Built-in settings, used for everything the config file and the environment leave unset
+ */
+function defaultSettings(): Record<string, unknown> {
+	return {
+		mongoUri: "mongodb://localhost:27017/lifi-fee-scraper",
+		testMongoUri: "mongodb://localhost:27017/test",
+		port: 3000,
+		logLevel: "info",
+		chunkSize: 1000,
+		minChunkSize: 10,
+		chunkGrowthThreshold: 5,
+		rpcMaxHeadLag: 5,
+		rpcRetry: { retries: 3, baseDelayMs: 500, maxDelayMs: 10000 },
+		circuitBreaker: { failureThreshold: 5, cooldownMs: 60000 },
+		failedChunkRetry: {
+			maxAttempts: 10,
+			baseDelayMs: 60000,
+			maxDelayMs: 3600000,
+		},
+		reorgWindowSize: 64,
+		scanMode: "follow",
+		serviceRole: "all",
+		instanceId: `${os.hostname()}-${process.pid}`,
+		scannerLease: { ttlMs: 30000, renewIntervalMs: 10000 },
+		pollIntervalMs: 15000,
+		scanConcurrency: 1,
+		prices: { source: "none", maxAgeMs: 86400000 },
+		enabledChains: [ChainIds.POLYGON],
+		chains: defaultChainDefinitions,
+	};
+}
+
+/**
+ * Read an environment variable, treating an empty value as unset
+ * @param name - Variable name
+ */
+function readEnv(name: string): string | undefined {
+	const value = process.env[name];
+	return value && value.trim() !== "" ? value.trim() : undefined;
+}
+
+/**
+ * Parse an environment variable according to its kind
+ * @param value - The raw value
+ * @param kind - How to parse it
+ */
+function parseEnvValue(value: string, kind: EnvKind): unknown {
+	switch (kind) {
+		case "number":
+			return Number(value);
+		case "boolean":
+			return value === "true" ? true : value === "false" ? false : value;
+		case "list":
+		case "numberList": {
+			const items = value
+				.split(",")
+				.map((item) => item.trim())
+				.filter((item) => item.length > 0);
+			return kind === "list" ? items : items.map(Number);
+		}
+		case "confirmations":
+			return value === "safe" || value === "finalized" ? value : Number(value);
+		default:
+			return value;
+	}
+}
+
+/**
+ * Set a nested value, creating the objects on the way
+ * @param target - Object to change
+ * @param path - Dot-separated path, e.g. "rpcRetry.retries"
+ * @param value - Value to set
+ */
+function setPath(
+	target: Record<string, unknown>,
+	path: string,
+	value: unknown
+): void {
+	const keys = path.split(".");
+	let object = target;
+	for (const key of keys.slice(0, -1)) {
+		const next = object[key];
+		if (typeof next !== "object" || next === null || Array.isArray(next)) {
+			object[key] = {};
+		}
+		object = object[key] as Record<string, unknown>;
+	}
+	object[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Merge the config file into the settings: objects are merged key by key,
+ * everything else (including arrays) replaces the current value
+ * @param target - Settings to change
+ * @param source - Values read from the config file
+ */
+function mergeSettings(
+	target: Record<string, unknown>,
+	source: Record<string, unknown>
+): void {
+	for (const [key, value] of Object.entries(source)) {
+		const current = target[key];
+		if (
+			typeof value === "object" &&
+			value !== null &&
+			!Array.isArray(value) &&
+			typeof current === "object" &&
+			current !== null &&
+			!Array.isArray(current)
+		) {
+			mergeSettings(
+				current as Record<string, unknown>,
+				value as Record<string, unknown>
+			);
+		} else {
+			target[key] = value;
+		}
+	}
+}
+
+/**
+ * Describe the first problem of a failed zod validation, e.g. "1.rpcUrls: Required"
+ */
+function describeZodError(error: ZodError): string {
+	const [issue] = error.errors;
+	return issue.path.length
+		? `${issue.path.join(".")}: ${issue.message}`
+		: issue.message;
+}
+
+/**
+ * Describe every problem of a failed zod validation, naming where each invalid value came from,
+ * e.g. "chunkSize (from CHUNK_SIZE): Expected number, received nan"
+ * @param error - The validation error
+ * @param sources - Where values were set, keyed by setting path
+ */
+function describeConfigError(
+	error: ZodError,
+	sources: Map<string, string>
+): string {
+	return error.errors
+		.map((issue) => {
+			const path = issue.path.join(".");
+			let source: string | undefined;
+			for (let length = issue.path.length; length > 0 && !source; length--) {
+				source = sources.get(issue.path.slice(0, length).join("."));
+			}
+			const location = source ? `${path} (from ${source})` : path;
+			return location ? `${location}: ${issue.message}` : issue.message;
+		})
+		.join("; ");
+}
+
+/**
+ * Environment variable prefix of a chain, e.g. "POLYGON" for "polygon"
+ */
+function chainEnvPrefix(name: string): string {
+	return name.toUpperCase().replace(/[^A-Z0-9]+/g, "_");
+}
+
+/**
+ * Read a JSON file of the configuration. Only JSON is supported; a YAML file is rejected
+ * up front rather than failing with a JSON syntax error.
+ * @param variable - The environment variable naming the file
+ * @param file - The file path
+ * @throws ConfigurationError if the file is not JSON or cannot be read or parsed
+ */
+function readJsonFile(variable: string, file: string): unknown {
+	if (/\.ya?ml$/i.test(file)) {
+		throw new ConfigurationError(
+			`${variable} ${file}: only JSON files are supported`
+		);
+	}
+	try {
+		return JSON.parse(fs.readFileSync(file, "utf8"));
+	} catch (error) {
+		throw new ConfigurationError(
+			`Failed to read ${variable} ${file}: ${(error as Error).message}`
+		);
+	}
+}
+
+/**
+ * Layer the built-in defaults, the JSON file named by CONFIG_FILE, the chains of CHAINS_FILE
+ * and the environment variables, and validate the result
+ * @throws ConfigurationError if a file cannot be read, a setting is invalid or a retired
+ * variable is set
+ */
+function loadSettings(): AppConfigSettings {
+	for (const [variable, replacement] of retiredEnvVariables) {
+		if (readEnv(variable) !== undefined) {
+			throw new ConfigurationError(
+				`${variable} is no longer supported: ${replacement}`
+			);
+		}
+	}
+
+	const settings = defaultSettings();
+	const sources = new Map<string, string>();
+
+	const configFile = readEnv("CONFIG_FILE");
+	if (configFile) {
+		const content = readJsonFile("CONFIG_FILE", configFile);
+		if (
+			typeof content !== "object" ||
+			content === null ||
+			Array.isArray(content)
+		) {
+			throw new ConfigurationError(
+				`CONFIG_FILE ${configFile} must hold a JSON object`
+			);
+		}
+		mergeSettings(settings, content as Record<string, unknown>);
+		for (const key of Object.keys(content)) {
+			sources.set(key, configFile);
+		}
 	}
 
-	// Split by comma and parse each chain ID
-	const chainIds = enabledChains.split(",").map((id) => {
-		const chainId = parseInt(id.trim(), 10);
-		if (isNaN(chainId) || !Object.values(ChainIds).includes(chainId)) {
-			throw new Error(`Invalid chain ID in ENABLED_CHAINS: ${id}`);
+	const chainsFile = readEnv("CHAINS_FILE");
+	if (chainsFile) {
+		settings.chains = readJsonFile("CHAINS_FILE", chainsFile);
+		sources.set("chains", chainsFile);
+	}
+
+	for (const [path, variable, kind] of envOverrides) {
+		const value = readEnv(variable);
+		if (value !== undefined) {
+			setPath(settings, path, parseEnvValue(value, kind));
+			sources.set(path, variable);
+		}
+	}
+
+	const result = AppConfigSchema.safeParse(settings);
+	if (!result.success) {
+		throw new ConfigurationError(
+			`Invalid configuration: ${describeConfigError(result.error, sources)}`
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Apply a chain's environment overrides (`<CHAIN>_RPC_URLS`, `<CHAIN>_START_BLOCK`,
+ * `<CHAIN>_CONFIRMATIONS`, `<CHAIN>_POLL_INTERVAL_MS`, `<CHAIN>_INDEX_PENDING`,
+ * `<CHAIN>_SCAN_CONCURRENCY`, `<CHAIN>_ENRICH_TRANSACTIONS`) and the defaults to its definition
+ * @param definition - The chain definition
+ * @param defaults - Settings used where the chain sets nothing; confirmations override the definition
+ * @throws ConfigurationError if an override is invalid
+ */
+function resolveChain(
+	definition: ChainDefinition,
+	defaults: Pick<
+		AppConfigSettings,
+		"pollIntervalMs" | "scanConcurrency" | "confirmations"
+	>
+): ChainSettings {
+	const prefix = chainEnvPrefix(definition.name);
+	const settings: Record<string, unknown> = {
+		...definition,
+		confirmations: defaults.confirmations ?? definition.confirmations,
+		pollIntervalMs: definition.pollIntervalMs ?? defaults.pollIntervalMs,
+		indexPending: definition.indexPending ?? false,
+		scanConcurrency: definition.scanConcurrency ?? defaults.scanConcurrency,
+		enrichTransactions: definition.enrichTransactions ?? false,
+		nativeCurrency: definition.nativeCurrency ?? DEFAULT_NATIVE_CURRENCY,
+	};
+	const sources = new Map<string, string>();
+	for (const [key, suffix, kind] of chainEnvOverrides) {
+		const variable = `${prefix}_${suffix}`;
+		const value = readEnv(variable);
+		if (value !== undefined) {
+			settings[key] = parseEnvValue(value, kind);
+			sources.set(key, variable);
 		}
-		return chainId as ChainIds;
-	});
+	}
 
-	if (chainIds.length === 0) {
-		return [ChainIds.POLYGON]; // Default to Polygon if empty
+	const result = ChainSettingsSchema.safeParse(settings);
+	if (!result.success) {
+		throw new ConfigurationError(
+			`Invalid configuration of chain ${definition.name}: ${describeConfigError(result.error, sources)}`
+		);
 	}
+	return result.data;
+}
 
-	return chainIds;
+/**
+ * Load and validate the configuration, and build the chain registry keyed by chain ID
+ * @throws ConfigurationError if a file cannot be read or a setting is invalid
+ */
+function loadConfig(): AppConfig {
+	const settings = loadSettings();
+	const chains: Record<number, ChainSettings> = {};
+	for (const definition of settings.chains) {
+		chains[definition.chainId] = resolveChain(definition, settings);
+	}
+	return {
+		...settings,
+		maxChunkSize: settings.maxChunkSize ?? settings.chunkSize,
+		chains,
+	};
 }
 
 /**
  * Application configuration.
- * All values can be overridden using environment variables.
+ * Settings are read from the JSON file named by CONFIG_FILE (if any) and can be overridden
+ * using environment variables; the result is validated at startup.
  *
  * @property {string} mongoUri - MongoDB connection string for production
  * @property {string} testMongoUri - MongoDB connection string for testing
  * @property {number} port - HTTP server port
+ * @property {string} adminApiToken - Bearer token of the /admin routes, which are disabled without one
  * @property {string} logLevel - Logging level (debug|info|warn|error)
  * @property {number} chunkSize - Number of blocks to scan in each chunk
- * @property {Object} rpcUrls - RPC endpoints for each supported chain
- * @property {Object} chains - Chain-specific configuration
+ * @property {number} minChunkSize - Smallest chunk the scanner shrinks to on provider range limits
+ * @property {number} maxChunkSize - Largest chunk the scanner grows back to after successful chunks
+ * @property {number} rpcMaxHeadLag - Blocks an RPC endpoint may trail the others before it is demoted
+ * @property {Object} rpcRetry - Retries and jittered exponential backoff for transient RPC errors
+ * @property {Object} circuitBreaker - Consecutive failed RPC calls that pause a chain, and the cool-down before probing again
+ * @property {Object} failedChunkRetry - Attempts and backoff for retrying block ranges the scanner failed to process
+ * @property {number} chunkGrowthThreshold - Consecutive successful chunks before the chunk size doubles
+ * @property {number} reorgWindowSize - Number of recent scanned block hashes kept per chain for reorg detection
+ * @property {string} scanMode - "follow" to keep tailing new blocks, "once" for a one-shot scan
+ * @property {string} serviceRole - "all" to serve the API and scan, "api" or "scanner" for only one of them
+ * @property {string} instanceId - Identifies this replica as the owner of scanner leases
+ * @property {Object} scannerLease - How long a chain's scanner lease lasts and how often its owner renews it
+ * @property {number} pollIntervalMs - Default delay between polls in follow mode
+ * @property {number} scanConcurrency - Default number of chunks scanned in parallel per chain
+ * @property {Confirmations} confirmations - Optional confirmations that override every chain's definition
+ * @property {Object} chains - The chain registry keyed by chain ID: each chain's name, RPC endpoints,
+ *   FeeCollector deployments, start block, confirmations before a block is indexed, explorer URL,
+ *   poll interval, whether the unconfirmed "pending" tier is indexed too, and how many chunks are
+ *   scanned in parallel. Chains come from the config file, CHAINS_FILE or the built-in definitions,
+ *   and chains stored in MongoDB are added at startup (see registerChain).
  * @property {number[]} enabledChains - List of chain IDs to scan
  */
-export const config = {
-	mongoUri:
-		process.env.MONGO_URI || "mongodb://localhost:27017/lifi-fee-scraper",
-	port: process.env.PORT || 3000,
-	logLevel: process.env.LOG_LEVEL || "info",
-	chunkSize: parseInt(process.env.CHUNK_SIZE || "1000", 10),
-	testMongoUri: process.env.TEST_MONGO_URI || "mongodb://localhost:27017/test",
-
-	// Enabled chains from environment variable
-	enabledChains: parseEnabledChains(),
-
-	// RPC URLs from environment variables
-	rpcUrls: {
-		[ChainIds.ETHEREUM]:
-			process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
-		[ChainIds.POLYGON]:
-			process.env.POLYGON_RPC_URL || "https://polygon.llamarpc.com",
-		[ChainIds.BASE]: process.env.BASE_RPC_URL || "https://base.llamarpc.com",
-		[ChainIds.BSC]: process.env.BSC_RPC_URL || "https://bsc.llamarpc.com",
-		[ChainIds.OPTIMISM]:
-			process.env.OPTIMISM_RPC_URL || "https://optimism.llamarpc.com",
-		[ChainIds.GNOSIS]:
-			process.env.GNOSIS_RPC_URL || "https://gnosis.llamarpc.com",
-	},
-
-	// Chain-specific configuration
-	chains: {
-		[ChainIds.ETHEREUM]: {
-			rpcUrl: process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
-			startBlock: parseInt(process.env.ETHEREUM_START_BLOCK || "22500000", 10),
-		},
-		[ChainIds.POLYGON]: {
-			rpcUrl: process.env.POLYGON_RPC_URL || "https://polygon.llamarpc.com",
-			startBlock: parseInt(process.env.POLYGON_START_BLOCK || "61500000", 10),
-		},
-		[ChainIds.BSC]: {
-			rpcUrl: process.env.BSC_RPC_URL || "https://bsc.llamarpc.com",
-			startBlock: parseInt(process.env.START_BLOCK || "0", 10),
-		},
-		[ChainIds.OPTIMISM]: {
-			rpcUrl: process.env.OPTIMISM_RPC_URL || "https://optimism.llamarpc.com",
-			startBlock: parseInt(process.env.START_BLOCK || "0", 10),
-		},
-		[ChainIds.BASE]: {
-			rpcUrl: process.env.BASE_RPC_URL || "https://base.llamarpc.com",
-			startBlock: parseInt(process.env.START_BLOCK || "0", 10),
-		},
-		[ChainIds.GNOSIS]: {
-			rpcUrl: process.env.GNOSIS_RPC_URL || "https://gnosis.llamarpc.com",
-			startBlock: parseInt(process.env.START_BLOCK || "0", 10),
-		},
-	},
+export const config: AppConfig = loadConfig();
+
+// Chains added by registerChain, which a reload of the config file leaves alone
+const registeredChainIds = new Set<number>();
 
-	contractAddress:
-		process.env.CONTRACT_ADDRESS ||
-		"0xbD6C7B0d2f68c2b7805d88388319cfB6EcB50eA9",
-} as const;
+// Creation blocks of deployments without a configured start block, keyed by "chainId:address"
+const discoveredStartBlocks = new Map<string, number>();
 
 /**
- * Get full configuration for a specific chain including RPC URL
- * @param chainId - The chain ID to get configuration for
- * @returns Full chain configuration or undefined if not found
+ * Get the path of the config file, if one is used
+ */
+export function getConfigFile(): string | undefined {
+	return readEnv("CONFIG_FILE");
+}
+
+/**
+ * Reload the config file and the environment, and apply the settings that are safe to change
+ * while running: the enabled chains and each chain's RPC endpoints and poll interval.
+ * Other changed settings are reported and only take effect after a restart.
+ * The current configuration is kept when the new one is invalid.
+ * @returns What changed
+ * @throws ConfigurationError if the new configuration is invalid or enables an unregistered chain
  */
-export function getChainConfig(chainId: number) {
-	const chainConfig = config.chains[chainId as ChainIds];
-	if (!chainConfig) return undefined;
+export function reloadConfig(): ConfigReload {
+	const next = loadConfig();
+	const unknown = findUnregisteredChains(next.enabledChains);
+	if (unknown.length > 0) {
+		throw new ConfigurationError(
+			`Chains in enabledChains are not in the chain registry: ${unknown.join(", ")}. Supported chains: ${getSupportedChainIds().join(", ")}`
+		);
+	}
+
+	const restartRequired: string[] = [];
+	for (const key of Object.keys(next) as (keyof AppConfig)[]) {
+		if (
+			key !== "enabledChains" &&
+			key !== "chains" &&
+			JSON.stringify(next[key]) !== JSON.stringify(config[key])
+		) {
+			restartRequired.push(key);
+		}
+	}
 
-	const rpcUrl = config.rpcUrls[chainId as ChainIds];
-	if (!rpcUrl) {
-		throw new Error(`No RPC URL configured for chain ${chainId}`);
+	const rpcChangedChains: number[] = [];
+	const pollIntervalChangedChains: number[] = [];
+	const chainIds = new Set([
+		...Object.keys(next.chains).map(Number),
+		...getSupportedChainIds(),
+	]);
+	for (const chainId of chainIds) {
+		if (registeredChainIds.has(chainId)) continue;
+		const current = getChainConfig(chainId);
+		const updated = next.chains[chainId];
+		if (!current || !updated) {
+			restartRequired.push(`chains.${(current ?? updated).name}`);
+			continue;
+		}
+		for (const key of Object.keys(updated) as (keyof ChainSettings)[]) {
+			if (
+				!reloadableChainSettings.includes(key) &&
+				JSON.stringify(updated[key]) !== JSON.stringify(current[key])
+			) {
+				restartRequired.push(`chains.${current.name}.${key}`);
+			}
+		}
+		if (JSON.stringify(updated.rpcUrls) !== JSON.stringify(current.rpcUrls)) {
+			rpcChangedChains.push(chainId);
+		}
+		if (updated.pollIntervalMs !== current.pollIntervalMs) {
+			pollIntervalChangedChains.push(chainId);
+		}
+		config.chains[chainId] = {
+			...current,
+			rpcUrls: updated.rpcUrls,
+			pollIntervalMs: updated.pollIntervalMs,
+		};
 	}
+	config.enabledChains = next.enabledChains;
 
 	return {
-		...chainConfig,
-		rpcUrl,
+		enabledChains: next.enabledChains,
+		rpcChangedChains,
+		pollIntervalChangedChains,
+		restartRequired,
 	};
 }
 
 /**
- * Validate that all required chain configurations are present
- * @throws Error if no chains are configured
+ * Get the settings of a registered chain
+ * @param chainId - The chain ID to get configuration for
+ * @returns The chain's settings or undefined if the chain is not registered
  */
-export function validateChainConfigs(): void {
-	const enabledChains = Object.values(ChainIds).filter(
-		(chainId) => typeof chainId === "number" && config.rpcUrls[chainId]
+export function getChainConfig(chainId: number): ChainSettings | undefined {
+	return Object.prototype.hasOwnProperty.call(config.chains, chainId)
+		? config.chains[chainId]
+		: undefined;
+}
+
+/**
+ * Check whether a chain is in the chain registry
+ * @param chainId - The chain ID to check
+ */
+export function isSupportedChain(chainId: number): boolean {
+	return getChainConfig(chainId) !== undefined;
+}
+
+/**
+ * Get the IDs of every registered chain, in ascending order
+ */
+export function getSupportedChainIds(): number[] {
+	return Object.keys(config.chains)
+		.map(Number)
+		.sort((a, b) => a - b);
+}
+
+/**
+ * Add a chain to the registry, or replace the registered chain with the same ID.
+ * The chain's environment overrides are applied on top of the definition.
+ * @param definition - The chain definition, e.g. read from the database
+ * @returns The registered chain's settings
+ * @throws ConfigurationError if the definition is invalid or its name belongs to another chain
+ */
+export function registerChain(definition: unknown): ChainSettings {
+	const result = ChainDefinitionSchema.safeParse(definition);
+	if (!result.success) {
+		throw new ConfigurationError(
+			`Invalid chain definition: ${describeZodError(result.error)}`
+		);
+	}
+	const chain = result.data;
+	const nameTaken = Object.values(config.chains).some(
+		(registered) =>
+			registered.chainId !== chain.chainId &&
+			registered.name.toLowerCase() === chain.name.toLowerCase()
+	);
+	if (nameTaken) {
+		throw new ConfigurationError(
+			`Chain name ${chain.name} is already used by another chain`
+		);
+	}
+
+	const settings = resolveChain(chain, config);
+	config.chains[chain.chainId] = settings;
+	registeredChainIds.add(chain.chainId);
+	return settings;
+}
+
+/**
+ * Record the creation block found for a deployment without an explicit start block.
+ * It becomes the deployment's start block while neither the deployment nor its chain sets one.
+ * @param chainId - The chain ID of the deployment
+ * @param contractAddress - The contract address, in any case
+ * @param blockNumber - The block the contract was created in
+ */
+export function setDiscoveredStartBlock(
+	chainId: number,
+	contractAddress: string,
+	blockNumber: number
+): void {
+	discoveredStartBlocks.set(
+		`${chainId}:${contractAddress.toLowerCase()}`,
+		blockNumber
 	);
+}
+
+/**
+ * Get the FeeCollector deployments of a chain, oldest first.
+ * A deployment never starts before the chain's configured start block; without any
+ * configured start it starts at its discovered creation block, if known.
+ * @param chainId - The chain ID to get the deployments for
+ * @returns The deployments, empty for an unknown chain
+ */
+export function getContractDeployments(chainId: number): ContractDeployment[] {
+	const chain = getChainConfig(chainId);
+	if (!chain) return [];
+	return chain.contracts.map((deployment) => ({
+		...deployment,
+		startBlock:
+			Math.max(deployment.startBlock, chain.startBlock) ||
+			(discoveredStartBlocks.get(
+				`${chainId}:${deployment.address.toLowerCase()}`
+			) ??
+				0),
+	}));
+}
 
-	if (enabledChains.length === 0) {
+/**
+ * Get the current FeeCollector deployment of a chain: the newest one
+ * @param chainId - The chain ID to get the deployment for
+ * @returns The current deployment
+ * @throws Error if the chain has no deployments
+ */
+export function getCurrentContract(chainId: number): ContractDeployment {
+	const deployments = getContractDeployments(chainId);
+	if (deployments.length === 0) {
 		throw new Error(
-			"No chain configurations found. Please configure at least one RPC URL in the environment variables."
+			`No FeeCollector deployment configured for chain ${chainId}`
+		);
+	}
+	return deployments[deployments.length - 1];
+}
+
+/**
+ * Get the deployment of a chain with the given address
+ * @param chainId - The chain ID to look up
+ * @param contractAddress - The contract address, in any case
+ * @returns The deployment, or undefined if the address is not deployed on the chain
+ */
+export function findContractDeployment(
+	chainId: number,
+	contractAddress: string
+): ContractDeployment | undefined {
+	const address = contractAddress.toLowerCase();
+	return getContractDeployments(chainId).find(
+		(deployment) => deployment.address.toLowerCase() === address
+	);
+}
+
+/**
+ * Validate that every enabled chain is registered.
+ * Called at startup once the chains stored in the database are registered.
+ * @throws ConfigurationError if no chain is enabled or an enabled chain is not registered
+ */
+export function validateChainConfigs(): void {
+	if (config.enabledChains.length === 0) {
+		throw new ConfigurationError("enabledChains does not name any chain");
+	}
+
+	const unknown = findUnregisteredChains(config.enabledChains);
+	if (unknown.length > 0) {
+		throw new ConfigurationError(
+			`Chains in enabledChains are not in the chain registry: ${unknown.join(", ")}. Supported chains: ${getSupportedChainIds().join(", ")}`
 		);
 	}
 }
+
+/**
+ * Get the chains of a list that are not in the chain registry
+ * @param chainIds - The chain IDs to check
+ */
+function findUnregisteredChains(chainIds: number[]): number[] {
+	return chainIds.filter((chainId) => !isSupportedChain(chainId));
+}
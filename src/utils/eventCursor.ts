@@ -0,0 +1,37 @@
+import { EventCursor } from "../types/events";
+
+/**
+ * eventCursor.ts
+ *
+ * Opaque pagination cursors over the position of an event in its chain.
+ */
+
+/**
+ * Encode the position of an event as an opaque cursor
+ * @param cursor - The block number and log index of the event
+ * @returns A URL-safe cursor string
+ */
+export function encodeEventCursor({
+	blockNumber,
+	logIndex,
+}: EventCursor): string {
+	return Buffer.from(`${blockNumber}:${logIndex}`).toString("base64url");
+}
+
+/**
+ * Decode a cursor created by encodeEventCursor
+ * @param value - The cursor string
+ * @returns The event position, or null when the cursor is invalid
+ */
+export function decodeEventCursor(value: string): EventCursor | null {
+	const match = /^(\d+):(\d+)$/.exec(
+		Buffer.from(value, "base64url").toString("utf8")
+	);
+	if (!match) return null;
+	const blockNumber = Number(match[1]);
+	const logIndex = Number(match[2]);
+	if (!Number.isSafeInteger(blockNumber) || !Number.isSafeInteger(logIndex)) {
+		return null;
+	}
+	return { blockNumber, logIndex };
+}
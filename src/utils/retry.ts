@@ -0,0 +1,67 @@
+import { sleep } from "./sleep";
+
+/**
+ * retry.ts
+ *
+ * Retries an async operation with jittered exponential backoff.
+ */
+
+/**
+ * @property {number} retries - Retries after the first attempt (0 disables retrying)
+ * @property {number} baseDelayMs - Backoff ceiling of the first retry, doubled on every attempt
+ * @property {number} maxDelayMs - Upper bound of the backoff ceiling
+ * @property {Function} shouldRetry - Decides whether an error is worth retrying
+ * @property {Function} [onRetry] - Called before each retry, e.g. for logging
+ */
+export interface RetryOptions {
+	retries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	shouldRetry: (error: unknown) => boolean;
+	onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Computes the "full jitter" backoff delay for an attempt: a random value
+ * between 0 and min(maxDelayMs, baseDelayMs * 2^attempt).
+ * @param attempt - Zero-based retry attempt
+ * @param baseDelayMs - Backoff ceiling of the first retry
+ * @param maxDelayMs - Upper bound of the backoff ceiling
+ */
+export function backoffDelay(
+	attempt: number,
+	baseDelayMs: number,
+	maxDelayMs: number
+): number {
+	const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+	return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Runs the operation, retrying retryable failures with jittered exponential backoff.
+ * @param fn - The operation to run
+ * @param options - Retry settings
+ * @returns The operation's result
+ * @throws The last error once retries are exhausted or the error is not retryable
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	options: RetryOptions
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await fn();
+		} catch (error) {
+			if (attempt >= options.retries || !options.shouldRetry(error)) {
+				throw error;
+			}
+			const delayMs = backoffDelay(
+				attempt,
+				options.baseDelayMs,
+				options.maxDelayMs
+			);
+			options.onRetry?.(error, attempt + 1, delayMs);
+			await sleep(delayMs);
+		}
+	}
+}
@@ -0,0 +1,152 @@
+/**
+ * rpcErrors.ts
+ *
+ * Classification of JSON-RPC provider errors.
+ * Uses the structured codes attached by ethers, Node's network layer and the
+ * JSON-RPC error payload instead of matching free-form messages, except for
+ * oversized log queries which providers only report through their message.
+ */
+
+/**
+ * How the caller should react to an RPC error
+ * - range_limit: the eth_getLogs range or result count was too large, retry with a smaller range
+ * - retryable: transient failure (timeout, network, rate limit, server error), retry with backoff
+ * - fatal: the request itself is wrong or unsupported, retrying will not help
+ */
+export type RpcErrorKind = "range_limit" | "retryable" | "fatal";
+
+/**
+ * Classified RPC error with a short human-readable reason
+ */
+export interface RpcErrorClassification {
+	kind: RpcErrorKind;
+	reason:
+		| "range_limit"
+		| "timeout"
+		| "network"
+		| "rate_limit"
+		| "server"
+		| "request"
+		| "unknown";
+}
+
+// Messages used by common providers when a log query spans too many blocks or results
+const RANGE_LIMIT_PATTERNS = [
+	/query returned more than \d+ results/i,
+	/more than \d+ results/i,
+	/block range (is )?too (large|wide)/i,
+	/exceed(s|ed)? (the )?max(imum)? block range/i,
+	/range (is )?too large/i,
+	/log response size exceeded/i,
+	/query exceeds max results/i,
+];
+
+// ethers v5 error codes
+const ETHERS_TIMEOUT_CODES = new Set(["TIMEOUT"]);
+const ETHERS_NETWORK_CODES = new Set(["NETWORK_ERROR"]);
+const ETHERS_SERVER_CODES = new Set(["SERVER_ERROR"]);
+const ETHERS_FATAL_CODES = new Set([
+	"INVALID_ARGUMENT",
+	"MISSING_ARGUMENT",
+	"UNEXPECTED_ARGUMENT",
+	"CALL_EXCEPTION",
+	"NOT_IMPLEMENTED",
+	"UNSUPPORTED_OPERATION",
+	"NUMERIC_FAULT",
+	"UNKNOWN_ERROR",
+]);
+
+// Node.js socket/DNS error codes
+const NODE_TIMEOUT_CODES = new Set(["ETIMEDOUT", "ESOCKETTIMEDOUT"]);
+const NODE_NETWORK_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"EPIPE",
+	"EHOSTUNREACH",
+	"ENETUNREACH",
+	"EAI_AGAIN",
+	"ENOTFOUND",
+]);
+
+// JSON-RPC error codes (EIP-1474)
+const JSON_RPC_RATE_LIMIT_CODES = new Set([-32005, 429]);
+const JSON_RPC_SERVER_CODES = new Set([-32603, -32000]);
+const JSON_RPC_FATAL_CODES = new Set([-32700, -32600, -32601, -32602]);
+
+/**
+ * Collects every message an ethers/JSON-RPC error carries
+ * @param error - The error thrown by the provider
+ */
+function collectMessages(error: any): string {
+	return [error?.message, error?.error?.message, error?.body, error?.reason]
+		.filter((part) => typeof part === "string")
+		.join(" ");
+}
+
+/**
+ * Collects the codes and HTTP status an ethers/JSON-RPC error carries, outermost first
+ * @param error - The error thrown by the provider
+ */
+function collectCodes(error: any): Array<string | number> {
+	return [
+		error?.code,
+		error?.status,
+		error?.error?.code,
+		error?.error?.status,
+		error?.serverError?.code,
+	].filter((code) => typeof code === "string" || typeof code === "number");
+}
+
+/**
+ * Whether an error means the eth_getLogs range or result count was too large
+ * @param error - The error thrown by the provider
+ */
+export function isRangeLimitError(error: unknown): boolean {
+	const message = collectMessages(error);
+	return RANGE_LIMIT_PATTERNS.some((pattern) => pattern.test(message));
+}
+
+/**
+ * Classifies an RPC error as range limit, retryable or fatal.
+ * Errors without any recognised code are treated as fatal.
+ * @param error - The error thrown by the provider
+ */
+export function classifyRpcError(error: unknown): RpcErrorClassification {
+	if (isRangeLimitError(error)) {
+		return { kind: "range_limit", reason: "range_limit" };
+	}
+
+	for (const code of collectCodes(error)) {
+		if (
+			ETHERS_TIMEOUT_CODES.has(code as string) ||
+			NODE_TIMEOUT_CODES.has(code as string)
+		) {
+			return { kind: "retryable", reason: "timeout" };
+		}
+		if (
+			ETHERS_NETWORK_CODES.has(code as string) ||
+			NODE_NETWORK_CODES.has(code as string)
+		) {
+			return { kind: "retryable", reason: "network" };
+		}
+		if (JSON_RPC_RATE_LIMIT_CODES.has(code as number)) {
+			return { kind: "retryable", reason: "rate_limit" };
+		}
+		if (
+			ETHERS_SERVER_CODES.has(code as string) ||
+			JSON_RPC_SERVER_CODES.has(code as number) ||
+			(typeof code === "number" && code >= 500 && code < 600)
+		) {
+			return { kind: "retryable", reason: "server" };
+		}
+		if (
+			ETHERS_FATAL_CODES.has(code as string) ||
+			JSON_RPC_FATAL_CODES.has(code as number)
+		) {
+			return { kind: "fatal", reason: "request" };
+		}
+	}
+
+	return { kind: "fatal", reason: "unknown" };
+}
@@ -0,0 +1,30 @@
+/**
+ * sleep.ts
+ *
+ * Promise-based delay helper used by long-running loops.
+ * Resolves early (without throwing) when the given AbortSignal fires,
+ * so callers can check `signal.aborted` and exit cleanly.
+ */
+
+/**
+ * Waits for the given number of milliseconds or until the signal is aborted.
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional AbortSignal that cuts the delay short
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
@@ -0,0 +1,131 @@
+/**
+ * throughputTracker.ts
+ *
+ * Keeps scan throughput statistics for a chain: running totals plus block and
+ * event rates over a sliding time window.
+ */
+
+/**
+ * Snapshot of a chain's scan throughput
+ *
+ * @property {number} totalBlocks - Blocks scanned since start
+ * @property {number} totalEvents - Events found since start
+ * @property {number} totalChunks - Chunks scanned successfully since start
+ * @property {number} failedChunks - Chunks that failed since start
+ * @property {number} inFlight - Chunks currently being scanned
+ * @property {number} blocksPerSecond - Scanned blocks per second over the window
+ * @property {number} eventsPerSecond - Found events per second over the window
+ * @property {number} avgChunkDurationMs - Average chunk duration over the window
+ * @property {number | null} lastChunkAt - When the last chunk finished (ms since epoch)
+ */
+export interface ThroughputStats {
+	totalBlocks: number;
+	totalEvents: number;
+	totalChunks: number;
+	failedChunks: number;
+	inFlight: number;
+	blocksPerSecond: number;
+	eventsPerSecond: number;
+	avgChunkDurationMs: number;
+	lastChunkAt: number | null;
+}
+
+interface ChunkSample {
+	startedAt: number;
+	finishedAt: number;
+	blocks: number;
+	events: number;
+}
+
+export class ThroughputTracker {
+	private samples: ChunkSample[] = [];
+	private totalBlocks = 0;
+	private totalEvents = 0;
+	private totalChunks = 0;
+	private failedChunks = 0;
+	private inFlight = 0;
+
+	/**
+	 * @param windowMs - Length of the sliding window the rates are computed over
+	 * @param now - Clock, replaceable in tests
+	 */
+	constructor(
+		private readonly windowMs = 60000,
+		private readonly now: () => number = Date.now
+	) {}
+
+	/**
+	 * Marks the start of a chunk
+	 * @returns The start time, to be passed to chunkSucceeded
+	 */
+	public chunkStarted(): number {
+		this.inFlight++;
+		return this.now();
+	}
+
+	/**
+	 * Records a successfully scanned chunk
+	 * @param startedAt - Value returned by chunkStarted
+	 * @param blocks - Number of blocks in the chunk
+	 * @param events - Number of events found in the chunk
+	 */
+	public chunkSucceeded(
+		startedAt: number,
+		blocks: number,
+		events: number
+	): void {
+		this.inFlight = Math.max(this.inFlight - 1, 0);
+		this.totalBlocks += blocks;
+		this.totalEvents += events;
+		this.totalChunks++;
+		this.samples.push({ startedAt, finishedAt: this.now(), blocks, events });
+		this.prune();
+	}
+
+	/**
+	 * Records a chunk that failed or has to be retried
+	 */
+	public chunkFailed(): void {
+		this.inFlight = Math.max(this.inFlight - 1, 0);
+		this.failedChunks++;
+	}
+
+	/**
+	 * Current throughput statistics
+	 */
+	public getStats(): ThroughputStats {
+		this.prune();
+		const blocks = this.samples.reduce((sum, s) => sum + s.blocks, 0);
+		const events = this.samples.reduce((sum, s) => sum + s.events, 0);
+		const durations = this.samples.reduce(
+			(sum, s) => sum + (s.finishedAt - s.startedAt),
+			0
+		);
+		// Rates are measured from the start of the oldest chunk in the window
+		const elapsedSeconds = this.samples.length
+			? Math.max(this.now() - this.samples[0].startedAt, 1) / 1000
+			: 0;
+		const round = (value: number) => Math.round(value * 100) / 100;
+
+		return {
+			totalBlocks: this.totalBlocks,
+			totalEvents: this.totalEvents,
+			totalChunks: this.totalChunks,
+			failedChunks: this.failedChunks,
+			inFlight: this.inFlight,
+			blocksPerSecond: elapsedSeconds ? round(blocks / elapsedSeconds) : 0,
+			eventsPerSecond: elapsedSeconds ? round(events / elapsedSeconds) : 0,
+			avgChunkDurationMs: this.samples.length
+				? Math.round(durations / this.samples.length)
+				: 0,
+			lastChunkAt: this.samples.length
+				? this.samples[this.samples.length - 1].finishedAt
+				: null,
+		};
+	}
+
+	private prune(): void {
+		const cutoff = this.now() - this.windowMs;
+		this.samples = this.samples.filter((sample) => sample.finishedAt >= cutoff);
+	}
+}
@@ -0,0 +1,21 @@
+import { ethers } from "ethers";
+
+/**
+ * tokenAmounts.ts
+ *
+ * Formatting of raw token amounts, which are integers in the token's smallest unit.
+ */
+
+/**
+ * Format a raw amount as a decimal string, e.g. "1500000" with 6 decimals as "1.5"
+ * @param amount - The raw amount as an integer string, may be negative
+ * @param decimals - The token's decimals
+ * @returns The formatted amount, or null when the decimals are unknown
+ */
+export function formatTokenAmount(
+	amount: string,
+	decimals: number | undefined
+): string | null {
+	if (decimals === undefined) return null;
+	return ethers.utils.formatUnits(amount, decimals);
+}
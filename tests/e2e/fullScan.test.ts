@@ -66,6 +66,9 @@ describe("E2E: Full Scanner Flow", () => {
 		// Verify events were stored
 		const events = await FeeCollectedEventModel.find({});
 		expect(events.length).toBeGreaterThan(0);
+		expect(events.every((event) => event.blockTimestamp instanceof Date)).toBe(
+			true
+		);
 
 		// Verify last scanned block was updated
 		const lastBlock = await LastScannedBlockModel.findOne({});
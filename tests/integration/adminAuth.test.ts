@@ -0,0 +1,80 @@
+import request from "supertest";
+import express from "express";
+import { config } from "../../src/utils/config";
+import { requireAdminToken } from "../../src/middleware/adminAuth";
+
+// Mock the logger
+jest.mock("../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+/**
+ * Integration tests for the admin token guarding the /admin routes
+ */
+describe("admin token", () => {
+	const TOKEN = "s3cret-admin-token";
+	const adminApiToken = config.adminApiToken;
+	let app: express.Express;
+
+	beforeAll(() => {
+		// A stand-in admin route, so no database is needed
+		app = express();
+		app.use("/admin", requireAdminToken, (req, res) => {
+			res.json({ success: true });
+		});
+	});
+
+	beforeEach(() => {
+		config.adminApiToken = TOKEN;
+	});
+
+	afterAll(() => {
+		config.adminApiToken = adminApiToken;
+	});
+
+	it("should pass a request with the configured bearer token", async () => {
+		const response = await request(app)
+			.post("/admin/backfill")
+			.set("Authorization", `Bearer ${TOKEN}`);
+
+		expect(response.status).toBe(200);
+		expect(response.body).toEqual({ success: true });
+	});
+
+	it("should reject a request without a token", async () => {
+		const response = await request(app).post("/admin/backfill");
+
+		expect(response.status).toBe(401);
+		expect(response.body).toEqual({
+			success: false,
+			error: "A valid admin token is required",
+		});
+	});
+
+	it("should reject a wrong token and other schemes", async () => {
+		const wrong = await request(app)
+			.delete("/admin/failed-chunks")
+			.set("Authorization", "Bearer not-the-token");
+		const basic = await request(app)
+			.delete("/admin/failed-chunks")
+			.set("Authorization", `Basic ${TOKEN}`);
+
+		expect(wrong.status).toBe(401);
+		expect(basic.status).toBe(401);
+	});
+
+	it("should disable the admin API when no token is configured", async () => {
+		config.adminApiToken = undefined;
+
+		const response = await request(app)
+			.get("/admin/scanner")
+			.set("Authorization", `Bearer ${TOKEN}`);
+
+		expect(response.status).toBe(404);
+		expect(response.body.success).toBe(false);
+		expect(response.body.error).toMatch(/ADMIN_API_TOKEN/);
+	});
+});
@@ -0,0 +1,155 @@
+import mongoose from "mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+import { providers } from "ethers";
+import { EventService } from "../../src/services/eventService";
+import { FeeCollectedEventModel } from "../../src/models/FeeCollectedEvent";
+import { LastScannedBlockModel } from "../../src/models/LastScannedBlock";
+import { FeeCollectedEventData } from "../../src/types/events";
+import { getCurrentContract } from "../../src/utils/config";
+import { ChainIds } from "../../src/types/chains";
+import { DataIntegrityError } from "../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	afterAll,
+	beforeEach,
+	jest,
+} from "@jest/globals";
+
+// Mock logger to prevent console output during tests
+jest.mock("../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+// Starting a replica set takes longer than a standalone server
+jest.setTimeout(60000);
+
+const TEST_CHAIN_ID = ChainIds.POLYGON;
+
+/**
+ * Integration tests for committing a chunk's events and checkpoint
+ * in one transaction on a replica set
+ */
+describe("Chunk commit on a replica set", () => {
+	let replSet: MongoMemoryReplSet;
+	let eventService: EventService;
+
+	const mockEvent = {
+		args: {
+			token: "0x1234567890123456789012345678901234567890",
+			integrator: "0x9876543210987654321098765432109876543210",
+			integratorFee: "1000000000000000000",
+			lifiFee: "500000000000000000",
+		},
+		blockNumber: 1000,
+		transactionHash:
+			"0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890",
+		logIndex: 0,
+		address: getCurrentContract(TEST_CHAIN_ID).address,
+		topics: [],
+		data: "0x",
+		blockHash: "0xabc...",
+		transactionIndex: 0,
+		removed: false,
+		removeListener: () => {},
+		getBlock: () => Promise.resolve({} as providers.Block),
+		getTransaction: () => Promise.resolve({} as providers.TransactionResponse),
+		getTransactionReceipt: () =>
+			Promise.resolve({} as providers.TransactionReceipt),
+	} as FeeCollectedEventData;
+
+	beforeAll(async () => {
+		replSet = await MongoMemoryReplSet.create({
+			replSet: { count: 1, storageEngine: "wiredTiger" },
+		});
+		await mongoose.connect(replSet.getUri());
+		// Collections cannot be created implicitly inside a transaction on older servers
+		await Promise.all([
+			FeeCollectedEventModel.createCollection(),
+			LastScannedBlockModel.createCollection(),
+		]);
+		await Promise.all([
+			FeeCollectedEventModel.createIndexes(),
+			LastScannedBlockModel.createIndexes(),
+		]);
+
+		eventService = EventService.getInstance();
+		(eventService as any).transactionsSupported = null;
+	});
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await replSet.stop();
+	});
+
+	beforeEach(async () => {
+		await Promise.all([
+			FeeCollectedEventModel.deleteMany({}),
+			LastScannedBlockModel.deleteMany({}),
+		]);
+	});
+
+	it("should commit the events and the checkpoint in one transaction", async () => {
+		await eventService.commitChunk(TEST_CHAIN_ID, [mockEvent], 1999, "0xabc");
+
+		expect((eventService as any).transactionsSupported).toBe(true);
+		expect(await FeeCollectedEventModel.countDocuments({})).toBe(1);
+		const lastBlock = await LastScannedBlockModel.findOne({});
+		expect(lastBlock?.blockNumber).toBe(1999);
+		expect(lastBlock?.blockHash).toBe("0xabc");
+	});
+
+	it("should store no events when the checkpoint write fails", async () => {
+		const updateOne = jest
+			.spyOn(LastScannedBlockModel, "updateOne")
+			.mockRejectedValueOnce(new Error("Write failed") as never);
+		try {
+			await expect(
+				eventService.commitChunk(TEST_CHAIN_ID, [mockEvent], 1999)
+			).rejects.toThrow("Failed to commit chunk");
+		} finally {
+			updateOne.mockRestore();
+		}
+
+		expect(await FeeCollectedEventModel.countDocuments({})).toBe(0);
+		expect(await LastScannedBlockModel.findOne({})).toBeNull();
+	});
+
+	it("should roll back the chunk when an event conflicts with a stored one", async () => {
+		await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+		const conflicting = {
+			...mockEvent,
+			args: { ...mockEvent.args, lifiFee: "1" },
+		} as FeeCollectedEventData;
+
+		await expect(
+			eventService.commitChunk(
+				TEST_CHAIN_ID,
+				[{ ...mockEvent, logIndex: 1 } as FeeCollectedEventData, conflicting],
+				1999
+			)
+		).rejects.toThrow(DataIntegrityError);
+
+		expect(await FeeCollectedEventModel.countDocuments({})).toBe(1);
+		expect(await LastScannedBlockModel.findOne({})).toBeNull();
+	});
+
+	it("should skip events that are already stored", async () => {
+		await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+
+		await eventService.commitChunk(
+			TEST_CHAIN_ID,
+			[mockEvent, { ...mockEvent, logIndex: 1 } as FeeCollectedEventData],
+			1999
+		);
+
+		expect(await FeeCollectedEventModel.countDocuments({})).toBe(2);
+		const lastBlock = await LastScannedBlockModel.findOne({});
+		expect(lastBlock?.blockNumber).toBe(1999);
+	});
+});
@@ -4,6 +4,8 @@ import mongoose from "mongoose";
 import { config } from "../../src/utils/config";
 import eventsRouter from "../../src/controllers/eventsController";
 import { FeeCollectedEventModel } from "../../src/models/FeeCollectedEvent";
+import { TokenModel } from "../../src/models/Token";
+import { LastScannedBlockModel } from "../../src/models/LastScannedBlock";
 
 // Test database configuration
 const TEST_DB_NAME = "eventsapi_test";
@@ -41,6 +43,7 @@ describe("GET /events/integrator/:integrator", () => {
 	// Reset database state before each test
 	beforeEach(async () => {
 		await FeeCollectedEventModel.deleteMany({});
+		await TokenModel.deleteMany({});
 	});
 
 	/**
@@ -94,6 +97,180 @@ describe("GET /events/integrator/:integrator", () => {
 		expect(res.body.meta.timestamp).toBeDefined();
 	});
 
+	/**
+	 * Test formatting of the fees with the token's decimals
+	 * Verifies:
+	 * - Raw amounts are returned unchanged
+	 * - Formatted amounts and the token symbol are added
+	 */
+	it("should return formatted amounts next to the raw amounts", async () => {
+		await TokenModel.create({
+			chainId: 137,
+			address: anotherAddress,
+			symbol: "USDC",
+			name: "USD Coin",
+			decimals: 6,
+		});
+		await FeeCollectedEventModel.create({
+			chainId: 137,
+			contractAddress: validAddress,
+			token: anotherAddress,
+			integrator: validAddress,
+			integratorFee: "1500000",
+			lifiFee: "250000",
+			blockNumber: 123,
+			transactionHash: validTxHash,
+			logIndex: 0,
+		});
+
+		const res = await request(app).get(
+			`/events/integrator/137/${validAddress}`
+		);
+
+		expect(res.status).toBe(200);
+		expect(res.body.data.events[0]).toMatchObject({
+			integratorFee: "1500000",
+			integratorFeeFormatted: "1.5",
+			lifiFee: "250000",
+			lifiFeeFormatted: "0.25",
+			tokenSymbol: "USDC",
+			tokenDecimals: 6,
+		});
+	});
+
+	/**
+	 * Test valuation of the fees in USD
+	 * Verifies:
+	 * - Events that cannot be priced are marked with the reason
+	 * - Unknown USD values are null, never zero
+	 */
+	it("should mark events without a USD value", async () => {
+		await FeeCollectedEventModel.create({
+			chainId: 137,
+			contractAddress: validAddress,
+			token: anotherAddress,
+			integrator: validAddress,
+			integratorFee: "1500000",
+			lifiFee: "250000",
+			blockNumber: 123,
+			transactionHash: validTxHash,
+			logIndex: 0,
+		});
+
+		const res = await request(app).get(
+			`/events/integrator/137/${validAddress}`
+		);
+
+		expect(res.status).toBe(200);
+		expect(res.body.data.events[0]).toMatchObject({
+			priceUsd: null,
+			integratorFeeUsd: null,
+			lifiFeeUsd: null,
+			priceStatus: "no_timestamp",
+		});
+	});
+
+	/**
+	 * Test cursor pagination
+	 * Verifies:
+	 * - The page size is limited
+	 * - The next cursor continues after the last event of the page
+	 * - Invalid pagination parameters are rejected
+	 */
+	it("should page through the events with a cursor", async () => {
+		await FeeCollectedEventModel.create(
+			[0, 1, 2].map((logIndex) => ({
+				chainId: 137,
+				contractAddress: validAddress,
+				token: anotherAddress,
+				integrator: validAddress,
+				integratorFee: "1000",
+				lifiFee: "500",
+				blockNumber: 123,
+				transactionHash: validTxHash,
+				logIndex,
+			}))
+		);
+
+		const first = await request(app).get(
+			`/events/integrator/137/${validAddress}?limit=2&order=desc`
+		);
+		expect(first.status).toBe(200);
+		expect(
+			first.body.data.events.map((e: { logIndex: number }) => e.logIndex)
+		).toEqual([2, 1]);
+		expect(first.body.meta.hasMore).toBe(true);
+
+		const second = await request(app).get(
+			`/events/integrator/137/${validAddress}?limit=2&order=desc&cursor=${first.body.meta.nextCursor}`
+		);
+		expect(
+			second.body.data.events.map((e: { logIndex: number }) => e.logIndex)
+		).toEqual([0]);
+		expect(second.body.meta.hasMore).toBe(false);
+		expect(second.body.meta.nextCursor).toBeNull();
+
+		const invalid = await request(app).get(
+			`/events/integrator/137/${validAddress}?cursor=garbage`
+		);
+		expect(invalid.status).toBe(400);
+		expect(invalid.body.error).toBe("Invalid cursor");
+	});
+
+	/**
+	 * Test the finalized flag on a chain with a retired deployment
+	 * Verifies:
+	 * - Each event is compared with the checkpoint of its own contract
+	 * - meta.finalizedBlock holds the current contract's checkpoint
+	 */
+	it("should flag events against the checkpoint of their own contract", async () => {
+		const chain = config.chains[137];
+		const contracts = chain.contracts;
+		const currentContract = contracts[contracts.length - 1].address;
+		chain.contracts = [
+			{ address: validAddress, startBlock: 0, endBlock: 500 },
+			...contracts,
+		];
+		try {
+			await LastScannedBlockModel.deleteMany({});
+			await LastScannedBlockModel.create([
+				{ chainId: 137, contractAddress: validAddress, blockNumber: 500 },
+				{
+					chainId: 137,
+					contractAddress: currentContract.toLowerCase(),
+					blockNumber: 100,
+				},
+			]);
+			await FeeCollectedEventModel.create(
+				[
+					{ contractAddress: validAddress, blockNumber: 400, logIndex: 0 },
+					{ contractAddress: currentContract, blockNumber: 150, logIndex: 1 },
+				].map((event) => ({
+					...event,
+					chainId: 137,
+					token: anotherAddress,
+					integrator: validAddress,
+					integratorFee: "1000",
+					lifiFee: "500",
+					transactionHash: validTxHash,
+				}))
+			);
+
+			const res = await request(app).get(
+				`/events/integrator/137/${validAddress}`
+			);
+
+			expect(res.status).toBe(200);
+			expect(
+				res.body.data.events.map((e: { finalized: boolean }) => e.finalized)
+			).toEqual([false, true]);
+			expect(res.body.meta.finalizedBlock).toBe(100);
+		} finally {
+			chain.contracts = contracts;
+			await LastScannedBlockModel.deleteMany({});
+		}
+	});
+
 	/**
 	 * Test error handling for invalid integrator address
 	 * Verifies:
@@ -1,9 +1,10 @@
 import { ScannerService } from "../../src/services/scannerService";
 import { EventService } from "../../src/services/eventService";
+import { ReorgService } from "../../src/services/reorgService";
 import { BlockchainService } from "../../src/services/blockchainService";
 import { FeeCollectedEventModel } from "../../src/models/FeeCollectedEvent";
 import { LastScannedBlockModel } from "../../src/models/LastScannedBlock";
-import { config } from "../../src/utils/config";
+import { config, getCurrentContract } from "../../src/utils/config";
 import { FeeCollectedEventData } from "../../src/types/events";
 import mongoose from "mongoose";
 import { providers } from "ethers";
@@ -26,6 +27,7 @@ const TEST_MONGO_URI = config.testMongoUri.replace("/test", `/${TEST_DB_NAME}`);
 // Mock service dependencies
 jest.mock("../../src/services/blockchainService");
 jest.mock("../../src/services/eventService");
+jest.mock("../../src/services/reorgService");
 jest.mock("ethers");
 
 // Mock logger to prevent console output during tests
@@ -49,6 +51,7 @@ describe("Scanner Integration", () => {
 	let scannerService: ScannerService;
 	let mockBlockchainService: jest.Mocked<BlockchainService>;
 	let mockEventService: jest.Mocked<EventService>;
+	let mockReorgService: jest.Mocked<ReorgService>;
 
 	// Sample test data for fee collection events
 	const mockEvents = [
@@ -63,7 +66,7 @@ describe("Scanner Integration", () => {
 			transactionHash:
 				"0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890",
 			logIndex: 0,
-			address: config.contractAddress,
+			address: getCurrentContract(TEST_CHAIN_ID).address,
 			topics: [],
 			data: "0x",
 			blockHash: "0xabc...",
@@ -87,20 +90,40 @@ describe("Scanner Integration", () => {
 			// Create mock service instances
 			mockBlockchainService = {
 				getLatestBlock: jest.fn(),
+				getConfirmedBlock: jest.fn(),
+				getBlockHash: jest.fn(),
 				loadFeeCollectorEvents: jest.fn(),
+				loadWithdrawalEvents: jest.fn(),
 				parseFeeCollectorEvents: jest.fn(),
+				getBlockTimestamps: jest.fn(),
+				getTransactionContexts: jest.fn(),
 			} as unknown as jest.Mocked<BlockchainService>;
 
 			mockEventService = {
 				getLastScannedBlock: jest.fn(),
 				storeEvents: jest.fn(),
 				updateLastScannedBlock: jest.fn(),
+				commitChunk: jest.fn(),
 			} as unknown as jest.Mocked<EventService>;
 
+			mockReorgService = {
+				checkForReorg: jest.fn(),
+				recordScannedBlock: jest.fn(),
+			} as unknown as jest.Mocked<ReorgService>;
+
+			mockBlockchainService.getBlockHash.mockResolvedValue("0xblockhash");
+			mockBlockchainService.loadWithdrawalEvents.mockResolvedValue([]);
+			mockBlockchainService.getBlockTimestamps.mockResolvedValue(new Map());
+
 			// Initialize scanner service with mocked dependencies
 			scannerService = ScannerService.getInstance();
 			(scannerService as any).blockchainService = mockBlockchainService;
 			(scannerService as any).eventService = mockEventService;
+			(scannerService as any).reorgService = mockReorgService;
+			(scannerService as any).tokenService = {
+				resolveTokens: jest.fn(async () => new Map()),
+				getTokens: jest.fn(async () => new Map()),
+			};
 		} catch (error) {
 			logger.error({ error }, "Setup failed");
 			throw error;
@@ -158,14 +181,22 @@ describe("Scanner Integration", () => {
 		mockBlockchainService.parseFeeCollectorEvents.mockReturnValue(mockEvents);
 
 		// Mock database update for last scanned block
-		mockEventService.updateLastScannedBlock.mockImplementation(
-			async (chainId, blockNumber) => {
+		mockEventService.commitChunk.mockImplementation(
+			async (
+				chainId,
+				events,
+				blockNumber,
+				blockHash,
+				_withdrawals,
+				contractAddress
+			) => {
 				try {
 					await LastScannedBlockModel.updateOne(
-						{ chainId },
-						{ $set: { blockNumber } },
+						{ chainId, contractAddress: contractAddress?.toLowerCase() },
+						{ $set: { blockNumber, blockHash } },
 						{ upsert: true }
 					);
+					return { inserted: events.length, alreadyPresent: 0 };
 				} catch (error) {
 					logger.error(
 						{ chainId, blockNumber, error },
@@ -208,8 +239,7 @@ describe("Scanner Integration", () => {
 		await scannerService.scanBlocks(TEST_CHAIN_ID, 2000, 2000);
 
 		// Verify no operations occurred
-		expect(mockEventService.storeEvents).not.toHaveBeenCalled();
-		expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+		expect(mockEventService.commitChunk).not.toHaveBeenCalled();
 	});
 
 	/**
@@ -236,8 +266,7 @@ describe("Scanner Integration", () => {
 		).rejects.toThrow("Blockchain error");
 
 		// Verify no operations occurred
-		expect(mockEventService.storeEvents).not.toHaveBeenCalled();
-		expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+		expect(mockEventService.commitChunk).not.toHaveBeenCalled();
 	});
 
 	/**
@@ -260,8 +289,7 @@ describe("Scanner Integration", () => {
 		).rejects.toThrow("Database error");
 
 		// Verify no operations occurred
-		expect(mockEventService.storeEvents).not.toHaveBeenCalled();
-		expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+		expect(mockEventService.commitChunk).not.toHaveBeenCalled();
 	});
 
 	/**
@@ -289,10 +317,13 @@ describe("Scanner Integration", () => {
 		await scannerService.scanBlocks(TEST_CHAIN_ID, 999, 2000);
 
 		// Verify chunked processing
-		expect(mockEventService.storeEvents).toHaveBeenCalledTimes(2);
-		expect(mockEventService.updateLastScannedBlock).toHaveBeenCalledWith(
+		expect(mockEventService.commitChunk).toHaveBeenCalledTimes(2);
+		expect(mockEventService.commitChunk).toHaveBeenCalledWith(
 			TEST_CHAIN_ID,
-			1998
+			[mockEvents[0]],
+			1998,
+			"0xblockhash",
+			[]
 		);
 	});
 });
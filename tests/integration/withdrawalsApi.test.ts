@@ -0,0 +1,106 @@
+import request from "supertest";
+import express from "express";
+import mongoose from "mongoose";
+import { config } from "../../src/utils/config";
+import withdrawalsRouter from "../../src/controllers/withdrawalsController";
+import { FeesWithdrawnEventModel } from "../../src/models/FeesWithdrawnEvent";
+import { LiFiFeesWithdrawnEventModel } from "../../src/models/LiFiFeesWithdrawnEvent";
+
+// Test database configuration
+const TEST_DB_NAME = "withdrawalsapi_test";
+const TEST_MONGO_URI = config.testMongoUri.replace("/test", `/${TEST_DB_NAME}`);
+
+// Test data constants
+const validAddress = "0x" + "a".repeat(40); // 42 chars
+const anotherAddress = "0x" + "b".repeat(40); // 42 chars
+const validTxHash = "0x" + "c".repeat(64); // 66 chars
+
+// Builds a withdrawal document to the given address
+const withdrawalTo = (to: string, logIndex: number) => ({
+	chainId: 137,
+	contractAddress: validAddress,
+	token: validAddress,
+	to,
+	amount: "1000000000000000000",
+	blockNumber: 123,
+	transactionHash: validTxHash,
+	logIndex,
+});
+
+/**
+ * Integration tests for the Withdrawals API endpoints
+ * Tests the /withdrawals/integrator/:chainId/:integrator and /withdrawals/lifi/:chainId endpoints
+ */
+describe("GET /withdrawals", () => {
+	let app: express.Express;
+
+	// Setup test environment
+	beforeAll(async () => {
+		// Connect to test database
+		await mongoose.connect(TEST_MONGO_URI, {
+			serverSelectionTimeoutMS: 5000,
+		});
+		// Initialize Express app with withdrawals router
+		app = express();
+		app.use(express.json());
+		app.use("/withdrawals", withdrawalsRouter);
+	});
+
+	// Cleanup after all tests
+	afterAll(async () => {
+		await mongoose.disconnect();
+	});
+
+	// Reset database state before each test
+	beforeEach(async () => {
+		await Promise.all([
+			FeesWithdrawnEventModel.deleteMany({}),
+			LiFiFeesWithdrawnEventModel.deleteMany({}),
+		]);
+	});
+
+	it("should return the withdrawals of a valid integrator", async () => {
+		await FeesWithdrawnEventModel.create([
+			withdrawalTo(validAddress, 0),
+			withdrawalTo(anotherAddress, 1),
+		]);
+
+		const res = await request(app).get(
+			`/withdrawals/integrator/137/${validAddress}`
+		);
+
+		expect(res.status).toBe(200);
+		expect(res.body.success).toBe(true);
+		expect(res.body.data.withdrawals).toHaveLength(1);
+		expect(res.body.data.withdrawals[0].to).toBe(validAddress);
+		expect(res.body.meta.count).toBe(1);
+		expect(res.body.meta.timestamp).toBeDefined();
+	});
+
+	it("should return 400 for invalid integrator address", async () => {
+		const res = await request(app).get(
+			`/withdrawals/integrator/137/invalidaddress`
+		);
+		expect(res.status).toBe(400);
+		expect(res.body.success).toBe(false);
+		expect(res.body.error).toMatch(/Invalid integrator address/);
+	});
+
+	it("should return 400 for an unsupported chain", async () => {
+		const res = await request(app).get(`/withdrawals/lifi/999999`);
+		expect(res.status).toBe(400);
+		expect(res.body.success).toBe(false);
+		expect(res.body.error).toMatch(/Invalid chain ID/);
+	});
+
+	it("should return the LiFi withdrawals of a chain", async () => {
+		await LiFiFeesWithdrawnEventModel.create(withdrawalTo(anotherAddress, 0));
+
+		const res = await request(app).get(`/withdrawals/lifi/137`);
+
+		expect(res.status).toBe(200);
+		expect(res.body.success).toBe(true);
+		expect(res.body.data.withdrawals).toHaveLength(1);
+		expect(res.body.meta.count).toBe(1);
+	});
+});
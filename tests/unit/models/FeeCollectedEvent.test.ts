@@ -157,12 +157,14 @@ describe("FeeCollectedEvent Model", () => {
 		);
 		expect(compoundIndex).toBeDefined();
 
-		// Check for compound index on integrator and chainId
+		// Check for compound index on integrator, chainId and the event's position
 		const integratorChainIndex = indexes.find(
 			(index) =>
 				index.key.integrator === 1 &&
 				index.key.chainId === 1 &&
-				index.name === "integrator_chain_index"
+				index.key.blockNumber === 1 &&
+				index.key.logIndex === 1 &&
+				index.name === "integrator_chain_position_index"
 		);
 		expect(integratorChainIndex).toBeDefined();
 	});
@@ -15,6 +15,7 @@ import {
 
 describe("LastScannedBlock Model", () => {
 	let mongoServer: MongoMemoryServer;
+	const contractAddress = "0x" + "a".repeat(40);
 
 	beforeAll(async () => {
 		// Create an in-memory MongoDB instance
@@ -40,6 +41,7 @@ describe("LastScannedBlock Model", () => {
 	it("should create a valid LastScannedBlock", async () => {
 		const blockData = {
 			chainId: 1,
+			contractAddress,
 			blockNumber: 12345678,
 		};
 
@@ -55,22 +57,24 @@ describe("LastScannedBlock Model", () => {
 	it("should fail when required fields are missing", async () => {
 		const blockData = {
 			// Missing chainId
+			contractAddress,
 			blockNumber: 12345678,
 		};
 
 		await expect(LastScannedBlockModel.create(blockData)).rejects.toThrow();
 	});
 
-	it("should enforce unique constraint on chainId", async () => {
+	it("should enforce unique constraint on chainId and contractAddress", async () => {
 		const blockData = {
 			chainId: 1,
+			contractAddress,
 			blockNumber: 12345678,
 		};
 
 		// Create first block
 		await LastScannedBlockModel.create(blockData);
 
-		// Try to create second block with same chainId
+		// Try to create second block with same chainId and contract
 		await expect(
 			LastScannedBlockModel.create({
 				...blockData,
@@ -82,11 +86,13 @@ describe("LastScannedBlock Model", () => {
 	it("should allow different chainIds", async () => {
 		const blockData1 = {
 			chainId: 1,
+			contractAddress,
 			blockNumber: 12345678,
 		};
 
 		const blockData2 = {
 			chainId: 2,
+			contractAddress,
 			blockNumber: 87654321,
 		};
 
@@ -101,19 +107,46 @@ describe("LastScannedBlock Model", () => {
 		expect(block2.blockNumber).toBe(blockData2.blockNumber);
 	});
 
+	it("should allow several contracts on one chain", async () => {
+		await LastScannedBlockModel.create({
+			chainId: 1,
+			contractAddress,
+			blockNumber: 12345678,
+		});
+
+		const block = await LastScannedBlockModel.create({
+			chainId: 1,
+			contractAddress: "0x" + "B".repeat(40),
+			blockNumber: 87654321,
+		});
+
+		// Addresses are stored lowercase so lookups are case-insensitive
+		expect(block.contractAddress).toBe("0x" + "b".repeat(40));
+	});
+
+	it("should fail when the contract address is missing", async () => {
+		await expect(
+			LastScannedBlockModel.create({ chainId: 1, blockNumber: 12345678 })
+		).rejects.toThrow();
+	});
+
 	it("should create indexes for specified fields", async () => {
 		const indexes = await LastScannedBlockModel.collection.indexes();
 
-		// Check for unique index on chainId
-		const chainIdIndex = indexes.find(
-			(index) => index.key.chainId === 1 && index.unique === true
+		// Check for unique index on chainId and contractAddress
+		const checkpointIndex = indexes.find(
+			(index) =>
+				index.key.chainId === 1 &&
+				index.key.contractAddress === 1 &&
+				index.unique === true
 		);
-		expect(chainIdIndex).toBeDefined();
+		expect(checkpointIndex).toBeDefined();
 	});
 
 	it("should update timestamps on document modification", async () => {
 		const blockData = {
 			chainId: 1,
+			contractAddress,
 			blockNumber: 12345678,
 		};
 
@@ -135,6 +168,7 @@ describe("LastScannedBlock Model", () => {
 	it("should handle negative block numbers", async () => {
 		const blockData = {
 			chainId: 1,
+			contractAddress,
 			blockNumber: -1,
 		};
 
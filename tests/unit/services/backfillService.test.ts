@@ -0,0 +1,313 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { BackfillService } from "../../../src/services/backfillService";
+import { ScannerService } from "../../../src/services/scannerService";
+import { BlockchainService } from "../../../src/services/blockchainService";
+import { BackfillJobModel } from "../../../src/models/BackfillJob";
+import { BackfillRangeResult } from "../../../src/types/backfill";
+import { config } from "../../../src/utils/config";
+import {
+	BlockchainError,
+	NotFoundError,
+	ValidationError,
+} from "../../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+jest.mock("../../../src/services/scannerService");
+jest.mock("../../../src/services/blockchainService");
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("BackfillService", () => {
+	let mongoServer: MongoMemoryServer;
+	let backfillService: BackfillService;
+	let mockScannerService: jest.Mocked<ScannerService>;
+	let mockBlockchainService: jest.Mocked<BlockchainService>;
+	const TEST_CHAIN_ID = config.enabledChains[0];
+
+	// Waits until the background run of a job has finished
+	const waitForJob = async (id: string) => {
+		await (backfillService as any).runningJobs.get(id)?.done;
+	};
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		backfillService = BackfillService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await BackfillJobModel.deleteMany({});
+
+		mockScannerService = {
+			backfillRange: jest.fn(),
+		} as unknown as jest.Mocked<ScannerService>;
+		mockBlockchainService = {
+			getConfirmedBlock: jest.fn(),
+		} as unknown as jest.Mocked<BlockchainService>;
+		mockBlockchainService.getConfirmedBlock.mockResolvedValue(1_000_000);
+
+		(backfillService as any).scannerService = mockScannerService;
+		(backfillService as any).blockchainService = mockBlockchainService;
+	});
+
+	describe("createJob", () => {
+		it("should reject ranges above the confirmed block", async () => {
+			await expect(
+				backfillService.createJob(TEST_CHAIN_ID, 100, 2_000_000)
+			).rejects.toThrow(ValidationError);
+			expect(await BackfillJobModel.countDocuments()).toBe(0);
+		});
+
+		it("should run the job to completion and track progress", async () => {
+			mockScannerService.backfillRange.mockResolvedValue({
+				eventCount: 2,
+				failedChunks: [],
+			});
+			const toBlock = 100 + config.maxChunkSize; // two windows
+
+			const job = await backfillService.createJob(TEST_CHAIN_ID, 100, toBlock);
+			await waitForJob(job._id.toString());
+
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("completed");
+			expect(stored.nextBlock).toBe(toBlock + 1);
+			expect(stored.eventsFound).toBe(4);
+			expect(stored.finishedAt).toBeDefined();
+			expect(mockScannerService.backfillRange).toHaveBeenLastCalledWith(
+				TEST_CHAIN_ID,
+				toBlock,
+				toBlock,
+				expect.anything()
+			);
+		});
+
+		it("should report chunks that failed", async () => {
+			mockScannerService.backfillRange.mockResolvedValue({
+				eventCount: 0,
+				failedChunks: [{ fromBlock: 100, toBlock: 109, error: "Chunk error" }],
+			});
+
+			const job = await backfillService.createJob(TEST_CHAIN_ID, 100, 200);
+			await waitForJob(job._id.toString());
+
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("completed");
+			expect(stored.chunkErrors).toEqual([
+				{ fromBlock: 100, toBlock: 109, error: "Chunk error" },
+			]);
+		});
+
+		it("should leave the job to the scanner replicas on an API replica", async () => {
+			const serviceRole = config.serviceRole;
+			config.serviceRole = "api";
+			try {
+				const job = await backfillService.createJob(TEST_CHAIN_ID, 100, 200);
+				await waitForJob(job._id.toString());
+
+				const stored = await backfillService.getJob(job._id.toString());
+				expect(stored.status).toBe("pending");
+				expect(stored.ownerId).toBeUndefined();
+				expect(mockScannerService.backfillRange).not.toHaveBeenCalled();
+			} finally {
+				config.serviceRole = serviceRole;
+			}
+		});
+
+		it("should mark the job as failed when a chunk cannot be scanned", async () => {
+			mockScannerService.backfillRange.mockRejectedValue(
+				new BlockchainError("RPC error")
+			);
+
+			const job = await backfillService.createJob(TEST_CHAIN_ID, 100, 200);
+			await waitForJob(job._id.toString());
+
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("failed");
+			expect(stored.error).toBe("RPC error");
+			expect(stored.nextBlock).toBe(100);
+		});
+	});
+
+	describe("cancelJob", () => {
+		it("should stop a running job", async () => {
+			let finishWindow: (result: BackfillRangeResult) => void = () => {};
+			mockScannerService.backfillRange.mockImplementation(
+				() => new Promise((resolve) => (finishWindow = resolve))
+			);
+
+			const job = await backfillService.createJob(
+				TEST_CHAIN_ID,
+				100,
+				100 + config.maxChunkSize * 3
+			);
+			const id = job._id.toString();
+			// Let the job pick up its first window, then cancel while it is in flight
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			const cancelling = backfillService.cancelJob(id);
+			await new Promise((resolve) => setTimeout(resolve, 50));
+			finishWindow({ eventCount: 0, failedChunks: [] });
+			const cancelled = await cancelling;
+
+			expect(cancelled.status).toBe("cancelled");
+			const stored = await backfillService.getJob(id);
+			expect(stored.status).toBe("cancelled");
+			expect(mockScannerService.backfillRange).toHaveBeenCalledTimes(1);
+		});
+
+		it("should not cancel a finished job", async () => {
+			const job = await BackfillJobModel.create({
+				chainId: TEST_CHAIN_ID,
+				fromBlock: 100,
+				toBlock: 200,
+				nextBlock: 201,
+				status: "completed",
+			});
+
+			await expect(
+				backfillService.cancelJob(job._id.toString())
+			).rejects.toThrow(ValidationError);
+		});
+
+		it("should report unknown jobs", async () => {
+			await expect(
+				backfillService.cancelJob(new mongoose.Types.ObjectId().toString())
+			).rejects.toThrow(NotFoundError);
+			await expect(backfillService.getJob("not-an-id")).rejects.toThrow(
+				NotFoundError
+			);
+		});
+	});
+
+	describe("resumeJobs", () => {
+		it("should resume interrupted jobs from their next block", async () => {
+			mockScannerService.backfillRange.mockResolvedValue({
+				eventCount: 1,
+				failedChunks: [],
+			});
+			const job = await BackfillJobModel.create({
+				chainId: TEST_CHAIN_ID,
+				fromBlock: 100,
+				toBlock: 200,
+				nextBlock: 150,
+				status: "running",
+			});
+
+			await backfillService.resumeJobs();
+			await waitForJob(job._id.toString());
+
+			expect(mockScannerService.backfillRange).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				150,
+				200,
+				expect.anything()
+			);
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("completed");
+			expect(stored.ownerId).toBe(config.instanceId);
+		});
+
+		it("should not run a job another replica holds the lease on", async () => {
+			const job = await BackfillJobModel.create({
+				chainId: TEST_CHAIN_ID,
+				fromBlock: 100,
+				toBlock: 200,
+				nextBlock: 150,
+				status: "running",
+				ownerId: "other-replica",
+				leaseExpiresAt: new Date(Date.now() + 60000),
+			});
+
+			await backfillService.resumeJobs();
+			await waitForJob(job._id.toString());
+
+			expect(mockScannerService.backfillRange).not.toHaveBeenCalled();
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("running");
+			expect(stored.ownerId).toBe("other-replica");
+		});
+
+		it("should take over a job whose lease expired", async () => {
+			mockScannerService.backfillRange.mockResolvedValue({
+				eventCount: 0,
+				failedChunks: [],
+			});
+			const job = await BackfillJobModel.create({
+				chainId: TEST_CHAIN_ID,
+				fromBlock: 100,
+				toBlock: 200,
+				nextBlock: 150,
+				status: "running",
+				ownerId: "stopped-replica",
+				leaseExpiresAt: new Date(Date.now() - 1000),
+			});
+
+			await backfillService.resumeJobs();
+			await waitForJob(job._id.toString());
+
+			expect(mockScannerService.backfillRange).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				150,
+				200,
+				expect.anything()
+			);
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("completed");
+			expect(stored.ownerId).toBe(config.instanceId);
+		});
+
+		it("should release a job whose progress cannot be written and resume it", async () => {
+			mockScannerService.backfillRange.mockResolvedValue({
+				eventCount: 1,
+				failedChunks: [],
+			});
+			const updateOne = BackfillJobModel.updateOne.bind(BackfillJobModel);
+			const updateSpy = jest
+				.spyOn(BackfillJobModel, "updateOne")
+				.mockImplementationOnce(((...args: any[]) =>
+					(updateOne as any)(...args)) as any)
+				.mockImplementationOnce((() =>
+					Promise.reject(new Error("Connection lost"))) as any);
+			let job;
+			try {
+				job = await backfillService.createJob(TEST_CHAIN_ID, 100, 200);
+				await waitForJob(job._id.toString());
+			} finally {
+				updateSpy.mockRestore();
+			}
+
+			const released = await backfillService.getJob(job._id.toString());
+			expect(released.status).toBe("running");
+			expect(released.nextBlock).toBe(100);
+			expect(released.leaseExpiresAt!.getTime()).toBeLessThanOrEqual(
+				Date.now()
+			);
+
+			await backfillService.resumeJobs();
+			await waitForJob(job._id.toString());
+
+			const stored = await backfillService.getJob(job._id.toString());
+			expect(stored.status).toBe("completed");
+			expect(stored.nextBlock).toBe(201);
+		});
+	});
+});
@@ -0,0 +1,213 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { BalanceService } from "../../../src/services/balanceService";
+import { FeeCollectedEventModel } from "../../../src/models/FeeCollectedEvent";
+import { FeesWithdrawnEventModel } from "../../../src/models/FeesWithdrawnEvent";
+import { LiFiFeesWithdrawnEventModel } from "../../../src/models/LiFiFeesWithdrawnEvent";
+import { ChainIds } from "../../../src/types/chains";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("BalanceService", () => {
+	let mongoServer: MongoMemoryServer;
+	let balanceService: BalanceService;
+	const integrator = "0x" + "a".repeat(40);
+	const otherIntegrator = "0x" + "b".repeat(40);
+	const token = "0x" + "c".repeat(40);
+	const otherToken = "0x" + "d".repeat(40);
+	// Larger than Number.MAX_SAFE_INTEGER, so any float arithmetic would round it
+	const largeFee = "123456789012345678901234567890";
+	let logIndex = 0;
+
+	// Builds a FeesCollected document for the integrator
+	const collected = (
+		chainId: number,
+		feeToken: string,
+		integratorFee: string,
+		feeIntegrator = integrator
+	) => ({
+		chainId,
+		contractAddress: token,
+		token: feeToken,
+		integrator: feeIntegrator,
+		integratorFee,
+		lifiFee: "1",
+		blockNumber: 100,
+		transactionHash: "0x" + "e".repeat(64),
+		logIndex: logIndex++,
+	});
+
+	// Builds a FeesWithdrawn document for the integrator
+	const withdrawn = (chainId: number, feeToken: string, amount: string) => ({
+		chainId,
+		contractAddress: token,
+		token: feeToken,
+		to: integrator,
+		amount,
+		blockNumber: 200,
+		transactionHash: "0x" + "f".repeat(64),
+		logIndex: logIndex++,
+	});
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		balanceService = BalanceService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await Promise.all([
+			FeeCollectedEventModel.deleteMany({}),
+			FeesWithdrawnEventModel.deleteMany({}),
+			LiFiFeesWithdrawnEventModel.deleteMany({}),
+		]);
+	});
+
+	it("should sum collected and withdrawn fees without losing precision", async () => {
+		await FeeCollectedEventModel.create([
+			collected(ChainIds.POLYGON, token, largeFee),
+			collected(ChainIds.POLYGON, token, largeFee),
+		]);
+		await FeesWithdrawnEventModel.create(
+			withdrawn(ChainIds.POLYGON, token, "1")
+		);
+
+		const balances = await balanceService.getIntegratorBalances(integrator);
+
+		expect(balances).toEqual([
+			{
+				chainId: ChainIds.POLYGON,
+				integrator,
+				token,
+				collected: "246913578024691357802469135780",
+				withdrawn: "1",
+				claimable: "246913578024691357802469135779",
+			},
+		]);
+	});
+
+	it("should keep one balance per chain and token", async () => {
+		await FeeCollectedEventModel.create([
+			collected(ChainIds.POLYGON, token, "10"),
+			collected(ChainIds.POLYGON, otherToken, "20"),
+			collected(ChainIds.ETHEREUM, token, "30"),
+			collected(ChainIds.POLYGON, token, "40", otherIntegrator),
+		]);
+
+		const balances = await balanceService.getIntegratorBalances(integrator);
+
+		expect(
+			balances.map((balance) => [
+				balance.chainId,
+				balance.token,
+				balance.claimable,
+			])
+		).toEqual([
+			[ChainIds.ETHEREUM, token, "30"],
+			[ChainIds.POLYGON, token, "10"],
+			[ChainIds.POLYGON, otherToken, "20"],
+		]);
+	});
+
+	it("should filter by chain", async () => {
+		await FeeCollectedEventModel.create([
+			collected(ChainIds.POLYGON, token, "10"),
+			collected(ChainIds.ETHEREUM, token, "30"),
+		]);
+		await FeesWithdrawnEventModel.create(
+			withdrawn(ChainIds.ETHEREUM, token, "5")
+		);
+
+		const balances = await balanceService.getIntegratorBalances(
+			integrator,
+			ChainIds.ETHEREUM
+		);
+
+		expect(balances).toHaveLength(1);
+		expect(balances[0].claimable).toBe("25");
+	});
+
+	it("should report withdrawals without indexed fees as a negative balance", async () => {
+		await FeesWithdrawnEventModel.create(
+			withdrawn(ChainIds.POLYGON, token, "5")
+		);
+
+		const balances = await balanceService.getIntegratorBalances(integrator);
+
+		expect(balances[0]).toMatchObject({
+			collected: "0",
+			withdrawn: "5",
+			claimable: "-5",
+		});
+	});
+
+	it("should compute the balances of a chain up to a block", async () => {
+		await FeeCollectedEventModel.create([
+			collected(ChainIds.POLYGON, token, "10"),
+			collected(ChainIds.POLYGON, token, "40", otherIntegrator),
+			collected(ChainIds.ETHEREUM, token, "30"),
+		]);
+		// Withdrawn at block 200, after the requested block
+		await FeesWithdrawnEventModel.create(
+			withdrawn(ChainIds.POLYGON, token, "5")
+		);
+
+		const balances = await balanceService.getChainBalances(
+			ChainIds.POLYGON,
+			150
+		);
+
+		expect(
+			balances.map((balance) => [balance.integrator, balance.claimable])
+		).toEqual([
+			[integrator, "10"],
+			[otherIntegrator, "40"],
+		]);
+	});
+
+	it("should compute LiFi's balance from the LiFi fee share", async () => {
+		await FeeCollectedEventModel.create([
+			collected(ChainIds.POLYGON, token, "10"),
+			collected(ChainIds.POLYGON, token, "40", otherIntegrator),
+		]);
+		await LiFiFeesWithdrawnEventModel.create({
+			...withdrawn(ChainIds.POLYGON, token, "1"),
+			blockNumber: 150,
+		});
+
+		const balances = await balanceService.getLifiBalances(
+			ChainIds.POLYGON,
+			150
+		);
+
+		expect(balances).toEqual([
+			{
+				chainId: ChainIds.POLYGON,
+				token,
+				collected: "2",
+				withdrawn: "1",
+				claimable: "1",
+			},
+		]);
+	});
+});
@@ -2,8 +2,20 @@ import { BlockchainService } from "../../../src/services/blockchainService";
 import { ethers, providers } from "ethers";
 import { FeeCollector__factory } from "lifi-contract-types";
 import { FeeCollectedEventData } from "../../../src/types/events";
-import { describe, expect, it, beforeEach, jest } from "@jest/globals";
-import { BlockchainError, ValidationError } from "../../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+import {
+	BlockchainError,
+	CircuitOpenError,
+	ValidationError,
+} from "../../../src/errors/AppError";
+import { config } from "../../../src/utils/config";
 
 // Mock ethers
 jest.mock("ethers", () => {
@@ -33,17 +45,32 @@ jest.mock("../../../src/utils/logger", () => ({
 }));
 
 // Mock config
-jest.mock("../../../src/utils/config", () => ({
-	config: {
+jest.mock("../../../src/utils/config", () => {
+	const config = {
 		chains: {
 			137: {
 				// Polygon chain ID
-				rpcUrl: "https://polygon-rpc.com",
+				rpcUrls: ["https://polygon-rpc.com"],
+				confirmations: 5,
 			},
 		},
-		contractAddress: "0x123",
-	},
-}));
+		rpcMaxHeadLag: 5,
+		rpcRetry: {
+			retries: 2,
+			baseDelayMs: 1,
+			maxDelayMs: 2,
+		},
+		circuitBreaker: {
+			failureThreshold: 3,
+			cooldownMs: 60000,
+		},
+	};
+	return {
+		config,
+		getChainConfig: (chainId: number) => (config.chains as any)[chainId],
+		getCurrentContract: () => ({ address: "0x123", startBlock: 0 }),
+	};
+});
 
 describe("BlockchainService", () => {
 	let blockchainService: BlockchainService;
@@ -90,14 +117,18 @@ describe("BlockchainService", () => {
 		// Mock interface
 		mockInterface = {
 			parseLog: jest.fn(),
+			getEventTopic: jest.fn((name: string) => `0x${name}`),
 		} as unknown as jest.Mocked<ethers.utils.Interface>;
 
 		// Mock contract
 		mockContract = {
+			address: "0x" + "f".repeat(40),
 			filters: {
 				FeesCollected: jest.fn().mockReturnValue({}),
 			},
 			queryFilter: jest.fn(),
+			getTokenBalance: jest.fn(),
+			getLifiTokenBalance: jest.fn(),
 			interface: mockInterface,
 		} as unknown as jest.Mocked<ethers.Contract>;
 
@@ -109,8 +140,11 @@ describe("BlockchainService", () => {
 			.spyOn(FeeCollector__factory, "connect")
 			.mockImplementation(() => mockContract as any);
 
-		// Create service instance
+		// Create service instance with fresh RPC pools
 		blockchainService = BlockchainService.getInstance();
+		(blockchainService as any).pools = new Map();
+		(blockchainService as any).circuitBreakers = new Map();
+		(blockchainService as any).blockTimestamps = new Map();
 	});
 
 	describe("getLatestBlock", () => {
@@ -141,8 +175,7 @@ describe("BlockchainService", () => {
 
 			// Create a new service instance to use the new provider
 			const service = BlockchainService.getInstance();
-			(service as any).providers = new Map();
-			(service as any).providers.set(TEST_CHAIN_ID, mockRejectingProvider);
+			(service as any).pools = new Map();
 
 			// The error should be converted to a BlockchainError
 			await expect(service.getLatestBlock(TEST_CHAIN_ID)).rejects.toThrow(
@@ -154,6 +187,105 @@ describe("BlockchainService", () => {
 		});
 	});
 
+	describe("retries and circuit breaker", () => {
+		const timeoutError = () =>
+			Object.assign(new Error("timeout"), { code: "TIMEOUT" });
+
+		it("should retry transient errors before succeeding", async () => {
+			mockProvider.getBlockNumber
+				.mockRejectedValueOnce(timeoutError())
+				.mockResolvedValueOnce(12345);
+
+			const result = await blockchainService.getLatestBlock(TEST_CHAIN_ID);
+
+			expect(result).toBe(12345);
+			expect(mockProvider.getBlockNumber).toHaveBeenCalledTimes(2);
+		});
+
+		it("should not retry fatal errors", async () => {
+			mockProvider.getBlockNumber.mockRejectedValue(
+				Object.assign(new Error("bad request"), { code: "INVALID_ARGUMENT" })
+			);
+
+			await expect(
+				blockchainService.getLatestBlock(TEST_CHAIN_ID)
+			).rejects.toThrow(BlockchainError);
+			expect(mockProvider.getBlockNumber).toHaveBeenCalledTimes(1);
+		});
+
+		it("should mark only transient failures as retryable", async () => {
+			mockProvider.getBlockNumber
+				.mockRejectedValueOnce(
+					Object.assign(new Error("bad request"), { code: "INVALID_ARGUMENT" })
+				)
+				.mockRejectedValue(timeoutError());
+
+			await expect(
+				blockchainService.getLatestBlock(TEST_CHAIN_ID)
+			).rejects.toMatchObject({ retryable: false });
+			await expect(
+				blockchainService.getLatestBlock(TEST_CHAIN_ID)
+			).rejects.toMatchObject({ message: "Request timeout", retryable: true });
+		});
+
+		it("should pause the chain after repeated failures", async () => {
+			mockProvider.getBlockNumber.mockRejectedValue(timeoutError());
+
+			for (let i = 0; i < 3; i++) {
+				await expect(
+					blockchainService.getLatestBlock(TEST_CHAIN_ID)
+				).rejects.toThrow("Request timeout");
+			}
+			const callsBeforeOpen = mockProvider.getBlockNumber.mock.calls.length;
+
+			await expect(
+				blockchainService.getLatestBlock(TEST_CHAIN_ID)
+			).rejects.toThrow(CircuitOpenError);
+			expect(mockProvider.getBlockNumber).toHaveBeenCalledTimes(
+				callsBeforeOpen
+			);
+			expect(blockchainService.getCircuitState(TEST_CHAIN_ID).state).toBe(
+				"open"
+			);
+		});
+	});
+
+	describe("getConfirmedBlock", () => {
+		afterEach(() => {
+			(config.chains as any)[TEST_CHAIN_ID].confirmations = 5;
+		});
+
+		it("should subtract the confirmation count from the latest block", async () => {
+			(blockchainService as any).pools = new Map();
+			mockProvider.getBlockNumber.mockResolvedValue(100);
+
+			const result = await blockchainService.getConfirmedBlock(TEST_CHAIN_ID);
+			expect(result).toBe(95);
+		});
+
+		it("should resolve finality tags through the RPC", async () => {
+			(config.chains as any)[TEST_CHAIN_ID].confirmations = "finalized";
+			(blockchainService as any).pools = new Map();
+			mockProvider.getBlock.mockResolvedValue({
+				number: 80,
+			} as providers.Block);
+
+			const result = await blockchainService.getConfirmedBlock(TEST_CHAIN_ID);
+			expect(result).toBe(80);
+			expect(mockProvider.getBlock).toHaveBeenCalledWith("finalized");
+		});
+
+		it("should fail when the RPC does not support the tag", async () => {
+			(config.chains as any)[TEST_CHAIN_ID].confirmations = "safe";
+			(blockchainService as any).pools = new Map();
+			mockProvider.getBlock.mockRejectedValue(new Error("invalid block tag"));
+
+			await expect(
+				blockchainService.getConfirmedBlock(TEST_CHAIN_ID)
+			).rejects.toThrow(BlockchainError);
+		});
+	});
+
 	describe("loadFeeCollectorEvents", () => {
 		const validAddress = "0x" + "a".repeat(40);
 		const validTxHash = "0x" + "b".repeat(64);
@@ -182,6 +314,8 @@ describe("BlockchainService", () => {
 		};
 
 		beforeEach(() => {
+			// Log queries only go to endpoints that reached their last block
+			mockProvider.getBlockNumber.mockResolvedValue(2000);
 			mockContract.queryFilter.mockResolvedValue([
 				mockEvent as unknown as ethers.Event,
 			]);
@@ -230,6 +364,284 @@ describe("BlockchainService", () => {
 		});
 	});
 
+	describe("loadWithdrawalEvents", () => {
+		const validAddress = "0x" + "a".repeat(40);
+		const validTxHash = "0x" + "b".repeat(64);
+		const mockLog = {
+			blockNumber: 1000,
+			transactionHash: validTxHash,
+			logIndex: 0,
+			address: validAddress,
+			topics: [],
+			data: "0x",
+		};
+
+		beforeEach(() => {
+			// Log queries only go to endpoints that reached their last block
+			mockProvider.getBlockNumber.mockResolvedValue(2000);
+			mockContract.queryFilter.mockResolvedValue([
+				mockLog as unknown as ethers.Event,
+			]);
+			mockInterface.parseLog.mockReturnValue({
+				args: [validAddress, validAddress, ethers.BigNumber.from(1000)],
+				eventFragment: {} as ethers.utils.EventFragment,
+				name: "LiFiFeesWithdrawn",
+				signature: "0x",
+				topic: "0x",
+			} as unknown as ethers.utils.LogDescription);
+		});
+
+		it("should query both withdrawal events in one call", async () => {
+			const withdrawals = await blockchainService.loadWithdrawalEvents(
+				TEST_CHAIN_ID,
+				1000,
+				2000
+			);
+
+			expect(withdrawals).toHaveLength(1);
+			expect(withdrawals[0].event).toBe("LiFiFeesWithdrawn");
+			expect(withdrawals[0].args).toEqual({
+				token: validAddress,
+				to: validAddress,
+				amount: "1000",
+			});
+			expect(mockContract.queryFilter).toHaveBeenCalledTimes(1);
+			expect(mockContract.queryFilter).toHaveBeenCalledWith(
+				{
+					address: mockContract.address,
+					topics: [["0xFeesWithdrawn", "0xLiFiFeesWithdrawn"]],
+				},
+				1000,
+				2000
+			);
+		});
+
+		it("should handle invalid block ranges", async () => {
+			await expect(
+				blockchainService.loadWithdrawalEvents(TEST_CHAIN_ID, 2000, 1000)
+			).rejects.toThrow(ValidationError);
+		});
+	});
+
+	describe("balance views", () => {
+		const integrator = "0x" + "a".repeat(40);
+		const token = "0x" + "b".repeat(40);
+
+		it("should read an integrator's balance at the given block", async () => {
+			mockContract.getTokenBalance.mockResolvedValue(
+				ethers.BigNumber.from("123456789012345678901234567890")
+			);
+
+			const balance = await blockchainService.getIntegratorTokenBalance(
+				TEST_CHAIN_ID,
+				integrator,
+				token,
+				1000
+			);
+
+			expect(balance).toBe("123456789012345678901234567890");
+			expect(mockContract.getTokenBalance).toHaveBeenCalledWith(
+				integrator,
+				token,
+				{ blockTag: 1000 }
+			);
+		});
+
+		it("should read LiFi's balance at the given block", async () => {
+			mockContract.getLifiTokenBalance.mockResolvedValue(
+				ethers.BigNumber.from(42)
+			);
+
+			const balance = await blockchainService.getLifiTokenBalance(
+				TEST_CHAIN_ID,
+				token,
+				1000
+			);
+
+			expect(balance).toBe("42");
+			expect(mockContract.getLifiTokenBalance).toHaveBeenCalledWith(token, {
+				blockTag: 1000,
+			});
+		});
+	});
+
+	describe("getBlockTimestamps", () => {
+		beforeEach(() => {
+			mockProvider.getBlock.mockImplementation(
+				async (blockNumber) =>
+					({
+						number: blockNumber,
+						timestamp: 1700000000 + (blockNumber as number),
+					}) as providers.Block
+			);
+		});
+
+		it("should request each block once", async () => {
+			const timestamps = await blockchainService.getBlockTimestamps(
+				TEST_CHAIN_ID,
+				[100, 100, 200]
+			);
+
+			expect(timestamps).toEqual(
+				new Map([
+					[100, 1700000100],
+					[200, 1700000200],
+				])
+			);
+			expect(mockProvider.getBlock).toHaveBeenCalledTimes(2);
+		});
+
+		it("should serve cached timestamps without RPC calls", async () => {
+			await blockchainService.getBlockTimestamps(TEST_CHAIN_ID, [100, 200]);
+			mockProvider.getBlock.mockClear();
+
+			const timestamps = await blockchainService.getBlockTimestamps(
+				TEST_CHAIN_ID,
+				[200, 300]
+			);
+
+			expect(timestamps.get(200)).toBe(1700000200);
+			expect(timestamps.get(300)).toBe(1700000300);
+			expect(mockProvider.getBlock).toHaveBeenCalledTimes(1);
+			expect(mockProvider.getBlock).toHaveBeenCalledWith(300);
+		});
+	});
+
+	describe("getTransactionContexts", () => {
+		const hash = "0x" + "a".repeat(64);
+		const sender = "0x" + "1".repeat(40);
+		const router = "0x" + "2".repeat(40);
+
+		beforeEach(() => {
+			mockProvider.getTransaction.mockResolvedValue({
+				hash,
+				from: sender,
+				to: router,
+				data: "0x12345678" + "0".repeat(64),
+				gasPrice: ethers.BigNumber.from(2),
+			} as unknown as providers.TransactionResponse);
+			mockProvider.getTransactionReceipt.mockResolvedValue({
+				transactionHash: hash,
+				gasUsed: ethers.BigNumber.from(21000),
+				effectiveGasPrice: ethers.BigNumber.from(1000000000),
+			} as unknown as providers.TransactionReceipt);
+		});
+
+		it("should request each transaction once", async () => {
+			const contexts = await blockchainService.getTransactionContexts(
+				TEST_CHAIN_ID,
+				[hash, hash]
+			);
+
+			expect(contexts).toEqual(
+				new Map([
+					[
+						hash,
+						{
+							from: sender,
+							to: router,
+							gasUsed: "21000",
+							effectiveGasPrice: "1000000000",
+							selector: "0x12345678",
+						},
+					],
+				])
+			);
+			expect(mockProvider.getTransaction).toHaveBeenCalledTimes(1);
+			expect(mockProvider.getTransactionReceipt).toHaveBeenCalledTimes(1);
+		});
+
+		it("should fall back to the gas price of receipts without an effective gas price", async () => {
+			mockProvider.getTransactionReceipt.mockResolvedValue({
+				transactionHash: hash,
+				gasUsed: ethers.BigNumber.from(21000),
+			} as unknown as providers.TransactionReceipt);
+
+			const contexts = await blockchainService.getTransactionContexts(
+				TEST_CHAIN_ID,
+				[hash]
+			);
+
+			expect(contexts.get(hash)?.effectiveGasPrice).toBe("2");
+		});
+	});
+
+	describe("getTokenMetadata", () => {
+		const token = "0x" + "d".repeat(40);
+		const coder = ethers.utils.defaultAbiCoder;
+		const selector = (signature: string) =>
+			ethers.utils.id(signature).slice(0, 10);
+
+		it("should read the symbol, name and decimals of a token", async () => {
+			mockProvider.call.mockImplementation(async (transaction: any) => {
+				switch (transaction.data) {
+					case selector("symbol()"):
+						return coder.encode(["string"], ["USDC"]);
+					case selector("name()"):
+						return coder.encode(["string"], ["USD Coin"]);
+					default:
+						return coder.encode(["uint8"], [6]);
+				}
+			});
+
+			const metadata = await blockchainService.getTokenMetadata(
+				TEST_CHAIN_ID,
+				token
+			);
+
+			expect(metadata).toEqual({
+				symbol: "USDC",
+				name: "USD Coin",
+				decimals: 6,
+			});
+		});
+
+		it("should handle bytes32 results and unimplemented functions", async () => {
+			mockProvider.call.mockImplementation(async (transaction: any) => {
+				if (transaction.data === selector("symbol()")) {
+					return ethers.utils.formatBytes32String("MKR");
+				}
+				throw Object.assign(new Error("execution reverted"), {
+					code: "CALL_EXCEPTION",
+				});
+			});
+
+			const metadata = await blockchainService.getTokenMetadata(
+				TEST_CHAIN_ID,
+				token
+			);
+
+			expect(metadata).toEqual({ symbol: "MKR" });
+		});
+	});
+
+	describe("findDeploymentBlock", () => {
+		it("should binary-search the first block with code", async () => {
+			mockProvider.getBlockNumber.mockResolvedValue(1000);
+			mockProvider.getCode.mockImplementation(async (_address, blockTag) =>
+				(blockTag as number) >= 613 ? "0x6080" : "0x"
+			);
+
+			const blockNumber = await blockchainService.findDeploymentBlock(
+				TEST_CHAIN_ID,
+				"0x123"
+			);
+
+			expect(blockNumber).toBe(613);
+			// A logarithmic number of lookups instead of one per block
+			expect(mockProvider.getCode.mock.calls.length).toBeLessThanOrEqual(12);
+		});
+
+		it("should return null when nothing is deployed at the address", async () => {
+			mockProvider.getBlockNumber.mockResolvedValue(1000);
+			mockProvider.getCode.mockResolvedValue("0x");
+
+			await expect(
+				blockchainService.findDeploymentBlock(TEST_CHAIN_ID, "0x123")
+			).resolves.toBeNull();
+		});
+	});
+
 	describe("parseFeeCollectorEvents", () => {
 		const validAddress = "0x" + "a".repeat(40);
 		const validTxHash = "0x" + "b".repeat(64);
@@ -0,0 +1,99 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { ChainRegistryService } from "../../../src/services/chainRegistryService";
+import { ChainModel } from "../../../src/models/Chain";
+import { ChainIds } from "../../../src/types/chains";
+import { config, isSupportedChain } from "../../../src/utils/config";
+import { ConfigurationError } from "../../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ChainRegistryService", () => {
+	let mongoServer: MongoMemoryServer;
+	let chainRegistryService: ChainRegistryService;
+	const ARBITRUM = 42161;
+	const polygon = config.chains[ChainIds.POLYGON];
+	const arbitrum = {
+		name: "arbitrum",
+		chainId: ARBITRUM,
+		rpcUrls: ["https://arbitrum.llamarpc.com"],
+		contracts: [{ address: "0x" + "a".repeat(40), startBlock: 100 }],
+		startBlock: 100,
+		confirmations: 20,
+		explorerUrl: "https://arbiscan.io",
+	};
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		chainRegistryService = ChainRegistryService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await ChainModel.deleteMany({});
+	});
+
+	afterEach(() => {
+		delete (config.chains as any)[ARBITRUM];
+		(config.chains as any)[ChainIds.POLYGON] = polygon;
+	});
+
+	it("should register the stored chains", async () => {
+		await ChainModel.create(arbitrum);
+
+		const registered = await chainRegistryService.loadFromDatabase();
+
+		expect(registered).toBe(1);
+		expect(isSupportedChain(ARBITRUM)).toBe(true);
+		expect(config.chains[ARBITRUM]).toMatchObject({
+			name: "arbitrum",
+			confirmations: 20,
+			contracts: [{ address: "0x" + "a".repeat(40), startBlock: 100 }],
+		});
+	});
+
+	it("should let a stored chain replace a configured one", async () => {
+		await ChainModel.create({
+			...arbitrum,
+			name: "polygon",
+			chainId: ChainIds.POLYGON,
+			explorerUrl: "https://polygonscan.example",
+		});
+
+		await chainRegistryService.loadFromDatabase();
+
+		expect(config.chains[ChainIds.POLYGON].explorerUrl).toBe(
+			"https://polygonscan.example"
+		);
+	});
+
+	it("should fail on an invalid stored chain", async () => {
+		await ChainModel.create({ ...arbitrum, contracts: [] });
+
+		await expect(chainRegistryService.loadFromDatabase()).rejects.toThrow(
+			ConfigurationError
+		);
+		expect(isSupportedChain(ARBITRUM)).toBe(false);
+	});
+});
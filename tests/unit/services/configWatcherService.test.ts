@@ -0,0 +1,82 @@
+import { ConfigWatcherService } from "../../../src/services/configWatcherService";
+import { BlockchainService } from "../../../src/services/blockchainService";
+import { ScannerService } from "../../../src/services/scannerService";
+import { reloadConfig } from "../../../src/utils/config";
+import { ConfigurationError } from "../../../src/errors/AppError";
+import { ChainIds } from "../../../src/types/chains";
+import { describe, expect, it, beforeEach, jest } from "@jest/globals";
+
+jest.mock("../../../src/services/blockchainService");
+jest.mock("../../../src/services/scannerService");
+jest.mock("../../../src/utils/config", () => ({
+	getConfigFile: jest.fn(),
+	reloadConfig: jest.fn(),
+}));
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ConfigWatcherService", () => {
+	let configWatcherService: ConfigWatcherService;
+	let mockBlockchainService: jest.Mocked<BlockchainService>;
+	let mockScannerService: jest.Mocked<ScannerService>;
+	const mockReloadConfig = reloadConfig as jest.MockedFunction<
+		typeof reloadConfig
+	>;
+
+	beforeEach(() => {
+		jest.clearAllMocks();
+
+		mockBlockchainService = {
+			resetRpcPool: jest.fn(),
+		} as unknown as jest.Mocked<BlockchainService>;
+		mockScannerService = {
+			syncFollowedChains: jest.fn(async () => {}),
+		} as unknown as jest.Mocked<ScannerService>;
+
+		(BlockchainService.getInstance as jest.Mock).mockReturnValue(
+			mockBlockchainService
+		);
+		(ScannerService.getInstance as jest.Mock).mockReturnValue(
+			mockScannerService
+		);
+
+		// Reset the singleton so it picks up the mocks
+		(ConfigWatcherService as any).instance = undefined;
+		configWatcherService = ConfigWatcherService.getInstance();
+	});
+
+	it("should rebuild the RPC pools and follow loops the reload affects", async () => {
+		const reload = {
+			enabledChains: [ChainIds.POLYGON, ChainIds.ETHEREUM],
+			rpcChangedChains: [ChainIds.POLYGON],
+			pollIntervalChangedChains: [],
+			restartRequired: ["chunkSize"],
+		};
+		mockReloadConfig.mockReturnValue(reload);
+
+		await expect(configWatcherService.reload()).resolves.toEqual(reload);
+
+		expect(mockBlockchainService.resetRpcPool).toHaveBeenCalledTimes(1);
+		expect(mockBlockchainService.resetRpcPool).toHaveBeenCalledWith(
+			ChainIds.POLYGON
+		);
+		expect(mockScannerService.syncFollowedChains).toHaveBeenCalled();
+	});
+
+	it("should keep the running configuration when the file is invalid", async () => {
+		mockReloadConfig.mockImplementation(() => {
+			throw new ConfigurationError("Invalid configuration: chunkSize");
+		});
+
+		await expect(configWatcherService.reload()).resolves.toBeNull();
+
+		expect(mockBlockchainService.resetRpcPool).not.toHaveBeenCalled();
+		expect(mockScannerService.syncFollowedChains).not.toHaveBeenCalled();
+	});
+});
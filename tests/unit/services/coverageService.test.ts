@@ -0,0 +1,151 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { CoverageService } from "../../../src/services/coverageService";
+import { ScannedRangeModel } from "../../../src/models/ScannedRange";
+import { LastScannedBlockModel } from "../../../src/models/LastScannedBlock";
+import { ChainIds } from "../../../src/types/chains";
+import { config, getCurrentContract } from "../../../src/utils/config";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("CoverageService", () => {
+	let mongoServer: MongoMemoryServer;
+	let coverageService: CoverageService;
+	const TEST_CHAIN_ID = ChainIds.POLYGON;
+	const startBlock = config.chains[TEST_CHAIN_ID].startBlock;
+	const contractAddress = getCurrentContract(TEST_CHAIN_ID).address;
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		coverageService = CoverageService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await Promise.all([
+			ScannedRangeModel.deleteMany({}),
+			LastScannedBlockModel.deleteMany({}),
+		]);
+	});
+
+	describe("recordScannedRange", () => {
+		it("should merge adjacent and overlapping ranges", async () => {
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 100, 199);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 300, 399);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 200, 299);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 350, 450);
+
+			const coverage = await coverageService.getCoverage(TEST_CHAIN_ID);
+
+			expect(coverage).toEqual([{ fromBlock: 100, toBlock: 450 }]);
+		});
+
+		it("should keep separate intervals when there is a hole", async () => {
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 100, 199);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 201, 299);
+
+			const coverage = await coverageService.getCoverage(TEST_CHAIN_ID);
+
+			expect(coverage).toEqual([
+				{ fromBlock: 100, toBlock: 199 },
+				{ fromBlock: 201, toBlock: 299 },
+			]);
+		});
+
+		it("should track each contract separately", async () => {
+			const otherContract = "0x" + "b".repeat(40);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 100, 199);
+			await coverageService.recordScannedRange(
+				TEST_CHAIN_ID,
+				200,
+				299,
+				otherContract
+			);
+
+			expect(await coverageService.getCoverage(TEST_CHAIN_ID)).toEqual([
+				{ fromBlock: 100, toBlock: 199 },
+			]);
+			expect(
+				await coverageService.getCoverage(TEST_CHAIN_ID, otherContract)
+			).toEqual([{ fromBlock: 200, toBlock: 299 }]);
+		});
+	});
+
+	describe("findGaps", () => {
+		it("should report unscanned ranges between the start block and the checkpoint", async () => {
+			await LastScannedBlockModel.create({
+				chainId: TEST_CHAIN_ID,
+				contractAddress,
+				blockNumber: startBlock + 999,
+			});
+			await coverageService.recordScannedRange(
+				TEST_CHAIN_ID,
+				startBlock + 100,
+				startBlock + 199
+			);
+			await coverageService.recordScannedRange(
+				TEST_CHAIN_ID,
+				startBlock + 500,
+				startBlock + 799
+			);
+
+			const gaps = await coverageService.findGaps(TEST_CHAIN_ID);
+
+			expect(gaps).toEqual([
+				{ fromBlock: startBlock, toBlock: startBlock + 99 },
+				{ fromBlock: startBlock + 200, toBlock: startBlock + 499 },
+				{ fromBlock: startBlock + 800, toBlock: startBlock + 999 },
+			]);
+		});
+
+		it("should report no gaps when the range is fully covered", async () => {
+			await LastScannedBlockModel.create({
+				chainId: TEST_CHAIN_ID,
+				contractAddress,
+				blockNumber: startBlock + 999,
+			});
+			await coverageService.recordScannedRange(
+				TEST_CHAIN_ID,
+				startBlock,
+				startBlock + 1500
+			);
+
+			expect(await coverageService.findGaps(TEST_CHAIN_ID)).toEqual([]);
+		});
+	});
+
+	describe("removeCoverageAfter", () => {
+		it("should trim coverage above the given block", async () => {
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 100, 199);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 300, 399);
+			await coverageService.recordScannedRange(TEST_CHAIN_ID, 500, 599);
+
+			await coverageService.removeCoverageAfter(TEST_CHAIN_ID, 350);
+
+			expect(await coverageService.getCoverage(TEST_CHAIN_ID)).toEqual([
+				{ fromBlock: 100, toBlock: 199 },
+				{ fromBlock: 300, toBlock: 350 },
+			]);
+		});
+	});
+});
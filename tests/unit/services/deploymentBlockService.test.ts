@@ -0,0 +1,126 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { DeploymentBlockService } from "../../../src/services/deploymentBlockService";
+import { BlockchainService } from "../../../src/services/blockchainService";
+import { DeploymentBlockModel } from "../../../src/models/DeploymentBlock";
+import { ChainIds } from "../../../src/types/chains";
+import { config, getContractDeployments } from "../../../src/utils/config";
+import { BlockchainError } from "../../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+jest.mock("../../../src/services/blockchainService");
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("DeploymentBlockService", () => {
+	let mongoServer: MongoMemoryServer;
+	let deploymentBlockService: DeploymentBlockService;
+	let mockBlockchainService: jest.Mocked<BlockchainService>;
+	const TEST_CHAIN_ID = ChainIds.BASE;
+	const CONTRACT = "0x" + "a".repeat(40);
+	const chain = config.chains[TEST_CHAIN_ID];
+	const { contracts, startBlock } = chain;
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await DeploymentBlockModel.deleteMany({});
+		chain.startBlock = 0;
+		chain.contracts = [{ address: CONTRACT, startBlock: 0 }];
+
+		mockBlockchainService = {
+			findDeploymentBlock: jest.fn(),
+		} as unknown as jest.Mocked<BlockchainService>;
+		deploymentBlockService = DeploymentBlockService.getInstance();
+		(deploymentBlockService as any).blockchainService = mockBlockchainService;
+	});
+
+	afterEach(() => {
+		chain.startBlock = startBlock;
+		chain.contracts = contracts;
+	});
+
+	it("should discover and store the deployment block", async () => {
+		mockBlockchainService.findDeploymentBlock.mockResolvedValue(12345);
+
+		const blockNumber = await deploymentBlockService.discover(
+			TEST_CHAIN_ID,
+			CONTRACT.toUpperCase().replace("0X", "0x")
+		);
+
+		expect(blockNumber).toBe(12345);
+		const stored = await DeploymentBlockModel.findOne({
+			chainId: TEST_CHAIN_ID,
+		});
+		expect(stored?.contractAddress).toBe(CONTRACT);
+		expect(stored?.blockNumber).toBe(12345);
+		expect(getContractDeployments(TEST_CHAIN_ID)[0].startBlock).toBe(12345);
+	});
+
+	it("should reuse the stored deployment block", async () => {
+		await DeploymentBlockModel.create({
+			chainId: TEST_CHAIN_ID,
+			contractAddress: CONTRACT,
+			blockNumber: 777,
+		});
+
+		expect(await deploymentBlockService.discover(TEST_CHAIN_ID, CONTRACT)).toBe(
+			777
+		);
+		expect(mockBlockchainService.findDeploymentBlock).not.toHaveBeenCalled();
+	});
+
+	it("should apply the stored deployment blocks on load", async () => {
+		await DeploymentBlockModel.create({
+			chainId: TEST_CHAIN_ID,
+			contractAddress: CONTRACT,
+			blockNumber: 888,
+		});
+
+		expect(await deploymentBlockService.loadFromDatabase()).toBe(1);
+		expect(getContractDeployments(TEST_CHAIN_ID)[0].startBlock).toBe(888);
+	});
+
+	it("should not store anything when the block cannot be found", async () => {
+		mockBlockchainService.findDeploymentBlock.mockRejectedValue(
+			new BlockchainError("missing trie node")
+		);
+
+		expect(
+			await deploymentBlockService.discover(TEST_CHAIN_ID, CONTRACT)
+		).toBeNull();
+		expect(await DeploymentBlockModel.countDocuments({})).toBe(0);
+	});
+
+	it("should keep a configured start block", async () => {
+		chain.startBlock = 5000;
+		mockBlockchainService.findDeploymentBlock.mockResolvedValue(100);
+
+		await deploymentBlockService.discover(TEST_CHAIN_ID, CONTRACT);
+
+		expect(getContractDeployments(TEST_CHAIN_ID)[0].startBlock).toBe(5000);
+	});
+});
@@ -3,8 +3,13 @@ import { MongoMemoryServer } from "mongodb-memory-server";
 import { EventService } from "../../../src/services/eventService";
 import { FeeCollectedEventModel } from "../../../src/models/FeeCollectedEvent";
 import { LastScannedBlockModel } from "../../../src/models/LastScannedBlock";
-import { FeeCollectedEventData } from "../../../src/types/events";
-import { config } from "../../../src/utils/config";
+import { FeesWithdrawnEventModel } from "../../../src/models/FeesWithdrawnEvent";
+import { LiFiFeesWithdrawnEventModel } from "../../../src/models/LiFiFeesWithdrawnEvent";
+import {
+	FeeCollectedEventData,
+	WithdrawalEventData,
+} from "../../../src/types/events";
+import { config, getCurrentContract } from "../../../src/utils/config";
 import { providers } from "ethers";
 import { ChainIds } from "../../../src/types/chains";
 import {
@@ -17,6 +22,7 @@ import {
 	jest,
 } from "@jest/globals";
 import logger from "../../../src/utils/logger";
+import { DataIntegrityError } from "../../../src/errors/AppError";
 
 // Mock the logger
 jest.mock("../../../src/utils/logger", () => ({
@@ -46,7 +52,7 @@ describe("EventService", () => {
 		transactionHash: validTxHash,
 		logIndex: 0,
 		// Required Event properties
-		address: config.contractAddress,
+		address: getCurrentContract(TEST_CHAIN_ID).address,
 		topics: [],
 		data: "0x",
 		blockHash: validTxHash,
@@ -59,6 +65,17 @@ describe("EventService", () => {
 			Promise.resolve({} as providers.TransactionReceipt),
 	};
 
+	const mockWithdrawal: WithdrawalEventData = {
+		...mockEvent,
+		event: "FeesWithdrawn",
+		args: {
+			token: validAddress,
+			to: validAddress,
+			amount: "1500000000000000000",
+		},
+		logIndex: 1,
+	};
+
 	/**
 	 * Setup test environment before each test
 	 * Creates an in-memory MongoDB instance and initializes the EventService
@@ -89,12 +106,16 @@ describe("EventService", () => {
 			await Promise.all([
 				FeeCollectedEventModel.collection.dropIndexes().catch(() => {}),
 				LastScannedBlockModel.collection.dropIndexes().catch(() => {}),
+				FeesWithdrawnEventModel.collection.dropIndexes().catch(() => {}),
+				LiFiFeesWithdrawnEventModel.collection.dropIndexes().catch(() => {}),
 			]);
 
 			// Ensure indexes are created
 			await Promise.all([
 				FeeCollectedEventModel.createIndexes(),
 				LastScannedBlockModel.createIndexes(),
+				FeesWithdrawnEventModel.createIndexes(),
+				LiFiFeesWithdrawnEventModel.createIndexes(),
 			]);
 		} catch (error) {
 			logger.error({ error }, "Failed to setup test environment");
@@ -127,12 +148,16 @@ describe("EventService", () => {
 			await Promise.all([
 				FeeCollectedEventModel.collection.dropIndexes().catch(() => {}),
 				LastScannedBlockModel.collection.dropIndexes().catch(() => {}),
+				FeesWithdrawnEventModel.collection.dropIndexes().catch(() => {}),
+				LiFiFeesWithdrawnEventModel.collection.dropIndexes().catch(() => {}),
 			]);
 
 			// Recreate indexes
 			await Promise.all([
 				FeeCollectedEventModel.createIndexes(),
 				LastScannedBlockModel.createIndexes(),
+				FeesWithdrawnEventModel.createIndexes(),
+				LiFiFeesWithdrawnEventModel.createIndexes(),
 			]);
 
 			eventService = EventService.getInstance();
@@ -188,6 +213,52 @@ describe("EventService", () => {
 			expect(storedEvents).toHaveLength(1); // Only one event should be stored
 		});
 
+		/**
+		 * Test the reported counts
+		 * Verifies that new and already stored events are counted separately
+		 */
+		it("should report inserted and already present events", async () => {
+			await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+
+			const result = await eventService.storeEvents(
+				[mockEvent, { ...mockEvent, logIndex: 1 }],
+				TEST_CHAIN_ID
+			);
+
+			expect(result).toEqual({ inserted: 1, alreadyPresent: 1 });
+			expect(await FeeCollectedEventModel.countDocuments({})).toBe(2);
+		});
+
+		/**
+		 * Test conflicting duplicates
+		 * Verifies that an event stored with different fee values is reported, not overwritten
+		 */
+		it("should reject events stored with different fee values", async () => {
+			await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+			const conflicting = {
+				...mockEvent,
+				args: { ...mockEvent.args, lifiFee: "1" },
+			};
+
+			const error = await eventService
+				.storeEvents([conflicting], TEST_CHAIN_ID)
+				.catch((err) => err);
+
+			expect(error).toBeInstanceOf(DataIntegrityError);
+			expect(error.conflicts).toEqual([
+				expect.objectContaining({
+					transactionHash: mockEvent.transactionHash,
+					logIndex: mockEvent.logIndex,
+					stored: expect.objectContaining({
+						lifiFee: mockEvent.args.lifiFee.toString(),
+					}),
+					received: expect.objectContaining({ lifiFee: "1" }),
+				}),
+			]);
+			const storedEvent = await FeeCollectedEventModel.findOne({});
+			expect(storedEvent?.lifiFee).toBe(mockEvent.args.lifiFee.toString());
+		});
+
 		/**
 		 * Test handling of empty event arrays
 		 * Verifies that the function handles empty input gracefully
@@ -248,7 +319,9 @@ describe("EventService", () => {
 			expect(storedEvent).toBeDefined();
 			if (storedEvent) {
 				expect(storedEvent.chainId).toBe(TEST_CHAIN_ID);
-				expect(storedEvent.contractAddress).toBe(config.contractAddress);
+				expect(storedEvent.contractAddress).toBe(
+					getCurrentContract(TEST_CHAIN_ID).address
+				);
 				expect(storedEvent.token).toBe(mockEvent.args.token);
 				expect(storedEvent.integrator).toBe(mockEvent.args.integrator);
 				expect(storedEvent.integratorFee).toBe(
@@ -302,6 +375,400 @@ describe("EventService", () => {
 		});
 	});
 
+	/**
+	 * The in-memory server is a standalone instance without transactions,
+	 * so these tests cover the idempotent fallback of commitChunk
+	 */
+	describe("commitChunk", () => {
+		it("should store the events and move the checkpoint", async () => {
+			await eventService.commitChunk(TEST_CHAIN_ID, [mockEvent], 1999, "0xabc");
+
+			const storedEvents = await FeeCollectedEventModel.find({});
+			expect(storedEvents).toHaveLength(1);
+			const lastBlock = await LastScannedBlockModel.findOne({});
+			expect(lastBlock?.blockNumber).toBe(1999);
+			expect(lastBlock?.blockHash).toBe("0xabc");
+		});
+
+		it("should move the checkpoint over a chunk without events", async () => {
+			await eventService.commitChunk(TEST_CHAIN_ID, [], 1999);
+
+			expect(await FeeCollectedEventModel.countDocuments({})).toBe(0);
+			const lastBlock = await LastScannedBlockModel.findOne({});
+			expect(lastBlock?.blockNumber).toBe(1999);
+		});
+
+		it("should be idempotent when a chunk is committed again", async () => {
+			const events = [mockEvent, { ...mockEvent, logIndex: 1 }];
+
+			await eventService.commitChunk(TEST_CHAIN_ID, events.slice(0, 1), 1999);
+			await eventService.commitChunk(TEST_CHAIN_ID, events, 1999);
+
+			expect(await FeeCollectedEventModel.countDocuments({})).toBe(2);
+			const lastBlock = await LastScannedBlockModel.findOne({});
+			expect(lastBlock?.blockNumber).toBe(1999);
+		});
+
+		it("should leave the checkpoint behind when its write fails", async () => {
+			const updateOne = jest
+				.spyOn(LastScannedBlockModel, "updateOne")
+				.mockRejectedValueOnce(new Error("Write failed") as never);
+			try {
+				await expect(
+					eventService.commitChunk(TEST_CHAIN_ID, [mockEvent], 1999)
+				).rejects.toThrow("Failed to commit chunk");
+			} finally {
+				updateOne.mockRestore();
+			}
+
+			// The events are stored, but the chunk is not covered by the checkpoint
+			expect(await FeeCollectedEventModel.countDocuments({})).toBe(1);
+			expect(await LastScannedBlockModel.findOne({})).toBeNull();
+
+			// Rescanning the chunk commits it without duplicating its events
+			await eventService.commitChunk(TEST_CHAIN_ID, [mockEvent], 1999);
+			expect(await FeeCollectedEventModel.countDocuments({})).toBe(1);
+			const lastBlock = await LastScannedBlockModel.findOne({});
+			expect(lastBlock?.blockNumber).toBe(1999);
+		});
+
+		it("should not move the checkpoint over conflicting events", async () => {
+			await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+			const conflicting = {
+				...mockEvent,
+				args: { ...mockEvent.args, integratorFee: "1" },
+			};
+
+			await expect(
+				eventService.commitChunk(TEST_CHAIN_ID, [conflicting], 1999)
+			).rejects.toThrow(DataIntegrityError);
+			expect(await LastScannedBlockModel.findOne({})).toBeNull();
+		});
+
+		it("should reject invalid block numbers", async () => {
+			await expect(
+				eventService.commitChunk(TEST_CHAIN_ID, [mockEvent], -1)
+			).rejects.toThrow("Block number cannot be negative");
+			expect(await FeeCollectedEventModel.countDocuments({})).toBe(0);
+		});
+	});
+
+	describe("enrichment", () => {
+		it("should store the block timestamp of an event", async () => {
+			await eventService.storeEvents(
+				[{ ...mockEvent, blockTimestamp: 1700000000 }],
+				TEST_CHAIN_ID
+			);
+
+			const stored = await FeeCollectedEventModel.findOne({});
+			expect(stored?.blockTimestamp).toEqual(new Date(1700000000 * 1000));
+		});
+
+		it("should store the transaction context of an enriched event", async () => {
+			const transaction = {
+				from: "0x" + "1".repeat(40),
+				to: "0x" + "2".repeat(40),
+				gasUsed: "21000",
+				effectiveGasPrice: "1000000000",
+				selector: "0x12345678",
+			};
+			await eventService.storeEvents(
+				[{ ...mockEvent, transaction }],
+				TEST_CHAIN_ID
+			);
+
+			const stored = await FeeCollectedEventModel.findOne({}).lean();
+			expect(stored).toMatchObject(transaction);
+		});
+
+		it("should fill in the enrichment of an event stored without it", async () => {
+			const transaction = {
+				from: "0x" + "1".repeat(40),
+				to: "0x" + "2".repeat(40),
+				gasUsed: "21000",
+				effectiveGasPrice: "1000000000",
+				selector: "0x12345678",
+			};
+			await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+
+			const result = await eventService.storeEvents(
+				[{ ...mockEvent, blockTimestamp: 1700000000, transaction }],
+				TEST_CHAIN_ID
+			);
+			// A rescan without enrichment keeps what was filled in
+			await eventService.storeEvents([mockEvent], TEST_CHAIN_ID);
+
+			expect(result).toEqual({ inserted: 0, alreadyPresent: 1 });
+			const stored = await FeeCollectedEventModel.find({}).lean();
+			expect(stored).toHaveLength(1);
+			expect(stored[0]).toMatchObject({
+				...transaction,
+				blockTimestamp: new Date(1700000000 * 1000),
+			});
+		});
+
+		it("should backfill the timestamps of events stored without one", async () => {
+			await eventService.storeEvents(
+				[
+					mockEvent,
+					{ ...mockEvent, logIndex: 1 },
+					{ ...mockEvent, logIndex: 2, blockNumber: mockEvent.blockNumber + 1 },
+				],
+				TEST_CHAIN_ID
+			);
+
+			const blocks = await eventService.getBlocksWithoutTimestamp(
+				TEST_CHAIN_ID,
+				10
+			);
+			expect(blocks).toEqual([
+				mockEvent.blockNumber,
+				mockEvent.blockNumber + 1,
+			]);
+
+			const updated = await eventService.setBlockTimestamps(
+				TEST_CHAIN_ID,
+				new Map([[mockEvent.blockNumber, 1700000000]])
+			);
+			expect(updated).toBe(2);
+			expect(
+				await eventService.getBlocksWithoutTimestamp(TEST_CHAIN_ID, 10)
+			).toEqual([mockEvent.blockNumber + 1]);
+		});
+	});
+
+	describe("per-contract checkpoints", () => {
+		const otherContract = "0x" + "b".repeat(40);
+
+		it("should keep a checkpoint per contract", async () => {
+			await eventService.updateLastScannedBlock(TEST_CHAIN_ID, 1000);
+			await eventService.updateLastScannedBlock(
+				TEST_CHAIN_ID,
+				2000,
+				undefined,
+				otherContract
+			);
+
+			expect(await eventService.getLastScannedBlock(TEST_CHAIN_ID)).toBe(1000);
+			expect(
+				await eventService.getLastScannedBlock(TEST_CHAIN_ID, otherContract)
+			).toBe(2000);
+		});
+
+		it("should only rewind the checkpoints above the block", async () => {
+			await eventService.updateLastScannedBlock(TEST_CHAIN_ID, 1000);
+			await eventService.updateLastScannedBlock(
+				TEST_CHAIN_ID,
+				2000,
+				"0xold",
+				otherContract
+			);
+
+			const rewound = await eventService.rewindCheckpoints(
+				TEST_CHAIN_ID,
+				1500,
+				"0xancestor"
+			);
+
+			expect(rewound).toBe(1);
+			expect(await eventService.getLastScannedBlock(TEST_CHAIN_ID)).toBe(1000);
+			const checkpoint = await LastScannedBlockModel.findOne({
+				contractAddress: otherContract,
+			});
+			expect(checkpoint?.blockNumber).toBe(1500);
+			expect(checkpoint?.blockHash).toBe("0xancestor");
+		});
+
+		it("should read the checkpoint of every deployment", async () => {
+			const chain = config.chains[TEST_CHAIN_ID];
+			const contracts = chain.contracts;
+			chain.contracts = [
+				{ address: otherContract, startBlock: 100, endBlock: 900 },
+				...contracts,
+			];
+			try {
+				await eventService.updateLastScannedBlock(
+					TEST_CHAIN_ID,
+					900,
+					undefined,
+					otherContract
+				);
+				await eventService.updateLastScannedBlock(TEST_CHAIN_ID, 2000);
+
+				const checkpoints = await eventService.getCheckpoints(TEST_CHAIN_ID);
+
+				expect(checkpoints.get(otherContract)).toBe(900);
+				expect(
+					checkpoints.get(contracts[contracts.length - 1].address.toLowerCase())
+				).toBe(2000);
+			} finally {
+				chain.contracts = contracts;
+			}
+		});
+
+		it("should assign legacy checkpoints to the chain's first deployment", async () => {
+			await LastScannedBlockModel.collection.insertOne({
+				chainId: TEST_CHAIN_ID,
+				blockNumber: 1234,
+			});
+
+			const adopted = await eventService.adoptLegacyCheckpoints();
+
+			expect(adopted).toBe(1);
+			expect(await eventService.getLastScannedBlock(TEST_CHAIN_ID)).toBe(1234);
+		});
+	});
+
+	describe("syncEventIndexes", () => {
+		it("should drop the replaced integrator index", async () => {
+			await FeeCollectedEventModel.collection.createIndex(
+				{ integrator: 1, chainId: 1 },
+				{ name: "integrator_chain_index" }
+			);
+
+			const dropped = await eventService.syncEventIndexes();
+
+			expect(dropped).toEqual(["integrator_chain_index"]);
+			const indexes = await FeeCollectedEventModel.collection.indexes();
+			expect(indexes.map((index) => index.name)).not.toContain(
+				"integrator_chain_index"
+			);
+		});
+	});
+
+	describe("withdrawals", () => {
+		it("should store each withdrawal event in its collection", async () => {
+			const result = await eventService.storeWithdrawals(
+				[mockWithdrawal, { ...mockWithdrawal, event: "LiFiFeesWithdrawn" }],
+				TEST_CHAIN_ID
+			);
+
+			expect(result).toEqual({ inserted: 2, alreadyPresent: 0 });
+			expect(await FeesWithdrawnEventModel.countDocuments({})).toBe(1);
+			expect(await LiFiFeesWithdrawnEventModel.countDocuments({})).toBe(1);
+		});
+
+		it("should reject withdrawals stored with a different amount", async () => {
+			await eventService.storeWithdrawals([mockWithdrawal], TEST_CHAIN_ID);
+			const conflicting = {
+				...mockWithdrawal,
+				args: { ...mockWithdrawal.args, amount: "1" },
+			};
+
+			await expect(
+				eventService.storeWithdrawals([conflicting], TEST_CHAIN_ID)
+			).rejects.toThrow(DataIntegrityError);
+		});
+
+		it("should commit withdrawals with the chunk's events and checkpoint", async () => {
+			const result = await eventService.commitChunk(
+				TEST_CHAIN_ID,
+				[mockEvent],
+				1999,
+				undefined,
+				[mockWithdrawal]
+			);
+
+			expect(result).toEqual({ inserted: 2, alreadyPresent: 0 });
+			expect(await FeesWithdrawnEventModel.countDocuments({})).toBe(1);
+			const lastBlock = await LastScannedBlockModel.findOne({});
+			expect(lastBlock?.blockNumber).toBe(1999);
+		});
+
+		it("should only return the withdrawals of the integrator", async () => {
+			const otherAddress = "0x" + "c".repeat(40);
+			await eventService.storeWithdrawals(
+				[
+					mockWithdrawal,
+					{
+						...mockWithdrawal,
+						args: { ...mockWithdrawal.args, to: otherAddress },
+						logIndex: 2,
+					},
+				],
+				TEST_CHAIN_ID
+			);
+
+			const withdrawals = await eventService.getWithdrawalsByIntegrator(
+				TEST_CHAIN_ID,
+				validAddress
+			);
+
+			expect(withdrawals).toHaveLength(1);
+			expect(withdrawals[0].amount).toBe(mockWithdrawal.args.amount);
+		});
+
+		it("should delete withdrawals above a reorged block", async () => {
+			await eventService.storeWithdrawals(
+				[mockWithdrawal, { ...mockWithdrawal, event: "LiFiFeesWithdrawn" }],
+				TEST_CHAIN_ID
+			);
+
+			const deleted = await eventService.deleteEventsAfterBlock(
+				TEST_CHAIN_ID,
+				mockWithdrawal.blockNumber - 1
+			);
+
+			expect(deleted).toBe(2);
+			expect(await FeesWithdrawnEventModel.countDocuments({})).toBe(0);
+			expect(await LiFiFeesWithdrawnEventModel.countDocuments({})).toBe(0);
+		});
+	});
+
+	describe("getEventsByIntegrator", () => {
+		/**
+		 * Test paging through an integrator's events
+		 * Verifies that pages follow the chain order in both directions and end with hasMore false
+		 */
+		it("should page through the events in chain order", async () => {
+			await eventService.storeEvents(
+				[
+					{ ...mockEvent, blockNumber: 1001, logIndex: 0 },
+					{ ...mockEvent, blockNumber: 1000, logIndex: 3 },
+					{
+						...mockEvent,
+						blockNumber: 1000,
+						logIndex: 0,
+						transactionHash: "0x" + "c".repeat(64),
+					},
+				],
+				TEST_CHAIN_ID
+			);
+			const positions = (events: { blockNumber: number; logIndex: number }[]) =>
+				events.map(({ blockNumber, logIndex }) => [blockNumber, logIndex]);
+
+			const first = await eventService.getEventsByIntegrator(
+				TEST_CHAIN_ID,
+				validAddress,
+				{ limit: 2, order: "asc" }
+			);
+			expect(positions(first.events)).toEqual([
+				[1000, 0],
+				[1000, 3],
+			]);
+			expect(first.hasMore).toBe(true);
+
+			const second = await eventService.getEventsByIntegrator(
+				TEST_CHAIN_ID,
+				validAddress,
+				{ limit: 2, order: "asc", cursor: first.events[1] }
+			);
+			expect(positions(second.events)).toEqual([[1001, 0]]);
+			expect(second.hasMore).toBe(false);
+
+			const newest = await eventService.getEventsByIntegrator(
+				TEST_CHAIN_ID,
+				validAddress,
+				{ limit: 2, order: "desc", cursor: { blockNumber: 1001, logIndex: 0 } }
+			);
+			expect(positions(newest.events)).toEqual([
+				[1000, 3],
+				[1000, 0],
+			]);
+			expect(newest.hasMore).toBe(false);
+		});
+	});
+
 	describe("getLastScannedBlock", () => {
 		/**
 		 * Test retrieval of last scanned block
@@ -0,0 +1,169 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { FailedChunkService } from "../../../src/services/failedChunkService";
+import { FailedChunkModel } from "../../../src/models/FailedChunk";
+import { ChainIds } from "../../../src/types/chains";
+import { config, getCurrentContract } from "../../../src/utils/config";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("FailedChunkService", () => {
+	let mongoServer: MongoMemoryServer;
+	let failedChunkService: FailedChunkService;
+	const TEST_CHAIN_ID = ChainIds.POLYGON;
+
+	// Makes every stored chunk due for a retry
+	const makeDue = () =>
+		FailedChunkModel.updateMany({}, { $set: { nextRetryAt: new Date(0) } });
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		await FailedChunkModel.createIndexes();
+		failedChunkService = FailedChunkService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await FailedChunkModel.deleteMany({});
+	});
+
+	describe("recordFailure", () => {
+		it("should create an entry and count further attempts", async () => {
+			await failedChunkService.recordFailure(
+				TEST_CHAIN_ID,
+				1000,
+				1999,
+				new Error("first")
+			);
+			const attempts = await failedChunkService.recordFailure(
+				TEST_CHAIN_ID,
+				1000,
+				1999,
+				new Error("second")
+			);
+
+			expect(attempts).toBe(2);
+			const chunks = await FailedChunkModel.find({});
+			expect(chunks).toHaveLength(1);
+			expect(chunks[0].error).toBe("second");
+			expect(chunks[0].attempts).toBe(2);
+		});
+
+		it("should back off exponentially before the next retry", async () => {
+			const before = Date.now();
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+
+			const chunk = await FailedChunkModel.findOne({});
+			const { baseDelayMs, maxDelayMs } = config.failedChunkRetry;
+			expect(chunk!.nextRetryAt.getTime()).toBeGreaterThanOrEqual(
+				before + Math.min(baseDelayMs * 2, maxDelayMs)
+			);
+		});
+	});
+
+	describe("getDueChunks", () => {
+		it("should return due chunks at or below the given block", async () => {
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 3000, 3999, "x");
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 5000, 5999, "x");
+			await failedChunkService.recordFailure(ChainIds.ETHEREUM, 1, 10, "x");
+			await makeDue();
+
+			const chunks = await failedChunkService.getDueChunks(TEST_CHAIN_ID, 4000);
+
+			expect(chunks.map((c) => c.fromBlock)).toEqual([1000, 3000]);
+		});
+
+		it("should skip chunks that are not due yet", async () => {
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+
+			const chunks = await failedChunkService.getDueChunks(TEST_CHAIN_ID, 4000);
+
+			expect(chunks).toHaveLength(0);
+		});
+
+		it("should skip chunks that used up their attempts", async () => {
+			await FailedChunkModel.create({
+				chainId: TEST_CHAIN_ID,
+				contractAddress: getCurrentContract(TEST_CHAIN_ID).address,
+				fromBlock: 1000,
+				toBlock: 1999,
+				error: "x",
+				attempts: config.failedChunkRetry.maxAttempts,
+				lastAttemptAt: new Date(0),
+				nextRetryAt: new Date(0),
+			});
+
+			const chunks = await failedChunkService.getDueChunks(TEST_CHAIN_ID, 4000);
+
+			expect(chunks).toHaveLength(0);
+		});
+	});
+
+	describe("split", () => {
+		it("should replace a chunk with its two halves", async () => {
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+			const chunk = await FailedChunkModel.findOne({}).lean();
+
+			const split = await failedChunkService.split(chunk!);
+
+			expect(split).toBe(true);
+			const chunks = await FailedChunkModel.find({}).sort({ fromBlock: 1 });
+			expect(chunks.map((c) => [c.fromBlock, c.toBlock])).toEqual([
+				[1000, 1499],
+				[1500, 1999],
+			]);
+			expect(chunks.every((c) => c.attempts === 1)).toBe(true);
+		});
+
+		it("should not split a single-block chunk", async () => {
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1000, "x");
+			const chunk = await FailedChunkModel.findOne({}).lean();
+
+			expect(await failedChunkService.split(chunk!)).toBe(false);
+			expect(await FailedChunkModel.countDocuments()).toBe(1);
+		});
+	});
+
+	describe("resolve and clear", () => {
+		it("should remove a resolved chunk", async () => {
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+
+			await failedChunkService.resolve(TEST_CHAIN_ID, 1000, 1999);
+
+			expect(await FailedChunkModel.countDocuments()).toBe(0);
+		});
+
+		it("should clear only the chunks of the given chain", async () => {
+			await failedChunkService.recordFailure(TEST_CHAIN_ID, 1000, 1999, "x");
+			await failedChunkService.recordFailure(ChainIds.ETHEREUM, 1, 10, "x");
+
+			const deleted = await failedChunkService.clearFailedChunks(TEST_CHAIN_ID);
+
+			expect(deleted).toBe(1);
+			const remaining = await failedChunkService.listFailedChunks();
+			expect(remaining.map((c) => c.chainId)).toEqual([ChainIds.ETHEREUM]);
+		});
+	});
+});
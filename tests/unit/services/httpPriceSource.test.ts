@@ -0,0 +1,95 @@
+import { HttpPriceSource } from "../../../src/services/httpPriceSource";
+import { ChainIds } from "../../../src/types/chains";
+import {
+	describe,
+	expect,
+	it,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
+
+describe("HttpPriceSource", () => {
+	const token = "0x" + "a".repeat(40);
+	const realFetch = global.fetch;
+	let fetchMock: jest.Mock<typeof fetch>;
+	let source: HttpPriceSource;
+
+	const respond = (status: number, body?: unknown) =>
+		({
+			ok: status >= 200 && status < 300,
+			status,
+			json: async () => body,
+		}) as Response;
+
+	beforeEach(() => {
+		fetchMock = jest.fn<typeof fetch>();
+		global.fetch = fetchMock;
+		source = new HttpPriceSource(
+			"https://prices.example/{chainId}/{token}?symbol={symbol}&at={timestamp}"
+		);
+	});
+
+	afterEach(() => {
+		global.fetch = realFetch;
+	});
+
+	it("should request the price of the hour and cache it", async () => {
+		fetchMock.mockResolvedValue(respond(200, { usd: 1.5 }));
+
+		const price = await source.getPrice({
+			chainId: ChainIds.POLYGON,
+			token,
+			symbol: "USDC",
+			timestamp: new Date("2024-01-01T00:10:00Z"),
+		});
+		await source.getPrice({
+			chainId: ChainIds.POLYGON,
+			token,
+			timestamp: new Date("2024-01-01T00:50:00Z"),
+		});
+
+		expect(price).toBe(1.5);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(fetchMock.mock.calls[0][0]).toBe(
+			`https://prices.example/${ChainIds.POLYGON}/${token}?symbol=USDC&at=1704067200`
+		);
+	});
+
+	it("should share one request between concurrent lookups of an hour", async () => {
+		fetchMock.mockResolvedValue(respond(200, { usd: 2 }));
+
+		const prices = await Promise.all(
+			["2024-01-01T00:10:00Z", "2024-01-01T00:20:00Z"].map((time) =>
+				source.getPrice({
+					chainId: ChainIds.POLYGON,
+					token,
+					timestamp: new Date(time),
+				})
+			)
+		);
+
+		expect(prices).toEqual([2, 2]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("should return null for an unknown price and throw on API errors", async () => {
+		fetchMock.mockResolvedValueOnce(respond(404));
+		expect(
+			await source.getPrice({
+				chainId: ChainIds.POLYGON,
+				token,
+				timestamp: new Date("2024-01-01T00:00:00Z"),
+			})
+		).toBeNull();
+
+		fetchMock.mockResolvedValueOnce(respond(500));
+		await expect(
+			source.getPrice({
+				chainId: ChainIds.POLYGON,
+				token,
+				timestamp: new Date("2024-01-02T00:00:00Z"),
+			})
+		).rejects.toThrow("Price API answered with status 500");
+	});
+});
@@ -0,0 +1,179 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { LeaseService } from "../../../src/services/leaseService";
+import { ScannerLeaseModel } from "../../../src/models/ScannerLease";
+import { ChainIds } from "../../../src/types/chains";
+import { config } from "../../../src/utils/config";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("LeaseService", () => {
+	let mongoServer: MongoMemoryServer;
+	let leaseService: LeaseService;
+	const TEST_CHAIN_ID = ChainIds.POLYGON;
+	const OTHER_OWNER = "other-replica";
+
+	// Stores a lease of another replica that expires after the given time
+	const leaseOfOtherReplica = (expiresInMs: number) =>
+		ScannerLeaseModel.create({
+			chainId: TEST_CHAIN_ID,
+			ownerId: OTHER_OWNER,
+			acquiredAt: new Date(),
+			expiresAt: new Date(Date.now() + expiresInMs),
+		});
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		await ScannerLeaseModel.createIndexes();
+		leaseService = LeaseService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await ScannerLeaseModel.deleteMany({});
+	});
+
+	describe("acquire", () => {
+		it("should take a free lease", async () => {
+			const acquired = await leaseService.acquire(TEST_CHAIN_ID);
+
+			expect(acquired).toBe(true);
+			const lease = await ScannerLeaseModel.findOne({ chainId: TEST_CHAIN_ID });
+			expect(lease?.ownerId).toBe(leaseService.getOwnerId());
+			expect(lease!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+		});
+
+		it("should renew a lease it already owns", async () => {
+			await leaseService.acquire(TEST_CHAIN_ID);
+			const first = await ScannerLeaseModel.findOne({ chainId: TEST_CHAIN_ID });
+
+			const acquired = await leaseService.acquire(TEST_CHAIN_ID);
+
+			expect(acquired).toBe(true);
+			const second = await ScannerLeaseModel.findOne({
+				chainId: TEST_CHAIN_ID,
+			});
+			expect(second!.acquiredAt).toEqual(first!.acquiredAt);
+			expect(second!.expiresAt.getTime()).toBeGreaterThanOrEqual(
+				first!.expiresAt.getTime()
+			);
+		});
+
+		it("should not take a live lease of another replica", async () => {
+			await leaseOfOtherReplica(60000);
+
+			const acquired = await leaseService.acquire(TEST_CHAIN_ID);
+
+			expect(acquired).toBe(false);
+			const lease = await ScannerLeaseModel.findOne({ chainId: TEST_CHAIN_ID });
+			expect(lease?.ownerId).toBe(OTHER_OWNER);
+		});
+
+		it("should take over an expired lease", async () => {
+			await leaseOfOtherReplica(-1000);
+
+			const acquired = await leaseService.acquire(TEST_CHAIN_ID);
+
+			expect(acquired).toBe(true);
+			const lease = await ScannerLeaseModel.findOne({ chainId: TEST_CHAIN_ID });
+			expect(lease?.ownerId).toBe(leaseService.getOwnerId());
+		});
+	});
+
+	describe("renew and release", () => {
+		it("should not renew a lease another replica took over", async () => {
+			await leaseService.acquire(TEST_CHAIN_ID);
+			await ScannerLeaseModel.updateOne(
+				{ chainId: TEST_CHAIN_ID },
+				{ $set: { ownerId: OTHER_OWNER } }
+			);
+
+			expect(await leaseService.renew(TEST_CHAIN_ID)).toBe(false);
+		});
+
+		it("should expire a released lease so another replica can take it", async () => {
+			await leaseService.acquire(TEST_CHAIN_ID);
+
+			await leaseService.release(TEST_CHAIN_ID);
+
+			const lease = await ScannerLeaseModel.findOne({ chainId: TEST_CHAIN_ID });
+			expect(lease!.expiresAt.getTime()).toBeLessThanOrEqual(Date.now());
+		});
+
+		it("should not release a lease of another replica", async () => {
+			await leaseOfOtherReplica(60000);
+
+			await leaseService.release(TEST_CHAIN_ID);
+
+			const lease = await ScannerLeaseModel.findOne({ chainId: TEST_CHAIN_ID });
+			expect(lease!.expiresAt.getTime()).toBeGreaterThan(Date.now());
+		});
+	});
+
+	describe("hold", () => {
+		const renewIntervalMs = config.scannerLease.renewIntervalMs;
+
+		beforeEach(() => {
+			(config.scannerLease as any).renewIntervalMs = 20;
+		});
+
+		afterEach(() => {
+			(config.scannerLease as any).renewIntervalMs = renewIntervalMs;
+		});
+
+		it("should return null when another replica holds the lease", async () => {
+			await leaseOfOtherReplica(60000);
+
+			expect(await leaseService.hold(TEST_CHAIN_ID)).toBeNull();
+		});
+
+		it("should abort the lease signal once the lease is taken over", async () => {
+			const lease = await leaseService.hold(TEST_CHAIN_ID);
+			expect(lease?.signal.aborted).toBe(false);
+
+			await ScannerLeaseModel.updateOne(
+				{ chainId: TEST_CHAIN_ID },
+				{ $set: { ownerId: OTHER_OWNER } }
+			);
+			await new Promise((resolve) => setTimeout(resolve, 100));
+
+			expect(lease!.signal.aborted).toBe(true);
+			await lease!.release();
+		});
+
+		it("should abort the lease signal with its parent signal", async () => {
+			const controller = new AbortController();
+			const lease = await leaseService.hold(TEST_CHAIN_ID, controller.signal);
+
+			controller.abort();
+
+			expect(lease!.signal.aborted).toBe(true);
+			await lease!.release();
+			const stored = await ScannerLeaseModel.findOne({
+				chainId: TEST_CHAIN_ID,
+			});
+			expect(stored!.expiresAt.getTime()).toBeLessThanOrEqual(Date.now());
+		});
+	});
+});
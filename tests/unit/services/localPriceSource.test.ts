@@ -0,0 +1,87 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { LocalPriceSource } from "../../../src/services/localPriceSource";
+import { ConfigurationError } from "../../../src/errors/AppError";
+import { ChainIds } from "../../../src/types/chains";
+import { describe, expect, it, afterEach } from "@jest/globals";
+
+describe("LocalPriceSource", () => {
+	const token = "0x" + "a".repeat(40);
+	const csvFile = path.join(os.tmpdir(), `prices-${process.pid}.csv`);
+	const jsonFile = path.join(os.tmpdir(), `prices-${process.pid}.json`);
+	const HOUR_MS = 3600000;
+	const at = (iso: string) => new Date(iso);
+
+	afterEach(() => {
+		for (const file of [csvFile, jsonFile]) {
+			if (fs.existsSync(file)) fs.unlinkSync(file);
+		}
+	});
+
+	it("should return the latest price at or before the queried time", async () => {
+		fs.writeFileSync(
+			csvFile,
+			[
+				"# USDC on Polygon",
+				"chainId,token,timestamp,usd",
+				`${ChainIds.POLYGON},${token.toUpperCase().replace("0X", "0x")},2024-01-01T02:00:00Z,1.01`,
+				"",
+				`${ChainIds.POLYGON},${token},2024-01-01T00:00:00Z,0.99`,
+			].join("\n")
+		);
+		const source = LocalPriceSource.fromFile(csvFile, HOUR_MS);
+		const query = (timestamp: Date) =>
+			source.getPrice({ chainId: ChainIds.POLYGON, token, timestamp });
+
+		expect(await query(at("2024-01-01T00:30:00Z"))).toBe(0.99);
+		expect(await query(at("2024-01-01T02:00:00Z"))).toBe(1.01);
+		// Before the first price, and too long after the last one
+		expect(await query(at("2023-12-31T23:00:00Z"))).toBeNull();
+		expect(await query(at("2024-01-01T03:30:00Z"))).toBeNull();
+		// Unknown token
+		expect(
+			await source.getPrice({
+				chainId: ChainIds.ETHEREUM,
+				token,
+				timestamp: at("2024-01-01T00:30:00Z"),
+			})
+		).toBeNull();
+	});
+
+	it("should load a JSON price table with unix timestamps", async () => {
+		fs.writeFileSync(
+			jsonFile,
+			JSON.stringify([
+				{ chainId: ChainIds.POLYGON, token, timestamp: 1704067200, usd: 2 },
+			])
+		);
+		const source = LocalPriceSource.fromFile(jsonFile, HOUR_MS);
+
+		expect(
+			await source.getPrice({
+				chainId: ChainIds.POLYGON,
+				token,
+				timestamp: at("2024-01-01T00:10:00Z"),
+			})
+		).toBe(2);
+	});
+
+	it("should name the invalid row", () => {
+		fs.writeFileSync(
+			csvFile,
+			[
+				"chainId,token,timestamp,usd",
+				`${ChainIds.POLYGON},${token},1704067200,1`,
+				`${ChainIds.POLYGON},${token},1704070800,unknown`,
+			].join("\n")
+		);
+
+		expect(() => LocalPriceSource.fromFile(csvFile, HOUR_MS)).toThrow(
+			ConfigurationError
+		);
+		expect(() => LocalPriceSource.fromFile(csvFile, HOUR_MS)).toThrow(
+			/row 2: usd/
+		);
+	});
+});
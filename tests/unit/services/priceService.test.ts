@@ -0,0 +1,269 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { PriceService } from "../../../src/services/priceService";
+import { TokenService } from "../../../src/services/tokenService";
+import { FeeCollectedEventModel } from "../../../src/models/FeeCollectedEvent";
+import { TokenModel } from "../../../src/models/Token";
+import { ChainIds } from "../../../src/types/chains";
+import { PriceQuery } from "../../../src/types/prices";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+jest.mock("../../../src/services/blockchainService");
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("PriceService", () => {
+	let mongoServer: MongoMemoryServer;
+	let priceService: PriceService;
+	let getPrice: jest.Mock<(query: PriceQuery) => Promise<number | null>>;
+	const integrator = "0x" + "a".repeat(40);
+	const usdc = "0x" + "c".repeat(40);
+	const unknownToken = "0x" + "d".repeat(40);
+	let logIndex = 0;
+
+	// Builds a FeesCollected document of the integrator
+	const collected = (
+		token: string,
+		integratorFee: string,
+		lifiFee: string,
+		blockTimestamp?: Date
+	) => ({
+		chainId: ChainIds.POLYGON,
+		contractAddress: "0x" + "f".repeat(40),
+		token,
+		integrator,
+		integratorFee,
+		lifiFee,
+		blockNumber: 100 + logIndex,
+		transactionHash: "0x" + "e".repeat(64),
+		logIndex: logIndex++,
+		...(blockTimestamp && { blockTimestamp }),
+	});
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await FeeCollectedEventModel.deleteMany({});
+		await TokenModel.deleteMany({});
+		await TokenModel.create({
+			chainId: ChainIds.POLYGON,
+			address: usdc,
+			symbol: "USDC",
+			decimals: 6,
+		});
+		(TokenService.getInstance() as any).tokens = new Map();
+
+		getPrice = jest.fn<(query: PriceQuery) => Promise<number | null>>();
+		priceService = PriceService.getInstance();
+		(priceService as any).source = { name: "test", getPrice };
+	});
+
+	it("should value an event at the price of its block time", async () => {
+		getPrice.mockResolvedValue(2);
+		const blockTimestamp = new Date("2024-01-01T00:00:00Z");
+
+		const [event] = await priceService.valueEvents([
+			{
+				chainId: ChainIds.POLYGON,
+				token: usdc,
+				blockTimestamp,
+				tokenSymbol: "USDC",
+				integratorFeeFormatted: "1.5",
+				lifiFeeFormatted: "0.25",
+			},
+		]);
+
+		expect(event).toMatchObject({
+			priceUsd: 2,
+			integratorFeeUsd: 3,
+			lifiFeeUsd: 0.5,
+			priceStatus: "priced",
+		});
+		expect(getPrice).toHaveBeenCalledWith({
+			chainId: ChainIds.POLYGON,
+			token: usdc,
+			symbol: "USDC",
+			timestamp: blockTimestamp,
+		});
+	});
+
+	it("should mark why an event is unpriced", async () => {
+		getPrice.mockResolvedValueOnce(null);
+		getPrice.mockRejectedValueOnce(new Error("Price API unavailable"));
+		const base = {
+			chainId: ChainIds.POLYGON,
+			token: usdc,
+			blockTimestamp: new Date("2024-01-01T00:00:00Z"),
+			tokenSymbol: "USDC",
+			integratorFeeFormatted: "1.5",
+			lifiFeeFormatted: "0.25",
+		};
+
+		const events = await priceService.valueEvents([
+			{ ...base, blockTimestamp: undefined },
+			{ ...base, integratorFeeFormatted: null, lifiFeeFormatted: null },
+			base,
+			base,
+		]);
+
+		expect(events.map((event) => event.priceStatus)).toEqual([
+			"no_timestamp",
+			"no_decimals",
+			"no_price",
+			"no_price",
+		]);
+		for (const event of events) {
+			expect(event.integratorFeeUsd).toBeNull();
+			expect(event.lifiFeeUsd).toBeNull();
+		}
+	});
+
+	it("should sum the revenue without counting unpriced events as zero", async () => {
+		getPrice.mockImplementation(async ({ timestamp }) =>
+			timestamp.getUTCDate() === 1 ? 1 : 2
+		);
+		await FeeCollectedEventModel.create([
+			collected(usdc, "1000000", "500000", new Date("2024-01-01T00:00:00Z")),
+			collected(usdc, "2000000", "1000000", new Date("2024-01-02T00:00:00Z")),
+			// Not yet timestamped
+			collected(usdc, "3000000", "0"),
+			// Token without decimals
+			collected(unknownToken, "7", "1", new Date("2024-01-01T00:00:00Z")),
+		]);
+
+		const revenue = await priceService.getRevenue({ integrator });
+
+		expect(revenue).toMatchObject({
+			priceSource: "test",
+			integratorFeeUsd: 5,
+			lifiFeeUsd: 2.5,
+			pricedEvents: 2,
+			unpricedEvents: 2,
+			complete: false,
+		});
+		expect(revenue.tokens).toEqual([
+			{
+				chainId: ChainIds.POLYGON,
+				token: usdc,
+				tokenSymbol: "USDC",
+				tokenDecimals: 6,
+				events: 3,
+				unpricedEvents: 1,
+				integratorFee: "6000000",
+				lifiFee: "1500000",
+				integratorFeeFormatted: "6.0",
+				lifiFeeFormatted: "1.5",
+				integratorFeeUsd: 5,
+				lifiFeeUsd: 2.5,
+			},
+			{
+				chainId: ChainIds.POLYGON,
+				token: unknownToken,
+				tokenSymbol: null,
+				tokenDecimals: null,
+				events: 1,
+				unpricedEvents: 1,
+				integratorFee: "7",
+				lifiFee: "1",
+				integratorFeeFormatted: null,
+				lifiFeeFormatted: null,
+				integratorFeeUsd: null,
+				lifiFeeUsd: null,
+			},
+		]);
+	});
+
+	it("should price each token and block time once", async () => {
+		getPrice.mockImplementation(async ({ timestamp }) =>
+			timestamp.getUTCMinutes() === 5 ? 1 : 2
+		);
+		const blockTime = new Date("2024-01-01T10:05:00Z");
+		await FeeCollectedEventModel.create([
+			collected(usdc, "1000000", "0", blockTime),
+			collected(usdc, "2000000", "0", blockTime),
+			collected(usdc, "4000000", "0", new Date("2024-01-01T10:55:00Z")),
+		]);
+
+		const revenue = await priceService.getRevenue({ integrator });
+
+		expect(revenue.integratorFeeUsd).toBe(11);
+		expect(revenue.pricedEvents).toBe(3);
+		expect(revenue.tokens[0]).toMatchObject({
+			events: 3,
+			integratorFee: "7000000",
+		});
+		expect(getPrice).toHaveBeenCalledTimes(2);
+	});
+
+	it("should sum fees beyond 34 digits exactly", async () => {
+		const fee = "1" + "0".repeat(39) + "1";
+		await FeeCollectedEventModel.create([
+			collected(unknownToken, fee, "0"),
+			collected(unknownToken, fee, "0"),
+		]);
+
+		const revenue = await priceService.getRevenue({ integrator });
+
+		expect(revenue.tokens[0].integratorFee).toBe("2" + "0".repeat(39) + "2");
+	});
+
+	it("should look up each token and time once when valuing events", async () => {
+		getPrice.mockResolvedValue(1);
+		const event = {
+			chainId: ChainIds.POLYGON,
+			token: usdc,
+			blockTimestamp: new Date("2024-01-01T00:00:00Z"),
+			tokenSymbol: "USDC",
+			integratorFeeFormatted: "1",
+			lifiFeeFormatted: "0",
+		};
+
+		const events = await priceService.valueEvents([event, { ...event }]);
+
+		expect(events.map((valued) => valued.priceStatus)).toEqual([
+			"priced",
+			"priced",
+		]);
+		expect(getPrice).toHaveBeenCalledTimes(1);
+	});
+
+	it("should only count the events of the time range", async () => {
+		getPrice.mockResolvedValue(1);
+		await FeeCollectedEventModel.create([
+			collected(usdc, "1000000", "0", new Date("2024-01-01T00:00:00Z")),
+			collected(usdc, "2000000", "0", new Date("2024-02-01T00:00:00Z")),
+			collected(usdc, "4000000", "0"),
+		]);
+
+		const revenue = await priceService.getRevenue({
+			from: new Date("2024-01-01T00:00:00Z"),
+			to: new Date("2024-02-01T00:00:00Z"),
+		});
+
+		expect(revenue.integratorFeeUsd).toBe(1);
+		expect(revenue.pricedEvents).toBe(1);
+		expect(revenue.complete).toBe(true);
+	});
+});
@@ -0,0 +1,221 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { ReconciliationService } from "../../../src/services/reconciliationService";
+import { BlockchainService } from "../../../src/services/blockchainService";
+import { EventService } from "../../../src/services/eventService";
+import { ReconciliationReportModel } from "../../../src/models/ReconciliationReport";
+import { FeeCollectedEventModel } from "../../../src/models/FeeCollectedEvent";
+import { config, getCurrentContract } from "../../../src/utils/config";
+import {
+	BlockchainError,
+	DatabaseError,
+	NotFoundError,
+	ValidationError,
+} from "../../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+jest.mock("../../../src/services/blockchainService");
+jest.mock("../../../src/services/eventService");
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ReconciliationService", () => {
+	let mongoServer: MongoMemoryServer;
+	let reconciliationService: ReconciliationService;
+	let mockBlockchainService: jest.Mocked<BlockchainService>;
+	let mockEventService: jest.Mocked<EventService>;
+	const TEST_CHAIN_ID = config.enabledChains[0];
+	const CHECKPOINT = 1000;
+	const integrator = "0x" + "a".repeat(40);
+	const token = "0x" + "c".repeat(40);
+
+	// Builds a FeesCollected document at the given block
+	const collected = (blockNumber: number, logIndex: number) => ({
+		chainId: TEST_CHAIN_ID,
+		contractAddress: token,
+		token,
+		integrator,
+		integratorFee: "100",
+		lifiFee: "10",
+		blockNumber,
+		transactionHash: "0x" + "e".repeat(64),
+		logIndex,
+	});
+
+	// Waits until the background run of a chain has finished
+	const waitForRun = async () => {
+		await (reconciliationService as any).runningChains.get(TEST_CHAIN_ID)?.done;
+	};
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		reconciliationService = ReconciliationService.getInstance();
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await Promise.all([
+			ReconciliationReportModel.deleteMany({}),
+			FeeCollectedEventModel.deleteMany({}),
+		]);
+		// Only the first event is covered by the checkpoint
+		await FeeCollectedEventModel.create([
+			collected(CHECKPOINT, 0),
+			collected(CHECKPOINT + 1, 1),
+		]);
+
+		mockBlockchainService = {
+			getIntegratorTokenBalance: jest.fn(),
+			getLifiTokenBalance: jest.fn(),
+		} as unknown as jest.Mocked<BlockchainService>;
+		mockEventService = {
+			getLastScannedBlock: jest.fn(),
+		} as unknown as jest.Mocked<EventService>;
+		mockEventService.getLastScannedBlock.mockResolvedValue(CHECKPOINT);
+
+		(reconciliationService as any).blockchainService = mockBlockchainService;
+		(reconciliationService as any).eventService = mockEventService;
+	});
+
+	it("should report a matched run when the contract agrees at the checkpoint", async () => {
+		mockBlockchainService.getIntegratorTokenBalance.mockResolvedValue("100");
+		mockBlockchainService.getLifiTokenBalance.mockResolvedValue("10");
+
+		const report =
+			await reconciliationService.startReconciliation(TEST_CHAIN_ID);
+		expect(report.status).toBe("running");
+		await waitForRun();
+
+		const stored = await reconciliationService.getReport(report._id.toString());
+		expect(stored).toMatchObject({
+			blockNumber: CHECKPOINT,
+			status: "matched",
+			checked: 2,
+			mismatchCount: 0,
+		});
+		expect(stored.finishedAt).toBeDefined();
+		expect(
+			mockBlockchainService.getIntegratorTokenBalance
+		).toHaveBeenCalledWith(TEST_CHAIN_ID, integrator, token, CHECKPOINT);
+	});
+
+	it("should persist the balances that differ from the contract", async () => {
+		mockBlockchainService.getIntegratorTokenBalance.mockResolvedValue("150");
+		mockBlockchainService.getLifiTokenBalance.mockResolvedValue("10");
+
+		const report =
+			await reconciliationService.startReconciliation(TEST_CHAIN_ID);
+		await waitForRun();
+
+		const stored = await reconciliationService.getReport(report._id.toString());
+		expect(stored.status).toBe("mismatched");
+		expect(stored.mismatchCount).toBe(1);
+		expect(stored.mismatches).toEqual([
+			{
+				kind: "integrator",
+				integrator,
+				token,
+				expected: "100",
+				actual: "150",
+				difference: "50",
+			},
+		]);
+	});
+
+	it("should fail the report when the contract cannot be read", async () => {
+		mockBlockchainService.getIntegratorTokenBalance.mockRejectedValue(
+			new BlockchainError("Failed to get integrator token balance")
+		);
+
+		const report =
+			await reconciliationService.startReconciliation(TEST_CHAIN_ID);
+		await waitForRun();
+
+		const stored = await reconciliationService.getReport(report._id.toString());
+		expect(stored.status).toBe("failed");
+		expect(stored.error).toBe("Failed to get integrator token balance");
+	});
+
+	it("should reject a second run while the chain is being reconciled", async () => {
+		mockBlockchainService.getIntegratorTokenBalance.mockResolvedValue("100");
+		mockBlockchainService.getLifiTokenBalance.mockResolvedValue("10");
+
+		await reconciliationService.startReconciliation(TEST_CHAIN_ID);
+		await expect(
+			reconciliationService.startReconciliation(TEST_CHAIN_ID)
+		).rejects.toThrow(ValidationError);
+		await waitForRun();
+	});
+
+	it("should reject a run started while the first one creates its report", async () => {
+		mockBlockchainService.getIntegratorTokenBalance.mockResolvedValue("100");
+		mockBlockchainService.getLifiTokenBalance.mockResolvedValue("10");
+
+		const [first, second] = await Promise.allSettled([
+			reconciliationService.startReconciliation(TEST_CHAIN_ID),
+			reconciliationService.startReconciliation(TEST_CHAIN_ID),
+		]);
+		await waitForRun();
+
+		expect(first.status).toBe("fulfilled");
+		expect(second.status).toBe("rejected");
+		expect((second as PromiseRejectedResult).reason).toBeInstanceOf(
+			ValidationError
+		);
+		expect(await ReconciliationReportModel.countDocuments({})).toBe(1);
+	});
+
+	it("should release the chain when the report cannot be created", async () => {
+		mockEventService.getLastScannedBlock.mockRejectedValueOnce(
+			new DatabaseError("Failed to get last scanned block")
+		);
+		mockBlockchainService.getIntegratorTokenBalance.mockResolvedValue("100");
+		mockBlockchainService.getLifiTokenBalance.mockResolvedValue("10");
+
+		await expect(
+			reconciliationService.startReconciliation(TEST_CHAIN_ID)
+		).rejects.toThrow(DatabaseError);
+		await reconciliationService.startReconciliation(TEST_CHAIN_ID);
+		await waitForRun();
+	});
+
+	it("should fail reports this replica left running", async () => {
+		const report = await ReconciliationReportModel.create({
+			chainId: TEST_CHAIN_ID,
+			contractAddress: getCurrentContract(TEST_CHAIN_ID).address,
+			blockNumber: CHECKPOINT,
+			ownerId: config.instanceId,
+		});
+
+		await reconciliationService.failInterruptedReports();
+
+		const stored = await reconciliationService.getReport(report._id.toString());
+		expect(stored.status).toBe("failed");
+		expect(stored.error).toBe("Interrupted by a restart");
+	});
+
+	it("should throw NotFoundError for an unknown report", async () => {
+		await expect(
+			reconciliationService.getReport(new mongoose.Types.ObjectId().toString())
+		).rejects.toThrow(NotFoundError);
+	});
+});
@@ -0,0 +1,155 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { ReorgService } from "../../../src/services/reorgService";
+import { BlockchainService } from "../../../src/services/blockchainService";
+import { EventService } from "../../../src/services/eventService";
+import { FeeCollectedEventModel } from "../../../src/models/FeeCollectedEvent";
+import { LastScannedBlockModel } from "../../../src/models/LastScannedBlock";
+import { ScannedBlockModel } from "../../../src/models/ScannedBlock";
+import { ScannedRangeModel } from "../../../src/models/ScannedRange";
+import { ChainIds } from "../../../src/types/chains";
+import { config } from "../../../src/utils/config";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+jest.mock("../../../src/services/blockchainService");
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("ReorgService", () => {
+	let mongoServer: MongoMemoryServer;
+	let reorgService: ReorgService;
+	let mockBlockchainService: jest.Mocked<BlockchainService>;
+	const TEST_CHAIN_ID = ChainIds.POLYGON;
+	const validAddress = "0x" + "a".repeat(40);
+
+	// Builds a FeeCollectedEvent document at the given block
+	const eventAt = (blockNumber: number, logIndex: number) => ({
+		chainId: TEST_CHAIN_ID,
+		contractAddress: validAddress,
+		token: validAddress,
+		integrator: validAddress,
+		integratorFee: "1000",
+		lifiFee: "500",
+		blockNumber,
+		transactionHash: "0x" + blockNumber.toString(16).padStart(64, "0"),
+		logIndex,
+	});
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+		await Promise.all([
+			FeeCollectedEventModel.createIndexes(),
+			LastScannedBlockModel.createIndexes(),
+			ScannedBlockModel.createIndexes(),
+		]);
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await Promise.all([
+			FeeCollectedEventModel.deleteMany({}),
+			LastScannedBlockModel.deleteMany({}),
+			ScannedBlockModel.deleteMany({}),
+			ScannedRangeModel.deleteMany({}),
+		]);
+
+		mockBlockchainService = {
+			getBlockHash: jest.fn(),
+		} as unknown as jest.Mocked<BlockchainService>;
+
+		reorgService = ReorgService.getInstance();
+		(reorgService as any).blockchainService = mockBlockchainService;
+		(reorgService as any).eventService = EventService.getInstance();
+	});
+
+	describe("recordScannedBlock", () => {
+		it("should keep only the configured window of blocks", async () => {
+			const total = config.reorgWindowSize + 5;
+			for (let i = 1; i <= total; i++) {
+				await reorgService.recordScannedBlock(TEST_CHAIN_ID, i * 100, `0x${i}`);
+			}
+
+			const stored = await ScannedBlockModel.find({ chainId: TEST_CHAIN_ID });
+			expect(stored).toHaveLength(config.reorgWindowSize);
+			expect(Math.min(...stored.map((b) => b.blockNumber))).toBe(600);
+		});
+	});
+
+	describe("checkForReorg", () => {
+		it("should do nothing when the checkpoint hash still matches", async () => {
+			await LastScannedBlockModel.create({
+				chainId: TEST_CHAIN_ID,
+				contractAddress: validAddress,
+				blockNumber: 300,
+				blockHash: "0xc",
+			});
+			mockBlockchainService.getBlockHash.mockResolvedValue("0xc");
+
+			const result = await reorgService.checkForReorg(TEST_CHAIN_ID);
+
+			expect(result).toBeNull();
+		});
+
+		it("should roll back events and checkpoint to the common ancestor", async () => {
+			await reorgService.recordScannedBlock(TEST_CHAIN_ID, 100, "0xa");
+			await reorgService.recordScannedBlock(TEST_CHAIN_ID, 200, "0xb");
+			await reorgService.recordScannedBlock(TEST_CHAIN_ID, 300, "0xc");
+			await LastScannedBlockModel.create({
+				chainId: TEST_CHAIN_ID,
+				contractAddress: validAddress,
+				blockNumber: 300,
+				blockHash: "0xc",
+			});
+			await ScannedRangeModel.create({
+				chainId: TEST_CHAIN_ID,
+				contractAddress: validAddress,
+				fromBlock: 1,
+				toBlock: 300,
+			});
+			await FeeCollectedEventModel.create([
+				eventAt(50, 0),
+				eventAt(250, 0),
+				eventAt(290, 1),
+			]);
+
+			// Blocks 200 and 300 were replaced, block 100 is still canonical
+			mockBlockchainService.getBlockHash.mockImplementation(
+				async (_chainId, blockNumber) => (blockNumber === 100 ? "0xa" : "0xnew")
+			);
+
+			const result = await reorgService.checkForReorg(TEST_CHAIN_ID);
+
+			expect(result).toBe(100);
+			const events = await FeeCollectedEventModel.find({});
+			expect(events.map((e) => e.blockNumber)).toEqual([50]);
+			const checkpoint = await LastScannedBlockModel.findOne({
+				chainId: TEST_CHAIN_ID,
+			});
+			expect(checkpoint?.blockNumber).toBe(100);
+			expect(checkpoint?.blockHash).toBe("0xa");
+			const window = await ScannedBlockModel.find({ chainId: TEST_CHAIN_ID });
+			expect(window.map((b) => b.blockNumber)).toEqual([100]);
+			const coverage = await ScannedRangeModel.find({ chainId: TEST_CHAIN_ID });
+			expect(coverage.map((r) => r.toBlock)).toEqual([100]);
+		});
+	});
+});
@@ -0,0 +1,197 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { RpcPool } from "../../../src/services/rpcPool";
+import {
+	describe,
+	expect,
+	it,
+	afterEach,
+	jest,
+} from "@jest/globals";
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+const TEST_CHAIN_ID = 137;
+
+interface FakeRpcServer {
+	url: string;
+	calls: string[];
+	close: () => Promise<void>;
+}
+
+/**
+ * Starts a local JSON-RPC server that answers with the given handler.
+ * Throwing from the handler returns a JSON-RPC error response.
+ */
+async function startFakeRpc(
+	handler: (method: string, params: unknown[]) => unknown
+): Promise<FakeRpcServer> {
+	const calls: string[] = [];
+	const server = http.createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => (body += chunk));
+		req.on("end", () => {
+			const { id, method, params } = JSON.parse(body);
+			calls.push(method);
+			let payload: object;
+			try {
+				const result =
+					method === "eth_chainId" ? "0x89" : handler(method, params);
+				payload = { jsonrpc: "2.0", id, result };
+			} catch (error: any) {
+				payload = {
+					jsonrpc: "2.0",
+					id,
+					error: { code: -32000, message: error.message },
+				};
+			}
+			res.setHeader("content-type", "application/json");
+			res.end(JSON.stringify(payload));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}`,
+		calls,
+		close: () => new Promise((resolve) => server.close(() => resolve())),
+	};
+}
+
+// Returns the given block number for eth_blockNumber
+const headAt = (blockNumber: number) => (method: string) => {
+	if (method === "eth_blockNumber") return "0x" + blockNumber.toString(16);
+	throw new Error(`unsupported method ${method}`);
+};
+
+describe("RpcPool", () => {
+	let servers: FakeRpcServer[] = [];
+
+	afterEach(async () => {
+		await Promise.all(servers.map((server) => server.close()));
+		servers = [];
+	});
+
+	it("should fail over to the next endpoint when a call fails", async () => {
+		const failing = await startFakeRpc(() => {
+			throw new Error("internal error");
+		});
+		const healthy = await startFakeRpc(headAt(500));
+		servers.push(failing, healthy);
+		const pool = new RpcPool(TEST_CHAIN_ID, [failing.url, healthy.url], {
+			maxHeadLag: 5,
+		});
+
+		const result = await pool.execute("blockNumber", (provider) =>
+			provider.send("eth_blockNumber", [])
+		);
+
+		expect(parseInt(result, 16)).toBe(500);
+		const health = pool.getHealth();
+		expect(health[0].url).toBe(healthy.url);
+		expect(health[1].errorCount).toBe(1);
+	});
+
+	it("should throw when every endpoint fails", async () => {
+		const first = await startFakeRpc(() => {
+			throw new Error("first down");
+		});
+		const second = await startFakeRpc(() => {
+			throw new Error("second down");
+		});
+		servers.push(first, second);
+		const pool = new RpcPool(TEST_CHAIN_ID, [first.url, second.url], {
+			maxHeadLag: 5,
+		});
+
+		await expect(
+			pool.execute("blockNumber", (provider) =>
+				provider.send("eth_blockNumber", [])
+			)
+		).rejects.toThrow();
+	});
+
+	it("should return the highest head and demote lagging endpoints", async () => {
+		const lagging = await startFakeRpc(headAt(100));
+		const current = await startFakeRpc(headAt(200));
+		servers.push(lagging, current);
+		const pool = new RpcPool(TEST_CHAIN_ID, [lagging.url, current.url], {
+			maxHeadLag: 5,
+		});
+
+		const latestBlock = await pool.getLatestBlock();
+
+		expect(latestBlock).toBe(200);
+		const health = pool.getHealth();
+		expect(health[0].url).toBe(current.url);
+		expect(health[1]).toMatchObject({
+			url: lagging.url,
+			headLag: 100,
+			demoted: true,
+		});
+		expect(pool.getProvider().connection.url).toBe(current.url);
+	});
+
+	it("should only query logs from endpoints that reached the block", async () => {
+		// Within the allowed head lag, so the lagging endpoint is not demoted
+		let currentHead = 200;
+		const lagging = await startFakeRpc((method) => {
+			if (method === "eth_blockNumber") return "0x" + (198).toString(16);
+			if (method === "eth_getLogs") return [];
+			throw new Error(`unsupported method ${method}`);
+		});
+		const current = await startFakeRpc((method) => {
+			if (method === "eth_blockNumber") return "0x" + currentHead.toString(16);
+			if (method === "eth_getLogs") return [{ logIndex: "0x0" }];
+			throw new Error(`unsupported method ${method}`);
+		});
+		servers.push(lagging, current);
+		const pool = new RpcPool(TEST_CHAIN_ID, [lagging.url, current.url], {
+			maxHeadLag: 5,
+		});
+		const getLogs = (toBlock: number) =>
+			pool.execute(
+				"getLogs",
+				(provider) => provider.send("eth_getLogs", []),
+				toBlock
+			);
+
+		expect(await pool.getLatestBlock()).toBe(200);
+		// The lagging endpoint answers faster and ranks first
+		(pool as any).endpoints[1].latencyMs = 1000;
+		expect(pool.getHealth()[0]).toMatchObject({
+			url: lagging.url,
+			demoted: false,
+		});
+
+		expect(await getLogs(198)).toEqual([]);
+		expect(await getLogs(200)).toEqual([{ logIndex: "0x0" }]);
+		expect(lagging.calls.filter((m) => m === "eth_getLogs")).toHaveLength(1);
+
+		// Heads are polled again when no endpoint is known to have the block
+		currentHead = 201;
+		expect(await getLogs(201)).toEqual([{ logIndex: "0x0" }]);
+		await expect(getLogs(202)).rejects.toThrow(
+			"No RPC endpoint of chain 137 has reached block 202"
+		);
+	});
+
+	it("should keep serving the head when one endpoint is down", async () => {
+		const down = await startFakeRpc(() => {
+			throw new Error("unavailable");
+		});
+		const up = await startFakeRpc(headAt(300));
+		servers.push(down, up);
+		const pool = new RpcPool(TEST_CHAIN_ID, [down.url, up.url], {
+			maxHeadLag: 5,
+		});
+
+		expect(await pool.getLatestBlock()).toBe(300);
+	});
+});
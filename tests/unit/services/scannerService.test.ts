@@ -1,22 +1,58 @@
 import { ScannerService } from "../../../src/services/scannerService";
 import { BlockchainService } from "../../../src/services/blockchainService";
 import { EventService } from "../../../src/services/eventService";
-import { FeeCollectedEventData } from "../../../src/types/events";
-import { config } from "../../../src/utils/config";
+import { ReorgService } from "../../../src/services/reorgService";
+import { FailedChunkService } from "../../../src/services/failedChunkService";
+import { CoverageService } from "../../../src/services/coverageService";
+import { HeldLease, LeaseService } from "../../../src/services/leaseService";
+import { DeploymentBlockService } from "../../../src/services/deploymentBlockService";
+import { TokenService } from "../../../src/services/tokenService";
+import {
+	FeeCollectedEventData,
+	WithdrawalEventData,
+} from "../../../src/types/events";
+import { config, getCurrentContract } from "../../../src/utils/config";
 import { providers } from "ethers";
-import { describe, expect, it, beforeEach, jest } from "@jest/globals";
+import {
+	describe,
+	expect,
+	it,
+	beforeEach,
+	afterEach,
+	jest,
+} from "@jest/globals";
 import { ChainIds } from "../../../src/types/chains";
+import {
+	BlockchainError,
+	CircuitOpenError,
+	DatabaseError,
+	RangeLimitError,
+} from "../../../src/errors/AppError";
 
 // Mock the services
 jest.mock("../../../src/services/blockchainService");
 jest.mock("../../../src/services/eventService");
+jest.mock("../../../src/services/reorgService");
+jest.mock("../../../src/services/failedChunkService");
+jest.mock("../../../src/services/coverageService");
+jest.mock("../../../src/services/leaseService");
+jest.mock("../../../src/services/deploymentBlockService");
+jest.mock("../../../src/services/tokenService");
 
 const TEST_CHAIN_ID = ChainIds.POLYGON;
+const CONTRACT = getCurrentContract(TEST_CHAIN_ID).address;
 
 describe("ScannerService", () => {
 	let scannerService: ScannerService;
 	let mockBlockchainService: jest.Mocked<BlockchainService>;
 	let mockEventService: jest.Mocked<EventService>;
+	let mockReorgService: jest.Mocked<ReorgService>;
+	let mockFailedChunkService: jest.Mocked<FailedChunkService>;
+	let mockCoverageService: jest.Mocked<CoverageService>;
+	let mockLeaseService: jest.Mocked<LeaseService>;
+	let mockDeploymentBlockService: jest.Mocked<DeploymentBlockService>;
+	let mockTokenService: jest.Mocked<TokenService>;
+	let releaseLease: jest.Mock<() => Promise<void>>;
 
 	const mockEvent: FeeCollectedEventData = {
 		args: {
@@ -48,20 +84,82 @@ describe("ScannerService", () => {
 		// Create mock instances
 		mockBlockchainService = {
 			getLatestBlock: jest.fn(),
+			getConfirmedBlock: jest.fn(),
+			getBlockHash: jest.fn(),
 			loadFeeCollectorEvents: jest.fn(),
+			loadWithdrawalEvents: jest.fn(),
 			parseFeeCollectorEvents: jest.fn(),
+			getBlockTimestamps: jest.fn(),
+			getTransactionContexts: jest.fn(),
 		} as unknown as jest.Mocked<BlockchainService>;
 
 		mockEventService = {
 			getLastScannedBlock: jest.fn(),
 			storeEvents: jest.fn(),
+			storeWithdrawals: jest.fn(),
 			updateLastScannedBlock: jest.fn(),
+			commitChunk: jest.fn(),
+			deleteEventsAfterBlock: jest.fn(),
 		} as unknown as jest.Mocked<EventService>;
 
+		mockReorgService = {
+			checkForReorg: jest.fn(),
+			recordScannedBlock: jest.fn(),
+		} as unknown as jest.Mocked<ReorgService>;
+
+		mockFailedChunkService = {
+			recordFailure: jest.fn(),
+			getDueChunks: jest.fn(),
+			resolve: jest.fn(),
+			split: jest.fn(),
+		} as unknown as jest.Mocked<FailedChunkService>;
+
+		mockCoverageService = {
+			recordScannedRange: jest.fn(),
+		} as unknown as jest.Mocked<CoverageService>;
+
+		mockLeaseService = {
+			hold: jest.fn(),
+		} as unknown as jest.Mocked<LeaseService>;
+
+		mockDeploymentBlockService = {
+			discover: jest.fn(),
+		} as unknown as jest.Mocked<DeploymentBlockService>;
+
+		mockTokenService = {
+			resolveTokens: jest.fn(),
+			getTokens: jest.fn(),
+		} as unknown as jest.Mocked<TokenService>;
+
+		// This replica gets every lease unless a test says otherwise
+		releaseLease = jest.fn(async () => {});
+		mockLeaseService.hold.mockImplementation(
+			async (chainId: number, signal?: AbortSignal): Promise<HeldLease> => ({
+				chainId,
+				signal: signal ?? new AbortController().signal,
+				release: releaseLease,
+			})
+		);
+
+		mockBlockchainService.getBlockHash.mockResolvedValue("0xblockhash");
+		mockBlockchainService.loadWithdrawalEvents.mockResolvedValue([]);
+		mockBlockchainService.getBlockTimestamps.mockResolvedValue(new Map());
+		mockTokenService.resolveTokens.mockResolvedValue(new Map());
+		mockTokenService.getTokens.mockResolvedValue(new Map());
+		mockReorgService.checkForReorg.mockResolvedValue(null);
+		mockFailedChunkService.getDueChunks.mockResolvedValue([]);
+
 		// Create service instance
 		scannerService = ScannerService.getInstance();
 		(scannerService as any).blockchainService = mockBlockchainService;
 		(scannerService as any).eventService = mockEventService;
+		(scannerService as any).reorgService = mockReorgService;
+		(scannerService as any).failedChunkService = mockFailedChunkService;
+		(scannerService as any).coverageService = mockCoverageService;
+		(scannerService as any).leaseService = mockLeaseService;
+		(scannerService as any).deploymentBlockService = mockDeploymentBlockService;
+		(scannerService as any).tokenService = mockTokenService;
+		(scannerService as any).chunkSizers = new Map();
 	});
 
 	describe("scanBlockRange", () => {
@@ -84,7 +182,8 @@ describe("ScannerService", () => {
 			expect(mockBlockchainService.loadFeeCollectorEvents).toHaveBeenCalledWith(
 				TEST_CHAIN_ID,
 				fromBlock,
-				toBlock
+				toBlock,
+				CONTRACT
 			);
 		});
 
@@ -104,7 +203,8 @@ describe("ScannerService", () => {
 			expect(mockBlockchainService.loadFeeCollectorEvents).toHaveBeenCalledWith(
 				TEST_CHAIN_ID,
 				fromBlock,
-				toBlock
+				toBlock,
+				CONTRACT
 			);
 		});
 
@@ -144,16 +244,141 @@ describe("ScannerService", () => {
 				Math.ceil((latestBlock - lastScannedBlock) / config.chunkSize)
 			);
 
-			// Verify events were stored
-			expect(mockEventService.storeEvents).toHaveBeenCalledWith(
+			// Verify events were committed with the last scanned block and its hash
+			expect(mockEventService.commitChunk).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
 				mockEvents,
-				TEST_CHAIN_ID
+				expect.any(Number),
+				"0xblockhash",
+				[],
+				CONTRACT
+			);
+			expect(mockEventService.storeEvents).not.toHaveBeenCalled();
+			expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+			expect(mockReorgService.recordScannedBlock).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				expect.any(Number),
+				"0xblockhash"
+			);
+		});
+
+		it("should attach the block timestamp to each event", async () => {
+			const events = [
+				{ ...mockEvent, blockNumber: 1200 },
+				{ ...mockEvent, blockNumber: 1200, logIndex: 1 },
+				{ ...mockEvent, blockNumber: 1300 },
+			] as FeeCollectedEventData[];
+			mockEventService.getLastScannedBlock.mockResolvedValue(1000);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue(events);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+			mockBlockchainService.getBlockTimestamps.mockResolvedValue(
+				new Map([
+					[1200, 1700000000],
+					[1300, 1700000024],
+				])
 			);
 
-			// Verify last scanned block was updated
-			expect(mockEventService.updateLastScannedBlock).toHaveBeenCalledWith(
+			await scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 1400);
+
+			expect(mockBlockchainService.getBlockTimestamps).toHaveBeenCalledWith(
 				TEST_CHAIN_ID,
-				expect.any(Number)
+				[1200, 1200, 1300]
+			);
+			expect(events.map((event) => event.blockTimestamp)).toEqual([
+				1700000000, 1700000000, 1700000024,
+			]);
+		});
+
+		it("should look up the tokens of each chunk's events", async () => {
+			const usdc = "0x" + "a".repeat(40);
+			mockEventService.getLastScannedBlock.mockResolvedValue(1000);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				{ ...mockEvent, args: { ...mockEvent.args, token: usdc } },
+			]);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+
+			await scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 1400);
+
+			expect(mockTokenService.resolveTokens).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				[usdc]
+			);
+		});
+
+		it("should attach the transaction context on chains with enrichment", async () => {
+			const context = {
+				from: "0x" + "1".repeat(40),
+				to: "0x" + "2".repeat(40),
+				gasUsed: "21000",
+				effectiveGasPrice: "1000000000",
+				selector: "0x12345678",
+			};
+			const events = [
+				{ ...mockEvent },
+				{ ...mockEvent, logIndex: 1 },
+			] as FeeCollectedEventData[];
+			mockEventService.getLastScannedBlock.mockResolvedValue(1000);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue(events);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+			mockBlockchainService.getTransactionContexts.mockResolvedValue(
+				new Map([[mockEvent.transactionHash, context]])
+			);
+
+			(config.chains as any)[TEST_CHAIN_ID].enrichTransactions = false;
+			await scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 1400);
+			expect(
+				mockBlockchainService.getTransactionContexts
+			).not.toHaveBeenCalled();
+
+			(config.chains as any)[TEST_CHAIN_ID].enrichTransactions = true;
+			try {
+				await scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 1400);
+			} finally {
+				(config.chains as any)[TEST_CHAIN_ID].enrichTransactions = false;
+			}
+
+			expect(mockBlockchainService.getTransactionContexts).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				[mockEvent.transactionHash, mockEvent.transactionHash]
+			);
+			expect(events.map((event) => event.transaction)).toEqual([
+				context,
+				context,
+			]);
+		});
+
+		it("should commit withdrawals together with the chunk's events", async () => {
+			const mockWithdrawal = {
+				...mockEvent,
+				event: "FeesWithdrawn",
+				args: { token: "0x123...", to: "0x456...", amount: "1000" },
+				logIndex: 1,
+			} as WithdrawalEventData;
+
+			mockEventService.getLastScannedBlock.mockResolvedValue(1000);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				mockEvent,
+			]);
+			mockBlockchainService.loadWithdrawalEvents.mockResolvedValue([
+				mockWithdrawal,
+			]);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+
+			await scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 1000 + 9);
+
+			expect(mockBlockchainService.loadWithdrawalEvents).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1000,
+				1009,
+				CONTRACT
+			);
+			expect(mockEventService.commitChunk).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				[mockEvent],
+				1009,
+				"0xblockhash",
+				[mockWithdrawal],
+				CONTRACT
 			);
 		});
 
@@ -171,8 +396,7 @@ describe("ScannerService", () => {
 			expect(
 				mockBlockchainService.loadFeeCollectorEvents
 			).not.toHaveBeenCalled();
-			expect(mockEventService.storeEvents).not.toHaveBeenCalled();
-			expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
 		});
 
 		it("should continue scanning after chunk errors", async () => {
@@ -183,9 +407,12 @@ describe("ScannerService", () => {
 			mockBlockchainService.getLatestBlock.mockResolvedValue(latestBlock);
 			mockEventService.getLastScannedBlock.mockResolvedValue(lastScannedBlock);
 
-			// First chunk fails, second succeeds
+			// First chunk fails for good, second succeeds
+			const chunkError = new BlockchainError(
+				"RPC error: Failed to load events for blocks 1000-1999 (execution reverted)"
+			);
 			mockBlockchainService.loadFeeCollectorEvents
-				.mockRejectedValueOnce(new Error("Chunk error"))
+				.mockRejectedValueOnce(chunkError)
 				.mockResolvedValueOnce(mockEvents);
 			// Mock parseFeeCollectorEvents to return the events
 			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue(mockEvents);
@@ -196,10 +423,69 @@ describe("ScannerService", () => {
 			expect(
 				mockBlockchainService.loadFeeCollectorEvents
 			).toHaveBeenCalledTimes(2);
-			expect(mockEventService.storeEvents).toHaveBeenCalledWith(
+			expect(mockEventService.commitChunk).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
 				mockEvents,
-				TEST_CHAIN_ID
+				expect.any(Number),
+				"0xblockhash",
+				[],
+				CONTRACT
+			);
+			// Only the successful chunk counts as scanned
+			expect(mockCoverageService.recordScannedRange).toHaveBeenCalledTimes(1);
+			expect(mockCoverageService.recordScannedRange).not.toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				lastScannedBlock,
+				expect.any(Number)
+			);
+			// The skipped range is kept for the retrier
+			expect(mockFailedChunkService.recordFailure).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				lastScannedBlock,
+				lastScannedBlock + config.chunkSize - 1,
+				chunkError,
+				CONTRACT
+			);
+		});
+
+		it("should stop scanning when a failed chunk cannot be recorded", async () => {
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2000);
+			mockBlockchainService.loadFeeCollectorEvents.mockRejectedValue(
+				new BlockchainError("RPC error: Failed to load events")
 			);
+			mockFailedChunkService.recordFailure.mockRejectedValue(
+				new DatabaseError("Failed to record failed chunk")
+			);
+
+			await expect(
+				scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 2000)
+			).rejects.toThrow(DatabaseError);
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+		});
+
+		it("should stop scanning on a transient RPC error that outlasted its retries", async () => {
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2000);
+			mockBlockchainService.loadFeeCollectorEvents.mockRejectedValue(
+				new BlockchainError("Network error", true)
+			);
+
+			await expect(
+				scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 2000)
+			).rejects.toThrow("Network error");
+			expect(mockFailedChunkService.recordFailure).not.toHaveBeenCalled();
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+		});
+
+		it("should stop scanning on a range limit the chunk cannot shrink below", async () => {
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2000);
+			mockBlockchainService.loadFeeCollectorEvents.mockRejectedValue(
+				new RangeLimitError("too many results")
+			);
+
+			await expect(
+				scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 2000)
+			).rejects.toThrow(RangeLimitError);
+			expect(mockFailedChunkService.recordFailure).not.toHaveBeenCalled();
 		});
 
 		it("should handle blockchain service errors", async () => {
@@ -226,4 +512,701 @@ describe("ScannerService", () => {
 			);
 		});
 	});
+
+	describe("adaptive chunk sizing", () => {
+		it("should halve the chunk and retry on provider range limits", async () => {
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2000);
+			mockBlockchainService.loadFeeCollectorEvents
+				.mockRejectedValueOnce(new RangeLimitError("too many results"))
+				.mockResolvedValue([]);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+
+			await scannerService.scanBlocks(TEST_CHAIN_ID, 1000, 2000);
+
+			const halfChunk = Math.floor(config.chunkSize / 2);
+			expect(
+				mockBlockchainService.loadFeeCollectorEvents
+			).toHaveBeenNthCalledWith(
+				2,
+				TEST_CHAIN_ID,
+				1000,
+				1000 + halfChunk - 1,
+				CONTRACT
+			);
+			expect(scannerService.getChunkSize(TEST_CHAIN_ID)).toBe(halfChunk);
+		});
+	});
+
+	describe("parallel chunks", () => {
+		// Flushes pending promise callbacks so in-flight chunks can settle
+		const flush = async () => {
+			for (let i = 0; i < 10; i++) {
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+		};
+
+		// Makes every log query wait until it is resolved or rejected by the test
+		const deferLogQueries = () => {
+			const calls: {
+				resolve: (events: FeeCollectedEventData[]) => void;
+				reject: (error: Error) => void;
+			}[] = [];
+			mockBlockchainService.loadFeeCollectorEvents.mockImplementation(
+				() => new Promise((resolve, reject) => calls.push({ resolve, reject }))
+			);
+			return calls;
+		};
+
+		beforeEach(() => {
+			(config.chains as any)[TEST_CHAIN_ID].scanConcurrency = 3;
+			mockBlockchainService.getLatestBlock.mockResolvedValue(0);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+		});
+
+		afterEach(() => {
+			(config.chains as any)[TEST_CHAIN_ID].scanConcurrency = 1;
+		});
+
+		it("should only checkpoint the contiguous prefix of finished chunks", async () => {
+			const size = config.chunkSize;
+			const calls = deferLogQueries();
+
+			const scan = scannerService.scanBlocks(
+				TEST_CHAIN_ID,
+				1000,
+				1000 + size * 3
+			);
+			await flush();
+			expect(calls).toHaveLength(3);
+
+			// The second chunk finishes first
+			calls[1].resolve([mockEvent]);
+			await flush();
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+
+			calls[0].resolve([]);
+			await flush();
+			// Both chunks' events are committed with the checkpoint
+			expect(mockEventService.commitChunk).toHaveBeenLastCalledWith(
+				TEST_CHAIN_ID,
+				[mockEvent],
+				1000 + size * 2 - 1,
+				"0xblockhash",
+				[],
+				CONTRACT
+			);
+
+			calls[2].resolve([]);
+			await flush();
+			calls.slice(3).forEach((call) => call.resolve([]));
+			await scan;
+			expect(mockEventService.commitChunk).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				[],
+				1000 + size * 3 - 1,
+				"0xblockhash",
+				[],
+				CONTRACT
+			);
+		});
+
+		it("should not move the checkpoint past a chunk that failed fatally", async () => {
+			const calls = deferLogQueries();
+
+			const scan = scannerService.scanBlocks(
+				TEST_CHAIN_ID,
+				1000,
+				1000 + config.chunkSize * 3
+			);
+			await flush();
+
+			calls[1].resolve([]);
+			calls[2].resolve([]);
+			calls[0].reject(new BlockchainError("Network error", true));
+
+			await expect(scan).rejects.toThrow(BlockchainError);
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+			// No new chunks are started after the failure
+			expect(calls).toHaveLength(3);
+		});
+
+		it("should keep throughput stats per chain", async () => {
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				mockEvent,
+			]);
+			const before = scannerService.getThroughput(TEST_CHAIN_ID);
+
+			await scannerService.scanBlocks(
+				TEST_CHAIN_ID,
+				1000,
+				1000 + config.chunkSize * 2 - 1
+			);
+
+			const after = scannerService.getThroughput(TEST_CHAIN_ID);
+			expect(after.totalChunks - before.totalChunks).toBe(2);
+			expect(after.totalEvents - before.totalEvents).toBe(2);
+			expect(after.totalBlocks - before.totalBlocks).toBe(config.chunkSize * 2);
+			expect(after.inFlight).toBe(0);
+		});
+	});
+
+	describe("failed chunks", () => {
+		const failedChunk = (fromBlock: number, toBlock: number) =>
+			({
+				chainId: TEST_CHAIN_ID,
+				fromBlock,
+				toBlock,
+				error: "Chunk error",
+				attempts: 1,
+			}) as any;
+
+		beforeEach(() => {
+			mockEventService.getLastScannedBlock.mockResolvedValue(5000);
+		});
+
+		it("should only retry chunks at or below the checkpoint", async () => {
+			await scannerService.retryFailedChunks(TEST_CHAIN_ID);
+
+			expect(mockFailedChunkService.getDueChunks).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				5000,
+				CONTRACT
+			);
+		});
+
+		it("should store the events of a retried chunk and resolve it", async () => {
+			mockFailedChunkService.getDueChunks.mockResolvedValue([
+				failedChunk(1000, 1999),
+			]);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				mockEvent,
+			]);
+
+			const resolved = await scannerService.retryFailedChunks(TEST_CHAIN_ID);
+
+			expect(resolved).toBe(1);
+			expect(mockEventService.storeEvents).toHaveBeenCalledWith(
+				[mockEvent],
+				TEST_CHAIN_ID
+			);
+			expect(mockEventService.storeWithdrawals).toHaveBeenCalledWith(
+				[],
+				TEST_CHAIN_ID
+			);
+			expect(mockFailedChunkService.resolve).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1000,
+				1999,
+				CONTRACT
+			);
+			expect(mockCoverageService.recordScannedRange).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1000,
+				1999,
+				CONTRACT
+			);
+			// Retries never move the checkpoint
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+			expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+		});
+
+		it("should record another attempt when the retry fails", async () => {
+			const error = new BlockchainError("RPC error: Still failing");
+			mockFailedChunkService.getDueChunks.mockResolvedValue([
+				failedChunk(1000, 1999),
+				failedChunk(3000, 3999),
+			]);
+			mockBlockchainService.loadFeeCollectorEvents
+				.mockRejectedValueOnce(error)
+				.mockResolvedValueOnce([]);
+
+			const resolved = await scannerService.retryFailedChunks(TEST_CHAIN_ID);
+
+			expect(resolved).toBe(1);
+			expect(mockFailedChunkService.recordFailure).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1000,
+				1999,
+				error,
+				CONTRACT
+			);
+			expect(mockFailedChunkService.resolve).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				3000,
+				3999,
+				CONTRACT
+			);
+		});
+
+		it("should split chunks that hit the provider range limit", async () => {
+			const chunk = failedChunk(1000, 1999);
+			mockFailedChunkService.getDueChunks.mockResolvedValue([chunk]);
+			mockFailedChunkService.split.mockResolvedValue(true);
+			mockBlockchainService.loadFeeCollectorEvents.mockRejectedValue(
+				new RangeLimitError("too many results")
+			);
+
+			await scannerService.retryFailedChunks(TEST_CHAIN_ID);
+
+			expect(mockFailedChunkService.split).toHaveBeenCalledWith(chunk);
+			expect(mockFailedChunkService.recordFailure).not.toHaveBeenCalled();
+		});
+
+		it("should stop retrying while the circuit breaker is open", async () => {
+			mockFailedChunkService.getDueChunks.mockResolvedValue([
+				failedChunk(1000, 1999),
+				failedChunk(3000, 3999),
+			]);
+			mockBlockchainService.loadFeeCollectorEvents.mockRejectedValue(
+				new CircuitOpenError("Circuit open", 1000)
+			);
+
+			await expect(
+				scannerService.retryFailedChunks(TEST_CHAIN_ID)
+			).rejects.toThrow(CircuitOpenError);
+			expect(
+				mockBlockchainService.loadFeeCollectorEvents
+			).toHaveBeenCalledTimes(1);
+			expect(mockFailedChunkService.recordFailure).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("backfillRange", () => {
+		it("should scan the whole range without moving the checkpoint", async () => {
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				mockEvent,
+			]);
+
+			const result = await scannerService.backfillRange(
+				TEST_CHAIN_ID,
+				1000,
+				1000 + config.chunkSize
+			);
+
+			expect(result).toEqual({ eventCount: 2, failedChunks: [] });
+			expect(
+				mockBlockchainService.loadFeeCollectorEvents
+			).toHaveBeenLastCalledWith(
+				TEST_CHAIN_ID,
+				1000 + config.chunkSize,
+				1000 + config.chunkSize,
+				CONTRACT
+			);
+			expect(mockCoverageService.recordScannedRange).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1000,
+				1000 + config.chunkSize - 1,
+				CONTRACT
+			);
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+			expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+			expect(mockReorgService.recordScannedBlock).not.toHaveBeenCalled();
+		});
+
+		it("should record chunks that fail in the failed-chunk ledger", async () => {
+			const error = new BlockchainError("Chunk error");
+			mockBlockchainService.loadFeeCollectorEvents.mockRejectedValue(error);
+
+			const result = await scannerService.backfillRange(
+				TEST_CHAIN_ID,
+				1000,
+				1009
+			);
+
+			expect(result.failedChunks).toEqual([
+				{ fromBlock: 1000, toBlock: 1009, error: "Chunk error" },
+			]);
+			expect(mockFailedChunkService.recordFailure).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1000,
+				1009,
+				error,
+				CONTRACT
+			);
+			expect(mockCoverageService.recordScannedRange).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("confirmations", () => {
+		afterEach(() => {
+			(config.chains as any)[TEST_CHAIN_ID].indexPending = false;
+		});
+
+		it("should only scan up to the confirmed block", async () => {
+			mockEventService.getLastScannedBlock.mockResolvedValue(1000);
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(1500);
+			mockBlockchainService.getLatestBlock.mockResolvedValue(1600);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([]);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			const scannedUpTo =
+				mockBlockchainService.loadFeeCollectorEvents.mock.calls.map(
+					([, , toBlock]) => toBlock
+				);
+			expect(Math.max(...scannedUpTo)).toBeLessThanOrEqual(1500);
+			expect(mockBlockchainService.getConfirmedBlock).toHaveBeenCalledWith(
+				TEST_CHAIN_ID
+			);
+		});
+
+		it("should index the pending tier without moving the checkpoint", async () => {
+			(config.chains as any)[TEST_CHAIN_ID].indexPending = true;
+			mockEventService.getLastScannedBlock.mockResolvedValue(2000);
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2010);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				mockEvent,
+			]);
+
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			expect(mockEventService.deleteEventsAfterBlock).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				2000,
+				CONTRACT
+			);
+			expect(mockBlockchainService.loadFeeCollectorEvents).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				2001,
+				2010,
+				CONTRACT
+			);
+			expect(mockEventService.storeEvents).toHaveBeenCalledWith(
+				[mockEvent],
+				TEST_CHAIN_ID
+			);
+			expect(mockEventService.updateLastScannedBlock).not.toHaveBeenCalled();
+		});
+
+		it("should drop a pending event that a reorg orphaned before it was confirmed", async () => {
+			(config.chains as any)[TEST_CHAIN_ID].indexPending = true;
+			// Events by transaction hash, kept the way the event service stores them
+			const stored = new Map<string, FeeCollectedEventData>();
+			let checkpoint = 2000;
+			mockEventService.getLastScannedBlock.mockImplementation(
+				async () => checkpoint
+			);
+			mockEventService.storeEvents.mockImplementation(async (events) => {
+				for (const event of events) stored.set(event.transactionHash, event);
+				return { inserted: events.length, alreadyPresent: 0 };
+			});
+			mockEventService.commitChunk.mockImplementation(
+				async (_chainId, events, blockNumber) => {
+					for (const event of events) {
+						if (!stored.has(event.transactionHash)) {
+							stored.set(event.transactionHash, event);
+						}
+					}
+					checkpoint = blockNumber;
+					return { inserted: events.length, alreadyPresent: 0 };
+				}
+			);
+			mockEventService.deleteEventsAfterBlock.mockImplementation(
+				async (_chainId, blockNumber) => {
+					for (const [hash, event] of stored) {
+						if (event.blockNumber > blockNumber) stored.delete(hash);
+					}
+					return 0;
+				}
+			);
+			const orphaned = {
+				...mockEvent,
+				blockNumber: 2005,
+				transactionHash: "0xorphaned",
+			};
+			const replacement = {
+				...mockEvent,
+				blockNumber: 2006,
+				transactionHash: "0xreplacement",
+			};
+
+			mockBlockchainService.parseFeeCollectorEvents.mockImplementation(
+				(events) => events as FeeCollectedEventData[]
+			);
+
+			// Block 2005 is pending
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2005);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([
+				orphaned,
+			]);
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+			expect([...stored.keys()]).toEqual(["0xorphaned"]);
+
+			// A reorg replaced it before the blocks were confirmed
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2010);
+			mockBlockchainService.getLatestBlock.mockResolvedValue(2010);
+			mockBlockchainService.loadFeeCollectorEvents.mockImplementation(
+				async (_chainId, fromBlock, toBlock) =>
+					fromBlock <= 2006 && toBlock >= 2006 ? [replacement] : []
+			);
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			expect(checkpoint).toBe(2010);
+			expect([...stored.keys()]).toEqual(["0xreplacement"]);
+		});
+	});
+
+	describe("contract deployments", () => {
+		const contracts = config.chains[TEST_CHAIN_ID].contracts;
+		const RETIRED = "0x" + "1".repeat(40);
+
+		beforeEach(() => {
+			config.chains[TEST_CHAIN_ID].contracts = [
+				{ address: RETIRED, startBlock: 0, endBlock: 1500 },
+				...contracts,
+			];
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([]);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+		});
+
+		afterEach(() => {
+			config.chains[TEST_CHAIN_ID].contracts = contracts;
+		});
+
+		it("should scan each deployment from its own checkpoint", async () => {
+			mockEventService.getLastScannedBlock.mockImplementation(
+				async (_chainId: number, contractAddress?: string) =>
+					contractAddress === RETIRED ? 1000 : 2000
+			);
+
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			expect(mockEventService.getLastScannedBlock).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				RETIRED
+			);
+			expect(mockEventService.getLastScannedBlock).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				CONTRACT
+			);
+			// Only the retired contract is behind, and only up to its end block
+			const calls = mockBlockchainService.loadFeeCollectorEvents.mock.calls;
+			expect(calls.every(([, , , address]) => address === RETIRED)).toBe(true);
+			expect(
+				Math.max(...calls.map(([, , toBlock]) => toBlock))
+			).toBeLessThanOrEqual(1500);
+			expect(mockEventService.commitChunk).toHaveBeenLastCalledWith(
+				TEST_CHAIN_ID,
+				[],
+				expect.any(Number),
+				"0xblockhash",
+				[],
+				RETIRED
+			);
+		});
+
+		it("should not scan a retired contract past its end block", async () => {
+			mockEventService.getLastScannedBlock.mockImplementation(
+				async (_chainId: number, contractAddress?: string) =>
+					contractAddress === RETIRED ? 1500 : 2000
+			);
+
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			expect(
+				mockBlockchainService.loadFeeCollectorEvents
+			).not.toHaveBeenCalled();
+		});
+
+		it("should backfill each deployment within its block range", async () => {
+			await scannerService.backfillRange(TEST_CHAIN_ID, 1400, 1600);
+
+			expect(mockBlockchainService.loadFeeCollectorEvents).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1400,
+				1500,
+				RETIRED
+			);
+			expect(mockBlockchainService.loadFeeCollectorEvents).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1400,
+				1600,
+				CONTRACT
+			);
+		});
+	});
+
+	describe("deployment block discovery", () => {
+		const chain = config.chains[TEST_CHAIN_ID];
+		const { contracts, startBlock } = chain;
+
+		beforeEach(() => {
+			// Neither the chain nor the deployment configures a start block
+			chain.startBlock = 0;
+			chain.contracts = [{ address: CONTRACT, startBlock: 0 }];
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+			mockBlockchainService.loadFeeCollectorEvents.mockResolvedValue([]);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+		});
+
+		afterEach(() => {
+			chain.startBlock = startBlock;
+			chain.contracts = contracts;
+		});
+
+		it("should start at the discovered deployment block without a checkpoint", async () => {
+			mockEventService.getLastScannedBlock.mockResolvedValue(0);
+			mockDeploymentBlockService.discover.mockResolvedValue(1500);
+
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			expect(mockDeploymentBlockService.discover).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				CONTRACT
+			);
+			const fromBlocks =
+				mockBlockchainService.loadFeeCollectorEvents.mock.calls.map(
+					([, fromBlock]) => fromBlock
+				);
+			expect(Math.min(...fromBlocks)).toBe(1500);
+		});
+
+		it("should not discover the deployment block when a checkpoint exists", async () => {
+			mockEventService.getLastScannedBlock.mockResolvedValue(1800);
+
+			await (scannerService as any).scanChain(TEST_CHAIN_ID);
+
+			expect(mockDeploymentBlockService.discover).not.toHaveBeenCalled();
+			expect(mockBlockchainService.loadFeeCollectorEvents).toHaveBeenCalledWith(
+				TEST_CHAIN_ID,
+				1800,
+				2000,
+				CONTRACT
+			);
+		});
+	});
+
+	describe("scanAllChains", () => {
+		const enabledChains = config.enabledChains;
+
+		afterEach(() => {
+			(config as any).enabledChains = enabledChains;
+		});
+
+		it("should only scan chains whose lease this replica holds", async () => {
+			(config as any).enabledChains = [TEST_CHAIN_ID, ChainIds.ETHEREUM];
+			mockLeaseService.hold.mockImplementation(async (chainId: number) =>
+				chainId === TEST_CHAIN_ID
+					? {
+							chainId,
+							signal: new AbortController().signal,
+							release: releaseLease,
+						}
+					: null
+			);
+			mockEventService.getLastScannedBlock.mockResolvedValue(2000);
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+
+			await scannerService.scanAllChains();
+
+			expect(mockLeaseService.hold).toHaveBeenCalledTimes(2);
+			const scannedChains = new Set(
+				mockEventService.getLastScannedBlock.mock.calls.map(
+					([chainId]) => chainId
+				)
+			);
+			expect([...scannedChains]).toEqual([TEST_CHAIN_ID]);
+			expect(releaseLease).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("follow mode", () => {
+		it("should scan every enabled chain and stop cleanly", async () => {
+			mockEventService.getLastScannedBlock.mockResolvedValue(2000);
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+
+			scannerService.startFollowing();
+			expect(scannerService.isFollowing()).toBe(true);
+
+			await scannerService.stopFollowing();
+
+			expect(scannerService.isFollowing()).toBe(false);
+			expect(mockEventService.getLastScannedBlock).toHaveBeenCalledTimes(
+				config.enabledChains.length
+			);
+		});
+
+		it("should keep the loop alive when a scan fails", async () => {
+			mockEventService.getLastScannedBlock.mockRejectedValue(
+				new Error("Database error")
+			);
+
+			scannerService.startFollowing();
+			await scannerService.stopFollowing();
+
+			// The error is logged and the loop exits only because it was stopped
+			expect(scannerService.isFollowing()).toBe(false);
+		});
+
+		it("should release the leases when stopped", async () => {
+			mockEventService.getLastScannedBlock.mockResolvedValue(2000);
+			mockBlockchainService.getConfirmedBlock.mockResolvedValue(2000);
+
+			scannerService.startFollowing();
+			await scannerService.stopFollowing();
+
+			expect(mockLeaseService.hold).toHaveBeenCalledTimes(
+				config.enabledChains.length
+			);
+			expect(releaseLease).toHaveBeenCalledTimes(config.enabledChains.length);
+		});
+
+		it("should follow newly enabled chains and stop disabled ones", async () => {
+			const enabledChains = config.enabledChains;
+			mockLeaseService.hold.mockResolvedValue(null);
+			(config as any).enabledChains = [TEST_CHAIN_ID];
+			try {
+				scannerService.startFollowing();
+				expect(mockLeaseService.hold).toHaveBeenCalledTimes(1);
+
+				(config as any).enabledChains = [ChainIds.ETHEREUM];
+				await scannerService.syncFollowedChains();
+
+				expect(mockLeaseService.hold).toHaveBeenCalledTimes(2);
+				expect(mockLeaseService.hold).toHaveBeenLastCalledWith(
+					ChainIds.ETHEREUM,
+					expect.anything()
+				);
+				expect([...(scannerService as any).followLoops.keys()]).toEqual([
+					ChainIds.ETHEREUM,
+				]);
+			} finally {
+				await scannerService.stopFollowing();
+				(config as any).enabledChains = enabledChains;
+			}
+		});
+
+		it("should not scan chains whose lease another replica holds", async () => {
+			mockLeaseService.hold.mockResolvedValue(null);
+
+			scannerService.startFollowing();
+			await scannerService.stopFollowing();
+
+			expect(mockEventService.getLastScannedBlock).not.toHaveBeenCalled();
+			expect(releaseLease).not.toHaveBeenCalled();
+		});
+
+		it("should stop scanning between chunks when aborted", async () => {
+			const controller = new AbortController();
+			controller.abort();
+			mockBlockchainService.getLatestBlock.mockResolvedValue(5000);
+			mockBlockchainService.parseFeeCollectorEvents.mockReturnValue([]);
+
+			await scannerService.scanBlocks(
+				TEST_CHAIN_ID,
+				1000,
+				5000,
+				controller.signal
+			);
+
+			expect(
+				mockBlockchainService.loadFeeCollectorEvents
+			).not.toHaveBeenCalled();
+			expect(mockEventService.commitChunk).not.toHaveBeenCalled();
+		});
+	});
 });
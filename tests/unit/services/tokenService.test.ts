@@ -0,0 +1,161 @@
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server";
+import { TokenService } from "../../../src/services/tokenService";
+import { BlockchainService } from "../../../src/services/blockchainService";
+import { TokenModel } from "../../../src/models/Token";
+import { ChainIds } from "../../../src/types/chains";
+import { BlockchainError } from "../../../src/errors/AppError";
+import {
+	describe,
+	expect,
+	it,
+	beforeAll,
+	beforeEach,
+	afterAll,
+	jest,
+} from "@jest/globals";
+
+jest.mock("../../../src/services/blockchainService");
+
+// Mock the logger
+jest.mock("../../../src/utils/logger", () => ({
+	info: jest.fn(),
+	error: jest.fn(),
+	warn: jest.fn(),
+	debug: jest.fn(),
+}));
+
+describe("TokenService", () => {
+	let mongoServer: MongoMemoryServer;
+	let tokenService: TokenService;
+	let mockBlockchainService: jest.Mocked<BlockchainService>;
+	const TEST_CHAIN_ID = ChainIds.POLYGON;
+	const USDC = "0x" + "a".repeat(40);
+	const NATIVE = "0x" + "0".repeat(40);
+
+	beforeAll(async () => {
+		mongoServer = await MongoMemoryServer.create();
+		await mongoose.connect(mongoServer.getUri());
+	}, 30000);
+
+	afterAll(async () => {
+		await mongoose.disconnect();
+		await mongoServer.stop();
+	});
+
+	beforeEach(async () => {
+		await TokenModel.deleteMany({});
+
+		mockBlockchainService = {
+			getTokenMetadata: jest.fn(),
+		} as unknown as jest.Mocked<BlockchainService>;
+		tokenService = TokenService.getInstance();
+		(tokenService as any).blockchainService = mockBlockchainService;
+		(tokenService as any).tokens = new Map();
+	});
+
+	it("should look up and store a new token once", async () => {
+		mockBlockchainService.getTokenMetadata.mockResolvedValue({
+			symbol: "USDC",
+			name: "USD Coin",
+			decimals: 6,
+		});
+
+		const tokens = await tokenService.resolveTokens(TEST_CHAIN_ID, [
+			USDC.toUpperCase().replace("0X", "0x"),
+			USDC,
+		]);
+
+		expect(tokens.get(USDC)).toMatchObject({ symbol: "USDC", decimals: 6 });
+		expect(
+			await TokenModel.findOne({ chainId: TEST_CHAIN_ID, address: USDC })
+		).toMatchObject({ symbol: "USDC", name: "USD Coin", decimals: 6 });
+
+		// Stored tokens are not looked up again, even after a restart
+		(tokenService as any).tokens = new Map();
+		await tokenService.resolveTokens(TEST_CHAIN_ID, [USDC]);
+		expect(mockBlockchainService.getTokenMetadata).toHaveBeenCalledTimes(1);
+	});
+
+	it("should treat the zero address as the chain's native asset", async () => {
+		const tokens = await tokenService.resolveTokens(TEST_CHAIN_ID, [NATIVE]);
+
+		expect(tokens.get(NATIVE)).toMatchObject({
+			native: true,
+			symbol: "POL",
+			decimals: 18,
+		});
+		expect(mockBlockchainService.getTokenMetadata).not.toHaveBeenCalled();
+		expect(await TokenModel.countDocuments()).toBe(0);
+	});
+
+	it("should look up a token again after the RPC failed", async () => {
+		mockBlockchainService.getTokenMetadata.mockRejectedValueOnce(
+			new BlockchainError("Failed to get token metadata")
+		);
+
+		const tokens = await tokenService.resolveTokens(TEST_CHAIN_ID, [USDC]);
+		expect(tokens.has(USDC)).toBe(false);
+		expect(await TokenModel.countDocuments()).toBe(0);
+
+		mockBlockchainService.getTokenMetadata.mockResolvedValueOnce({
+			symbol: "USDC",
+			decimals: 6,
+		});
+		const retried = await tokenService.resolveTokens(TEST_CHAIN_ID, [USDC]);
+		expect(retried.get(USDC)?.decimals).toBe(6);
+	});
+
+	it("should format amounts with the token's decimals", async () => {
+		await TokenModel.create({
+			chainId: TEST_CHAIN_ID,
+			address: USDC,
+			symbol: "USDC",
+			decimals: 6,
+		});
+		// A non-standard token without decimals()
+		const unknown = "0x" + "b".repeat(40);
+		await TokenModel.create({ chainId: TEST_CHAIN_ID, address: unknown });
+
+		const items = await tokenService.withFormattedAmounts(
+			[
+				{ chainId: TEST_CHAIN_ID, token: USDC, amount: "1500000" },
+				{ chainId: TEST_CHAIN_ID, token: unknown, amount: "1500000" },
+				{
+					chainId: TEST_CHAIN_ID,
+					token: NATIVE,
+					amount: "10" + "0".repeat(17),
+				},
+			],
+			["amount"]
+		);
+
+		expect(items).toEqual([
+			{
+				chainId: TEST_CHAIN_ID,
+				token: USDC,
+				amount: "1500000",
+				amountFormatted: "1.5",
+				tokenSymbol: "USDC",
+				tokenDecimals: 6,
+			},
+			{
+				chainId: TEST_CHAIN_ID,
+				token: unknown,
+				amount: "1500000",
+				amountFormatted: null,
+				tokenSymbol: null,
+				tokenDecimals: null,
+			},
+			{
+				chainId: TEST_CHAIN_ID,
+				token: NATIVE,
+				amount: "10" + "0".repeat(17),
+				amountFormatted: "1.0",
+				tokenSymbol: "POL",
+				tokenDecimals: 18,
+			},
+		]);
+		expect(mockBlockchainService.getTokenMetadata).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,44 @@
+import { AdaptiveChunkSizer } from "../../../src/utils/adaptiveChunkSizer";
+import { describe, expect, it } from "@jest/globals";
+
+describe("AdaptiveChunkSizer", () => {
+	const options = {
+		initialSize: 1000,
+		minSize: 100,
+		maxSize: 2000,
+		growthThreshold: 2,
+	};
+
+	it("should start at the initial size", () => {
+		const sizer = new AdaptiveChunkSizer(options);
+		expect(sizer.current).toBe(1000);
+	});
+
+	it("should halve the size down to the minimum", () => {
+		const sizer = new AdaptiveChunkSizer(options);
+
+		expect(sizer.shrink()).toBe(500);
+		expect(sizer.shrink()).toBe(250);
+		expect(sizer.shrink()).toBe(125);
+		expect(sizer.shrink()).toBe(100);
+		expect(sizer.canShrink()).toBe(false);
+	});
+
+	it("should grow after enough consecutive successes, up to the maximum", () => {
+		const sizer = new AdaptiveChunkSizer(options);
+
+		expect(sizer.recordSuccess()).toBe(1000);
+		expect(sizer.recordSuccess()).toBe(2000);
+		sizer.recordSuccess();
+		expect(sizer.recordSuccess()).toBe(2000);
+	});
+
+	it("should reset the success streak when shrinking", () => {
+		const sizer = new AdaptiveChunkSizer(options);
+
+		sizer.recordSuccess();
+		sizer.shrink();
+		expect(sizer.recordSuccess()).toBe(500);
+		expect(sizer.recordSuccess()).toBe(1000);
+	});
+});
@@ -0,0 +1,68 @@
+import { CircuitBreaker } from "../../../src/utils/circuitBreaker";
+import { CircuitOpenError } from "../../../src/errors/AppError";
+import { describe, expect, it, afterEach, jest } from "@jest/globals";
+
+describe("CircuitBreaker", () => {
+	const failing = () => Promise.reject(new Error("down"));
+	const succeeding = () => Promise.resolve("ok");
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("should open after consecutive failures and reject calls", async () => {
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 2,
+			cooldownMs: 1000,
+		});
+
+		await expect(breaker.execute(failing)).rejects.toThrow("down");
+		expect(breaker.getState()).toBe("closed");
+		await expect(breaker.execute(failing)).rejects.toThrow("down");
+		expect(breaker.getState()).toBe("open");
+
+		await expect(breaker.execute(succeeding)).rejects.toThrow(CircuitOpenError);
+	});
+
+	it("should close again after a successful probe once the cool-down passed", async () => {
+		jest.useFakeTimers();
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 1,
+			cooldownMs: 1000,
+		});
+
+		await expect(breaker.execute(failing)).rejects.toThrow("down");
+		expect(breaker.getState()).toBe("open");
+
+		jest.advanceTimersByTime(1000);
+		expect(breaker.getState()).toBe("half_open");
+		await expect(breaker.execute(succeeding)).resolves.toBe("ok");
+		expect(breaker.getState()).toBe("closed");
+	});
+
+	it("should re-open when the probe fails", async () => {
+		jest.useFakeTimers();
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 1,
+			cooldownMs: 1000,
+		});
+
+		await expect(breaker.execute(failing)).rejects.toThrow("down");
+		jest.advanceTimersByTime(1000);
+		await expect(breaker.execute(failing)).rejects.toThrow("down");
+
+		expect(breaker.getState()).toBe("open");
+		expect(breaker.remainingCooldownMs()).toBe(1000);
+	});
+
+	it("should ignore errors that do not count as failures", async () => {
+		const breaker = new CircuitBreaker("test", {
+			failureThreshold: 1,
+			cooldownMs: 1000,
+			isFailure: () => false,
+		});
+
+		await expect(breaker.execute(failing)).rejects.toThrow("down");
+		expect(breaker.getState()).toBe("closed");
+	});
+});
@@ -0,0 +1,289 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+	config,
+	getContractDeployments,
+	getSupportedChainIds,
+	isSupportedChain,
+	registerChain,
+	validateChainConfigs,
+} from "../../../src/utils/config";
+import {
+	ChainDefinition,
+	ChainIds,
+	DEFAULT_NATIVE_CURRENCY,
+	defaultChainDefinitions,
+} from "../../../src/types/chains";
+import { ConfigurationError } from "../../../src/errors/AppError";
+import { describe, expect, it, afterEach, jest } from "@jest/globals";
+
+describe("chain registry", () => {
+	const ARBITRUM = 42161;
+	const enabledChains = config.enabledChains;
+	const arbitrum: ChainDefinition = {
+		name: "arbitrum",
+		chainId: ARBITRUM,
+		rpcUrls: ["https://arbitrum.llamarpc.com"],
+		contracts: [
+			{ address: "0x" + "a".repeat(40), startBlock: 100 },
+			{ address: "0x" + "b".repeat(40), startBlock: 500 },
+		],
+		startBlock: 200,
+		confirmations: "finalized",
+		explorerUrl: "https://arbiscan.io",
+	};
+
+	afterEach(() => {
+		delete (config.chains as any)[ARBITRUM];
+		delete process.env.ARBITRUM_START_BLOCK;
+		delete process.env.CHAINS_FILE;
+		(config as any).enabledChains = enabledChains;
+	});
+
+	it("should contain the built-in chains", () => {
+		expect(getSupportedChainIds()).toEqual(
+			expect.arrayContaining([ChainIds.ETHEREUM, ChainIds.POLYGON])
+		);
+		expect(config.chains[ChainIds.POLYGON].name).toBe("polygon");
+		expect(isSupportedChain(999999)).toBe(false);
+	});
+
+	it("should register a chain with its environment overrides", () => {
+		process.env.ARBITRUM_START_BLOCK = "300";
+
+		const chain = registerChain(arbitrum);
+
+		expect(isSupportedChain(ARBITRUM)).toBe(true);
+		expect(chain.startBlock).toBe(300);
+		expect(chain.confirmations).toBe("finalized");
+		expect(chain.indexPending).toBe(false);
+		expect(chain.enrichTransactions).toBe(false);
+		expect(chain.nativeCurrency).toEqual(DEFAULT_NATIVE_CURRENCY);
+		// No deployment starts before the chain's start block
+		expect(getContractDeployments(ARBITRUM).map((d) => d.startBlock)).toEqual([
+			300, 500,
+		]);
+	});
+
+	it("should reject an invalid chain definition", () => {
+		expect(() => registerChain({ ...arbitrum, rpcUrls: [] })).toThrow(
+			/Invalid chain definition: rpcUrls/
+		);
+		expect(isSupportedChain(ARBITRUM)).toBe(false);
+	});
+
+	it("should reject a name that belongs to another chain", () => {
+		expect(() => registerChain({ ...arbitrum, name: "Polygon" })).toThrow(
+			ConfigurationError
+		);
+	});
+
+	it("should fail validation when an enabled chain is not registered", () => {
+		(config as any).enabledChains = [ChainIds.POLYGON, ARBITRUM];
+		expect(() => validateChainConfigs()).toThrow(/42161/);
+
+		registerChain(arbitrum);
+		expect(() => validateChainConfigs()).not.toThrow();
+	});
+
+	it("should load the chains of CHAINS_FILE", () => {
+		const chainsFile = path.join(os.tmpdir(), `chains-${process.pid}.json`);
+		fs.writeFileSync(chainsFile, JSON.stringify([arbitrum]));
+		process.env.CHAINS_FILE = chainsFile;
+		try {
+			jest.isolateModules(() => {
+				const isolated = require("../../../src/utils/config");
+				expect(isolated.getSupportedChainIds()).toEqual([ARBITRUM]);
+			});
+		} finally {
+			fs.unlinkSync(chainsFile);
+		}
+	});
+
+	it("should name the invalid field of CHAINS_FILE", () => {
+		const chainsFile = path.join(os.tmpdir(), `chains-${process.pid}.json`);
+		fs.writeFileSync(
+			chainsFile,
+			JSON.stringify([{ ...arbitrum, explorerUrl: "arbiscan" }])
+		);
+		process.env.CHAINS_FILE = chainsFile;
+		try {
+			jest.isolateModules(() => {
+				expect(() => require("../../../src/utils/config")).toThrow(
+					/0\.explorerUrl/
+				);
+			});
+		} finally {
+			fs.unlinkSync(chainsFile);
+		}
+	});
+});
+
+describe("configuration file", () => {
+	const configFile = path.join(os.tmpdir(), `config-${process.pid}.json`);
+	const writeConfig = (settings: object) =>
+		fs.writeFileSync(configFile, JSON.stringify(settings));
+	const loadIsolated = () => {
+		let isolated: any;
+		jest.isolateModules(() => {
+			isolated = require("../../../src/utils/config");
+		});
+		return isolated;
+	};
+
+	afterEach(() => {
+		delete process.env.CONFIG_FILE;
+		delete process.env.POLYGON_START_BLOCK;
+		delete process.env.POLYGON_RPC_URLS;
+		if (fs.existsSync(configFile)) fs.unlinkSync(configFile);
+	});
+
+	it("should layer the config file and the environment", () => {
+		writeConfig({
+			chunkSize: 800,
+			minChunkSize: 20,
+			rpcRetry: { retries: 7 },
+			enabledChains: [ChainIds.POLYGON, ChainIds.ETHEREUM],
+		});
+		process.env.CONFIG_FILE = configFile;
+		process.env.POLYGON_START_BLOCK = "123";
+		const chunkSize = process.env.CHUNK_SIZE;
+		process.env.CHUNK_SIZE = "700";
+
+		let loaded: any;
+		try {
+			loaded = loadIsolated().config;
+		} finally {
+			if (chunkSize === undefined) delete process.env.CHUNK_SIZE;
+			else process.env.CHUNK_SIZE = chunkSize;
+		}
+
+		expect(loaded.minChunkSize).toBe(20);
+		expect(loaded.rpcRetry).toEqual({
+			retries: 7,
+			baseDelayMs: config.rpcRetry.baseDelayMs,
+			maxDelayMs: config.rpcRetry.maxDelayMs,
+		});
+		// The environment wins over the config file
+		expect(loaded.chunkSize).toBe(700);
+		expect(loaded.maxChunkSize).toBe(700);
+		expect(loaded.enabledChains).toEqual([ChainIds.POLYGON, ChainIds.ETHEREUM]);
+		expect(loaded.chains[ChainIds.POLYGON].startBlock).toBe(123);
+	});
+
+	it("should name the invalid setting and where it came from", () => {
+		writeConfig({ scanMode: "sometimes" });
+		process.env.CONFIG_FILE = configFile;
+
+		expect(loadIsolated).toThrow(
+			`scanMode (from ${configFile}): Invalid enum value`
+		);
+	});
+
+	it("should reject unknown settings in the config file", () => {
+		writeConfig({ chunkSzie: 100 });
+		process.env.CONFIG_FILE = configFile;
+
+		expect(loadIsolated).toThrow(
+			/Unrecognized key\(s\) in object: 'chunkSzie'/
+		);
+	});
+
+	it("should require a price file for the file price source", () => {
+		writeConfig({ prices: { source: "file", maxAgeMs: 3600000 } });
+		process.env.CONFIG_FILE = configFile;
+
+		expect(loadIsolated).toThrow(
+			`prices.file (from ${configFile}): A price file is required for the file price source`
+		);
+	});
+
+	it("should reject a YAML config file", () => {
+		process.env.CONFIG_FILE = "./config.yaml";
+
+		expect(loadIsolated).toThrow(
+			"CONFIG_FILE ./config.yaml: only JSON files are supported"
+		);
+	});
+
+	it("should reject the retired single-chain variables", () => {
+		process.env.START_BLOCK = "61500000";
+		try {
+			expect(loadIsolated).toThrow(
+				/START_BLOCK is no longer supported: set <CHAIN>_START_BLOCK per chain/
+			);
+		} finally {
+			delete process.env.START_BLOCK;
+		}
+
+		process.env.CONTRACT_ADDRESS = "0x" + "a".repeat(40);
+		try {
+			expect(loadIsolated).toThrow(
+				/CONTRACT_ADDRESS is no longer supported: .*`contracts` of each chain/
+			);
+		} finally {
+			delete process.env.CONTRACT_ADDRESS;
+		}
+	});
+
+	it("should name an invalid chain override", () => {
+		process.env.POLYGON_START_BLOCK = "latest";
+
+		expect(loadIsolated).toThrow(
+			"Invalid configuration of chain polygon: startBlock (from POLYGON_START_BLOCK): Expected number, received nan"
+		);
+	});
+
+	it("should apply the safe settings on reload", () => {
+		writeConfig({ enabledChains: [ChainIds.POLYGON] });
+		process.env.CONFIG_FILE = configFile;
+		const isolated = loadIsolated();
+		const startBlock = isolated.config.chains[ChainIds.POLYGON].startBlock;
+
+		writeConfig({
+			enabledChains: [ChainIds.POLYGON, ChainIds.ETHEREUM],
+			reorgWindowSize: 128,
+			pollIntervalMs: 5000,
+			chains: defaultChainDefinitions.map((chain) =>
+				chain.chainId === ChainIds.POLYGON
+					? { ...chain, rpcUrls: ["https://polygon.example"], startBlock: 1 }
+					: chain
+			),
+		});
+		const reload = isolated.reloadConfig();
+
+		expect(reload.enabledChains).toEqual([ChainIds.POLYGON, ChainIds.ETHEREUM]);
+		expect(reload.rpcChangedChains).toEqual([ChainIds.POLYGON]);
+		expect(reload.pollIntervalChangedChains).toEqual(
+			expect.arrayContaining([ChainIds.POLYGON, ChainIds.ETHEREUM])
+		);
+		expect(reload.restartRequired).toEqual(
+			expect.arrayContaining(["reorgWindowSize", "chains.polygon.startBlock"])
+		);
+		expect(isolated.config.enabledChains).toEqual([
+			ChainIds.POLYGON,
+			ChainIds.ETHEREUM,
+		]);
+		expect(isolated.config.chains[ChainIds.POLYGON]).toMatchObject({
+			rpcUrls: ["https://polygon.example"],
+			pollIntervalMs: 5000,
+			startBlock,
+		});
+		expect(isolated.config.reorgWindowSize).toBe(config.reorgWindowSize);
+	});
+
+	it("should keep the configuration when the reloaded file is invalid", () => {
+		writeConfig({ enabledChains: [ChainIds.POLYGON] });
+		process.env.CONFIG_FILE = configFile;
+		const isolated = loadIsolated();
+
+		writeConfig({ enabledChains: [] });
+		expect(() => isolated.reloadConfig()).toThrow(/enabledChains/);
+
+		writeConfig({ enabledChains: [ChainIds.POLYGON, 999999] });
+		expect(() => isolated.reloadConfig()).toThrow(/999999/);
+
+		expect(isolated.config.enabledChains).toEqual([ChainIds.POLYGON]);
+	});
+});
@@ -0,0 +1,24 @@
+import {
+	decodeEventCursor,
+	encodeEventCursor,
+} from "../../../src/utils/eventCursor";
+import { describe, expect, it } from "@jest/globals";
+
+describe("eventCursor", () => {
+	it("should decode the position an encoded cursor points to", () => {
+		const cursor = encodeEventCursor({ blockNumber: 61500000, logIndex: 12 });
+
+		expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+		expect(decodeEventCursor(cursor)).toEqual({
+			blockNumber: 61500000,
+			logIndex: 12,
+		});
+	});
+
+	it("should reject a cursor it did not create", () => {
+		expect(decodeEventCursor("not-a-cursor")).toBeNull();
+		expect(
+			decodeEventCursor(Buffer.from("12:-1").toString("base64url"))
+		).toBeNull();
+	});
+});
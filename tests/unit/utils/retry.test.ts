@@ -0,0 +1,55 @@
+import { withRetry, backoffDelay } from "../../../src/utils/retry";
+import { describe, expect, it, jest } from "@jest/globals";
+
+describe("withRetry", () => {
+	const options = {
+		retries: 3,
+		baseDelayMs: 1,
+		maxDelayMs: 5,
+		shouldRetry: () => true,
+	};
+
+	it("should return the result of the first successful attempt", async () => {
+		const fn = jest
+			.fn<() => Promise<string>>()
+			.mockRejectedValueOnce(new Error("transient"))
+			.mockResolvedValueOnce("ok");
+
+		await expect(withRetry(fn, options)).resolves.toBe("ok");
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	it("should give up after the configured retries", async () => {
+		const fn = jest
+			.fn<() => Promise<string>>()
+			.mockRejectedValue(new Error("down"));
+		const onRetry = jest.fn();
+
+		await expect(withRetry(fn, { ...options, onRetry })).rejects.toThrow(
+			"down"
+		);
+		expect(fn).toHaveBeenCalledTimes(4);
+		expect(onRetry).toHaveBeenCalledTimes(3);
+	});
+
+	it("should not retry errors that are not retryable", async () => {
+		const fn = jest
+			.fn<() => Promise<string>>()
+			.mockRejectedValue(new Error("invalid params"));
+
+		await expect(
+			withRetry(fn, { ...options, shouldRetry: () => false })
+		).rejects.toThrow("invalid params");
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("backoffDelay", () => {
+	it("should stay below the exponential ceiling", () => {
+		for (let attempt = 0; attempt < 10; attempt++) {
+			const delay = backoffDelay(attempt, 100, 1000);
+			expect(delay).toBeGreaterThanOrEqual(0);
+			expect(delay).toBeLessThan(Math.min(1000, 100 * 2 ** attempt));
+		}
+	});
+});
@@ -0,0 +1,75 @@
+import {
+	classifyRpcError,
+	isRangeLimitError,
+} from "../../../src/utils/rpcErrors";
+import { describe, expect, it } from "@jest/globals";
+
+describe("isRangeLimitError", () => {
+	it("should detect result count limits", () => {
+		expect(
+			isRangeLimitError(new Error("query returned more than 10000 results"))
+		).toBe(true);
+	});
+
+	it("should detect block range limits in nested JSON-RPC errors", () => {
+		const error = {
+			message: "processing response error",
+			error: { code: -32000, message: "block range too large" },
+		};
+		expect(isRangeLimitError(error)).toBe(true);
+	});
+
+	it("should ignore unrelated errors", () => {
+		expect(isRangeLimitError(new Error("network error"))).toBe(false);
+		expect(isRangeLimitError(undefined)).toBe(false);
+	});
+});
+
+describe("classifyRpcError", () => {
+	it("should treat ethers timeouts and network errors as retryable", () => {
+		expect(classifyRpcError({ code: "TIMEOUT" })).toEqual({
+			kind: "retryable",
+			reason: "timeout",
+		});
+		expect(classifyRpcError({ code: "NETWORK_ERROR" })).toEqual({
+			kind: "retryable",
+			reason: "network",
+		});
+	});
+
+	it("should treat socket errors as retryable", () => {
+		const error = Object.assign(new Error("socket hang up"), {
+			code: "ECONNRESET",
+		});
+		expect(classifyRpcError(error).kind).toBe("retryable");
+	});
+
+	it("should treat rate limits and server errors as retryable", () => {
+		expect(classifyRpcError({ code: "SERVER_ERROR", status: 429 })).toEqual({
+			kind: "retryable",
+			reason: "server",
+		});
+		expect(classifyRpcError({ error: { code: -32005 } })).toEqual({
+			kind: "retryable",
+			reason: "rate_limit",
+		});
+		expect(classifyRpcError({ status: 503 }).kind).toBe("retryable");
+	});
+
+	it("should treat invalid requests as fatal", () => {
+		expect(classifyRpcError({ code: "INVALID_ARGUMENT" }).kind).toBe("fatal");
+		expect(classifyRpcError({ error: { code: -32602 } }).kind).toBe("fatal");
+	});
+
+	it("should not rely on message wording for retryable errors", () => {
+		expect(classifyRpcError(new Error("request timeout")).kind).toBe("fatal");
+	});
+
+	it("should report range limits before any code", () => {
+		const error = {
+			code: "SERVER_ERROR",
+			body: '{"error":{"message":"query returned more than 10000 results"}}',
+		};
+		expect(classifyRpcError(error).kind).toBe("range_limit");
+	});
+});
@@ -0,0 +1,74 @@
+import { ThroughputTracker } from "../../../src/utils/throughputTracker";
+import { describe, expect, it } from "@jest/globals";
+
+describe("ThroughputTracker", () => {
+	// Tracker with a manually advanced clock
+	const createTracker = (windowMs = 60000) => {
+		let now = 0;
+		const tracker = new ThroughputTracker(windowMs, () => now);
+		return {
+			tracker,
+			advance: (ms: number) => {
+				now += ms;
+			},
+		};
+	};
+
+	it("should start empty", () => {
+		const { tracker } = createTracker();
+
+		expect(tracker.getStats()).toEqual({
+			totalBlocks: 0,
+			totalEvents: 0,
+			totalChunks: 0,
+			failedChunks: 0,
+			inFlight: 0,
+			blocksPerSecond: 0,
+			eventsPerSecond: 0,
+			avgChunkDurationMs: 0,
+			lastChunkAt: null,
+		});
+	});
+
+	it("should compute totals and rates of finished chunks", () => {
+		const { tracker, advance } = createTracker();
+
+		const first = tracker.chunkStarted();
+		const second = tracker.chunkStarted();
+		expect(tracker.getStats().inFlight).toBe(2);
+		advance(1000);
+		tracker.chunkSucceeded(first, 500, 2);
+		advance(1000);
+		tracker.chunkSucceeded(second, 500, 0);
+
+		const stats = tracker.getStats();
+		expect(stats.totalBlocks).toBe(1000);
+		expect(stats.totalEvents).toBe(2);
+		expect(stats.totalChunks).toBe(2);
+		expect(stats.inFlight).toBe(0);
+		expect(stats.blocksPerSecond).toBe(500);
+		expect(stats.eventsPerSecond).toBe(1);
+		expect(stats.avgChunkDurationMs).toBe(1500);
+		expect(stats.lastChunkAt).toBe(2000);
+	});
+
+	it("should count failed chunks", () => {
+		const { tracker } = createTracker();
+
+		tracker.chunkStarted();
+		tracker.chunkFailed();
+
+		expect(tracker.getStats()).toMatchObject({ failedChunks: 1, inFlight: 0 });
+	});
+
+	it("should only use chunks inside the window for rates", () => {
+		const { tracker, advance } = createTracker(10000);
+
+		tracker.chunkSucceeded(tracker.chunkStarted(), 1000, 0);
+		advance(20000);
+
+		const stats = tracker.getStats();
+		expect(stats.totalBlocks).toBe(1000);
+		expect(stats.blocksPerSecond).toBe(0);
+	});
+});
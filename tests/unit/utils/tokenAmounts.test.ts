@@ -0,0 +1,14 @@
+import { formatTokenAmount } from "../../../src/utils/tokenAmounts";
+import { describe, expect, it } from "@jest/globals";
+
+describe("formatTokenAmount", () => {
+	it("should format an amount with the token's decimals", () => {
+		expect(formatTokenAmount("1500000", 6)).toBe("1.5");
+		expect(formatTokenAmount("1000000000000000000", 18)).toBe("1.0");
+		expect(formatTokenAmount("-250", 2)).toBe("-2.5");
+	});
+
+	it("should not format an amount while the decimals are unknown", () => {
+		expect(formatTokenAmount("1500000", undefined)).toBeNull();
+	});
+});